@@ -1,29 +1,71 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { StatusBar } from 'expo-status-bar';
-import { SafeAreaView, StyleSheet, View, TouchableOpacity, Text } from 'react-native';
+import { SafeAreaView, StyleSheet, View, TouchableOpacity, Text, ActivityIndicator } from 'react-native';
 import { ThemeProvider, useTheme } from './contexts/ThemeContext';
 import ScoreCalculatorCard from './components/ScoreCalculatorCard';
 import StatsScreen from './components/StatsScreen';
 import GameBasicsScreen from './components/GameBasicsScreen';
+import SessionScreen from './components/SessionScreen';
+import TournamentScreen from './components/TournamentScreen';
 import { getColors } from './constants/colors';
+import { runStorageMigrations } from './lib/storage/migrations';
+import type { SavedHand } from './lib/types/game';
 import { FontAwesome5 } from '@expo/vector-icons';
 
-type Screen = 'calculator' | 'stats' | 'basics';
+type Screen = 'calculator' | 'session' | 'tournament' | 'stats' | 'basics';
 
 function AppContent() {
-  const { theme } = useTheme();
+  const { theme, reloadTheme } = useTheme();
   const colors = getColors(theme);
   const [currentScreen, setCurrentScreen] = useState<Screen>('calculator');
   const [statsRefreshTrigger, setStatsRefreshTrigger] = useState(0);
+  const [sessionRefreshTrigger, setSessionRefreshTrigger] = useState(0);
+  const [tournamentRefreshTrigger, setTournamentRefreshTrigger] = useState(0);
+  // Screens read storage on mount, so hold them back until saved data is upgraded
+  const [storageReady, setStorageReady] = useState(false);
+
+  useEffect(() => {
+    runStorageMigrations().finally(() => setStorageReady(true));
+  }, []);
+
+  // Saved hand opened from Statistics for correction in the calculator
+  const [editingHand, setEditingHand] = useState<SavedHand | undefined>(undefined);
+
+  // Bumped after a backup restore so every screen remounts and re-reads storage
+  const [dataVersion, setDataVersion] = useState(0);
+
+  const handleDataRestored = () => {
+    reloadTheme();
+    setDataVersion(prev => prev + 1);
+  };
 
   const handleScreenChange = (screen: Screen) => {
     setCurrentScreen(screen);
+    if (screen !== 'calculator') {
+      // Leaving the calculator abandons an edit in progress
+      setEditingHand(undefined);
+    }
     if (screen === 'stats') {
       // Trigger refresh when navigating to stats
       setStatsRefreshTrigger(prev => prev + 1);
     }
+    if (screen === 'session') {
+      // Trigger refresh when navigating to session (hands are added from the calculator)
+      setSessionRefreshTrigger(prev => prev + 1);
+    }
+    if (screen === 'tournament') {
+      // Trigger refresh when navigating to tournament (hands are recorded from the calculator)
+      setTournamentRefreshTrigger(prev => prev + 1);
+    }
+  };
+
+  const handleEditHand = (hand: SavedHand) => {
+    setEditingHand(hand);
+    setCurrentScreen('calculator');
   };
 
+  const handleEditFinished = () => handleScreenChange('stats');
+
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
       <StatusBar style={theme === 'dark' ? 'light' : 'dark'} />
@@ -43,6 +85,32 @@ function AppContent() {
             Calculator
           </Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.tab(colors), currentScreen === 'session' && styles.tabActive(colors)]}
+          onPress={() => handleScreenChange('session')}
+        >
+          <FontAwesome5 
+            name="users" 
+            size={20} 
+            color={currentScreen === 'session' ? (theme === 'dark' ? '#FFFFFF' : colors.primary) : colors.textSecondary} 
+          />
+          <Text style={[styles.tabText(colors), currentScreen === 'session' && styles.tabTextActive(colors, theme)]}>
+            Session
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.tab(colors), currentScreen === 'tournament' && styles.tabActive(colors)]}
+          onPress={() => handleScreenChange('tournament')}
+        >
+          <FontAwesome5 
+            name="trophy" 
+            size={20} 
+            color={currentScreen === 'tournament' ? (theme === 'dark' ? '#FFFFFF' : colors.primary) : colors.textSecondary} 
+          />
+          <Text style={[styles.tabText(colors), currentScreen === 'tournament' && styles.tabTextActive(colors, theme)]}>
+            Tournament
+          </Text>
+        </TouchableOpacity>
         <TouchableOpacity
           style={[styles.tab(colors), currentScreen === 'stats' && styles.tabActive(colors)]}
           onPress={() => handleScreenChange('stats')}
@@ -72,13 +140,25 @@ function AppContent() {
       </View>
 
       {/* Screen Content */}
-      {currentScreen === 'calculator' ? (
-        <ScoreCalculatorCard />
+      <View key={dataVersion} style={{ flex: 1 }}>
+      {!storageReady ? (
+        <ActivityIndicator style={{ marginTop: 32 }} color={colors.primary} />
+      ) : currentScreen === 'calculator' ? (
+        <ScoreCalculatorCard
+          onDataRestored={handleDataRestored}
+          editingHand={editingHand}
+          onEditFinished={handleEditFinished}
+        />
+      ) : currentScreen === 'session' ? (
+        <SessionScreen refreshTrigger={sessionRefreshTrigger} />
+      ) : currentScreen === 'tournament' ? (
+        <TournamentScreen refreshTrigger={tournamentRefreshTrigger} />
       ) : currentScreen === 'stats' ? (
-        <StatsScreen refreshTrigger={statsRefreshTrigger} />
+        <StatsScreen refreshTrigger={statsRefreshTrigger} onEditHand={handleEditHand} />
       ) : (
         <GameBasicsScreen />
       )}
+      </View>
     </SafeAreaView>
   );
 }
@@ -47,6 +47,10 @@ export default function CustomRulesSection({
     );
   };
 
+  // A legacy rule's split-out part scored alongside it, so the pair never conflicts
+  const isSplitPair = (rule: CustomRule, other?: CustomRule) =>
+    other !== undefined && (rule.splitFromId === other.id || other.splitFromId === rule.id);
+
   const handleToggleRule = (ruleId: string, enabled: boolean) => {
     const rule = customRules.find(r => r.id === ruleId);
     if (!rule) return;
@@ -58,9 +62,7 @@ export default function CustomRulesSection({
       // Rule: Cannot have multiplier and points bonus together
       // Rule: Deductions can be combined with multipliers, points bonuses, or other deductions
       
-      // Get winner bonus type (new or legacy format)
-      const ruleWinnerBonusType = rule.winnerBonus?.type || 
-        (rule.type === 'multiplier' ? 'multiplier' : rule.type === 'points' ? 'points' : null);
+      const ruleWinnerBonusType = rule.winnerBonus?.type ?? null;
       
       // Only check conflicts for multiplier and points winner bonuses
       // Penalties never conflict
@@ -68,9 +70,8 @@ export default function CustomRulesSection({
         // Check if any selected rule has a points bonus
         const hasPointsBonus = Array.from(selectedCustomRuleIds).some(id => {
           const selectedRule = customRules.find(r => r.id === id);
-          const selectedWinnerBonusType = selectedRule?.winnerBonus?.type || 
-            (selectedRule?.type === 'multiplier' ? 'multiplier' : selectedRule?.type === 'points' ? 'points' : null);
-          return selectedWinnerBonusType === 'points';
+          const selectedWinnerBonusType = selectedRule?.winnerBonus?.type;
+          return selectedWinnerBonusType === 'points' && !isSplitPair(rule, selectedRule);
         });
         if (hasPointsBonus) {
           Alert.alert(
@@ -83,9 +84,8 @@ export default function CustomRulesSection({
         // Check if any selected rule has a multiplier
         const hasMultiplier = Array.from(selectedCustomRuleIds).some(id => {
           const selectedRule = customRules.find(r => r.id === id);
-          const selectedWinnerBonusType = selectedRule?.winnerBonus?.type || 
-            (selectedRule?.type === 'multiplier' ? 'multiplier' : selectedRule?.type === 'points' ? 'points' : null);
-          return selectedWinnerBonusType === 'multiplier';
+          const selectedWinnerBonusType = selectedRule?.winnerBonus?.type;
+          return selectedWinnerBonusType === 'multiplier' && !isSplitPair(rule, selectedRule);
         });
         if (hasMultiplier) {
           Alert.alert(
@@ -113,22 +113,18 @@ export default function CustomRulesSection({
         const isSelected = selectedCustomRuleIds.has(rule.id);
         // Check if this rule would conflict if enabled
         // Only multiplier and points bonus conflict with each other
-        // Get winner bonus type (new or legacy format)
-        const ruleWinnerBonusType = rule.winnerBonus?.type || 
-          (rule.type === 'multiplier' ? 'multiplier' : rule.type === 'points' ? 'points' : null);
+        const ruleWinnerBonusType = rule.winnerBonus?.type ?? null;
         
         const wouldConflict = !isSelected && ruleWinnerBonusType && (
           (ruleWinnerBonusType === 'multiplier' && Array.from(selectedCustomRuleIds).some(id => {
             const selectedRule = customRules.find(r => r.id === id);
-            const selectedWinnerBonusType = selectedRule?.winnerBonus?.type || 
-              (selectedRule?.type === 'multiplier' ? 'multiplier' : selectedRule?.type === 'points' ? 'points' : null);
-            return selectedWinnerBonusType === 'points';
+            const selectedWinnerBonusType = selectedRule?.winnerBonus?.type;
+            return selectedWinnerBonusType === 'points' && !isSplitPair(rule, selectedRule);
           })) ||
           (ruleWinnerBonusType === 'points' && Array.from(selectedCustomRuleIds).some(id => {
             const selectedRule = customRules.find(r => r.id === id);
-            const selectedWinnerBonusType = selectedRule?.winnerBonus?.type || 
-              (selectedRule?.type === 'multiplier' ? 'multiplier' : selectedRule?.type === 'points' ? 'points' : null);
-            return selectedWinnerBonusType === 'multiplier';
+            const selectedWinnerBonusType = selectedRule?.winnerBonus?.type;
+            return selectedWinnerBonusType === 'multiplier' && !isSplitPair(rule, selectedRule);
           }))
         );
         // Only disable if it's a winner bonus conflict (penalties never conflict)
@@ -145,7 +141,6 @@ export default function CustomRulesSection({
               <Text style={[styles.labelSubtext(colors), { marginTop: 2 }]}>
                 {(() => {
                   const effects: string[] = [];
-                  // New format
                   if (rule.winnerBonus) {
                     if (rule.winnerBonus.type === 'points') {
                       effects.push(`+${rule.winnerBonus.value} points to winner`);
@@ -167,18 +162,6 @@ export default function CustomRulesSection({
                       effects.push(`×${rule.allPlayerPenalty.value} multiplier to all other players`);
                     }
                   }
-                  // Legacy format support
-                  if (effects.length === 0 && rule.type) {
-                    if (rule.type === 'multiplier' && rule.value) {
-                      effects.push(`×${rule.value} multiplier to winner`);
-                    } else if (rule.type === 'points' && rule.value) {
-                      effects.push(`+${rule.value} points to winner`);
-                    } else if (rule.type === 'opponentDeduction' && rule.value) {
-                      effects.push(`-${rule.value} from each opponent`);
-                    } else if (rule.type === 'discarderDeduction' && rule.value) {
-                      effects.push(`-${rule.value} from discarder`);
-                    }
-                  }
                   return effects.length > 0 ? effects.join(', ') : 'No effects configured';
                 })()}
               </Text>
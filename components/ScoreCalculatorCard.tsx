@@ -4,6 +4,8 @@ import { styles } from "./ScoreCalculatorCard.styles";
 import type { WinType, ScoreResult, TournamentGameResult } from "@/lib/scoring/types";
 import { Hand, Tile } from "@/lib/scoring/chineseOfficial/tiles";
 import { TileInputEngine } from "@/lib/scoring/chineseOfficial/tileInputEngine";
+import type { DeclaredMeld } from "@/lib/scoring/chineseOfficial/melds";
+import { DEFAULT_FALSE_MAHJONG_PENALTY } from "@/lib/scoring/chineseOfficial/chineseOfficialEngine";
 import { useTheme } from "@/contexts/ThemeContext";
 import { getColors } from "@/constants/colors";
 import { FontAwesome5 } from '@expo/vector-icons';
@@ -17,7 +19,24 @@ import StandardResultDisplay from "./modes/American/StandardResultDisplay";
 import TournamentResultDisplay from "./modes/Tournament/TournamentResultDisplay";
 import { useHandSelection } from "./modes/useHandSelection";
 import { useCustomRules } from "./modes/useCustomRules";
+import { useHouseRules } from "./modes/useHouseRules";
 import { useClearHandlers } from "./modes/useClearHandlers";
+import { useActiveSession } from "./modes/useActiveSession";
+import { useActiveTournamentEvent } from "./modes/useActiveTournamentEvent";
+import { useTournamentRuleSet } from "./modes/useTournamentRuleSet";
+import { useRoundTimer } from "./modes/useRoundTimer";
+import { useTablePlayers } from "./modes/useTablePlayers";
+import { playerNameMap } from "@/lib/utils/seating";
+import { windTileValue } from "@/lib/utils/rotation";
+import SessionHandControls from "./session/SessionHandControls";
+import EventHandControls from "./tournament/EventHandControls";
+import RoundTimerControls from "./tournament/RoundTimerControls";
+import { createEventHand } from "@/lib/utils/tournamentEvent";
+import {
+  netFromScoreResult,
+  netFromTournamentResult,
+  netFromChineseOfficialResult,
+} from "@/lib/utils/session";
 import ChineseOfficialModeControls from "./modes/Chinese/ChineseOfficialModeControls";
 import { useChineseOfficialResult } from "./modes/Chinese/useChineseOfficialResult";
 import ChineseOfficialResultDisplay from "./modes/Chinese/ChineseOfficialResultDisplay";
@@ -30,13 +49,18 @@ import CategorySelectionModal from "./modals/CategorySelectionModal";
 import ModeSelectorModal from "./modals/ModeSelectorModal";
 import AmericanYearSelectionModal from "./modals/AmericanYearSelectionModal";
 import SettingsMenuModal from "./modals/SettingsMenuModal";
+import HouseRulesModal from "./modals/HouseRulesModal";
+import BackupModal from "./modals/BackupModal";
 import { Row, Label, Seg, RowWithEdit } from "./shared/CalculatorHelpers";
 import CalculatorHeader from "./CalculatorHeader";
 import HandSelectionUI from "./HandSelectionUI";
 import BasePointsInput from "./BasePointsInput";
 import type { HandCardYear, CalculatorCardSet } from '@/lib/data/handData';
 import { getHandScore } from '@/lib/data/handData';
+import { validateScoreInput } from '@/lib/scoring/validation';
 import { DEFAULT_KITTY_PAYOUT, getEffectiveKittyPayout } from '@/lib/scoring/kitty';
+import type { SavedHand, StandardHandControls } from '@/lib/types/game';
+import { controlsFromSavedHand } from '@/lib/utils/handEdit';
 
 type Mode = "standard" | "international" | "chineseOfficial";
 type NmjlPlayType = "regular" | "tournament";
@@ -49,6 +73,9 @@ type Props = {
   defaultNumPlayers?: number; // default 4
   onComputed?: (v: ScoreResult) => void;
   onClose?: () => void;
+  onDataRestored?: () => void; // A backup was restored; saved data changed underneath the app
+  editingHand?: SavedHand; // Saved hand loaded for correction; saving updates it in place
+  onEditFinished?: () => void;
 };
 
 export default function ScoreCalculatorCard({
@@ -57,13 +84,18 @@ export default function ScoreCalculatorCard({
   otherPlayerIds,
   defaultNumPlayers = 4,
   onComputed,
-  onClose
+  onClose,
+  onDataRestored,
+  editingHand,
+  onEditFinished
 }: Props) {
   const { theme, setTheme } = useTheme();
   const colors = getColors(theme);
   const [showThemeMenu, setShowThemeMenu] = useState(false);
   const [showPrivacyPolicy, setShowPrivacyPolicy] = useState(false);
   const [showContactUs, setShowContactUs] = useState(false);
+  const [showHouseRules, setShowHouseRules] = useState(false);
+  const [showBackup, setShowBackup] = useState(false);
   const [showModeSelectorModal, setShowModeSelectorModal] = useState(false);
   
   // Currency/Points selector
@@ -135,19 +167,57 @@ export default function ScoreCalculatorCard({
     }
   };
 
+  // Active game session (running per-player totals across hands)
+  const {
+    activeSession,
+    sessionWinnerId,
+    setSessionWinnerId,
+    sessionDiscarderId,
+    setSessionDiscarderId,
+    sessionOtherPlayerIds,
+    recordSessionHand,
+  } = useActiveSession();
+
+  // Tournament event table being scored from the calculator
+  const { activeEvent, eventTable, recordEventHand } = useActiveTournamentEvent();
+  const scoredEventTable = isTournamentPlay ? eventTable : null;
+
+  // Players at the table (event table entrants, session players, or the roster seated by preferred seat)
+  const { rotation, tablePlayers, tablePlayerIds: playerIds, seatByPlayerId } = useTablePlayers(
+    activeSession,
+    scoredEventTable
+  );
+  const tablePlayerNames = useMemo(() => playerNameMap(tablePlayers), [tablePlayers]);
+  const eastPlayer = tablePlayers.find((p) => p.seatWind === "East");
+
   // Tournament-specific inputs
-  const [playerIds] = useState(["N", "E", "W", "S"]);
-  const [tournamentWinnerId, setTournamentWinnerId] = useState<string>("N");
-  const [tournamentDiscarderId, setTournamentDiscarderId] = useState<string>("W");
+  const [tournamentWinnerId, setTournamentWinnerId] = useState<string>("");
+  const [tournamentDiscarderId, setTournamentDiscarderId] = useState<string>("");
   const [winnerExposureCount, setWinnerExposureCount] = useState<0 | 1 | 2 | 3 | 4>(0);
   const [tournamentGameResult, setTournamentGameResult] =
     useState<TournamentGameResult>("valid_win");
-  const [falseMahjongIntactPlayerId, setFalseMahjongIntactPlayerId] = useState<string>("N");
+  const [falseMahjongIntactPlayerId, setFalseMahjongIntactPlayerId] = useState<string>("");
   const [isWallGame, setIsWallGame] = useState(false);
-  const [deadN, setDeadN] = useState(false);
-  const [deadE, setDeadE] = useState(false);
-  const [deadW, setDeadW] = useState(false);
-  const [deadS, setDeadS] = useState(false);
+  const [deadPlayerIds, setDeadPlayerIds] = useState<string[]>([]);
+  const [tournamentRuleSet, setTournamentRuleSet] = useTournamentRuleSet();
+
+  // Keep tournament selections pointing at players who are actually seated
+  useEffect(() => {
+    if (!playerIds.includes(tournamentWinnerId)) setTournamentWinnerId(playerIds[0] ?? "");
+    if (!playerIds.includes(tournamentDiscarderId)) setTournamentDiscarderId(playerIds[1] ?? "");
+    if (!playerIds.includes(falseMahjongIntactPlayerId)) setFalseMahjongIntactPlayerId(playerIds[0] ?? "");
+    setDeadPlayerIds((prev) => prev.filter((id) => playerIds.includes(id)));
+  }, [playerIds]);
+
+  // Round timer: when time is called, the hand in progress scores as time expired.
+  // Outside tournament play the expiry stays pending for the next tournament hand.
+  const roundTimer = useRoundTimer(isTournamentPlay ? () => {
+    setTournamentGameResult("time_expired");
+    Alert.alert(
+      "Time!",
+      "The round has ended. This hand is now scored as time expired; change the outcome if it finished before time was called."
+    );
+  } : undefined);
 
   // No-Exposures bonus controls
   const [noExposures, setNoExposures] = useState(false);
@@ -184,6 +254,7 @@ export default function ScoreCalculatorCard({
     handName,
     setHandName,
     availableHands,
+    restoreSelection,
   } = useHandSelection(activeHandYear, activeCardSet);
 
   // Auto-fill Base Points from the selected card set, year, category, and line number.
@@ -273,9 +344,31 @@ export default function ScoreCalculatorCard({
     handleOpenCustomRuleModal,
   } = useCustomRules();
 
+  // House rule profiles bundle the settings above so they survive restarts and can be shared
+  const houseRules = useHouseRules({
+    displayMode,
+    setDisplayMode,
+    kittyEnabled,
+    setKittyEnabled,
+    kittyPayout,
+    setKittyPayout,
+    numPlayers,
+    setNumPlayers,
+    customRules,
+    setCustomRules,
+    selectedCustomRuleIds,
+    setSelectedCustomRuleIds,
+    customRuleValues,
+    setCustomRuleValues,
+    suspended: !!editingHand,
+  });
+
   // Chinese Official mode state
   const [chineseOfficialSelectedFans, setChineseOfficialSelectedFans] = useState<Set<string>>(new Set());
   const [chineseOfficialFlowerCount, setChineseOfficialFlowerCount] = useState<string>("0");
+  const [chineseOfficialFalseMahjongPenalty, setChineseOfficialFalseMahjongPenalty] = useState<string>(
+    String(DEFAULT_FALSE_MAHJONG_PENALTY)
+  );
   const [chineseOfficialIsSelfDraw, setChineseOfficialIsSelfDraw] = useState(false);
   const [chineseOfficialIsConcealed, setChineseOfficialIsConcealed] = useState(false);
   const [chineseOfficialPrevalentWindPung, setChineseOfficialPrevalentWindPung] = useState(false);
@@ -289,6 +382,8 @@ export default function ScoreCalculatorCard({
   // Manual tile input engine state
   const [tileInputEngine] = useState(() => new TileInputEngine());
   const [manualTiles, setManualTiles] = useState<Tile[]>([]);
+  const [manualMelds, setManualMelds] = useState<DeclaredMeld[]>([]);
+  const [manualWinningTile, setManualWinningTile] = useState<Tile | null>(null);
   const [tileInputError, setTileInputError] = useState<string | null>(null);
   const [showTilePicker, setShowTilePicker] = useState(false);
 
@@ -324,10 +419,8 @@ export default function ScoreCalculatorCard({
     setIsWallGame,
     setTournamentGameResult,
     setFalseMahjongIntactPlayerId,
-    setDeadN,
-    setDeadE,
-    setDeadW,
-    setDeadS,
+    setDeadPlayerIds,
+    tournamentPlayerIds: playerIds,
     setChineseOfficialSelectedFans,
     setChineseOfficialFlowerCount,
     setChineseOfficialIsSelfDraw,
@@ -338,6 +431,8 @@ export default function ScoreCalculatorCard({
     setDetectedFanIds,
     setChineseOfficialInputMode,
     setManualTiles,
+    setManualMelds,
+    setManualWinningTile,
     setTileInputError,
     tileInputEngine,
   });
@@ -373,8 +468,14 @@ export default function ScoreCalculatorCard({
     }
   };
 
+  // When a session is active, payouts are attributed to its players
+  const effectiveWinnerId = activeSession ? sessionWinnerId : winnerId;
+  const effectiveDiscarderId = activeSession ? sessionDiscarderId : discarderId;
+  const effectiveOtherPlayerIds = activeSession ? sessionOtherPlayerIds : otherPlayerIds;
+  const standardDiscarderId = activeSession && winType !== "discard" ? undefined : effectiveDiscarderId;
+
   // Standard result calculation using custom hook
-  const result = useStandardResult({
+  const { result, input: standardInput } = useStandardResult({
     basePoints,
     winType,
     jokerless,
@@ -387,9 +488,9 @@ export default function ScoreCalculatorCard({
     kittyEnabled,
     kittyPayout,
     displayMode,
-    winnerId,
-    discarderId,
-    otherPlayerIds,
+    winnerId: effectiveWinnerId,
+    discarderId: standardDiscarderId,
+    otherPlayerIds: effectiveOtherPlayerIds,
     exposurePenaltyEnabled,
     exposurePenaltyPerExposure,
     standardWinnerExposureCount,
@@ -397,46 +498,73 @@ export default function ScoreCalculatorCard({
     lastTileClaim,
     robbingTheJoker,
     eastDouble,
-    isWinnerEast,
+    // With a session the seats are known, so East comes from the seat assignments
+    isWinnerEast: activeSession ? undefined : isWinnerEast,
+    seatByPlayerId,
     selectedCustomRuleIds,
     customRules,
     customRuleValues,
+    stackingProfile: houseRules.stackingProfile,
   });
 
+  // Impossible or unusual combinations, shown in the controls and checked again on save
+  const standardInputIssues = useMemo(
+    () =>
+      validateScoreInput(standardInput, {
+        cardYear: activeHandYear,
+        cardSet: activeCardSet,
+        categoryId: selectedCategoryId,
+        lineNumber: selectedHand,
+      }),
+    [standardInput, activeHandYear, activeCardSet, selectedCategoryId, selectedHand]
+  );
+
   // Tournament result calculation
-  const tournamentResult = useTournamentResult({
+  const { result: tournamentResult, input: tournamentInput } = useTournamentResult({
     mode: isTournamentPlay ? "tournament" : "standard",
     basePoints,
     winType,
     tournamentWinnerId,
     tournamentDiscarderId,
       playerIds,
+      playerNames: tablePlayerNames,
       jokerless,
       singlesAndPairs,
       winnerExposureCount,
       isWallGame,
     tournamentGameResult,
     falseMahjongIntactPlayerId,
-    deadN,
-    deadE,
-    deadW,
-    deadS,
+    deadPlayerIds,
+    ruleSet: tournamentRuleSet,
   });
 
+  // Seat rotation supplies the wind context for Chinese Official hands in a session
+  const sessionWinnerSeat = tablePlayers.find((p) => p.id === sessionWinnerId)?.seatWind;
+  const sessionPlayerWind = activeSession && sessionWinnerSeat ? windTileValue(sessionWinnerSeat) : undefined;
+  const sessionPrevalentWind = rotation ? windTileValue(rotation.prevalentWind) : undefined;
+
+  // Tile input knows which sets were claimed, so concealment follows the declared sets
+  const chineseOfficialConcealed = chineseOfficialInputMode === 'tileInput'
+    ? !manualMelds.some((m) => m.exposed)
+    : chineseOfficialIsConcealed;
+
   // Chinese Official result calculation using custom hook
-  const chineseOfficialResult = useChineseOfficialResult({
+  const { result: chineseOfficialResult, input: chineseOfficialInput } = useChineseOfficialResult({
     mode,
     inputMode: chineseOfficialInputMode,
     selectedFans: chineseOfficialSelectedFans,
     flowerCount: chineseOfficialFlowerCount,
+    falseMahjongPenalty: chineseOfficialFalseMahjongPenalty,
     isSelfDraw: chineseOfficialIsSelfDraw,
-    isConcealed: chineseOfficialIsConcealed,
+    isConcealed: chineseOfficialConcealed,
     prevalentWindPung: chineseOfficialPrevalentWindPung,
     seatWindPung: chineseOfficialSeatWindPung,
+    playerWind: sessionPlayerWind,
+    prevalentWind: sessionPrevalentWind,
     hand: chineseOfficialHand,
-    winnerId,
-    discarderId,
-    otherPlayerIds,
+    winnerId: effectiveWinnerId,
+    discarderId: effectiveDiscarderId,
+    otherPlayerIds: effectiveOtherPlayerIds,
     // onOptimalResultChange is optional and not needed - result is returned from hook
     onDetectedFanIdsChange: setDetectedFanIds,
     onSelectedFansChange: setChineseOfficialSelectedFans,
@@ -446,6 +574,72 @@ export default function ScoreCalculatorCard({
     onComputed?.(result);
   }, [result, onComputed]);
 
+  const handleRecordSessionHand = async () => {
+    if (!activeSession) return;
+    try {
+      if (isTournamentPlay) {
+        if (!tournamentResult) return;
+        await recordSessionHand({
+          mode: "tournament",
+          handName: handName || undefined,
+          winnerId: !isWallGame && tournamentGameResult === "valid_win" ? tournamentWinnerId : undefined,
+          wallGame: isWallGame,
+          netByPlayer: netFromTournamentResult(tournamentResult, activeSession.players),
+        });
+      } else if (mode === "chineseOfficial") {
+        if (!chineseOfficialResult) return;
+        await recordSessionHand({
+          mode: "chineseOfficial",
+          winnerId: sessionWinnerId,
+          discarderId: chineseOfficialIsSelfDraw ? undefined : sessionDiscarderId,
+          netByPlayer: netFromChineseOfficialResult(chineseOfficialResult, sessionWinnerId),
+        });
+      } else {
+        if (!wallGame && Number(basePoints || 0) <= 0) {
+          Alert.alert("Missing Base Points", "Enter the hand's base points before adding it to the session.");
+          return;
+        }
+        await recordSessionHand({
+          mode,
+          handName: handName || undefined,
+          winnerId: wallGame ? undefined : sessionWinnerId,
+          discarderId: wallGame || winType !== "discard" ? undefined : sessionDiscarderId,
+          wallGame,
+          netByPlayer: netFromScoreResult(result, activeSession.players, displayMode),
+          kittyContribution:
+            wallGame && displayMode === "currency" ? result.kittyPerPlayer || undefined : undefined,
+        });
+      }
+      Alert.alert("Added", "Hand added to the session. See running totals on the Session tab.");
+    } catch (error) {
+      Alert.alert("Error", "Failed to add hand to session. Please try again.");
+      console.error("Session record error:", error);
+    }
+  };
+
+  const handleRecordEventHand = async () => {
+    if (!scoredEventTable || !tournamentResult || !tournamentInput) return;
+    if (!isWallGame && tournamentGameResult === "valid_win" && Number(basePoints || 0) <= 0) {
+      Alert.alert("Missing Base Points", "Enter the hand's base points before recording it.");
+      return;
+    }
+    try {
+      await recordEventHand(
+        createEventHand(
+          scoredEventTable.tableNumber,
+          tournamentGameResult,
+          tournamentInput,
+          tournamentResult,
+          handName || undefined
+        )
+      );
+      Alert.alert("Recorded", `Hand recorded for table ${scoredEventTable.tableNumber}. See standings on the Tournament tab.`);
+    } catch (error) {
+      Alert.alert("Error", "Failed to record hand. Please try again.");
+      console.error("Tournament record error:", error);
+    }
+  };
+
   // Set display format based on mode and sync wall game states
   useEffect(() => {
     if (isTournamentPlay) {
@@ -468,6 +662,85 @@ export default function ScoreCalculatorCard({
     }
   }, [displayMode, mode]);
 
+  // Controls saved with a hand so it can be edited later
+  const standardControls = useMemo((): StandardHandControls => ({
+    basePoints,
+    winType,
+    jokerless,
+    misnamedJoker,
+    heavenlyHand,
+    noExposures,
+    exposurePenaltyEnabled,
+    exposurePenaltyPerExposure,
+    winnerExposureCount: standardWinnerExposureCount,
+    lastTileFromWall,
+    lastTileClaim,
+    robbingTheJoker,
+    eastDouble,
+    isWinnerEast,
+    wallGame,
+    kittyEnabled,
+    kittyPayout,
+    displayMode,
+    numPlayers,
+    categoryId: selectedCategoryId,
+    lineNumber: selectedHand,
+    handName,
+    selectedCustomRuleIds: Array.from(selectedCustomRuleIds),
+    customRuleValues,
+  }), [
+    basePoints, winType, jokerless, misnamedJoker, heavenlyHand, noExposures,
+    exposurePenaltyEnabled, exposurePenaltyPerExposure, standardWinnerExposureCount,
+    lastTileFromWall, lastTileClaim, robbingTheJoker, eastDouble, isWinnerEast,
+    wallGame, kittyEnabled, kittyPayout, displayMode, numPlayers,
+    selectedCategoryId, selectedHand, handName, selectedCustomRuleIds, customRuleValues,
+  ]);
+
+  // Editing a saved hand: switch to its mode and card year first, then restore the
+  // controls once the mode's own defaults (display mode, selection resets) have run
+  const [pendingControls, setPendingControls] = useState<StandardHandControls | null>(null);
+
+  useEffect(() => {
+    if (!editingHand) return;
+    if (editingHand.mode === "international") {
+      setMode("international");
+      setInternationalHandYear(editingHand.cardYear);
+    } else {
+      setMode("standard");
+      setNmjlPlayType("regular");
+      setAmericanHandYear(editingHand.cardYear);
+    }
+    setPendingControls(controlsFromSavedHand(editingHand));
+  }, [editingHand]);
+
+  useEffect(() => {
+    if (!pendingControls) return;
+    const controls = pendingControls;
+    setDisplayMode(controls.displayMode);
+    setNumPlayers(controls.numPlayers);
+    setBasePoints(controls.basePoints);
+    setWinType(controls.winType);
+    setJokerless(controls.jokerless);
+    setMisnamedJoker(controls.misnamedJoker);
+    setHeavenlyHand(controls.heavenlyHand);
+    setNoExposures(controls.noExposures);
+    setExposurePenaltyEnabled(controls.exposurePenaltyEnabled);
+    setExposurePenaltyPerExposure(controls.exposurePenaltyPerExposure);
+    setStandardWinnerExposureCount(controls.winnerExposureCount);
+    setLastTileFromWall(controls.lastTileFromWall);
+    setLastTileClaim(controls.lastTileClaim);
+    setRobbingTheJoker(controls.robbingTheJoker);
+    setEastDouble(controls.eastDouble);
+    setIsWinnerEast(controls.isWinnerEast);
+    setWallGame(controls.wallGame);
+    setKittyEnabled(controls.kittyEnabled);
+    setKittyPayout(controls.kittyPayout);
+    setSelectedCustomRuleIds(new Set(controls.selectedCustomRuleIds));
+    setCustomRuleValues(controls.customRuleValues);
+    restoreSelection(controls.categoryId, controls.lineNumber, controls.handName);
+    setPendingControls(null);
+  }, [pendingControls]);
+
 
   return (
     <>
@@ -689,10 +962,12 @@ export default function ScoreCalculatorCard({
             robbingTheJoker={robbingTheJoker}
             eastDouble={eastDouble}
             isWinnerEast={isWinnerEast}
+            eastPlayerName={activeSession ? eastPlayer?.name : undefined}
             numPlayers={numPlayers}
             customRules={customRules}
             selectedCustomRuleIds={selectedCustomRuleIds}
             customRuleValues={customRuleValues}
+            inputIssues={standardInputIssues}
             theme={theme}
             onWinTypeChange={handleWinTypeChange}
             onJokerlessChange={setJokerless}
@@ -718,6 +993,18 @@ export default function ScoreCalculatorCard({
       )}
 
       {/* Tournament Mode Controls */}
+      {isTournamentPlay && (
+        <RoundTimerControls
+          timer={roundTimer.timer}
+          status={roundTimer.status}
+          remainingMs={roundTimer.remainingMs}
+          theme={theme}
+          onStart={roundTimer.start}
+          onPause={roundTimer.pause}
+          onReset={roundTimer.reset}
+          onConfigure={roundTimer.configure}
+        />
+      )}
       {isTournamentPlay && (
         <TournamentModeControls
           winType={winType}
@@ -728,12 +1015,11 @@ export default function ScoreCalculatorCard({
           isWallGame={isWallGame}
           tournamentGameResult={tournamentGameResult}
           falseMahjongIntactPlayerId={falseMahjongIntactPlayerId}
-          deadN={deadN}
-          deadE={deadE}
-          deadW={deadW}
-          deadS={deadS}
-          playerIds={playerIds}
+          deadPlayerIds={deadPlayerIds}
+          players={tablePlayers}
+          ruleSet={tournamentRuleSet}
           theme={theme}
+          onRuleSetChange={setTournamentRuleSet}
           onWinTypeChange={setWinType}
           onJokerlessChange={setJokerless}
           onTournamentWinnerIdChange={setTournamentWinnerId}
@@ -741,10 +1027,7 @@ export default function ScoreCalculatorCard({
           onWinnerExposureCountChange={setWinnerExposureCount}
           onTournamentGameResultChange={setTournamentGameResult}
           onFalseMahjongIntactPlayerIdChange={setFalseMahjongIntactPlayerId}
-          onDeadNChange={setDeadN}
-          onDeadEChange={setDeadE}
-          onDeadWChange={setDeadW}
-          onDeadSChange={setDeadS}
+          onDeadPlayerIdsChange={setDeadPlayerIds}
         />
       )}
 
@@ -754,14 +1037,19 @@ export default function ScoreCalculatorCard({
           inputMode={chineseOfficialInputMode}
           selectedFans={chineseOfficialSelectedFans}
           flowerCount={chineseOfficialFlowerCount}
+          falseMahjongPenalty={chineseOfficialFalseMahjongPenalty}
           isSelfDraw={chineseOfficialIsSelfDraw}
-          isConcealed={chineseOfficialIsConcealed}
+          isConcealed={chineseOfficialConcealed}
           prevalentWindPung={chineseOfficialPrevalentWindPung}
           seatWindPung={chineseOfficialSeatWindPung}
+          playerWind={sessionPlayerWind}
+          prevalentWind={sessionPrevalentWind}
           showFanModal={showChineseOfficialFanModal}
           hand={chineseOfficialHand}
           detectedFanIds={detectedFanIds}
           manualTiles={manualTiles}
+          manualMelds={manualMelds}
+          manualWinningTile={manualWinningTile}
           showTilePicker={showTilePicker}
           tileInputError={tileInputError}
           tileInputEngine={tileInputEngine}
@@ -778,6 +1066,7 @@ export default function ScoreCalculatorCard({
           onShowFanModalChange={setShowChineseOfficialFanModal}
           onSelectedFansChange={setChineseOfficialSelectedFans}
           onFlowerCountChange={setChineseOfficialFlowerCount}
+          onFalseMahjongPenaltyChange={setChineseOfficialFalseMahjongPenalty}
           onIsSelfDrawChange={setChineseOfficialIsSelfDraw}
           onIsConcealedChange={setChineseOfficialIsConcealed}
           onPrevalentWindPungChange={setChineseOfficialPrevalentWindPung}
@@ -786,22 +1075,55 @@ export default function ScoreCalculatorCard({
           onUseOptimalSolverChange={setUseOptimalSolver}
           onDetectedFanIdsChange={setDetectedFanIds}
           onManualTilesChange={setManualTiles}
+          onManualMeldsChange={setManualMelds}
+          onManualWinningTileChange={setManualWinningTile}
           onShowTilePickerChange={setShowTilePicker}
           onTileInputErrorChange={setTileInputError}
         />
       )}
 
+      {/* Tournament event table - record this hand against the table's entrants */}
+      {activeEvent && scoredEventTable && (
+        <EventHandControls
+          event={activeEvent}
+          table={scoredEventTable}
+          theme={theme}
+          onRecordHand={handleRecordEventHand}
+        />
+      )}
+
+      {/* Active session - attribute this hand to session players */}
+      {activeSession && (
+        <SessionHandControls
+          session={activeSession}
+          players={tablePlayers}
+          rotation={rotation}
+          showPlayerPickers={!isTournamentPlay}
+          isDiscardWin={mode === "chineseOfficial" ? !chineseOfficialIsSelfDraw : winType === "discard"}
+          wallGame={mode !== "chineseOfficial" && !isTournamentPlay && wallGame}
+          winnerId={sessionWinnerId}
+          discarderId={sessionDiscarderId}
+          theme={theme}
+          onWinnerIdChange={setSessionWinnerId}
+          onDiscarderIdChange={setSessionDiscarderId}
+          onRecordHand={handleRecordSessionHand}
+        />
+      )}
+
       {/* Output */}
       <View style={styles.resultsSection(colors)}>
         {(isRegularNmjlPlay || mode === "international") ? (
           <StandardResultDisplay
             result={result}
+            scoreInput={standardInput}
+            inputIssues={standardInputIssues}
             winType={winType}
             displayMode={displayMode}
             theme={theme}
             eastDouble={eastDouble}
             isWinnerEast={isWinnerEast}
-            winnerId={winnerId}
+            winnerId={effectiveWinnerId}
+            playerNames={activeSession ? tablePlayerNames : undefined}
             selectedCustomRuleIds={selectedCustomRuleIds}
             customRules={customRules}
             handName={handName}
@@ -818,23 +1140,39 @@ export default function ScoreCalculatorCard({
             categoryId={selectedCategoryId}
             selectedHand={selectedHand}
             calculatorMode={mode === "international" ? "international" : "standard"}
+            controls={standardControls}
+            editingHand={editingHand}
+            onEditFinished={onEditFinished}
             onClear={clearStandard}
           />
         ) : isTournamentPlay ? (
           <TournamentResultDisplay
             result={tournamentResult}
             theme={theme}
+            playerNames={tablePlayerNames}
+            input={tournamentInput}
+            gameResult={tournamentGameResult}
+            handName={handName}
+            cardYear={activeHandYear}
+            categoryId={selectedCategoryId}
+            selectedHand={selectedHand}
+            saveSuccess={saveSuccess}
+            onSaveSuccess={setSaveSuccess}
             onClear={clearTournament}
           />
         ) : (
           <ChineseOfficialResultDisplay
             result={chineseOfficialResult}
+            input={chineseOfficialInput}
             inputMode={chineseOfficialInputMode}
             hand={chineseOfficialHand}
             isSelfDraw={chineseOfficialIsSelfDraw}
-            discarderId={discarderId}
+            isConcealed={chineseOfficialConcealed}
+            discarderId={effectiveDiscarderId}
             displayMode={displayMode}
             theme={theme}
+            saveSuccess={saveSuccess}
+            onSaveSuccess={setSaveSuccess}
             onClear={clearChineseOfficial}
           />
         )}
@@ -849,10 +1187,37 @@ export default function ScoreCalculatorCard({
       theme={theme}
       onClose={() => setShowThemeMenu(false)}
       onThemeChange={(newTheme) => setTheme(newTheme)}
+      activeHouseRulesName={houseRules.activeProfile?.name}
+      onHouseRulesPress={() => setShowHouseRules(true)}
+      onBackupPress={() => setShowBackup(true)}
       onPrivacyPolicyPress={() => setShowPrivacyPolicy(true)}
       onContactUsPress={() => setShowContactUs(true)}
     />
 
+    {/* House Rules Modal */}
+    <HouseRulesModal
+      visible={showHouseRules}
+      theme={theme}
+      onClose={() => setShowHouseRules(false)}
+      profiles={houseRules.profiles}
+      activeProfile={houseRules.activeProfile}
+      stackingProfile={houseRules.stackingProfile}
+      onStackingProfileChange={houseRules.setStackingProfile}
+      onSwitchProfile={houseRules.switchProfile}
+      onSaveCurrentAsProfile={houseRules.saveCurrentAsProfile}
+      onDeleteProfile={houseRules.deleteProfile}
+      onImportProfile={houseRules.importProfile}
+      onExportProfile={houseRules.exportProfile}
+    />
+
+    {/* Backup & Restore Modal */}
+    <BackupModal
+      visible={showBackup}
+      theme={theme}
+      onClose={() => setShowBackup(false)}
+      onRestored={() => onDataRestored?.()}
+    />
+
     {/* Privacy Policy Modal */}
     <Modal
       visible={showPrivacyPolicy}
@@ -0,0 +1,591 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, TextInput, Alert, RefreshControl, Modal } from 'react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { getColors } from '@/constants/colors';
+import {
+  getActiveSession,
+  getArchivedSessions,
+  startSession,
+  endSession,
+  resumeSession,
+  deleteSession,
+  removeHandFromSession,
+} from '@/lib/storage/sessionStorage';
+import type { DealerRetention, GameSession, SessionPlayer } from '@/lib/types/session';
+import { SEAT_WINDS, type RosterPlayer } from '@/lib/types/player';
+import { getRoster } from '@/lib/storage/rosterStorage';
+import { seatPlayersFromRoster } from '@/lib/utils/seating';
+import { calculateCurrentRotation, calculateRotationHistory } from '@/lib/utils/rotation';
+import {
+  calculateSessionBalances,
+  calculateRunningBalances,
+  calculateSessionKitty,
+} from '@/lib/utils/session';
+import { formatSignedAmount } from '@/lib/utils/format';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { Seg } from './shared/CalculatorHelpers';
+import SettlementScreen from './SettlementScreen';
+import PlayerRosterModal, { PlayerAvatar } from './modals/PlayerRosterModal';
+
+interface SessionScreenProps {
+  refreshTrigger?: number;
+}
+
+const MODE_LABELS: Record<string, string> = {
+  standard: 'NMJL',
+  international: 'International',
+  tournament: 'Tournament',
+  chineseOfficial: 'Chinese Official',
+};
+
+export default function SessionScreen({ refreshTrigger }: SessionScreenProps) {
+  const { theme } = useTheme();
+  const colors = getColors(theme);
+  const [activeSession, setActiveSession] = useState<GameSession | null>(null);
+  const [archivedSessions, setArchivedSessions] = useState<GameSession[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+  const [settlingSession, setSettlingSession] = useState<GameSession | null>(null);
+
+  // New session form
+  const [sessionName, setSessionName] = useState<string>("");
+  const [playerNames, setPlayerNames] = useState<string[]>(["", "", "", ""]);
+  // Roster player chosen for each seat (null when the name was typed in)
+  const [seatRosterIds, setSeatRosterIds] = useState<(string | null)[]>([null, null, null, null]);
+  const [roster, setRoster] = useState<RosterPlayer[]>([]);
+  const [showRoster, setShowRoster] = useState(false);
+  const [displayMode, setDisplayMode] = useState<"currency" | "points">("currency");
+  const [dealerRetention, setDealerRetention] = useState<DealerRetention>('never');
+  const [rotatePrevalentWind, setRotatePrevalentWind] = useState(false);
+
+  const balances = useMemo(
+    () => (activeSession ? calculateSessionBalances(activeSession) : {}),
+    [activeSession]
+  );
+  const runningBalances = useMemo(
+    () => (activeSession ? calculateRunningBalances(activeSession) : []),
+    [activeSession]
+  );
+  const rotationHistory = useMemo(
+    () => (activeSession ? calculateRotationHistory(activeSession) : []),
+    [activeSession]
+  );
+  const currentRotation = useMemo(
+    () => (activeSession ? calculateCurrentRotation(activeSession) : null),
+    [activeSession]
+  );
+
+  const loadSessions = async () => {
+    try {
+      const [active, archived, players] = await Promise.all([
+        getActiveSession(),
+        getArchivedSessions(),
+        getRoster(),
+      ]);
+      setActiveSession(active);
+      setArchivedSessions(archived);
+      applyRoster(players);
+    } catch (error) {
+      console.error('Error loading sessions:', error);
+    }
+  };
+
+  // Keep seats in sync with the roster and seat players in any empty seats
+  const applyRoster = (players: RosterPlayer[]) => {
+    setRoster(players);
+    const byId = new Map(players.map((p) => [p.id, p]));
+    const nextIds = seatRosterIds.map((id) => (id && byId.has(id) ? id : null));
+    const nextNames = playerNames.map((name, index) => {
+      const id = seatRosterIds[index];
+      if (!id) return name;
+      return byId.get(id)?.name ?? '';
+    });
+    seatPlayersFromRoster(players).forEach((player, index) => {
+      if (!nextNames[index].trim() && byId.has(player.id) && !nextIds.includes(player.id)) {
+        nextIds[index] = player.id;
+        nextNames[index] = player.name;
+      }
+    });
+    setSeatRosterIds(nextIds);
+    setPlayerNames(nextNames);
+  };
+
+  const handleSeatNameChange = (index: number, text: string) => {
+    const nextNames = [...playerNames];
+    nextNames[index] = text;
+    setPlayerNames(nextNames);
+    const nextIds = [...seatRosterIds];
+    nextIds[index] = null;
+    setSeatRosterIds(nextIds);
+  };
+
+  const handleSeatRosterPick = (index: number, player: RosterPlayer) => {
+    const nextNames = [...playerNames];
+    const nextIds = [...seatRosterIds];
+    // A roster player can only sit in one seat
+    const previousSeat = nextIds.indexOf(player.id);
+    if (previousSeat >= 0) {
+      nextIds[previousSeat] = null;
+      nextNames[previousSeat] = '';
+    }
+    nextIds[index] = player.id;
+    nextNames[index] = player.name;
+    setSeatRosterIds(nextIds);
+    setPlayerNames(nextNames);
+  };
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  useEffect(() => {
+    if (refreshTrigger !== undefined) {
+      loadSessions();
+    }
+  }, [refreshTrigger]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadSessions();
+    setRefreshing(false);
+  };
+
+  const formatDate = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return date.toLocaleDateString() + ' ' + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  };
+
+  const playerName = (session: GameSession, id?: string) =>
+    session.players.find((p) => p.id === id)?.name ?? id ?? '';
+
+  const handleStart = async () => {
+    const names = playerNames.map((n) => n.trim());
+    if (names.some((n) => !n)) {
+      Alert.alert("Missing Players", "Enter a name for each of the four seats.");
+      return;
+    }
+    if (new Set(names.map((n) => n.toLowerCase())).size !== names.length) {
+      Alert.alert("Duplicate Names", "Each player needs a different name.");
+      return;
+    }
+    const players: SessionPlayer[] = names.map((name, index) => {
+      const rosterPlayer = roster.find((p) => p.id === seatRosterIds[index]);
+      return {
+        id: rosterPlayer?.id ?? `p${index + 1}`,
+        name,
+        seatWind: SEAT_WINDS[index],
+        avatarColor: rosterPlayer?.avatarColor,
+      };
+    });
+    try {
+      const name = sessionName.trim() || `Game ${new Date().toLocaleDateString()}`;
+      const session = await startSession(name, players, displayMode, {
+        dealerRetention,
+        rotatePrevalentWind,
+      });
+      setActiveSession(session);
+      setSessionName("");
+      setPlayerNames(["", "", "", ""]);
+      setSeatRosterIds([null, null, null, null]);
+    } catch (error) {
+      Alert.alert("Error", "Failed to start session.");
+    }
+  };
+
+  const handleEnd = () => {
+    if (!activeSession) return;
+    Alert.alert(
+      "End Session",
+      "End this session and move it to the archive? You can resume it later.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "End Session",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await endSession(activeSession.id);
+              await loadSessions();
+            } catch (error) {
+              Alert.alert("Error", "Failed to end session.");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleResume = async (sessionId: string) => {
+    try {
+      await resumeSession(sessionId);
+      await loadSessions();
+    } catch (error) {
+      Alert.alert("Error", "Failed to resume session.");
+    }
+  };
+
+  const handleDeleteSession = (sessionId: string) => {
+    Alert.alert(
+      "Delete Session",
+      "Are you sure you want to delete this session? This cannot be undone.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteSession(sessionId);
+              await loadSessions();
+            } catch (error) {
+              Alert.alert("Error", "Failed to delete session.");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDeleteHand = (handId: string) => {
+    if (!activeSession) return;
+    Alert.alert(
+      "Remove Hand",
+      "Remove this hand from the session totals?",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              const updated = await removeHandFromSession(activeSession.id, handId);
+              setActiveSession(updated);
+            } catch (error) {
+              Alert.alert("Error", "Failed to remove hand.");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const kittyTotal = activeSession ? calculateSessionKitty(activeSession) : 0;
+
+  return (
+    <ScrollView
+      style={styles.scrollView(colors)}
+      contentContainerStyle={styles.scrollContent}
+      keyboardShouldPersistTaps="handled"
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={colors.primary} />
+      }
+    >
+      <View style={styles.container(colors)}>
+        <Text style={styles.title(colors)}>Game Session</Text>
+
+        {activeSession ? (
+          <>
+            {/* Running totals */}
+            <View style={styles.card(colors)}>
+              <Text style={styles.cardTitle(colors)}>{activeSession.name}</Text>
+              <Text style={styles.subText(colors)}>Started {formatDate(activeSession.startedAt)}</Text>
+              {currentRotation && (
+                <Text style={styles.subText(colors)}>
+                  Next hand: {currentRotation.prevalentWind} round · East is{' '}
+                  {activeSession.players[currentRotation.dealerIndex]?.name}
+                </Text>
+              )}
+              {activeSession.players.map((player) => (
+                <View key={player.id} style={styles.statRow(colors)}>
+                  <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+                    <PlayerAvatar name={player.name} color={player.avatarColor} size={22} />
+                    <Text style={styles.statLabel(colors)}>
+                      {player.name} ({player.seatWind})
+                    </Text>
+                  </View>
+                  <Text style={styles.statValue(colors)}>
+                    {formatSignedAmount(balances[player.id] ?? 0, activeSession.displayMode)}
+                  </Text>
+                </View>
+              ))}
+              {kittyTotal > 0 && (
+                <View style={styles.statRow(colors)}>
+                  <Text style={styles.statLabel(colors)}>Kitty</Text>
+                  <Text style={styles.statValue(colors)}>
+                    {formatSignedAmount(kittyTotal, activeSession.displayMode)}
+                  </Text>
+                </View>
+              )}
+              <Text style={[styles.subText(colors), { marginTop: 8 }]}>
+                Add hands from the calculator using "Add Hand to Session".
+              </Text>
+              <TouchableOpacity onPress={() => setSettlingSession(activeSession)} style={styles.primaryButton(colors)}>
+                <Text style={styles.buttonText(colors)}>Settle Up</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={handleEnd} style={styles.dangerButton(colors)}>
+                <Text style={styles.buttonText(colors)}>End Session</Text>
+              </TouchableOpacity>
+            </View>
+
+            {/* Hands in play order */}
+            <View style={styles.card(colors)}>
+              <Text style={styles.cardTitle(colors)}>Hands ({activeSession.hands.length})</Text>
+              {activeSession.hands.length === 0 ? (
+                <Text style={styles.emptyText(colors)}>No hands recorded yet.</Text>
+              ) : (
+                activeSession.hands.map((hand, index) => (
+                  <View key={hand.id} style={styles.handRow(colors)}>
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.handTitle(colors)}>
+                        #{index + 1} {hand.handName || MODE_LABELS[hand.mode]}
+                        {rotationHistory[index] ? ` (East: ${activeSession.players[rotationHistory[index].dealerIndex]?.name})` : ''}
+                        {hand.wallGame ? ' — Wall Game' : hand.winnerId ? ` — ${playerName(activeSession, hand.winnerId)} wins` : ''}
+                      </Text>
+                      <Text style={styles.subText(colors)}>
+                        {activeSession.players
+                          .map((p) => `${p.name} ${formatSignedAmount(hand.netByPlayer[p.id] ?? 0, activeSession.displayMode)}`)
+                          .join(' · ')}
+                      </Text>
+                      <Text style={styles.subText(colors)}>
+                        Running: {activeSession.players
+                          .map((p) => `${p.name} ${formatSignedAmount(runningBalances[index]?.[p.id] ?? 0, activeSession.displayMode)}`)
+                          .join(' · ')}
+                      </Text>
+                    </View>
+                    <TouchableOpacity onPress={() => handleDeleteHand(hand.id)} style={{ padding: 8 }}>
+                      <FontAwesome5 name="trash" size={14} color={colors.textSecondary} />
+                    </TouchableOpacity>
+                  </View>
+                ))
+              )}
+            </View>
+          </>
+        ) : (
+          /* Start a new session */
+          <View style={styles.card(colors)}>
+            <Text style={styles.cardTitle(colors)}>Start a Session</Text>
+            <TextInput
+              value={sessionName}
+              onChangeText={setSessionName}
+              placeholder="Session name (optional)"
+              placeholderTextColor={colors.textSecondary}
+              style={styles.textInput(colors)}
+            />
+            {SEAT_WINDS.map((seat, index) => (
+              <View key={seat}>
+                <TextInput
+                  value={playerNames[index]}
+                  onChangeText={(text) => handleSeatNameChange(index, text)}
+                  placeholder={`${seat} player`}
+                  placeholderTextColor={colors.textSecondary}
+                  style={styles.textInput(colors)}
+                />
+                {roster.length > 0 && (
+                  <View style={[styles.segRow, { flexWrap: 'wrap' as const, marginBottom: 8 }]}>
+                    {roster.map((player) => (
+                      <Seg
+                        key={player.id}
+                        selected={seatRosterIds[index] === player.id}
+                        onPress={() => handleSeatRosterPick(index, player)}
+                        colors={colors}
+                        theme={theme}
+                      >
+                        {player.name}
+                      </Seg>
+                    ))}
+                  </View>
+                )}
+              </View>
+            ))}
+            <View style={styles.segRow}>
+              <Seg selected={displayMode === "currency"} onPress={() => setDisplayMode("currency")} colors={colors} theme={theme}>$$ (Money)</Seg>
+              <Seg selected={displayMode === "points"} onPress={() => setDisplayMode("points")} colors={colors} theme={theme}>Points</Seg>
+            </View>
+            <Text style={[styles.subText(colors), { marginTop: 8 }]}>East keeps the deal</Text>
+            <View style={[styles.segRow, { flexWrap: 'wrap' as const }]}>
+              <Seg selected={dealerRetention === 'never'} onPress={() => setDealerRetention('never')} colors={colors} theme={theme}>Never</Seg>
+              <Seg selected={dealerRetention === 'dealerWin'} onPress={() => setDealerRetention('dealerWin')} colors={colors} theme={theme}>When East wins</Seg>
+              <Seg selected={dealerRetention === 'dealerWinOrWallGame'} onPress={() => setDealerRetention('dealerWinOrWallGame')} colors={colors} theme={theme}>East wins or wall game</Seg>
+            </View>
+            <Text style={[styles.subText(colors), { marginTop: 8 }]}>Prevalent wind</Text>
+            <View style={styles.segRow}>
+              <Seg selected={!rotatePrevalentWind} onPress={() => setRotatePrevalentWind(false)} colors={colors} theme={theme}>Stays East</Seg>
+              <Seg selected={rotatePrevalentWind} onPress={() => setRotatePrevalentWind(true)} colors={colors} theme={theme}>Rotates each round (MCR)</Seg>
+            </View>
+            <TouchableOpacity onPress={handleStart} style={styles.primaryButton(colors)}>
+              <Text style={styles.buttonText(colors)}>Start Session</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setShowRoster(true)} style={{ padding: 12, alignItems: 'center' }}>
+              <Text style={styles.subText(colors)}>
+                <FontAwesome5 name="users" size={12} color={colors.textSecondary} /> Manage Player Roster
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Archive of past sessions */}
+        <View style={styles.card(colors)}>
+          <Text style={styles.cardTitle(colors)}>Past Sessions</Text>
+          {archivedSessions.length === 0 ? (
+            <Text style={styles.emptyText(colors)}>No past sessions yet.</Text>
+          ) : (
+            archivedSessions.map((session) => {
+              const finalBalances = calculateSessionBalances(session);
+              return (
+                <View key={session.id} style={styles.handRow(colors)}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.handTitle(colors)}>{session.name}</Text>
+                    <Text style={styles.subText(colors)}>
+                      {formatDate(session.startedAt)} · {session.hands.length} hand{session.hands.length === 1 ? '' : 's'}
+                    </Text>
+                    <Text style={styles.subText(colors)}>
+                      {session.players
+                        .map((p) => `${p.name} ${formatSignedAmount(finalBalances[p.id] ?? 0, session.displayMode)}`)
+                        .join(' · ')}
+                    </Text>
+                  </View>
+                  <TouchableOpacity onPress={() => setSettlingSession(session)} style={{ padding: 8 }}>
+                    <FontAwesome5 name="hand-holding-usd" size={14} color={colors.primaryLight} />
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => handleResume(session.id)} style={{ padding: 8 }}>
+                    <FontAwesome5 name="play" size={14} color={colors.primaryLight} />
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => handleDeleteSession(session.id)} style={{ padding: 8 }}>
+                    <FontAwesome5 name="trash" size={14} color={colors.textSecondary} />
+                  </TouchableOpacity>
+                </View>
+              );
+            })
+          )}
+        </View>
+      </View>
+
+      <PlayerRosterModal
+        visible={showRoster}
+        theme={theme}
+        onClose={() => setShowRoster(false)}
+        onRosterChange={applyRoster}
+      />
+
+      {/* Settlement Modal */}
+      <Modal
+        visible={settlingSession !== null}
+        transparent={false}
+        animationType="slide"
+        onRequestClose={() => setSettlingSession(null)}
+      >
+        {settlingSession && (
+          <SettlementScreen session={settlingSession} onClose={() => setSettlingSession(null)} />
+        )}
+      </Modal>
+    </ScrollView>
+  );
+}
+
+const styles = {
+  scrollView: (colors: any) => ({
+    flex: 1,
+    backgroundColor: colors.background,
+  }),
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  container: (colors: any) => ({
+    gap: 16,
+  }),
+  title: (colors: any) => ({
+    fontSize: 24,
+    fontWeight: '700' as const,
+    color: colors.text,
+    marginBottom: 8,
+  }),
+  card: (colors: any) => ({
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    gap: 8,
+    shadowColor: colors.shadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3.84,
+    elevation: 5,
+  }),
+  cardTitle: (colors: any) => ({
+    fontSize: 18,
+    fontWeight: '700' as const,
+    color: colors.text,
+  }),
+  subText: (colors: any) => ({
+    fontSize: 12,
+    color: colors.textSecondary,
+  }),
+  statRow: (colors: any) => ({
+    flexDirection: 'row' as const,
+    justifyContent: 'space-between' as const,
+    alignItems: 'center' as const,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  }),
+  statLabel: (colors: any) => ({
+    fontSize: 14,
+    color: colors.textSecondary,
+  }),
+  statValue: (colors: any) => ({
+    fontSize: 16,
+    fontWeight: '700' as const,
+    color: colors.text,
+  }),
+  handRow: (colors: any) => ({
+    flexDirection: 'row' as const,
+    alignItems: 'flex-start' as const,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  }),
+  handTitle: (colors: any) => ({
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: colors.text,
+    marginBottom: 2,
+  }),
+  emptyText: (colors: any) => ({
+    textAlign: 'center' as const,
+    color: colors.textSecondary,
+    fontSize: 14,
+    padding: 12,
+  }),
+  textInput: (colors: any) => ({
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: colors.text,
+    backgroundColor: colors.inputBackground,
+  }),
+  segRow: {
+    flexDirection: 'row' as const,
+    gap: 8,
+  },
+  primaryButton: (colors: any) => ({
+    backgroundColor: colors.primary,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center' as const,
+    marginTop: 8,
+  }),
+  dangerButton: (colors: any) => ({
+    backgroundColor: colors.clearButton,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center' as const,
+    marginTop: 8,
+  }),
+  buttonText: (colors: any) => ({
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700' as const,
+  }),
+};
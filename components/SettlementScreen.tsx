@@ -0,0 +1,145 @@
+import React, { useMemo } from 'react';
+import { View, Text, ScrollView, StyleSheet, TouchableOpacity, Platform } from 'react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { getColors } from '@/constants/colors';
+import { FontAwesome5 } from '@expo/vector-icons';
+import type { GameSession } from '@/lib/types/session';
+import { calculateSessionSettlement, KITTY_PARTY_ID } from '@/lib/utils/settlement';
+import { formatAmount, formatSignedAmount } from '@/lib/utils/format';
+
+interface SettlementScreenProps {
+  session: GameSession;
+  onClose?: () => void;
+}
+
+export default function SettlementScreen({ session, onClose }: SettlementScreenProps) {
+  const { theme } = useTheme();
+  const colors = getColors(theme);
+  const settlement = useMemo(() => calculateSessionSettlement(session), [session]);
+
+  const partyName = (id: string) =>
+    id === KITTY_PARTY_ID ? 'Kitty' : session.players.find((p) => p.id === id)?.name ?? id;
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { backgroundColor: colors.card, borderBottomColor: colors.border }]}>
+        <Text style={[styles.title, { color: colors.text }]}>Settle Up</Text>
+        {onClose && (
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <FontAwesome5 name="times" size={20} color={colors.text} />
+          </TouchableOpacity>
+        )}
+      </View>
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.contentContainer}>
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>{session.name}</Text>
+
+        <View style={[styles.card, { backgroundColor: colors.card }]}>
+          <Text style={[styles.cardTitle, { color: colors.text }]}>Net Balances</Text>
+          {Object.entries(settlement.balances).map(([id, amount]) => (
+            <View key={id} style={[styles.row, { borderBottomColor: colors.border }]}>
+              <Text style={[styles.label, { color: colors.textSecondary }]}>{partyName(id)}</Text>
+              <Text style={[styles.value, { color: colors.text }]}>
+                {formatSignedAmount(amount, session.displayMode)}
+              </Text>
+            </View>
+          ))}
+        </View>
+
+        <View style={[styles.card, { backgroundColor: colors.card }]}>
+          <Text style={[styles.cardTitle, { color: colors.text }]}>
+            Payments ({settlement.transfers.length})
+          </Text>
+          {settlement.transfers.length === 0 ? (
+            <Text style={[styles.label, { color: colors.textSecondary }]}>Everyone is square.</Text>
+          ) : (
+            settlement.transfers.map((transfer, index) => (
+              <View key={index} style={[styles.row, { borderBottomColor: colors.border }]}>
+                <Text style={[styles.label, { color: colors.text, flex: 1 }]}>
+                  {partyName(transfer.from)} pays {partyName(transfer.to)}
+                </Text>
+                <Text style={[styles.value, { color: colors.primaryLight }]}>
+                  {formatAmount(transfer.amount, session.displayMode)}
+                </Text>
+              </View>
+            ))
+          )}
+          {settlement.imbalance !== 0 && (
+            <Text style={[styles.note, { color: colors.textSecondary }]}>
+              Balances are off by {formatSignedAmount(settlement.imbalance, session.displayMode)} (flat
+              bonuses paid to the winner are not charged to a specific player), so that amount is left
+              unsettled.
+            </Text>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: Platform.OS === 'ios' ? 50 : 16,
+    paddingBottom: 16,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+    position: 'relative',
+    minHeight: Platform.OS === 'ios' ? 80 : 60,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  closeButton: {
+    position: 'absolute',
+    right: 20,
+    top: Platform.OS === 'ios' ? 50 : 16,
+    padding: 8,
+    zIndex: 10,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+    gap: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+  },
+  label: {
+    fontSize: 14,
+  },
+  value: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  note: {
+    fontSize: 12,
+    marginTop: 8,
+    fontStyle: 'italic',
+  },
+});
@@ -1,13 +1,18 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { View, Text, ScrollView, TouchableOpacity, Alert, RefreshControl } from 'react-native';
+import { View, Text, ScrollView, TouchableOpacity, Alert, RefreshControl, Share } from 'react-native';
 import { useTheme } from '@/contexts/ThemeContext';
 import { getColors } from '@/constants/colors';
-import { getSavedHands, deleteHand, clearHandsForCardSetAndYear } from '@/lib/storage/handStorage';
+import { getSavedHands, deleteHand, updateHand, clearHandsForCardSetAndYear } from '@/lib/storage/handStorage';
+import { getActiveHouseRuleProfile } from '@/lib/storage/houseRulesStorage';
 import { SavedHand } from '@/lib/types/game';
-import { calculateStats } from '@/lib/utils/stats';
+import { calculateStats, calculateChineseOfficialStats, calculateTournamentStats } from '@/lib/utils/stats';
+import { formatAmount } from '@/lib/utils/format';
+import { exportHandsToCsv, exportHandsToJson } from '@/lib/utils/handExport';
+import { isScoredByOlderEngine, rescoreHand, type RescoreOutcome } from '@/lib/utils/rescore';
 import {
   CARD_YEARS,
   STATS_CARD_SETS,
+  cardSetHasYears,
   filterHandsByCardSetAndYear,
   sortHandsByCardOrder,
   type StatsCardSet,
@@ -15,18 +20,22 @@ import {
 import type { HandCardYear } from '@/lib/data/handCategories';
 import { FontAwesome5 } from '@expo/vector-icons';
 import { Seg } from './shared/CalculatorHelpers';
+import ImportHandsModal from './modals/ImportHandsModal';
 
 interface StatsScreenProps {
   refreshTrigger?: number;
+  /** Open a saved hand in the calculator to correct it. */
+  onEditHand?: (hand: SavedHand) => void;
 }
 
-export default function StatsScreen({ refreshTrigger }: StatsScreenProps) {
+export default function StatsScreen({ refreshTrigger, onEditHand }: StatsScreenProps) {
   const { theme } = useTheme();
   const colors = getColors(theme);
   const [allHands, setAllHands] = useState<SavedHand[]>([]);
   const [selectedCardSet, setSelectedCardSet] = useState<StatsCardSet>('american');
   const [selectedYear, setSelectedYear] = useState<HandCardYear>('2026');
   const [refreshing, setRefreshing] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
 
   const yearHands = useMemo(() => {
     const filtered = filterHandsByCardSetAndYear(allHands, selectedCardSet, selectedYear);
@@ -34,6 +43,13 @@ export default function StatsScreen({ refreshTrigger }: StatsScreenProps) {
   }, [allHands, selectedCardSet, selectedYear]);
 
   const stats = useMemo(() => calculateStats(yearHands), [yearHands]);
+  const isChineseOfficial = selectedCardSet === 'chineseOfficial';
+  const chineseOfficialStats = useMemo(
+    () => (isChineseOfficial ? calculateChineseOfficialStats(yearHands) : null),
+    [isChineseOfficial, yearHands]
+  );
+  const tournamentStats = useMemo(() => calculateTournamentStats(yearHands), [yearHands]);
+  const showsYears = cardSetHasYears(selectedCardSet);
 
   const loadHands = async () => {
     try {
@@ -86,8 +102,10 @@ export default function StatsScreen({ refreshTrigger }: StatsScreenProps) {
     const cardLabel =
       STATS_CARD_SETS.find((set) => set.id === selectedCardSet)?.label ?? selectedCardSet;
     Alert.alert(
-      `Clear ${selectedYear} History`,
-      `Are you sure you want to delete all saved ${cardLabel} hands for the ${selectedYear} card? This cannot be undone.`,
+      showsYears ? `Clear ${selectedYear} History` : "Clear History",
+      showsYears
+        ? `Are you sure you want to delete all saved ${cardLabel} hands for the ${selectedYear} card? This cannot be undone.`
+        : `Are you sure you want to delete all saved ${cardLabel} hands? This cannot be undone.`,
       [
         { text: "Cancel", style: "cancel" },
         {
@@ -106,17 +124,103 @@ export default function StatsScreen({ refreshTrigger }: StatsScreenProps) {
     );
   };
 
+  const handleExport = async (format: 'csv' | 'json') => {
+    const message = format === 'csv'
+      ? exportHandsToCsv(allHands, selectedCardSet, selectedYear)
+      : exportHandsToJson(allHands, selectedCardSet, selectedYear);
+    try {
+      await Share.share({
+        title: `${selectedCardLabel}${showsYears ? ` ${selectedYear}` : ''} hands (${format.toUpperCase()})`,
+        message,
+      });
+    } catch (error) {
+      Alert.alert("Error", "Failed to export hands.");
+    }
+  };
+
+  /** Re-score with the current engine, using the active house rules when one is set. */
+  const rescore = async (hands: SavedHand[]): Promise<RescoreOutcome[]> => {
+    const profile = await getActiveHouseRuleProfile();
+    const options = profile
+      ? {
+          stackingProfile: profile.stackingProfile,
+          customRules: profile.customRules,
+          customRuleValues: profile.customRuleValues,
+        }
+      : {};
+    return hands
+      .map((hand) => rescoreHand(hand, options))
+      .filter((outcome): outcome is RescoreOutcome => outcome !== null);
+  };
+
+  const applyRescores = async (outcomes: RescoreOutcome[]) => {
+    try {
+      for (const outcome of outcomes) {
+        await updateHand(outcome.hand);
+      }
+      await loadHands();
+    } catch (error) {
+      Alert.alert("Error", "Failed to update hands.");
+    }
+  };
+
+  const handleRescore = async (hand: SavedHand) => {
+    const [outcome] = await rescore([hand]);
+    if (!outcome) return;
+    if (!outcome.changed) {
+      Alert.alert(
+        "No Change",
+        `The current rules still score this hand at ${formatAmount(outcome.total, hand.displayMode)}.`
+      );
+      return;
+    }
+    const lines = [`Value: ${formatAmount(outcome.previousTotal, hand.displayMode)} → ${formatAmount(outcome.total, hand.displayMode)}`];
+    const before = outcome.previousPerLoserAmounts;
+    const after = outcome.hand.perLoserAmounts;
+    if (before?.discarder !== after?.discarder && after?.discarder !== undefined) {
+      lines.push(`Discarder pays: ${formatAmount(before?.discarder ?? 0, hand.displayMode)} → ${formatAmount(after.discarder, hand.displayMode)}`);
+    }
+    if (before?.others !== after?.others && after?.others !== undefined) {
+      lines.push(`Others pay: ${formatAmount(before?.others ?? 0, hand.displayMode)} → ${formatAmount(after.others, hand.displayMode)}`);
+    }
+    Alert.alert("Re-score Hand", lines.join('\n'), [
+      { text: "Cancel", style: "cancel" },
+      { text: "Apply", onPress: () => applyRescores([outcome]) },
+    ]);
+  };
+
+  /** Re-score the hands an older engine scored; hands from this engine are re-scored one at a time. */
+  const handleRescoreAll = async () => {
+    const outdated = yearHands.filter(isScoredByOlderEngine);
+    const outcomes = await rescore(outdated);
+    const changed = outcomes.filter((outcome) => outcome.changed);
+    const skipped = yearHands.filter((hand) => !hand.scoreInput).length;
+    const skippedNote = skipped > 0
+      ? `\n${skipped} older hand${skipped === 1 ? ' was' : 's were'} saved without full details and can't be re-scored.`
+      : '';
+    if (outdated.length === 0) {
+      Alert.alert("Up to Date", `Every hand was scored by the current engine.${skippedNote}`);
+      return;
+    }
+    if (changed.length === 0) {
+      Alert.alert("No Changes", `The current rules give the same values for every older hand.${skippedNote}`);
+      return;
+    }
+    Alert.alert(
+      "Re-score Hands",
+      `${changed.length} of ${outcomes.length} hand${outcomes.length === 1 ? '' : 's'} would change value.${skippedNote}`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Apply", onPress: () => applyRescores(changed) },
+      ]
+    );
+  };
+
   const formatDate = (timestamp: number) => {
     const date = new Date(timestamp);
     return date.toLocaleDateString() + ' ' + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
-  const formatAmount = (amount: number, displayMode: "currency" | "points") => {
-    return displayMode === "currency"
-      ? `$${(amount / 100).toFixed(2)}`
-      : `${amount} pts`;
-  };
-
   const topHands = Object.entries(stats.favoriteHands)
     .sort(([, a], [, b]) => b - a)
     .slice(0, 5);
@@ -157,24 +261,28 @@ export default function StatsScreen({ refreshTrigger }: StatsScreenProps) {
         </View>
 
         {/* Card year selector */}
-        <View style={styles.yearSelectorCard(colors)}>
-          <Text style={styles.cardTitle(colors)}>Card Year</Text>
-          <View style={styles.yearSelectorRow(colors)}>
-            {CARD_YEARS.map((year) => (
-              <Seg
-                key={year}
-                selected={selectedYear === year}
-                onPress={() => setSelectedYear(year)}
-                colors={colors}
-                theme={theme}
-              >
-                {year} ({cardSetHandCount(selectedCardSet, year)})
-              </Seg>
-            ))}
+        {showsYears && (
+          <View style={styles.yearSelectorCard(colors)}>
+            <Text style={styles.cardTitle(colors)}>Card Year</Text>
+            <View style={styles.yearSelectorRow(colors)}>
+              {CARD_YEARS.map((year) => (
+                <Seg
+                  key={year}
+                  selected={selectedYear === year}
+                  onPress={() => setSelectedYear(year)}
+                  colors={colors}
+                  theme={theme}
+                >
+                  {year} ({cardSetHandCount(selectedCardSet, year)})
+                </Seg>
+              ))}
+            </View>
           </View>
-        </View>
+        )}
 
-        <Text style={styles.yearHeading(colors)}>{selectedCardLabel} — {selectedYear}</Text>
+        <Text style={styles.yearHeading(colors)}>
+          {selectedCardLabel}{showsYears ? ` — ${selectedYear}` : ''}
+        </Text>
 
         {/* Stats Overview */}
         <View style={styles.statsCard(colors)}>
@@ -209,29 +317,94 @@ export default function StatsScreen({ refreshTrigger }: StatsScreenProps) {
           </View>
         </View>
 
-        {/* Hand Type Stats */}
-        <View style={styles.statsCard(colors)}>
-          <Text style={styles.cardTitle(colors)}>Hand Types</Text>
-          <View style={styles.statRow(colors)}>
-            <Text style={styles.statLabel(colors)}>Jokerless Hands:</Text>
-            <Text style={styles.statValue(colors)}>{stats.jokerlessCount}</Text>
-          </View>
-          <View style={styles.statRow(colors)}>
-            <Text style={styles.statLabel(colors)}>Self-Pick Wins:</Text>
-            <Text style={styles.statValue(colors)}>{stats.selfPickCount}</Text>
-          </View>
-          <View style={styles.statRow(colors)}>
-            <Text style={styles.statLabel(colors)}>Discard Wins:</Text>
-            <Text style={styles.statValue(colors)}>{stats.discardWinCount}</Text>
+        {/* Chinese Official fan stats */}
+        {chineseOfficialStats && chineseOfficialStats.totalHands > 0 && (
+          <>
+            <View style={styles.statsCard(colors)}>
+              <Text style={styles.cardTitle(colors)}>Fans</Text>
+              <View style={styles.statRow(colors)}>
+                <Text style={styles.statLabel(colors)}>Average Fan Total:</Text>
+                <Text style={styles.statValue(colors)}>{chineseOfficialStats.averageFanPoints.toFixed(1)}</Text>
+              </View>
+              {chineseOfficialStats.fanCounts.slice(0, 5).map((fan) => (
+                <View key={fan.id} style={styles.statRow(colors)}>
+                  <Text style={styles.statLabel(colors)}>{fan.name}:</Text>
+                  <Text style={styles.statValue(colors)}>{fan.count} {fan.count === 1 ? 'time' : 'times'}</Text>
+                </View>
+              ))}
+            </View>
+            <View style={styles.statsCard(colors)}>
+              <Text style={styles.cardTitle(colors)}>Points Above the 8-Point Minimum</Text>
+              {chineseOfficialStats.marginDistribution.map((bucket) => (
+                <View key={bucket.label} style={styles.statRow(colors)}>
+                  <Text style={styles.statLabel(colors)}>{bucket.label}:</Text>
+                  <Text style={styles.statValue(colors)}>{bucket.count}</Text>
+                </View>
+              ))}
+            </View>
+          </>
+        )}
+
+        {/* Tournament outcomes and per-player points */}
+        {tournamentStats.totalHands > 0 && (
+          <View style={styles.statsCard(colors)}>
+            <Text style={styles.cardTitle(colors)}>Tournament</Text>
+            <View style={styles.statRow(colors)}>
+              <Text style={styles.statLabel(colors)}>Tournament Hands:</Text>
+              <Text style={styles.statValue(colors)}>{tournamentStats.totalHands}</Text>
+            </View>
+            <View style={styles.statRow(colors)}>
+              <Text style={styles.statLabel(colors)}>Mah Jongg:</Text>
+              <Text style={styles.statValue(colors)}>{tournamentStats.validWins}</Text>
+            </View>
+            <View style={styles.statRow(colors)}>
+              <Text style={styles.statLabel(colors)}>Average Winner Points:</Text>
+              <Text style={styles.statValue(colors)}>{tournamentStats.averageWinnerPoints.toFixed(1)}</Text>
+            </View>
+            <View style={styles.statRow(colors)}>
+              <Text style={styles.statLabel(colors)}>Discarder Penalties:</Text>
+              <Text style={styles.statValue(colors)}>{tournamentStats.discarderPenaltyPoints}</Text>
+            </View>
+            <View style={styles.statRow(colors)}>
+              <Text style={styles.statLabel(colors)}>Wall Games:</Text>
+              <Text style={styles.statValue(colors)}>{tournamentStats.wallGames}</Text>
+            </View>
+            <View style={styles.statRow(colors)}>
+              <Text style={styles.statLabel(colors)}>False Mah Jongg:</Text>
+              <Text style={styles.statValue(colors)}>{tournamentStats.falseMahjongs}</Text>
+            </View>
+            <View style={styles.statRow(colors)}>
+              <Text style={styles.statLabel(colors)}>Time Expired:</Text>
+              <Text style={styles.statValue(colors)}>{tournamentStats.timeExpired}</Text>
+            </View>
           </View>
-          <View style={styles.statRow(colors)}>
-            <Text style={styles.statLabel(colors)}>Wall Games:</Text>
-            <Text style={styles.statValue(colors)}>{stats.wallGameCount}</Text>
+        )}
+
+        {/* Hand Type Stats */}
+        {!isChineseOfficial && (
+          <View style={styles.statsCard(colors)}>
+            <Text style={styles.cardTitle(colors)}>Hand Types</Text>
+            <View style={styles.statRow(colors)}>
+              <Text style={styles.statLabel(colors)}>Jokerless Hands:</Text>
+              <Text style={styles.statValue(colors)}>{stats.jokerlessCount}</Text>
+            </View>
+            <View style={styles.statRow(colors)}>
+              <Text style={styles.statLabel(colors)}>Self-Pick Wins:</Text>
+              <Text style={styles.statValue(colors)}>{stats.selfPickCount}</Text>
+            </View>
+            <View style={styles.statRow(colors)}>
+              <Text style={styles.statLabel(colors)}>Discard Wins:</Text>
+              <Text style={styles.statValue(colors)}>{stats.discardWinCount}</Text>
+            </View>
+            <View style={styles.statRow(colors)}>
+              <Text style={styles.statLabel(colors)}>Wall Games:</Text>
+              <Text style={styles.statValue(colors)}>{stats.wallGameCount}</Text>
+            </View>
           </View>
-        </View>
+        )}
 
         {/* Favorite Hands */}
-        {topHands.length > 0 && (
+        {!isChineseOfficial && topHands.length > 0 && (
           <View style={styles.statsCard(colors)}>
             <Text style={styles.cardTitle(colors)}>Favorite Hands</Text>
             {topHands.map(([handName, count]) => (
@@ -243,10 +416,48 @@ export default function StatsScreen({ refreshTrigger }: StatsScreenProps) {
           </View>
         )}
 
+        {/* Export / Import */}
+        <View style={styles.statsCard(colors)}>
+          <Text style={styles.cardTitle(colors)}>Export & Import</Text>
+          <View style={styles.actionRow(colors)}>
+            <TouchableOpacity
+              onPress={() => handleExport('csv')}
+              style={styles.actionButton(colors)}
+              disabled={yearHands.length === 0}
+            >
+              <FontAwesome5 name="file-csv" size={14} color={colors.primary} />
+              <Text style={styles.actionButtonText(colors)}>CSV</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => handleExport('json')}
+              style={styles.actionButton(colors)}
+              disabled={yearHands.length === 0}
+            >
+              <FontAwesome5 name="file-code" size={14} color={colors.primary} />
+              <Text style={styles.actionButtonText(colors)}>JSON</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => setShowImportModal(true)}
+              style={styles.actionButton(colors)}
+            >
+              <FontAwesome5 name="file-import" size={14} color={colors.primary} />
+              <Text style={styles.actionButtonText(colors)}>Import</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={handleRescoreAll}
+              style={styles.actionButton(colors)}
+              disabled={yearHands.length === 0}
+            >
+              <FontAwesome5 name="sync-alt" size={14} color={colors.primary} />
+              <Text style={styles.actionButtonText(colors)}>Re-score</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
         {/* Hand History — sorted by card order */}
         <View style={styles.historySection(colors)}>
           <View style={styles.historyHeader(colors)}>
-            <Text style={styles.cardTitle(colors)}>{selectedYear} Hand History</Text>
+            <Text style={styles.cardTitle(colors)}>{showsYears ? `${selectedYear} ` : ''}Hand History</Text>
             {yearHands.length > 0 && (
               <TouchableOpacity onPress={handleClearYear} style={styles.clearButton(colors)}>
                 <Text style={styles.clearButtonText(colors)}>Clear</Text>
@@ -255,7 +466,9 @@ export default function StatsScreen({ refreshTrigger }: StatsScreenProps) {
           </View>
           {yearHands.length === 0 ? (
             <Text style={styles.emptyText(colors)}>
-              No hands saved for {selectedCardLabel} ({selectedYear}) yet. Save a hand from the calculator using that mode and year.
+              {showsYears
+                ? `No hands saved for ${selectedCardLabel} (${selectedYear}) yet. Save a hand from the calculator using that mode and year.`
+                : `No ${selectedCardLabel} hands saved yet. Save a hand from the calculator in that mode.`}
             </Text>
           ) : (
             yearHands.map((hand) => (
@@ -265,6 +478,22 @@ export default function StatsScreen({ refreshTrigger }: StatsScreenProps) {
                     <Text style={styles.handName(colors)}>{hand.handName || 'Unnamed Hand'}</Text>
                     <Text style={styles.handDate(colors)}>{formatDate(hand.timestamp)}</Text>
                   </View>
+                  {onEditHand && (hand.mode === 'standard' || hand.mode === 'international') && (
+                    <TouchableOpacity
+                      onPress={() => onEditHand(hand)}
+                      style={styles.deleteButton(colors)}
+                    >
+                      <FontAwesome5 name="edit" size={14} color={colors.textSecondary} />
+                    </TouchableOpacity>
+                  )}
+                  {hand.scoreInput && (
+                    <TouchableOpacity
+                      onPress={() => handleRescore(hand)}
+                      style={styles.deleteButton(colors)}
+                    >
+                      <FontAwesome5 name="sync-alt" size={14} color={colors.textSecondary} />
+                    </TouchableOpacity>
+                  )}
                   <TouchableOpacity
                     onPress={() => handleDelete(hand.id)}
                     style={styles.deleteButton(colors)}
@@ -273,23 +502,55 @@ export default function StatsScreen({ refreshTrigger }: StatsScreenProps) {
                   </TouchableOpacity>
                 </View>
                 <View style={styles.handDetails(colors)}>
-                  <Text style={styles.handDetailText(colors)}>
-                    Base: {hand.basePoints} | {hand.winType === 'self_pick' ? 'Self-Pick' : 'Discard'}
-                    {hand.jokerless && ' | Jokerless'}
-                    {hand.noExposures && ' | No Exposures'}
-                    {hand.isWinner && (
-                      <Text style={{ color: '#4CAF50', fontWeight: '700' }}> ✓ WIN</Text>
-                    )}
-                  </Text>
+                  {hand.chineseOfficial ? (
+                    <Text style={styles.handDetailText(colors)}>
+                      Fans: {hand.chineseOfficial.fanPointsSum}
+                      {hand.chineseOfficial.flowerCount > 0 && ` + ${hand.chineseOfficial.flowerCount} flowers`}
+                      {' | '}{hand.chineseOfficial.isSelfDraw ? 'Self-Draw' : 'Discard'}
+                      {hand.chineseOfficial.isConcealed && ' | Concealed'}
+                      {'\n'}{hand.chineseOfficial.fans.map((fan) => fan.name).join(', ')}
+                      {hand.chineseOfficial.tiles && `\nTiles: ${hand.chineseOfficial.tiles.join(' ')}`}
+                    </Text>
+                  ) : (
+                    <Text style={styles.handDetailText(colors)}>
+                      Base: {hand.basePoints} | {hand.winType === 'self_pick' ? 'Self-Pick' : 'Discard'}
+                      {hand.jokerless && ' | Jokerless'}
+                      {hand.noExposures && ' | No Exposures'}
+                      {hand.isWinner && (
+                        <Text style={{ color: '#4CAF50', fontWeight: '700' }}> ✓ WIN</Text>
+                      )}
+                    </Text>
+                  )}
                   <Text style={styles.handValue(colors)}>
                     Value: {formatAmount(hand.totalToWinner, hand.displayMode)}
                   </Text>
+                  {hand.tournament && (
+                    <Text style={styles.handDetailText(colors)}>
+                      {Object.entries(hand.tournament.pointsByPlayer)
+                        .map(([pid, pts]) => `${hand.tournament!.playerNames[pid] ?? pid}: ${pts >= 0 ? `+${pts}` : pts}`)
+                        .join(' | ')}
+                      {hand.tournament.deadPlayerIds.length > 0 &&
+                        `\nDead: ${hand.tournament.deadPlayerIds.map((pid) => hand.tournament!.playerNames[pid] ?? pid).join(', ')}`}
+                    </Text>
+                  )}
+                  {hand.edits && hand.edits.length > 0 && (
+                    <Text style={styles.handDate(colors)}>
+                      Edited {hand.edits.length === 1 ? 'once' : `${hand.edits.length} times`}, last {formatDate(hand.edits[hand.edits.length - 1].editedAt)}
+                    </Text>
+                  )}
                 </View>
               </View>
             ))
           )}
         </View>
       </View>
+
+      <ImportHandsModal
+        visible={showImportModal}
+        theme={theme}
+        onClose={() => setShowImportModal(false)}
+        onImported={loadHands}
+      />
     </ScrollView>
   );
 }
@@ -367,6 +628,26 @@ const styles = {
     fontWeight: '700' as const,
     color: colors.text,
   }),
+  actionRow: (colors: any) => ({
+    flexDirection: 'row' as const,
+    gap: 8,
+  }),
+  actionButton: (colors: any) => ({
+    flex: 1,
+    flexDirection: 'row' as const,
+    alignItems: 'center' as const,
+    justifyContent: 'center' as const,
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+  }),
+  actionButtonText: (colors: any) => ({
+    fontSize: 14,
+    fontWeight: '600' as const,
+    color: colors.primary,
+  }),
   historySection: (colors: any) => ({
     marginTop: 8,
   }),
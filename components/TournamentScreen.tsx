@@ -0,0 +1,718 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, TextInput, Alert, RefreshControl, Share } from 'react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { getColors } from '@/constants/colors';
+import {
+  getActiveTournamentEvent,
+  getArchivedTournamentEvents,
+  createTournamentEvent,
+  startNextRound,
+  setScoringTable,
+  removeHandFromTournamentEvent,
+  setEntrantWithdrawn,
+  endTournamentEvent,
+  deleteTournamentEvent,
+} from '@/lib/storage/tournamentStorage';
+import { getRoster } from '@/lib/storage/rosterStorage';
+import type { RosterPlayer } from '@/lib/types/player';
+import type { StandingsTieBreaker, TournamentEntrant, TournamentEvent } from '@/lib/types/tournament';
+import {
+  calculateStandings,
+  createEntrant,
+  DEFAULT_TIE_BREAKERS,
+  TIE_BREAKER_LABELS,
+} from '@/lib/utils/tournamentEvent';
+import type { ShortTablePolicy } from '@/lib/utils/pairing';
+import { exportRoundScoreSheetCsv, exportRoundScoreSheetHtml } from '@/lib/utils/scoreSheet';
+import { FontAwesome5 } from '@expo/vector-icons';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { Seg } from './shared/CalculatorHelpers';
+import { PlayerAvatar } from './modals/PlayerRosterModal';
+import RoundTimerControls from './tournament/RoundTimerControls';
+import { useRoundTimer } from './modes/useRoundTimer';
+
+interface TournamentScreenProps {
+  refreshTrigger?: number;
+}
+
+const formatPoints = (points: number) => (points > 0 ? `+${points}` : `${points}`);
+
+export default function TournamentScreen({ refreshTrigger }: TournamentScreenProps) {
+  const { theme } = useTheme();
+  const colors = getColors(theme);
+  const [activeEvent, setActiveEvent] = useState<TournamentEvent | null>(null);
+  const [archivedEvents, setArchivedEvents] = useState<TournamentEvent[]>([]);
+  const [roster, setRoster] = useState<RosterPlayer[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+  const roundTimer = useRoundTimer();
+
+  // New event form
+  const [eventName, setEventName] = useState<string>("");
+  const [entrantName, setEntrantName] = useState<string>("");
+  const [entrants, setEntrants] = useState<TournamentEntrant[]>([]);
+  const [tieBreakers, setTieBreakers] = useState<StandingsTieBreaker[]>(DEFAULT_TIE_BREAKERS);
+  const [shortTables, setShortTables] = useState<ShortTablePolicy>('threeHanded');
+
+  // Round chosen for each event's score sheet export; defaults to the latest round
+  const [scoreSheetRounds, setScoreSheetRounds] = useState<Record<string, number>>({});
+
+  const standings = useMemo(
+    () => (activeEvent ? calculateStandings(activeEvent) : []),
+    [activeEvent]
+  );
+  const currentRound = activeEvent?.rounds[activeEvent.rounds.length - 1];
+
+  const loadEvents = async () => {
+    try {
+      const [active, archived, players] = await Promise.all([
+        getActiveTournamentEvent(),
+        getArchivedTournamentEvents(),
+        getRoster(),
+      ]);
+      setActiveEvent(active);
+      setArchivedEvents(archived);
+      setRoster(players);
+    } catch (error) {
+      console.error('Error loading tournament events:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadEvents();
+  }, []);
+
+  useEffect(() => {
+    if (refreshTrigger !== undefined) {
+      loadEvents();
+    }
+  }, [refreshTrigger]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadEvents();
+    setRefreshing(false);
+  };
+
+  const formatDate = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return date.toLocaleDateString() + ' ' + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  };
+
+  const playerName = (event: TournamentEvent, id?: string) =>
+    event.entrants.find((e) => e.id === id)?.name ?? id ?? '';
+
+  const isDuplicateName = (name: string) =>
+    entrants.some((e) => e.name.toLowerCase() === name.toLowerCase());
+
+  const handleAddEntrant = () => {
+    const name = entrantName.trim();
+    if (!name) return;
+    if (isDuplicateName(name)) {
+      Alert.alert("Duplicate Name", `${name} is already registered.`);
+      return;
+    }
+    setEntrants([...entrants, createEntrant(name)]);
+    setEntrantName("");
+  };
+
+  const handleToggleRosterEntrant = (player: RosterPlayer) => {
+    const existing = entrants.find((e) => e.rosterPlayerId === player.id);
+    if (existing) {
+      setEntrants(entrants.filter((e) => e.id !== existing.id));
+    } else if (isDuplicateName(player.name)) {
+      Alert.alert("Duplicate Name", `${player.name} is already registered.`);
+    } else {
+      setEntrants([...entrants, createEntrant(player.name, player)]);
+    }
+  };
+
+  const handleToggleTieBreaker = (tieBreaker: StandingsTieBreaker) => {
+    // Tie-breakers apply in the order they were chosen
+    setTieBreakers(
+      tieBreakers.includes(tieBreaker)
+        ? tieBreakers.filter((t) => t !== tieBreaker)
+        : [...tieBreakers, tieBreaker]
+    );
+  };
+
+  const handleCreate = async () => {
+    const minimum = shortTables === 'byes' ? 4 : 3;
+    if (entrants.length < minimum) {
+      Alert.alert("Not Enough Entrants", `Register at least ${minimum} entrants to seat a table.`);
+      return;
+    }
+    try {
+      const name = eventName.trim() || `Tournament ${new Date().toLocaleDateString()}`;
+      const event = await createTournamentEvent(name, entrants, tieBreakers, shortTables);
+      setActiveEvent(event);
+      setEventName("");
+      setEntrants([]);
+      setTieBreakers(DEFAULT_TIE_BREAKERS);
+      setShortTables('threeHanded');
+    } catch (error) {
+      Alert.alert("Error", "Failed to create tournament.");
+    }
+  };
+
+  const handleStartRound = () => {
+    if (!activeEvent) return;
+    const nextRound = activeEvent.rounds.length + 1;
+    const start = async (seedByStandings: boolean) => {
+      try {
+        setActiveEvent(await startNextRound(activeEvent.id, seedByStandings));
+        // Each round gets a fresh clock
+        roundTimer.reset();
+        // The score sheet export follows the new round
+        setScoreSheetRounds(({ [activeEvent.id]: _, ...others }) => others);
+      } catch (error) {
+        Alert.alert("Error", error instanceof Error ? error.message : "Failed to start the round.");
+      }
+    };
+    if (!currentRound) {
+      start(false);
+      return;
+    }
+    // Later rounds can group entrants by standings; both draws avoid repeat opponents
+    Alert.alert(
+      `Start Round ${nextRound}`,
+      `Close round ${currentRound.roundNumber} and draw new tables?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Random Draw", onPress: () => start(false) },
+        { text: "By Standings", onPress: () => start(true) },
+      ]
+    );
+  };
+
+  const handleScoreTable = async (tableNumber: number) => {
+    if (!activeEvent) return;
+    try {
+      const next = activeEvent.scoringTableNumber === tableNumber ? undefined : tableNumber;
+      setActiveEvent(await setScoringTable(activeEvent.id, next));
+    } catch (error) {
+      Alert.alert("Error", "Failed to select the table.");
+    }
+  };
+
+  const handleDeleteHand = (roundNumber: number, handId: string) => {
+    if (!activeEvent) return;
+    Alert.alert(
+      "Remove Hand",
+      "Remove this hand from the standings?",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              setActiveEvent(await removeHandFromTournamentEvent(activeEvent.id, roundNumber, handId));
+            } catch (error) {
+              Alert.alert("Error", "Failed to remove hand.");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleToggleWithdrawn = async (entrant: TournamentEntrant) => {
+    if (!activeEvent) return;
+    try {
+      setActiveEvent(await setEntrantWithdrawn(activeEvent.id, entrant.id, !entrant.withdrawn));
+    } catch (error) {
+      Alert.alert("Error", "Failed to update entrant.");
+    }
+  };
+
+  const handleEnd = () => {
+    if (!activeEvent) return;
+    Alert.alert(
+      "End Tournament",
+      "End this tournament and move it to the archive? Standings are kept.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "End Tournament",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await endTournamentEvent(activeEvent.id);
+              await loadEvents();
+            } catch (error) {
+              Alert.alert("Error", "Failed to end tournament.");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const shareScoreSheet = async (event: TournamentEvent, roundNumber: number, format: 'pdf' | 'csv') => {
+    const title = `${event.name} Round ${roundNumber} score sheet`;
+    try {
+      if (format === 'csv') {
+        await Share.share({ title: `${title} (CSV)`, message: exportRoundScoreSheetCsv(event, roundNumber) });
+        return;
+      }
+      // The HTML sheet is rendered to a PDF file; shared as text it would arrive as raw markup
+      if (!(await Sharing.isAvailableAsync())) {
+        Alert.alert("Sharing Unavailable", "This device can't share files.");
+        return;
+      }
+      const { uri } = await Print.printToFileAsync({ html: exportRoundScoreSheetHtml(event, roundNumber) });
+      await Sharing.shareAsync(uri, { mimeType: 'application/pdf', UTI: 'com.adobe.pdf', dialogTitle: title });
+    } catch (error) {
+      Alert.alert("Error", "Failed to export the score sheet.");
+    }
+  };
+
+  const scoreSheetRound = (event: TournamentEvent): number =>
+    scoreSheetRounds[event.id] ?? event.rounds[event.rounds.length - 1].roundNumber;
+
+  const renderScoreSheetRounds = (event: TournamentEvent) =>
+    event.rounds.length > 1 && (
+      <View style={[styles.segRow, { flexWrap: 'wrap' as const }]}>
+        {event.rounds.map((round) => (
+          <Seg
+            key={round.roundNumber}
+            selected={scoreSheetRound(event) === round.roundNumber}
+            onPress={() => setScoreSheetRounds((prev) => ({ ...prev, [event.id]: round.roundNumber }))}
+            colors={colors}
+            theme={theme}
+          >
+            Round {round.roundNumber}
+          </Seg>
+        ))}
+      </View>
+    );
+
+  const handleExportScoreSheet = (event: TournamentEvent, roundNumber: number) => {
+    Alert.alert(
+      `Round ${roundNumber} Score Sheet`,
+      "Every table's hands with their breakdowns, and the standings after the round. PDF is ready to print; CSV opens in a spreadsheet.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "PDF", onPress: () => shareScoreSheet(event, roundNumber, 'pdf') },
+        { text: "CSV", onPress: () => shareScoreSheet(event, roundNumber, 'csv') },
+      ]
+    );
+  };
+
+  const handleDeleteEvent = (eventId: string) => {
+    Alert.alert(
+      "Delete Tournament",
+      "Are you sure you want to delete this tournament? This cannot be undone.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteTournamentEvent(eventId);
+              await loadEvents();
+            } catch (error) {
+              Alert.alert("Error", "Failed to delete tournament.");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <ScrollView
+      style={styles.scrollView(colors)}
+      contentContainerStyle={styles.scrollContent}
+      keyboardShouldPersistTaps="handled"
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={colors.primary} />
+      }
+    >
+      <View style={styles.container(colors)}>
+        <Text style={styles.title(colors)}>Tournament</Text>
+
+        {activeEvent ? (
+          <>
+            {/* Standings */}
+            <View style={styles.card(colors)}>
+              <Text style={styles.cardTitle(colors)}>{activeEvent.name}</Text>
+              <Text style={styles.subText(colors)}>
+                Created {formatDate(activeEvent.createdAt)} · {activeEvent.entrants.length} entrants ·{' '}
+                {activeEvent.rounds.length} round{activeEvent.rounds.length === 1 ? '' : 's'}
+              </Text>
+              {activeEvent.tieBreakers.length > 0 && (
+                <Text style={styles.subText(colors)}>
+                  Tie-breakers: {activeEvent.tieBreakers.map((t) => TIE_BREAKER_LABELS[t]).join(', ')}
+                </Text>
+              )}
+              {standings.map((standing) => (
+                <View key={standing.entrantId} style={styles.statRow(colors)}>
+                  <Text style={styles.statLabel(colors)}>
+                    {standing.rank}. {standing.name}
+                    {activeEvent.entrants.find((e) => e.id === standing.entrantId)?.withdrawn ? ' (withdrawn)' : ''}
+                    {' '}· {standing.wins} MJ
+                  </Text>
+                  <Text style={styles.statValue(colors)}>{formatPoints(standing.totalPoints)}</Text>
+                </View>
+              ))}
+              <TouchableOpacity onPress={handleStartRound} style={styles.primaryButton(colors)}>
+                <Text style={styles.buttonText(colors)}>
+                  {currentRound ? `Start Round ${currentRound.roundNumber + 1}` : 'Start Round 1'}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={handleEnd} style={styles.dangerButton(colors)}>
+                <Text style={styles.buttonText(colors)}>End Tournament</Text>
+              </TouchableOpacity>
+            </View>
+
+            {currentRound && (
+              <View style={styles.card(colors)}>
+                <RoundTimerControls
+                  timer={roundTimer.timer}
+                  status={roundTimer.status}
+                  remainingMs={roundTimer.remainingMs}
+                  theme={theme}
+                  onStart={roundTimer.start}
+                  onPause={roundTimer.pause}
+                  onReset={roundTimer.reset}
+                  onConfigure={roundTimer.configure}
+                />
+              </View>
+            )}
+
+            {/* Current round tables */}
+            {currentRound && (
+              <View style={styles.card(colors)}>
+                <Text style={styles.cardTitle(colors)}>Round {currentRound.roundNumber}</Text>
+                <Text style={styles.subText(colors)}>
+                  {currentRound.seeded ? 'Seated by standings' : 'Random draw'}
+                  {currentRound.repeatPairings
+                    ? ` · ${currentRound.repeatPairings} repeat pairing${currentRound.repeatPairings === 1 ? '' : 's'} could not be avoided`
+                    : ''}
+                </Text>
+                <Text style={styles.subText(colors)}>
+                  Choose a table to score, then record its hands from the calculator in NMJL Tournament play.
+                </Text>
+                {currentRound.byeIds.length > 0 && (
+                  <Text style={styles.subText(colors)}>
+                    Sitting out: {currentRound.byeIds.map((id) => playerName(activeEvent, id)).join(', ')}
+                  </Text>
+                )}
+                {currentRound.tables.map((table) => {
+                  const tableHands = currentRound.hands.filter((h) => h.tableNumber === table.tableNumber);
+                  const isScoring = activeEvent.scoringTableNumber === table.tableNumber;
+                  return (
+                    <View key={table.tableNumber} style={styles.handRow(colors)}>
+                      <View style={{ flex: 1 }}>
+                        <Text style={styles.handTitle(colors)}>
+                          Table {table.tableNumber} · {tableHands.length} hand{tableHands.length === 1 ? '' : 's'}
+                        </Text>
+                        <Text style={styles.subText(colors)}>
+                          {table.players.map((p) => `${p.seatWind[0]} ${p.name}`).join(' · ')}
+                        </Text>
+                        {tableHands.map((hand, index) => (
+                          <View key={hand.id} style={{ flexDirection: 'row', alignItems: 'center' }}>
+                            <Text style={[styles.subText(colors), { flex: 1 }]}>
+                              #{index + 1}{' '}
+                              {hand.wallGame
+                                ? 'Wall Game'
+                                : hand.winnerId
+                                  ? `${playerName(activeEvent, hand.winnerId)} wins`
+                                  : hand.breakdown[0] ?? ''}
+                              {': '}
+                              {table.players
+                                .map((p) => `${p.name} ${formatPoints(hand.pointsByPlayer[p.id] ?? 0)}`)
+                                .join(' · ')}
+                            </Text>
+                            <TouchableOpacity
+                              onPress={() => handleDeleteHand(currentRound.roundNumber, hand.id)}
+                              style={{ padding: 8 }}
+                            >
+                              <FontAwesome5 name="trash" size={12} color={colors.textSecondary} />
+                            </TouchableOpacity>
+                          </View>
+                        ))}
+                      </View>
+                      <Seg
+                        selected={isScoring}
+                        onPress={() => handleScoreTable(table.tableNumber)}
+                        colors={colors}
+                        theme={theme}
+                      >
+                        {isScoring ? 'Scoring' : 'Score'}
+                      </Seg>
+                    </View>
+                  );
+                })}
+                {renderScoreSheetRounds(activeEvent)}
+                <TouchableOpacity
+                  onPress={() => handleExportScoreSheet(activeEvent, scoreSheetRound(activeEvent))}
+                  style={styles.primaryButton(colors)}
+                >
+                  <Text style={styles.buttonText(colors)}>Export Score Sheet</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {/* Entrants */}
+            <View style={styles.card(colors)}>
+              <Text style={styles.cardTitle(colors)}>Entrants</Text>
+              {activeEvent.entrants.map((entrant) => (
+                <View key={entrant.id} style={styles.statRow(colors)}>
+                  <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+                    <PlayerAvatar name={entrant.name} color={entrant.avatarColor} size={22} />
+                    <Text style={styles.statLabel(colors)}> {entrant.name}</Text>
+                  </View>
+                  <Seg
+                    selected={!!entrant.withdrawn}
+                    onPress={() => handleToggleWithdrawn(entrant)}
+                    colors={colors}
+                    theme={theme}
+                  >
+                    {entrant.withdrawn ? 'Withdrawn' : 'Withdraw'}
+                  </Seg>
+                </View>
+              ))}
+            </View>
+          </>
+        ) : (
+          /* Register a new event */
+          <View style={styles.card(colors)}>
+            <Text style={styles.cardTitle(colors)}>New Tournament</Text>
+            <TextInput
+              value={eventName}
+              onChangeText={setEventName}
+              placeholder="Tournament name (optional)"
+              placeholderTextColor={colors.textSecondary}
+              style={styles.textInput(colors)}
+            />
+            <View style={styles.segRow}>
+              <TextInput
+                value={entrantName}
+                onChangeText={setEntrantName}
+                onSubmitEditing={handleAddEntrant}
+                placeholder="Entrant name"
+                placeholderTextColor={colors.textSecondary}
+                style={[styles.textInput(colors), { flex: 1 }]}
+              />
+              <TouchableOpacity onPress={handleAddEntrant} style={{ padding: 12 }}>
+                <FontAwesome5 name="plus" size={16} color={colors.primary} />
+              </TouchableOpacity>
+            </View>
+            {roster.length > 0 && (
+              <>
+                <Text style={styles.subText(colors)}>From the roster</Text>
+                <View style={[styles.segRow, { flexWrap: 'wrap' as const }]}>
+                  {roster.map((player) => (
+                    <Seg
+                      key={player.id}
+                      selected={entrants.some((e) => e.rosterPlayerId === player.id)}
+                      onPress={() => handleToggleRosterEntrant(player)}
+                      colors={colors}
+                      theme={theme}
+                    >
+                      {player.name}
+                    </Seg>
+                  ))}
+                </View>
+              </>
+            )}
+            {entrants.length === 0 ? (
+              <Text style={styles.emptyText(colors)}>No entrants registered yet.</Text>
+            ) : (
+              entrants.map((entrant, index) => (
+                <View key={entrant.id} style={styles.statRow(colors)}>
+                  <Text style={styles.statLabel(colors)}>{index + 1}. {entrant.name}</Text>
+                  <TouchableOpacity
+                    onPress={() => setEntrants(entrants.filter((e) => e.id !== entrant.id))}
+                    style={{ padding: 8 }}
+                  >
+                    <FontAwesome5 name="trash" size={14} color={colors.textSecondary} />
+                  </TouchableOpacity>
+                </View>
+              ))
+            )}
+            <Text style={[styles.subText(colors), { marginTop: 8 }]}>Tie-breakers, in the order chosen</Text>
+            <View style={[styles.segRow, { flexWrap: 'wrap' as const }]}>
+              {(Object.keys(TIE_BREAKER_LABELS) as StandingsTieBreaker[]).map((tieBreaker) => {
+                const position = tieBreakers.indexOf(tieBreaker);
+                return (
+                  <Seg
+                    key={tieBreaker}
+                    selected={position >= 0}
+                    onPress={() => handleToggleTieBreaker(tieBreaker)}
+                    colors={colors}
+                    theme={theme}
+                  >
+                    {position >= 0 ? `${position + 1}. ` : ''}{TIE_BREAKER_LABELS[tieBreaker]}
+                  </Seg>
+                );
+              })}
+            </View>
+            <Text style={[styles.subText(colors), { marginTop: 8 }]}>Entrants who don't fill a table of four</Text>
+            <View style={styles.segRow}>
+              <Seg selected={shortTables === 'threeHanded'} onPress={() => setShortTables('threeHanded')} colors={colors} theme={theme}>Play three-handed</Seg>
+              <Seg selected={shortTables === 'byes'} onPress={() => setShortTables('byes')} colors={colors} theme={theme}>Sit out (bye)</Seg>
+            </View>
+            <TouchableOpacity onPress={handleCreate} style={styles.primaryButton(colors)}>
+              <Text style={styles.buttonText(colors)}>Create Tournament</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Archive of past events */}
+        <View style={styles.card(colors)}>
+          <Text style={styles.cardTitle(colors)}>Past Tournaments</Text>
+          {archivedEvents.length === 0 ? (
+            <Text style={styles.emptyText(colors)}>No past tournaments yet.</Text>
+          ) : (
+            archivedEvents.map((event) => {
+              const finalStandings = calculateStandings(event);
+              return (
+                <View key={event.id} style={styles.handRow(colors)}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.handTitle(colors)}>{event.name}</Text>
+                    <Text style={styles.subText(colors)}>
+                      {formatDate(event.createdAt)} · {event.entrants.length} entrants · {event.rounds.length} round
+                      {event.rounds.length === 1 ? '' : 's'}
+                    </Text>
+                    <Text style={styles.subText(colors)}>
+                      {finalStandings
+                        .slice(0, 3)
+                        .map((s) => `${s.rank}. ${s.name} ${formatPoints(s.totalPoints)}`)
+                        .join(' · ')}
+                    </Text>
+                    {renderScoreSheetRounds(event)}
+                  </View>
+                  {event.rounds.length > 0 && (
+                    <TouchableOpacity
+                      onPress={() => handleExportScoreSheet(event, scoreSheetRound(event))}
+                      style={{ padding: 8 }}
+                    >
+                      <FontAwesome5 name="share-square" size={14} color={colors.textSecondary} />
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity onPress={() => handleDeleteEvent(event.id)} style={{ padding: 8 }}>
+                    <FontAwesome5 name="trash" size={14} color={colors.textSecondary} />
+                  </TouchableOpacity>
+                </View>
+              );
+            })
+          )}
+        </View>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = {
+  scrollView: (colors: any) => ({
+    flex: 1,
+    backgroundColor: colors.background,
+  }),
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  container: (colors: any) => ({
+    gap: 16,
+  }),
+  title: (colors: any) => ({
+    fontSize: 24,
+    fontWeight: '700' as const,
+    color: colors.text,
+    marginBottom: 8,
+  }),
+  card: (colors: any) => ({
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    gap: 8,
+    shadowColor: colors.shadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3.84,
+    elevation: 5,
+  }),
+  cardTitle: (colors: any) => ({
+    fontSize: 18,
+    fontWeight: '700' as const,
+    color: colors.text,
+  }),
+  subText: (colors: any) => ({
+    fontSize: 12,
+    color: colors.textSecondary,
+  }),
+  statRow: (colors: any) => ({
+    flexDirection: 'row' as const,
+    justifyContent: 'space-between' as const,
+    alignItems: 'center' as const,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  }),
+  statLabel: (colors: any) => ({
+    fontSize: 14,
+    color: colors.textSecondary,
+  }),
+  statValue: (colors: any) => ({
+    fontSize: 16,
+    fontWeight: '700' as const,
+    color: colors.text,
+  }),
+  handRow: (colors: any) => ({
+    flexDirection: 'row' as const,
+    alignItems: 'flex-start' as const,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  }),
+  handTitle: (colors: any) => ({
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: colors.text,
+    marginBottom: 2,
+  }),
+  emptyText: (colors: any) => ({
+    textAlign: 'center' as const,
+    color: colors.textSecondary,
+    fontSize: 14,
+    padding: 12,
+  }),
+  textInput: (colors: any) => ({
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: colors.text,
+    backgroundColor: colors.inputBackground,
+  }),
+  segRow: {
+    flexDirection: 'row' as const,
+    gap: 8,
+  },
+  primaryButton: (colors: any) => ({
+    backgroundColor: colors.primary,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center' as const,
+    marginTop: 8,
+  }),
+  dangerButton: (colors: any) => ({
+    backgroundColor: colors.clearButton,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center' as const,
+    marginTop: 8,
+  }),
+  buttonText: (colors: any) => ({
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700' as const,
+  }),
+};
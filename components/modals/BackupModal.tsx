@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ScrollView, Modal, Alert, Share, KeyboardAvoidingView, Platform } from 'react-native';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { getColors } from '@/constants/colors';
+import { styles } from '../ScoreCalculatorCard.styles';
+import { Row, Label, Seg } from '../shared/CalculatorHelpers';
+import { createBackup, restoreBackup, type RestoreMode, type RestoreReport } from '@/lib/storage/backupStorage';
+
+/** Conflicts listed in the summary before it is cut short. */
+const MAX_LISTED_CONFLICTS = 5;
+
+const KEY_PREFIX = '@mahjong_calculator_';
+
+interface BackupModalProps {
+  visible: boolean;
+  theme: 'light' | 'dark';
+  onClose: () => void;
+  /** Called after a restore so screens reload what they have read from storage. */
+  onRestored: () => void;
+}
+
+const describeReport = (report: RestoreReport, mode: RestoreMode): string => {
+  if (mode === 'replace') {
+    return `Restored ${report.restoredKeys.length} item${report.restoredKeys.length === 1 ? '' : 's'} of app data.`;
+  }
+  const lines = [
+    `Added ${report.addedItems} record${report.addedItems === 1 ? '' : 's'}` +
+      ` and restored ${report.restoredKeys.length} data set${report.restoredKeys.length === 1 ? '' : 's'}.`,
+  ];
+  if (report.conflicts.length > 0) {
+    lines.push(`Kept this device's copy for ${report.conflicts.length} conflict${report.conflicts.length === 1 ? '' : 's'}:`);
+    lines.push(
+      ...report.conflicts
+        .slice(0, MAX_LISTED_CONFLICTS)
+        .map(({ key, id }) => `${key.replace(KEY_PREFIX, '')}${id ? ` (${id})` : ''}`)
+    );
+    if (report.conflicts.length > MAX_LISTED_CONFLICTS) {
+      lines.push(`…and ${report.conflicts.length - MAX_LISTED_CONFLICTS} more`);
+    }
+  }
+  return lines.join('\n');
+};
+
+export default function BackupModal({
+  visible,
+  theme,
+  onClose,
+  onRestored,
+}: BackupModalProps) {
+  const colors = getColors(theme);
+  const [backupText, setBackupText] = useState<string>("");
+  const [mode, setMode] = useState<RestoreMode>('merge');
+
+  const handleCreate = async () => {
+    try {
+      const backup = await createBackup();
+      await Share.share({ title: 'Mahjong Calculator Backup', message: backup });
+    } catch (error) {
+      Alert.alert("Error", "Failed to create backup. Please try again.");
+    }
+  };
+
+  const runRestore = async () => {
+    try {
+      const report = await restoreBackup(backupText, mode);
+      Alert.alert("Restore Complete", describeReport(report, mode));
+      setBackupText("");
+      onRestored();
+      onClose();
+    } catch (error) {
+      Alert.alert("Restore Failed", error instanceof Error ? error.message : "Failed to restore backup.");
+    }
+  };
+
+  const handleRestore = () => {
+    if (!backupText.trim()) {
+      Alert.alert("Nothing to Restore", "Paste a backup first.");
+      return;
+    }
+    if (mode === 'merge') {
+      runRestore();
+      return;
+    }
+    Alert.alert(
+      "Replace All Data",
+      "Everything on this device (hands, sessions, rules, roster and settings) will be replaced by the backup.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Replace", style: "destructive", onPress: runRestore },
+      ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={{ flex: 1 }}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <TouchableOpacity
+          style={styles.modalOverlayBottom(colors)}
+          activeOpacity={1}
+          onPress={onClose}
+        >
+          <View style={styles.modalContent(colors)} onStartShouldSetResponder={() => true}>
+            <View style={styles.modalHeader(colors)}>
+              <Text style={styles.modalTitle(colors)}>Backup & Restore</Text>
+              <TouchableOpacity onPress={onClose}>
+                <FontAwesome5 name="times" size={20} color={colors.text} />
+              </TouchableOpacity>
+            </View>
+            <ScrollView
+              style={styles.modalScrollView}
+              contentContainerStyle={{ padding: 16 }}
+              keyboardShouldPersistTaps="handled"
+              automaticallyAdjustKeyboardInsets
+            >
+              <Label colors={colors} sub="Hands, sessions, roster, rules and settings">
+                Back Up All Data
+              </Label>
+              <TouchableOpacity
+                style={[styles.saveButton(colors), { marginBottom: 24 }]}
+                onPress={handleCreate}
+              >
+                <FontAwesome5 name="file-export" size={16} color={colors.card} style={{ marginRight: 8 }} />
+                <Text style={styles.saveButtonText(colors, theme)}>Create Backup</Text>
+              </TouchableOpacity>
+
+              <Label colors={colors} sub="Paste a backup created by this app">
+                Restore
+              </Label>
+              <TextInput
+                value={backupText}
+                onChangeText={setBackupText}
+                placeholder='{"format":"mahjong-calculator/backup",...}'
+                placeholderTextColor={colors.textSecondary}
+                multiline
+                autoCapitalize="none"
+                autoCorrect={false}
+                style={[styles.textInput(colors), { minHeight: 120, textAlignVertical: 'top' }]}
+              />
+              <View style={{ marginTop: 12 }}>
+                <Label
+                  colors={colors}
+                  sub={mode === 'merge'
+                    ? "Adds what is missing; keeps this device's copy when they differ"
+                    : "Erases this device's data first"}
+                >
+                  Restore Mode
+                </Label>
+                <Row style={{ justifyContent: 'flex-start' }} colors={colors}>
+                  <Seg selected={mode === 'merge'} onPress={() => setMode('merge')} colors={colors} theme={theme}>
+                    Merge
+                  </Seg>
+                  <Seg selected={mode === 'replace'} onPress={() => setMode('replace')} colors={colors} theme={theme}>
+                    Replace
+                  </Seg>
+                </Row>
+              </View>
+              <TouchableOpacity
+                style={[styles.saveButton(colors), { marginTop: 12 }]}
+                onPress={handleRestore}
+              >
+                <FontAwesome5 name="file-import" size={16} color={colors.card} style={{ marginRight: 8 }} />
+                <Text style={styles.saveButtonText(colors, theme)}>Restore Backup</Text>
+              </TouchableOpacity>
+            </ScrollView>
+          </View>
+        </TouchableOpacity>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
@@ -0,0 +1,264 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ScrollView, Modal, Alert, KeyboardAvoidingView, Platform } from 'react-native';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { getColors } from '@/constants/colors';
+import { styles } from '../ScoreCalculatorCard.styles';
+import { Row, Label, Seg } from '../shared/CalculatorHelpers';
+import { STACKING_PROFILES } from '@/lib/scoring/stacking';
+import type { NmjlStackingProfile } from '@/lib/scoring/types';
+import type { HouseRuleProfile } from '@/lib/types/houseRules';
+
+interface HouseRulesModalProps {
+  visible: boolean;
+  theme: 'light' | 'dark';
+  onClose: () => void;
+  profiles: HouseRuleProfile[];
+  activeProfile: HouseRuleProfile | null;
+  stackingProfile: NmjlStackingProfile;
+  onStackingProfileChange: (profile: NmjlStackingProfile) => void;
+  onSwitchProfile: (profileId: string | null) => Promise<void>;
+  onSaveCurrentAsProfile: (name: string) => Promise<HouseRuleProfile>;
+  onDeleteProfile: (profileId: string) => Promise<void>;
+  onImportProfile: (json: string) => Promise<HouseRuleProfile>;
+  onExportProfile: (profile: HouseRuleProfile) => Promise<void>;
+}
+
+export default function HouseRulesModal({
+  visible,
+  theme,
+  onClose,
+  profiles,
+  activeProfile,
+  stackingProfile,
+  onStackingProfileChange,
+  onSwitchProfile,
+  onSaveCurrentAsProfile,
+  onDeleteProfile,
+  onImportProfile,
+  onExportProfile,
+}: HouseRulesModalProps) {
+  const colors = getColors(theme);
+  const [newProfileName, setNewProfileName] = useState<string>("");
+  const [importText, setImportText] = useState<string>("");
+
+  const describeProfile = (profile: HouseRuleProfile) => {
+    const ruleCount = profile.customRules.length;
+    return [
+      profile.displayMode === 'currency' ? 'Currency' : 'Points',
+      `${profile.numPlayers} players`,
+      profile.kittyEnabled ? 'Kitty on' : null,
+      ruleCount > 0 ? `${ruleCount} custom rule${ruleCount === 1 ? '' : 's'}` : null,
+    ].filter(Boolean).join(' · ');
+  };
+
+  const handleSave = async () => {
+    const trimmed = newProfileName.trim();
+    if (!trimmed) {
+      Alert.alert("Missing Name", "Enter a name for the profile.");
+      return;
+    }
+    try {
+      await onSaveCurrentAsProfile(trimmed);
+      setNewProfileName("");
+    } catch (error) {
+      Alert.alert("Error", "Failed to save profile. Please try again.");
+    }
+  };
+
+  const handleSwitch = async (profileId: string | null) => {
+    try {
+      await onSwitchProfile(profileId);
+    } catch (error) {
+      Alert.alert("Error", "Failed to switch profile. Please try again.");
+    }
+  };
+
+  const handleDelete = (profile: HouseRuleProfile) => {
+    Alert.alert(
+      "Delete Profile",
+      `Delete "${profile.name}"? Your current settings stay as they are.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await onDeleteProfile(profile.id);
+            } catch (error) {
+              Alert.alert("Error", "Failed to delete profile.");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleImport = async () => {
+    if (!importText.trim()) {
+      Alert.alert("Nothing to Import", "Paste a shared house rule profile first.");
+      return;
+    }
+    try {
+      const profile = await onImportProfile(importText);
+      setImportText("");
+      Alert.alert("Profile Imported", `Now using "${profile.name}".`);
+    } catch (error) {
+      Alert.alert("Import Failed", error instanceof Error ? error.message : "Could not read the profile.");
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={{ flex: 1 }}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <TouchableOpacity
+          style={styles.modalOverlayBottom(colors)}
+          activeOpacity={1}
+          onPress={onClose}
+        >
+          <View style={styles.modalContent(colors)} onStartShouldSetResponder={() => true}>
+            <View style={styles.modalHeader(colors)}>
+              <Text style={styles.modalTitle(colors)}>House Rules</Text>
+              <TouchableOpacity onPress={onClose}>
+                <FontAwesome5 name="times" size={20} color={colors.text} />
+              </TouchableOpacity>
+            </View>
+            <ScrollView
+              style={styles.modalScrollView}
+              contentContainerStyle={{ padding: 16 }}
+              keyboardShouldPersistTaps="handled"
+              automaticallyAdjustKeyboardInsets
+            >
+              <Text style={[styles.labelSubtext(colors), { marginBottom: 12 }]}>
+                A profile keeps the display mode, kitty, table size, custom rules and rule values together.
+                Changes you make while a profile is active are saved to it.
+              </Text>
+
+              <TouchableOpacity
+                onPress={() => handleSwitch(null)}
+                style={{
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                  paddingVertical: 10,
+                  borderBottomWidth: 1,
+                  borderBottomColor: colors.border,
+                }}
+              >
+                <FontAwesome5
+                  name={activeProfile ? "circle" : "check-circle"}
+                  size={16}
+                  color={activeProfile ? colors.textSecondary : colors.primaryLight}
+                  style={{ marginRight: 12 }}
+                />
+                <Text style={[styles.labelText(colors), { flex: 1 }]}>No Profile</Text>
+              </TouchableOpacity>
+              {profiles.map((profile) => {
+                const isActive = activeProfile?.id === profile.id;
+                return (
+                  <View
+                    key={profile.id}
+                    style={{
+                      flexDirection: 'row',
+                      alignItems: 'center',
+                      paddingVertical: 10,
+                      borderBottomWidth: 1,
+                      borderBottomColor: colors.border,
+                    }}
+                  >
+                    <TouchableOpacity
+                      onPress={() => handleSwitch(profile.id)}
+                      style={{ flex: 1, flexDirection: 'row', alignItems: 'center' }}
+                    >
+                      <FontAwesome5
+                        name={isActive ? "check-circle" : "circle"}
+                        size={16}
+                        color={isActive ? colors.primaryLight : colors.textSecondary}
+                        style={{ marginRight: 12 }}
+                      />
+                      <View style={{ flex: 1 }}>
+                        <Text style={styles.labelText(colors)}>{profile.name}</Text>
+                        <Text style={styles.labelSubtext(colors)}>{describeProfile(profile)}</Text>
+                      </View>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => onExportProfile(profile)} style={{ padding: 8 }}>
+                      <FontAwesome5 name="share-alt" size={14} color={colors.primaryLight} />
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => handleDelete(profile)} style={{ padding: 8 }}>
+                      <FontAwesome5 name="trash" size={14} color={colors.textSecondary} />
+                    </TouchableOpacity>
+                  </View>
+                );
+              })}
+
+              <View style={{ marginTop: 16, marginBottom: 16 }}>
+                <Label colors={colors} sub="Which multipliers apply first, and whether flat bonuses are doubled along with the hand">
+                  Multiplier Stacking
+                </Label>
+                <Row style={{ justifyContent: 'flex-start', flexWrap: 'wrap' }} colors={colors}>
+                  {STACKING_PROFILES.map((profile) => (
+                    <Seg
+                      key={profile.id}
+                      selected={stackingProfile.id === profile.id}
+                      onPress={() => onStackingProfileChange(profile)}
+                      colors={colors}
+                      theme={theme}
+                    >
+                      {profile.name}
+                    </Seg>
+                  ))}
+                </Row>
+              </View>
+
+              <View style={{ marginBottom: 16 }}>
+                <Label colors={colors}>Save Current Settings</Label>
+                <TextInput
+                  value={newProfileName}
+                  onChangeText={setNewProfileName}
+                  placeholder="Profile name (e.g. Tuesday Club)"
+                  placeholderTextColor={colors.textSecondary}
+                  style={styles.textInput(colors)}
+                />
+                <TouchableOpacity
+                  style={[styles.saveButton(colors), { marginTop: 8 }]}
+                  onPress={handleSave}
+                >
+                  <FontAwesome5 name="save" size={16} color={colors.card} style={{ marginRight: 8 }} />
+                  <Text style={styles.saveButtonText(colors, theme)}>Save as New Profile</Text>
+                </TouchableOpacity>
+              </View>
+
+              <View style={{ marginBottom: 16 }}>
+                <Label colors={colors} sub="Paste a profile someone shared with you">Import Profile</Label>
+                <TextInput
+                  value={importText}
+                  onChangeText={setImportText}
+                  placeholder='{"format": "mahjong-calculator/house-rules", ...}'
+                  placeholderTextColor={colors.textSecondary}
+                  multiline
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  style={[styles.textInput(colors), { minHeight: 100, textAlignVertical: 'top' }]}
+                />
+                <TouchableOpacity
+                  style={[styles.saveButton(colors), { marginTop: 8 }]}
+                  onPress={handleImport}
+                >
+                  <FontAwesome5 name="file-import" size={16} color={colors.card} style={{ marginRight: 8 }} />
+                  <Text style={styles.saveButtonText(colors, theme)}>Import</Text>
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </View>
+        </TouchableOpacity>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
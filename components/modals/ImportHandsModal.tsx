@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ScrollView, Modal, Alert, KeyboardAvoidingView, Platform } from 'react-native';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { getColors } from '@/constants/colors';
+import { styles } from '../ScoreCalculatorCard.styles';
+import { Label } from '../shared/CalculatorHelpers';
+import { importHands } from '@/lib/storage/handStorage';
+import { parseHandsImport } from '@/lib/utils/handExport';
+
+/** Rejected rows listed in the summary before it is cut short. */
+const MAX_LISTED_ERRORS = 5;
+
+interface ImportHandsModalProps {
+  visible: boolean;
+  theme: 'light' | 'dark';
+  onClose: () => void;
+  onImported: () => void;
+}
+
+export default function ImportHandsModal({
+  visible,
+  theme,
+  onClose,
+  onImported,
+}: ImportHandsModalProps) {
+  const colors = getColors(theme);
+  const [importText, setImportText] = useState<string>("");
+
+  const handleImport = async () => {
+    if (!importText.trim()) {
+      Alert.alert("Nothing to Import", "Paste a CSV or JSON export of saved hands first.");
+      return;
+    }
+    const { hands, errors } = parseHandsImport(importText);
+    if (hands.length === 0) {
+      Alert.alert("Import Failed", errors.slice(0, MAX_LISTED_ERRORS).join('\n') || "No hands found.");
+      return;
+    }
+    try {
+      const { added, duplicates } = await importHands(hands);
+      const lines = [`Imported ${added} hand${added === 1 ? '' : 's'}.`];
+      if (duplicates > 0) {
+        lines.push(`Skipped ${duplicates} already saved.`);
+      }
+      if (errors.length > 0) {
+        lines.push(`Rejected ${errors.length} row${errors.length === 1 ? '' : 's'}:`);
+        lines.push(...errors.slice(0, MAX_LISTED_ERRORS));
+        if (errors.length > MAX_LISTED_ERRORS) {
+          lines.push(`…and ${errors.length - MAX_LISTED_ERRORS} more`);
+        }
+      }
+      Alert.alert("Import Complete", lines.join('\n'));
+      setImportText("");
+      onImported();
+      onClose();
+    } catch (error) {
+      Alert.alert("Error", "Failed to import hands. Please try again.");
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={{ flex: 1 }}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <TouchableOpacity
+          style={styles.modalOverlayBottom(colors)}
+          activeOpacity={1}
+          onPress={onClose}
+        >
+          <View style={styles.modalContent(colors)} onStartShouldSetResponder={() => true}>
+            <View style={styles.modalHeader(colors)}>
+              <Text style={styles.modalTitle(colors)}>Import Hands</Text>
+              <TouchableOpacity onPress={onClose}>
+                <FontAwesome5 name="times" size={20} color={colors.text} />
+              </TouchableOpacity>
+            </View>
+            <ScrollView
+              style={styles.modalScrollView}
+              contentContainerStyle={{ padding: 16 }}
+              keyboardShouldPersistTaps="handled"
+              automaticallyAdjustKeyboardInsets
+            >
+              <Label colors={colors} sub="Hands you already have are skipped">
+                Paste a CSV or JSON export
+              </Label>
+              <TextInput
+                value={importText}
+                onChangeText={setImportText}
+                placeholder="id,timestamp,date,handName,..."
+                placeholderTextColor={colors.textSecondary}
+                multiline
+                autoCapitalize="none"
+                autoCorrect={false}
+                style={[styles.textInput(colors), { minHeight: 160, textAlignVertical: 'top' }]}
+              />
+              <TouchableOpacity
+                style={[styles.saveButton(colors), { marginTop: 12 }]}
+                onPress={handleImport}
+              >
+                <FontAwesome5 name="file-import" size={16} color={colors.card} style={{ marginRight: 8 }} />
+                <Text style={styles.saveButtonText(colors, theme)}>Import</Text>
+              </TouchableOpacity>
+            </ScrollView>
+          </View>
+        </TouchableOpacity>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
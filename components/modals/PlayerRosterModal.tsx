@@ -0,0 +1,265 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ScrollView, Modal, Alert, KeyboardAvoidingView, Platform } from 'react-native';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { getColors, AVATAR_COLORS } from '@/constants/colors';
+import { styles } from '../ScoreCalculatorCard.styles';
+import { Row, Label, Seg } from '../shared/CalculatorHelpers';
+import { getRoster, saveRosterPlayer, deleteRosterPlayer } from '@/lib/storage/rosterStorage';
+import { SEAT_WINDS, type RosterPlayer, type SeatWind } from '@/lib/types/player';
+
+interface PlayerRosterModalProps {
+  visible: boolean;
+  theme: 'light' | 'dark';
+  onClose: () => void;
+  onRosterChange?: (roster: RosterPlayer[]) => void;
+}
+
+export function PlayerAvatar({ name, color, size = 28 }: { name: string; color?: string; size?: number }) {
+  return (
+    <View
+      style={{
+        width: size,
+        height: size,
+        borderRadius: size / 2,
+        backgroundColor: color ?? AVATAR_COLORS[0],
+        alignItems: 'center',
+        justifyContent: 'center',
+        marginRight: 10,
+      }}
+    >
+      <Text style={{ color: '#FFFFFF', fontWeight: '700', fontSize: size * 0.45 }}>
+        {name.trim().charAt(0).toUpperCase() || '?'}
+      </Text>
+    </View>
+  );
+}
+
+export default function PlayerRosterModal({
+  visible,
+  theme,
+  onClose,
+  onRosterChange,
+}: PlayerRosterModalProps) {
+  const colors = getColors(theme);
+  const [roster, setRoster] = useState<RosterPlayer[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState<string>("");
+  const [avatarColor, setAvatarColor] = useState<string>(AVATAR_COLORS[0]);
+  const [preferredSeat, setPreferredSeat] = useState<SeatWind | undefined>(undefined);
+
+  const loadRoster = async () => {
+    const players = await getRoster();
+    setRoster(players);
+    onRosterChange?.(players);
+  };
+
+  useEffect(() => {
+    if (visible) {
+      loadRoster();
+    }
+  }, [visible]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setAvatarColor(AVATAR_COLORS[roster.length % AVATAR_COLORS.length]);
+    setPreferredSeat(undefined);
+  };
+
+  const handleEdit = (player: RosterPlayer) => {
+    setEditingId(player.id);
+    setName(player.name);
+    setAvatarColor(player.avatarColor ?? AVATAR_COLORS[0]);
+    setPreferredSeat(player.preferredSeat);
+  };
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      Alert.alert("Missing Name", "Enter a name for the player.");
+      return;
+    }
+    if (roster.some((p) => p.id !== editingId && p.name.toLowerCase() === trimmed.toLowerCase())) {
+      Alert.alert("Duplicate Name", "A player with this name is already on the roster.");
+      return;
+    }
+    const existing = roster.find((p) => p.id === editingId);
+    try {
+      await saveRosterPlayer({
+        id: existing?.id ?? Date.now().toString() + Math.random().toString(36).substr(2, 9),
+        name: trimmed,
+        avatarColor,
+        preferredSeat,
+        createdAt: existing?.createdAt ?? Date.now(),
+      });
+      await loadRoster();
+      resetForm();
+    } catch (error) {
+      Alert.alert("Error", "Failed to save player. Please try again.");
+    }
+  };
+
+  const handleDelete = (player: RosterPlayer) => {
+    Alert.alert(
+      "Remove Player",
+      `Remove ${player.name} from the roster?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteRosterPlayer(player.id);
+              if (editingId === player.id) resetForm();
+              await loadRoster();
+            } catch (error) {
+              Alert.alert("Error", "Failed to remove player.");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={{ flex: 1 }}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <TouchableOpacity
+          style={styles.modalOverlayBottom(colors)}
+          activeOpacity={1}
+          onPress={onClose}
+        >
+          <View style={styles.modalContent(colors)} onStartShouldSetResponder={() => true}>
+            <View style={styles.modalHeader(colors)}>
+              <Text style={styles.modalTitle(colors)}>Player Roster</Text>
+              <TouchableOpacity onPress={onClose}>
+                <FontAwesome5 name="times" size={20} color={colors.text} />
+              </TouchableOpacity>
+            </View>
+            <ScrollView
+              style={styles.modalScrollView}
+              contentContainerStyle={{ padding: 16 }}
+              keyboardShouldPersistTaps="handled"
+              automaticallyAdjustKeyboardInsets
+            >
+              {roster.length === 0 ? (
+                <Text style={[styles.labelSubtext(colors), { marginBottom: 16 }]}>
+                  No players yet. Add the people you play with to pick them for seats and payouts.
+                </Text>
+              ) : (
+                roster.map((player) => (
+                  <View
+                    key={player.id}
+                    style={{
+                      flexDirection: 'row',
+                      alignItems: 'center',
+                      paddingVertical: 8,
+                      borderBottomWidth: 1,
+                      borderBottomColor: colors.border,
+                    }}
+                  >
+                    <PlayerAvatar name={player.name} color={player.avatarColor} />
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.labelText(colors)}>{player.name}</Text>
+                      {player.preferredSeat && (
+                        <Text style={styles.labelSubtext(colors)}>Prefers {player.preferredSeat}</Text>
+                      )}
+                    </View>
+                    <TouchableOpacity onPress={() => handleEdit(player)} style={{ padding: 8 }}>
+                      <FontAwesome5 name="edit" size={14} color={colors.primaryLight} />
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => handleDelete(player)} style={{ padding: 8 }}>
+                      <FontAwesome5 name="trash" size={14} color={colors.textSecondary} />
+                    </TouchableOpacity>
+                  </View>
+                ))
+              )}
+
+              <View style={{ marginTop: 16, marginBottom: 16 }}>
+                <Label colors={colors}>{editingId ? "Edit Player" : "Add Player"}</Label>
+                <TextInput
+                  value={name}
+                  onChangeText={setName}
+                  placeholder="Player name"
+                  placeholderTextColor={colors.textSecondary}
+                  style={styles.textInput(colors)}
+                />
+              </View>
+
+              <View style={{ marginBottom: 16 }}>
+                <Label colors={colors}>Avatar Colour</Label>
+                <Row style={{ justifyContent: 'flex-start', flexWrap: 'wrap' }} colors={colors}>
+                  {AVATAR_COLORS.map((color) => (
+                    <TouchableOpacity
+                      key={color}
+                      onPress={() => setAvatarColor(color)}
+                      style={{
+                        width: 32,
+                        height: 32,
+                        borderRadius: 16,
+                        backgroundColor: color,
+                        marginRight: 8,
+                        marginBottom: 8,
+                        borderWidth: avatarColor === color ? 3 : 0,
+                        borderColor: colors.text,
+                      }}
+                    />
+                  ))}
+                </Row>
+              </View>
+
+              <View style={{ marginBottom: 16 }}>
+                <Label colors={colors} sub="Used to seat players automatically">Preferred Seat</Label>
+                <Row style={{ justifyContent: 'flex-start', flexWrap: 'wrap' }} colors={colors}>
+                  <Seg
+                    selected={preferredSeat === undefined}
+                    onPress={() => setPreferredSeat(undefined)}
+                    colors={colors}
+                    theme={theme}
+                  >
+                    Any
+                  </Seg>
+                  {SEAT_WINDS.map((seat) => (
+                    <Seg
+                      key={seat}
+                      selected={preferredSeat === seat}
+                      onPress={() => setPreferredSeat(seat)}
+                      colors={colors}
+                      theme={theme}
+                    >
+                      {seat}
+                    </Seg>
+                  ))}
+                </Row>
+              </View>
+
+              <TouchableOpacity
+                style={[styles.saveButton(colors), { marginTop: 8 }]}
+                onPress={handleSave}
+              >
+                <FontAwesome5 name="save" size={16} color={colors.card} style={{ marginRight: 8 }} />
+                <Text style={styles.saveButtonText(colors, theme)}>
+                  {editingId ? "Save Player" : "Add Player"}
+                </Text>
+              </TouchableOpacity>
+              {editingId && (
+                <TouchableOpacity onPress={resetForm} style={{ padding: 12, alignItems: 'center' }}>
+                  <Text style={styles.labelSubtext(colors)}>Cancel Editing</Text>
+                </TouchableOpacity>
+              )}
+            </ScrollView>
+          </View>
+        </TouchableOpacity>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
@@ -9,6 +9,10 @@ interface SettingsMenuModalProps {
   theme: 'light' | 'dark';
   onClose: () => void;
   onThemeChange: (theme: 'light' | 'dark') => void;
+  /** Name of the house rule profile in use, if any. */
+  activeHouseRulesName?: string;
+  onHouseRulesPress: () => void;
+  onBackupPress: () => void;
   onPrivacyPolicyPress: () => void;
   onContactUsPress: () => void;
 }
@@ -18,6 +22,9 @@ export default function SettingsMenuModal({
   theme,
   onClose,
   onThemeChange,
+  activeHouseRulesName,
+  onHouseRulesPress,
+  onBackupPress,
   onPrivacyPolicyPress,
   onContactUsPress,
 }: SettingsMenuModalProps) {
@@ -61,6 +68,35 @@ export default function SettingsMenuModal({
               </View>
             </View>
 
+            {/* House Rules */}
+            <TouchableOpacity
+              style={styles.menuItem(colors)}
+              onPress={() => {
+                onClose();
+                onHouseRulesPress();
+              }}
+            >
+              <FontAwesome5 name="book" size={18} color={colors.text} style={{ marginRight: 12 }} />
+              <View style={{ flex: 1 }}>
+                <Text style={[styles.menuItemText(colors), { flex: 0 }]}>House Rules</Text>
+                <Text style={styles.menuItemSubtext(colors)}>{activeHouseRulesName ?? 'No profile'}</Text>
+              </View>
+              <FontAwesome5 name="chevron-right" size={14} color={colors.textSecondary} />
+            </TouchableOpacity>
+
+            {/* Backup & Restore */}
+            <TouchableOpacity
+              style={styles.menuItem(colors)}
+              onPress={() => {
+                onClose();
+                onBackupPress();
+              }}
+            >
+              <FontAwesome5 name="database" size={18} color={colors.text} style={{ marginRight: 12 }} />
+              <Text style={styles.menuItemText(colors)}>Backup & Restore</Text>
+              <FontAwesome5 name="chevron-right" size={14} color={colors.textSecondary} />
+            </TouchableOpacity>
+
             {/* Privacy Policy */}
             <TouchableOpacity
               style={styles.menuItem(colors)}
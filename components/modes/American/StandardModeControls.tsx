@@ -5,6 +5,7 @@ import { getColors } from '@/constants/colors';
 import { styles } from '../../ScoreCalculatorCard.styles';
 import { Row, Label, Seg, RowWithEdit } from '../../shared/CalculatorHelpers';
 import type { WinType } from '@/lib/scoring/types';
+import type { ScoreInputIssue } from '@/lib/scoring/validation';
 import CustomRulesSection from '../../CustomRulesSection';
 import type { CustomRule } from '@/lib/storage/customRulesStorage';
 
@@ -23,10 +24,14 @@ interface StandardModeControlsProps {
   robbingTheJoker: boolean;
   eastDouble: boolean;
   isWinnerEast: boolean;
+  /** Set when seats are known (e.g. in a session); replaces the "I Am East" toggle. */
+  eastPlayerName?: string;
   numPlayers: number;
   customRules: CustomRule[];
   selectedCustomRuleIds: Set<string>;
   customRuleValues: Record<string, { type: 'multiplier' | 'points', value: number }>;
+  /** Impossible (error) or unusual (warning) input combinations to flag. */
+  inputIssues: ScoreInputIssue[];
   theme: 'light' | 'dark';
   onWinTypeChange: (winType: WinType) => void;
   onJokerlessChange: (value: boolean) => void;
@@ -63,10 +68,12 @@ export default function StandardModeControls({
   robbingTheJoker,
   eastDouble,
   isWinnerEast,
+  eastPlayerName,
   numPlayers,
   customRules,
   selectedCustomRuleIds,
   customRuleValues,
+  inputIssues,
   theme,
   onWinTypeChange,
   onJokerlessChange,
@@ -91,6 +98,33 @@ export default function StandardModeControls({
 
   return (
     <>
+      {/* Input issues */}
+      {inputIssues.length > 0 && (
+        <View
+          style={{
+            marginTop: 4,
+            marginBottom: 8,
+            padding: 10,
+            borderRadius: 8,
+            borderWidth: 1,
+            borderColor: colors.clearButton,
+            backgroundColor: colors.inputBackground,
+          }}
+        >
+          {inputIssues.map((issue) => (
+            <View key={issue.code} style={{ flexDirection: 'row', alignItems: 'flex-start', marginVertical: 2 }}>
+              <FontAwesome5
+                name={issue.severity === 'error' ? 'times-circle' : 'exclamation-triangle'}
+                size={12}
+                color={issue.severity === 'error' ? colors.clearButton : colors.textSecondary}
+                style={{ marginRight: 6, marginTop: 2 }}
+              />
+              <Text style={[styles.labelSubtext(colors), { flex: 1, color: colors.text }]}>{issue.message}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
       {/* Win Type */}
       <View style={{ marginTop: 4, opacity: wallGame ? 0.5 : 1 }}>
         <Label colors={colors}>Win Type</Label>
@@ -321,7 +355,12 @@ export default function StandardModeControls({
             <FontAwesome5 name="edit" size={14} color="transparent" />
           </View>
         </RowWithEdit>
-        {eastDouble && (
+        {eastDouble && eastPlayerName && (
+          <Text style={[styles.labelSubtext(colors), { marginTop: 4 }]}>
+            East is {eastPlayerName}
+          </Text>
+        )}
+        {eastDouble && !eastPlayerName && (
           <View style={{ marginTop: 8 }}>
             <Row colors={colors}>
               <Label colors={colors} sub="Mark if you (the winner) are East">I Am East</Label>
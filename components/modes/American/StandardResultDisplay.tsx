@@ -1,22 +1,31 @@
-import React from 'react';
-import { View, Text } from 'react-native';
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { FontAwesome5 } from '@expo/vector-icons';
 import { getColors } from '@/constants/colors';
 import { styles } from '../../ScoreCalculatorCard.styles';
-import type { ScoreResult } from '@/lib/scoring/types';
+import type { ScoreInput, ScoreResult, ScoreTraceStep } from '@/lib/scoring/types';
+import { hasScoreInputErrors, type ScoreInputIssue } from '@/lib/scoring/validation';
+import { formatAmount, formatSignedAmount } from '@/lib/utils/format';
 import type { CustomRule } from '@/lib/storage/customRulesStorage';
 import StandardSaveHand from './StandardSaveHand';
 import StandardClearButton from './StandardClearButton';
 import type { HandCardYear } from '@/lib/data/handData';
-import type { SavedHand } from '@/lib/types/game';
+import type { SavedHand, StandardHandControls } from '@/lib/types/game';
 
 interface StandardResultDisplayProps {
   result: ScoreResult;
+  /** Engine input behind the result, saved with the hand. */
+  scoreInput: ScoreInput;
+  /** Problems found in the inputs; errors block saving. */
+  inputIssues: ScoreInputIssue[];
   winType: 'self_pick' | 'discard';
   displayMode: 'currency' | 'points';
   theme: 'light' | 'dark';
   eastDouble: boolean;
   isWinnerEast: boolean;
   winnerId?: string;
+  /** Display names for payer map IDs (e.g. session players). */
+  playerNames?: Record<string, string>;
   selectedCustomRuleIds: Set<string>;
   customRules: CustomRule[];
   // Save Hand props
@@ -34,18 +43,24 @@ interface StandardResultDisplayProps {
   categoryId: string;
   selectedHand: string;
   calculatorMode: SavedHand['mode'];
+  controls: StandardHandControls;
+  editingHand?: SavedHand;
+  onEditFinished?: () => void;
   // Clear button props
   onClear: () => void;
 }
 
 export default function StandardResultDisplay({
   result,
+  scoreInput,
+  inputIssues,
   winType,
   displayMode,
   theme,
   eastDouble,
   isWinnerEast,
   winnerId,
+  playerNames,
   selectedCustomRuleIds,
   customRules,
   handName,
@@ -62,13 +77,29 @@ export default function StandardResultDisplay({
   categoryId,
   selectedHand,
   calculatorMode,
+  controls,
+  editingHand,
+  onEditFinished,
   onClear,
 }: StandardResultDisplayProps) {
   const colors = getColors(theme);
+  const [showTrace, setShowTrace] = useState(false);
+
+  const describeStep = (step: ScoreTraceStep) => {
+    const parts: string[] = [];
+    if (step.multiplier !== undefined) parts.push(`×${step.multiplier}`);
+    if (step.points !== undefined) parts.push(formatSignedAmount(step.points, displayMode));
+    return parts.length > 0 ? `${step.label} (${parts.join(', ')})` : step.label;
+  };
 
   return (
     <>
       <Text style={styles.resultsTitle(colors)}>Standard Breakdown</Text>
+      {hasScoreInputErrors(inputIssues) && (
+        <Text style={[styles.resultText(colors), { color: colors.clearButton, fontWeight: 'bold' }]}>
+          These inputs cannot all be true, so this result is not reliable. Fix the flagged inputs above.
+        </Text>
+      )}
 
       {/* Wall Game - show special message when enabled */}
       {result.rule.wallGameApplied ? (
@@ -118,7 +149,6 @@ export default function StandardResultDisplay({
             const rule = customRules.find(r => r.id === id);
             if (!rule) return null;
             
-            // Build description for new format
             const parts: string[] = [];
             
             // Winner bonus
@@ -148,19 +178,6 @@ export default function StandardResultDisplay({
               }
             }
             
-            // Legacy format support
-            if (parts.length === 0) {
-              if (rule.type === 'multiplier' && rule.value) {
-                parts.push(`×${rule.value}`);
-              } else if (rule.type === 'points' && rule.value) {
-                parts.push(`+${rule.value} ${displayMode === 'currency' ? 'cents' : 'points'}`);
-              } else if (rule.type === 'opponentDeduction' && rule.value) {
-                parts.push(`Each opponent: -${rule.value} ${displayMode === 'currency' ? 'cents' : 'points'}`);
-              } else if (rule.type === 'discarderDeduction' && rule.value) {
-                parts.push(`Discarder: -${rule.value} ${displayMode === 'currency' ? 'cents' : 'points'}`);
-              }
-            }
-            
             // Skip if no effects found
             if (parts.length === 0) {
               return null;
@@ -300,6 +317,52 @@ export default function StandardResultDisplay({
         )}
       </View>
 
+      {/* Audit trail: every rule the engine applied, in order */}
+      {(result.trace?.length ?? 0) > 0 && (
+        <View style={styles.payerMapSection}>
+          <TouchableOpacity
+            onPress={() => setShowTrace(!showTrace)}
+            style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}
+          >
+            <Text style={styles.payerMapTitle(colors)}>How this was calculated</Text>
+            <FontAwesome5
+              name={showTrace ? "chevron-up" : "chevron-down"}
+              size={14}
+              color={colors.textSecondary}
+            />
+          </TouchableOpacity>
+          {showTrace && result.trace!.map((step, index) => (
+            <View key={`${step.rule}-${index}`} style={{ marginTop: 8 }}>
+              <Text style={[styles.resultText(colors), { fontWeight: '600' }]}>
+                {index + 1}. {describeStep(step)}
+              </Text>
+              {step.after.discarder !== undefined && step.after.discarder !== step.before.discarder && (
+                <Text style={[styles.resultText(colors), { marginLeft: 12 }]}>
+                  Discarder: {formatAmount(step.before.discarder ?? 0, displayMode)} → {formatAmount(step.after.discarder, displayMode)}
+                </Text>
+              )}
+              {step.after.others !== undefined && step.after.others !== step.before.others && (
+                <Text style={[styles.resultText(colors), { marginLeft: 12 }]}>
+                  {winType === "self_pick" ? "Each player" : "Each other player"}: {formatAmount(step.before.others ?? 0, displayMode)} → {formatAmount(step.after.others, displayMode)}
+                </Text>
+              )}
+              {Object.entries(step.after.payers ?? {}).map(([pid, amt]) => (
+                <Text key={pid} style={[styles.resultText(colors), { marginLeft: 12 }]}>
+                  {playerNames?.[pid] ?? pid}: {step.before.payers?.[pid] !== undefined && step.before.payers[pid] !== amt
+                    ? `${formatAmount(step.before.payers[pid], displayMode)} → `
+                    : ''}{formatAmount(amt, displayMode)}
+                </Text>
+              ))}
+              <Text style={[styles.resultText(colors), { marginLeft: 12 }]}>
+                Total to winner: {step.before.totalToWinner !== step.after.totalToWinner
+                  ? `${formatAmount(step.before.totalToWinner, displayMode)} → `
+                  : ''}{formatAmount(step.after.totalToWinner, displayMode)}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
       {/* Save Hand Section */}
       <StandardSaveHand
         handName={handName}
@@ -309,6 +372,11 @@ export default function StandardResultDisplay({
         singlesAndPairs={singlesAndPairs}
         noExposures={noExposures}
         result={result}
+        scoreInput={scoreInput}
+        inputIssues={inputIssues}
+        controls={controls}
+        editingHand={editingHand}
+        onEditFinished={onEditFinished}
         displayMode={displayMode}
         mode={calculatorMode}
         cardYear={cardYear}
@@ -334,7 +402,7 @@ export default function StandardResultDisplay({
           <Text style={styles.payerMapTitle(colors)}>Per Player</Text>
           {Object.entries(result.payerMap).map(([pid, amt]) => (
             <Text key={pid} style={styles.resultText(colors)}>
-              {pid}: {amt > 0 
+              {playerNames?.[pid] ?? pid}: {amt > 0 
                 ? `pays ${displayMode === "currency" ? `$${(amt / 100).toFixed(2)}` : `${amt} pts`}`
                 : `receives ${displayMode === "currency" ? `$${(Math.abs(amt) / 100).toFixed(2)}` : `${Math.abs(amt)} pts`}`}
             </Text>
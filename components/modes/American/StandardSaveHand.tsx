@@ -3,9 +3,11 @@ import { View, Text, TouchableOpacity, Alert } from 'react-native';
 import { FontAwesome5 } from '@expo/vector-icons';
 import { getColors } from '@/constants/colors';
 import { styles } from '../../ScoreCalculatorCard.styles';
-import { saveHand } from '@/lib/storage/handStorage';
-import type { SavedHand } from '@/lib/types/game';
-import type { ScoreResult, WinType } from '@/lib/scoring/types';
+import { saveHand, updateHand } from '@/lib/storage/handStorage';
+import { SCORING_ENGINE_VERSION } from '@/lib/scoring/engine';
+import type { SavedHand, StandardHandControls } from '@/lib/types/game';
+import type { ScoreInput, ScoreResult, WinType } from '@/lib/scoring/types';
+import { hasScoreInputErrors, type ScoreInputIssue } from '@/lib/scoring/validation';
 import type { HandCardYear } from '@/lib/data/handData';
 
 interface StandardSaveHandProps {
@@ -16,6 +18,12 @@ interface StandardSaveHandProps {
   singlesAndPairs: boolean;
   noExposures: boolean;
   result: ScoreResult;
+  scoreInput: ScoreInput;
+  inputIssues: ScoreInputIssue[];
+  controls: StandardHandControls;
+  /** Saved hand being corrected; saving replaces it instead of adding a new one. */
+  editingHand?: SavedHand;
+  onEditFinished?: () => void;
   displayMode: 'currency' | 'points';
   mode: SavedHand['mode'];
   cardYear: HandCardYear;
@@ -37,6 +45,11 @@ export default function StandardSaveHand({
   singlesAndPairs,
   noExposures,
   result,
+  scoreInput,
+  inputIssues,
+  controls,
+  editingHand,
+  onEditFinished,
   displayMode,
   mode,
   cardYear,
@@ -59,7 +72,31 @@ export default function StandardSaveHand({
       );
       return;
     }
+    if (hasScoreInputErrors(inputIssues)) {
+      Alert.alert(
+        "Check the Hand",
+        inputIssues
+          .filter((issue) => issue.severity === 'error')
+          .map((issue) => `• ${issue.message}`)
+          .join('\n')
+      );
+      return;
+    }
+    if (inputIssues.length > 0) {
+      Alert.alert(
+        "Save Anyway?",
+        inputIssues.map((issue) => `• ${issue.message}`).join('\n'),
+        [
+          { text: "Cancel", style: "cancel" },
+          { text: "Save", onPress: saveConfirmed },
+        ]
+      );
+      return;
+    }
+    await saveConfirmed();
+  };
 
+  const saveConfirmed = async () => {
     const statsLabel =
       mode === "international"
         ? `International Mahjong → ${cardYear}`
@@ -67,8 +104,8 @@ export default function StandardSaveHand({
 
     try {
       const handToSave: SavedHand = {
-        id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
-        timestamp: Date.now(),
+        id: editingHand?.id ?? Date.now().toString() + Math.random().toString(36).substr(2, 9),
+        timestamp: editingHand?.timestamp ?? Date.now(),
         handName: handName.trim() || (wallGame ? "Wall Game" : "Custom Hand"),
         basePoints: Number(basePoints || 0),
         winType,
@@ -87,7 +124,16 @@ export default function StandardSaveHand({
         isWinner: !wallGame, // Wall games are not wins
         wallGame: wallGame || false,
         kittyPayout: kittyPayout,
+        scoreInput: { engine: 'standard', input: scoreInput },
+        engineVersion: SCORING_ENGINE_VERSION,
+        controls,
       };
+      if (editingHand) {
+        await updateHand(handToSave);
+        Alert.alert("Updated!", "The saved hand has been corrected.");
+        onEditFinished?.();
+        return;
+      }
       await saveHand(handToSave);
       onSaveSuccess(true);
       setTimeout(() => onSaveSuccess(false), 2000);
@@ -96,7 +142,7 @@ export default function StandardSaveHand({
         `Hand saved. View it in Statistics under ${statsLabel}.`
       );
     } catch (error) {
-      Alert.alert("Error", "Failed to save hand. Please try again.");
+      Alert.alert("Error", `Failed to ${editingHand ? "update" : "save"} hand. Please try again.`);
       console.error("Save error:", error);
     }
   };
@@ -114,9 +160,14 @@ export default function StandardSaveHand({
           style={{ marginRight: 8 }} 
         />
         <Text style={styles.saveButtonText(colors, theme)}>
-          {saveSuccess ? "Saved!" : "Save Hand"}
+          {saveSuccess ? "Saved!" : editingHand ? "Update Saved Hand" : "Save Hand"}
         </Text>
       </TouchableOpacity>
+      {editingHand && (
+        <TouchableOpacity onPress={onEditFinished} style={{ padding: 12, alignItems: 'center' }}>
+          <Text style={styles.labelSubtext(colors)}>Cancel Editing</Text>
+        </TouchableOpacity>
+      )}
     </View>
   );
 }
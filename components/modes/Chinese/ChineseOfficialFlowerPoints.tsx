@@ -5,11 +5,15 @@ import { getColors } from '@/constants/colors';
 import type { Hand } from '@/lib/scoring/chineseOfficial/tiles';
 import { Row, Label } from '../../shared/CalculatorHelpers';
 
+const WIND_NAMES: Record<string, string> = { E: 'East', S: 'South', W: 'West', N: 'North' };
+
 interface ChineseOfficialFlowerPointsProps {
   flowerCount: string;
   chineseOfficialHand: Hand | null;
   chineseOfficialPrevalentWindPung: boolean;
   chineseOfficialSeatWindPung: boolean;
+  playerWind?: string;
+  prevalentWind?: string;
   onFlowerCountChange: (count: string) => void;
   onPrevalentWindPungChange: (value: boolean) => void;
   onSeatWindPungChange: (value: boolean) => void;
@@ -21,12 +25,15 @@ export default function ChineseOfficialFlowerPoints({
   chineseOfficialHand,
   chineseOfficialPrevalentWindPung,
   chineseOfficialSeatWindPung,
+  playerWind,
+  prevalentWind,
   onFlowerCountChange,
   onPrevalentWindPungChange,
   onSeatWindPungChange,
   theme,
 }: ChineseOfficialFlowerPointsProps) {
   const colors = getColors(theme);
+  const windName = (wind: string) => WIND_NAMES[wind] ?? wind;
 
   return (
     <>
@@ -153,25 +160,35 @@ export default function ChineseOfficialFlowerPoints({
         </View>
       </View>
 
-      <Row colors={colors} style={{ marginTop: 16 }}>
-        <Label colors={colors}>Prevalent Wind Pung</Label>
-        <Switch 
-          value={chineseOfficialPrevalentWindPung} 
-          onValueChange={onPrevalentWindPungChange}
-          trackColor={{ false: colors.border, true: colors.gobutton }}
-          thumbColor={chineseOfficialPrevalentWindPung ? colors.card : colors.textSecondary}
-        />
-      </Row>
+      {playerWind && prevalentWind ? (
+        <Row colors={colors} style={{ marginTop: 16 }}>
+          <Label colors={colors} sub="Set by the session's seat rotation; wind pungs are detected automatically">
+            Prevalent Wind: {windName(prevalentWind)} · Seat Wind: {windName(playerWind)}
+          </Label>
+        </Row>
+      ) : (
+        <>
+          <Row colors={colors} style={{ marginTop: 16 }}>
+            <Label colors={colors}>Prevalent Wind Pung</Label>
+            <Switch 
+              value={chineseOfficialPrevalentWindPung} 
+              onValueChange={onPrevalentWindPungChange}
+              trackColor={{ false: colors.border, true: colors.gobutton }}
+              thumbColor={chineseOfficialPrevalentWindPung ? colors.card : colors.textSecondary}
+            />
+          </Row>
 
-      <Row colors={colors}>
-        <Label colors={colors}>Seat Wind Pung</Label>
-        <Switch 
-          value={chineseOfficialSeatWindPung} 
-          onValueChange={onSeatWindPungChange}
-          trackColor={{ false: colors.border, true: colors.gobutton }}
-          thumbColor={chineseOfficialSeatWindPung ? colors.card : colors.textSecondary}
-        />
-      </Row>
+          <Row colors={colors}>
+            <Label colors={colors}>Seat Wind Pung</Label>
+            <Switch 
+              value={chineseOfficialSeatWindPung} 
+              onValueChange={onSeatWindPungChange}
+              trackColor={{ false: colors.border, true: colors.gobutton }}
+              thumbColor={chineseOfficialSeatWindPung ? colors.card : colors.textSecondary}
+            />
+          </Row>
+        </>
+      )}
     </>
   );
 }
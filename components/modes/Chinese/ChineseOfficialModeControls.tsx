@@ -1,12 +1,13 @@
 import React from 'react';
-import { View, Text, TouchableOpacity, Switch, Alert } from 'react-native';
+import { View, Text, TextInput, TouchableOpacity, Alert } from 'react-native';
 import { FontAwesome5 } from '@expo/vector-icons';
 import { getColors } from '@/constants/colors';
 import { styles } from '../../ScoreCalculatorCard.styles';
 import { Row, Label, Seg } from '../../shared/CalculatorHelpers';
 import { chineseOfficialFans } from '@/lib/scoring/chineseOfficial/chineseOfficialFans';
 import type { Hand, Tile } from '@/lib/scoring/chineseOfficial/tiles';
-import { TileInputEngine, getTileDisplayName } from '@/lib/scoring/chineseOfficial/tileInputEngine';
+import { TileInputEngine, getTileDisplayName, getMeldDisplayName } from '@/lib/scoring/chineseOfficial/tileInputEngine';
+import { meldTiles, type DeclaredMeld } from '@/lib/scoring/chineseOfficial/melds';
 import ChineseOfficialTilePicker from './ChineseOfficialTilePicker';
 import ChineseOfficialTileValidation from './ChineseOfficialTileValidation';
 import ChineseOfficialFlowerPoints from './ChineseOfficialFlowerPoints';
@@ -15,14 +16,19 @@ interface ChineseOfficialModeControlsProps {
   inputMode: 'fanSelection' | 'tileInput';
   selectedFans: Set<string>;
   flowerCount: string;
+  falseMahjongPenalty: string;
   isSelfDraw: boolean;
   isConcealed: boolean;
   prevalentWindPung: boolean;
   seatWindPung: boolean;
+  playerWind?: string; // Winner's seat wind when the session tracks seats
+  prevalentWind?: string;
   showFanModal: boolean;
   hand: Hand | null;
   detectedFanIds: string[];
   manualTiles: Tile[];
+  manualMelds: DeclaredMeld[];
+  manualWinningTile: Tile | null;
   showTilePicker: boolean;
   tileInputError: string | null;
   tileInputEngine: TileInputEngine;
@@ -31,6 +37,7 @@ interface ChineseOfficialModeControlsProps {
   onShowFanModalChange: (show: boolean) => void;
   onSelectedFansChange: (fans: Set<string>) => void;
   onFlowerCountChange: (count: string) => void;
+  onFalseMahjongPenaltyChange: (penalty: string) => void;
   onIsSelfDrawChange: (value: boolean) => void;
   onIsConcealedChange: (value: boolean) => void;
   onPrevalentWindPungChange: (value: boolean) => void;
@@ -39,6 +46,8 @@ interface ChineseOfficialModeControlsProps {
   onUseOptimalSolverChange: (value: boolean) => void;
   onDetectedFanIdsChange: (fanIds: string[]) => void;
   onManualTilesChange: (tiles: Tile[]) => void;
+  onManualMeldsChange: (melds: DeclaredMeld[]) => void;
+  onManualWinningTileChange: (tile: Tile | null) => void;
   onShowTilePickerChange: (show: boolean) => void;
   onTileInputErrorChange: (error: string | null) => void;
 }
@@ -47,14 +56,19 @@ export default function ChineseOfficialModeControls({
   inputMode,
   selectedFans,
   flowerCount,
+  falseMahjongPenalty,
   isSelfDraw,
   isConcealed,
   prevalentWindPung,
   seatWindPung,
+  playerWind,
+  prevalentWind,
   showFanModal,
   hand,
   detectedFanIds,
   manualTiles,
+  manualMelds,
+  manualWinningTile,
   showTilePicker,
   tileInputError,
   tileInputEngine,
@@ -63,6 +77,7 @@ export default function ChineseOfficialModeControls({
   onShowFanModalChange,
   onSelectedFansChange,
   onFlowerCountChange,
+  onFalseMahjongPenaltyChange,
   onIsSelfDrawChange,
   onIsConcealedChange,
   onPrevalentWindPungChange,
@@ -71,10 +86,15 @@ export default function ChineseOfficialModeControls({
   onUseOptimalSolverChange,
   onDetectedFanIdsChange,
   onManualTilesChange,
+  onManualMeldsChange,
+  onManualWinningTileChange,
   onShowTilePickerChange,
   onTileInputErrorChange,
 }: ChineseOfficialModeControlsProps) {
   const colors = getColors(theme);
+  const meldTileCount = manualMelds.reduce((sum, m) => sum + meldTiles(m.meld).length, 0);
+  const handTileCount = meldTileCount + manualTiles.length + (manualWinningTile ? 1 : 0);
+  const exposedSetCount = manualMelds.filter(m => m.exposed).length;
 
   return (
     <>
@@ -286,7 +306,7 @@ export default function ChineseOfficialModeControls({
           {/* Manual Tile Input Section */}
           <View style={{ marginTop: 4 }}>
             <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 8 }}>
-              <Label colors={colors} sub={`Current hand: ${manualTiles.length} tiles (${manualTiles.filter(t => t.kind.type !== 'flower').length} non-flower)`}>
+              <Label colors={colors} sub={`Current hand: ${handTileCount} tiles (${handTileCount - manualTiles.filter(t => t.kind.type === 'flower').length} non-flower)`}>
                 Manual Tile Input
               </Label>
               <TouchableOpacity
@@ -304,7 +324,7 @@ export default function ChineseOfficialModeControls({
             </View>
 
             {/* Current Hand Display */}
-            {manualTiles.length > 0 && (
+            {handTileCount > 0 && (
               <View style={{
                 padding: 12,
                 backgroundColor: colors.inputBackground,
@@ -314,8 +334,38 @@ export default function ChineseOfficialModeControls({
                 marginBottom: 12,
               }}>
                 <Text style={[styles.resultText(colors), { marginBottom: 8, fontWeight: '600' }]}>
-                  Current Hand ({manualTiles.length} tiles):
+                  Current Hand ({handTileCount} tiles):
                 </Text>
+                {manualMelds.length > 0 && (
+                  <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 6, marginBottom: 8 }}>
+                    {manualMelds.map((declared, index) => (
+                      <TouchableOpacity
+                        key={index}
+                        onPress={() => {
+                          tileInputEngine.removeMeldByIndex(index);
+                          const state = tileInputEngine.getState();
+                          onManualMeldsChange(state.melds);
+                          onTileInputErrorChange(state.errorMessage);
+                        }}
+                        style={{
+                          flexDirection: 'row',
+                          alignItems: 'center',
+                          padding: 6,
+                          paddingHorizontal: 10,
+                          backgroundColor: colors.card,
+                          borderRadius: 6,
+                          borderWidth: 1,
+                          borderColor: declared.exposed ? colors.primary : colors.border,
+                        }}
+                      >
+                        <Text style={[styles.resultText(colors), { fontSize: 12 }]}>
+                          {getMeldDisplayName(declared.meld)} ({declared.exposed ? 'exposed' : 'concealed'})
+                        </Text>
+                        <FontAwesome5 name="times" size={10} color={colors.textSecondary} style={{ marginLeft: 6 }} />
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
                 <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 6 }}>
                   {manualTiles.map((tile, index) => (
                     <TouchableOpacity
@@ -343,12 +393,40 @@ export default function ChineseOfficialModeControls({
                       <FontAwesome5 name="times" size={10} color={colors.textSecondary} style={{ marginLeft: 6 }} />
                     </TouchableOpacity>
                   ))}
+                  {manualWinningTile && (
+                    <TouchableOpacity
+                      onPress={() => {
+                        tileInputEngine.clearWinningTile();
+                        const state = tileInputEngine.getState();
+                        onManualWinningTileChange(state.winningTile);
+                        onTileInputErrorChange(state.errorMessage);
+                      }}
+                      style={{
+                        flexDirection: 'row',
+                        alignItems: 'center',
+                        padding: 6,
+                        paddingHorizontal: 10,
+                        backgroundColor: colors.card,
+                        borderRadius: 6,
+                        borderWidth: 2,
+                        borderColor: colors.primary,
+                      }}
+                    >
+                      <FontAwesome5 name="star" size={10} color={colors.primary} style={{ marginRight: 6 }} />
+                      <Text style={[styles.resultText(colors), { fontSize: 12 }]}>
+                        {getTileDisplayName(manualWinningTile)} (winning)
+                      </Text>
+                      <FontAwesome5 name="times" size={10} color={colors.textSecondary} style={{ marginLeft: 6 }} />
+                    </TouchableOpacity>
+                  )}
                 </View>
                 <TouchableOpacity
                   onPress={() => {
                     tileInputEngine.resetHand();
                     const state = tileInputEngine.getState();
                     onManualTilesChange(state.tiles);
+                    onManualMeldsChange(state.melds);
+                    onManualWinningTileChange(state.winningTile);
                     onTileInputErrorChange(null);
                   }}
                   style={{ marginTop: 8, alignSelf: 'flex-start' }}
@@ -382,6 +460,8 @@ export default function ChineseOfficialModeControls({
               tileInputEngine={tileInputEngine}
               manualTiles={manualTiles}
               onTilesChange={onManualTilesChange}
+              onMeldsChange={onManualMeldsChange}
+              onWinningTileChange={onManualWinningTileChange}
               onErrorChange={onTileInputErrorChange}
               onFlowerCountChange={onFlowerCountChange}
               theme={theme}
@@ -397,6 +477,8 @@ export default function ChineseOfficialModeControls({
               chineseOfficialIsSelfDraw={isSelfDraw}
               chineseOfficialPrevalentWindPung={prevalentWindPung}
               chineseOfficialSeatWindPung={seatWindPung}
+              playerWind={playerWind}
+              prevalentWind={prevalentWind}
               onHandChange={onHandChange}
               onUseOptimalSolverChange={onUseOptimalSolverChange}
               onFlowerCountChange={onFlowerCountChange}
@@ -417,15 +499,17 @@ export default function ChineseOfficialModeControls({
             </Row>
           </View>
 
-          {/* Basic Options for Tile Input Mode */}
+          {/* Concealment comes from the declared sets in Tile Input Mode */}
           <Row colors={colors} style={{ marginTop: 16 }}>
-            <Label colors={colors}>Fully Concealed</Label>
-            <Switch 
-              value={isConcealed} 
-              onValueChange={onIsConcealedChange}
-              trackColor={{ false: colors.border, true: colors.gobutton }}
-              thumbColor={isConcealed ? colors.card : colors.textSecondary}
-            />
+            <Label
+              colors={colors}
+              sub={exposedSetCount > 0
+                ? `${exposedSetCount} exposed set${exposedSetCount === 1 ? '' : 's'} declared`
+                : 'Enter claimed sets as exposed groups in the picker'}
+            >
+              Fully Concealed
+            </Label>
+            <Text style={styles.resultText(colors)}>{isConcealed ? 'Yes' : 'No'}</Text>
           </Row>
 
           {/* Flower Points Section */}
@@ -434,6 +518,8 @@ export default function ChineseOfficialModeControls({
             chineseOfficialHand={hand}
             chineseOfficialPrevalentWindPung={prevalentWindPung}
             chineseOfficialSeatWindPung={seatWindPung}
+            playerWind={playerWind}
+            prevalentWind={prevalentWind}
             onFlowerCountChange={onFlowerCountChange}
             onPrevalentWindPungChange={onPrevalentWindPungChange}
             onSeatWindPungChange={onSeatWindPungChange}
@@ -441,6 +527,21 @@ export default function ChineseOfficialModeControls({
           />
         </>
       )}
+
+      {/* False Mahjong Penalty */}
+      <View style={{ marginTop: 16 }}>
+        <Label colors={colors} sub="Paid to each opponent when the fans (without flowers) total under 8">
+          False Mahjong Penalty
+        </Label>
+        <TextInput
+          keyboardType="number-pad"
+          value={falseMahjongPenalty}
+          onChangeText={onFalseMahjongPenaltyChange}
+          placeholder="10"
+          placeholderTextColor={colors.textSecondary}
+          style={styles.textInput(colors)}
+        />
+      </View>
     </>
   );
 }
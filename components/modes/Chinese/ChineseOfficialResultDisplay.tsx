@@ -3,35 +3,59 @@ import { View, Text, TouchableOpacity, Alert } from 'react-native';
 import { FontAwesome5 } from '@expo/vector-icons';
 import { getColors } from '@/constants/colors';
 import { styles } from '../../ScoreCalculatorCard.styles';
-import type { ChineseOfficialResult } from '@/lib/scoring/chineseOfficial/chineseOfficialTypes';
+import type { ChineseOfficialInput, ChineseOfficialResult } from '@/lib/scoring/chineseOfficial/chineseOfficialTypes';
 import type { Hand } from '@/lib/scoring/chineseOfficial/tiles';
+import { MINIMUM_FAN_POINTS } from '@/lib/scoring/chineseOfficial/chineseOfficialEngine';
+import { chineseOfficialFans } from '@/lib/scoring/chineseOfficial/chineseOfficialFans';
+import { analyzeWait } from '@/lib/scoring/chineseOfficial/waitAnalysis';
+import { getTileDisplayName } from '@/lib/scoring/chineseOfficial/tileInputEngine';
 import ChineseOfficialClearButton from './ChineseOfficialClearButton';
+import ChineseOfficialSaveHand from './ChineseOfficialSaveHand';
 
 interface ChineseOfficialResultDisplayProps {
   result: ChineseOfficialResult | null;
+  input: ChineseOfficialInput | null;
   inputMode: 'fanSelection' | 'tileInput';
   hand: Hand | null;
   isSelfDraw: boolean;
+  isConcealed: boolean;
   discarderId?: string;
   displayMode: 'currency' | 'points';
   theme: 'light' | 'dark';
+  saveSuccess: boolean;
+  onSaveSuccess: (success: boolean) => void;
   onClear: () => void;
 }
 
 export default function ChineseOfficialResultDisplay({
   result,
+  input,
   inputMode,
   hand,
   isSelfDraw,
+  isConcealed,
   discarderId,
   displayMode,
   theme,
+  saveSuccess,
+  onSaveSuccess,
   onClear,
 }: ChineseOfficialResultDisplayProps) {
   const colors = getColors(theme);
 
   if (!result) return null;
 
+  const formatPayment = (amount: number) =>
+    displayMode === "currency" ? `$${(amount / 100).toFixed(2)}` : `${amount} pts`;
+
+  // Wait analysis is only available when the winning tile was marked in tile input
+  const wait = inputMode === 'tileInput' && hand?.winningTile
+    ? analyzeWait(hand, hand.winningTile)
+    : null;
+  const waitFanName = wait?.waitFanId
+    ? chineseOfficialFans.find(f => f.id === wait.waitFanId)?.name
+    : undefined;
+
   return (
     <>
       <Text style={styles.resultsTitle(colors)}>
@@ -85,6 +109,25 @@ export default function ChineseOfficialResultDisplay({
             )}
           </View>
 
+          {/* Wait Analysis */}
+          {wait && (
+            <View style={{ marginTop: 12, padding: 12, backgroundColor: colors.inputBackground, borderRadius: 8, borderWidth: 1, borderColor: colors.border }}>
+              <Text style={[styles.resultText(colors), { fontWeight: '600' }]}>
+                Won on {getTileDisplayName(wait.winningTile)}
+              </Text>
+              <Text style={[styles.resultText(colors), { marginTop: 4 }]}>
+                Waiting on: {wait.waits.map(getTileDisplayName).join(', ')}
+              </Text>
+              <Text style={[styles.resultText(colors), { marginTop: 4, color: colors.textSecondary }]}>
+                {waitFanName
+                  ? `${waitFanName} (sole wait)`
+                  : wait.waits.length > 1
+                    ? "No wait fan: the hand had more than one wait"
+                    : "No wait fan for this wait shape"}
+              </Text>
+            </View>
+          )}
+
           {/* Flower Points Visual Display */}
           {result.flowerPoints > 0 && (
             <View style={{ marginTop: 12, padding: 12, backgroundColor: colors.inputBackground, borderRadius: 8, borderWidth: 1, borderColor: colors.border }}>
@@ -138,6 +181,17 @@ export default function ChineseOfficialResultDisplay({
                 {result.flowerPoints}
               </Text>
             </View>
+            <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginBottom: 4 }}>
+              <Text style={styles.resultText(colors)}>{MINIMUM_FAN_POINTS}-point minimum (fans only):</Text>
+              <Text
+                style={[
+                  styles.resultText(colors),
+                  { fontWeight: '600', color: result.meetsMinimum ? colors.text : colors.clearButton },
+                ]}
+              >
+                {result.meetsMinimum ? "Met" : "Not met"}
+              </Text>
+            </View>
             <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginTop: 8, paddingTop: 8, borderTopWidth: 1, borderTopColor: colors.border }}>
               <Text style={[styles.resultText(colors), { fontWeight: '700', fontSize: 16 }]}>Total points:</Text>
               <Text style={[styles.resultText(colors), { fontWeight: '700', fontSize: 16, color: colors.primary }]}>
@@ -146,9 +200,38 @@ export default function ChineseOfficialResultDisplay({
             </View>
           </View>
 
+          {/* False Mahjong: the hand cannot be declared, so the declarer pays instead */}
+          {!result.meetsMinimum && (
+            <View
+              style={{
+                marginTop: 12,
+                padding: 12,
+                borderRadius: 8,
+                borderWidth: 1,
+                borderColor: colors.clearButton,
+                backgroundColor: colors.inputBackground,
+              }}
+            >
+              <Text style={[styles.resultText(colors), { fontWeight: '700', color: colors.clearButton, marginBottom: 4 }]}>
+                False Mahjong
+              </Text>
+              <Text style={styles.resultText(colors)}>
+                Fans total {result.fanPointsSum}, short of the {MINIMUM_FAN_POINTS}-point minimum
+                {result.flowerPoints > 0 ? " (flowers do not count)" : ""}. The declarer pays each opponent{" "}
+                {formatPayment(result.falseMahjongPenalty ?? 0)}.
+              </Text>
+            </View>
+          )}
+
           {/* Payment Breakdown */}
           <View style={styles.paymentSection}>
-            {isSelfDraw ? (
+            {!result.meetsMinimum ? (
+              <Text style={styles.paymentText(colors)}>
+                {displayMode === "currency"
+                  ? `Each opponent receives: $${((result.falseMahjongPenalty ?? 0) / 100).toFixed(2)}`
+                  : `Each opponent: +${result.falseMahjongPenalty ?? 0} pts`}
+              </Text>
+            ) : isSelfDraw ? (
               <Text style={styles.paymentText(colors)}>
                 {displayMode === "currency"
                   ? `Each opponent pays: $${((result.totalPoints + 8) / 100).toFixed(2)}`
@@ -171,12 +254,24 @@ export default function ChineseOfficialResultDisplay({
               </>
             )}
             <Text style={styles.totalText(colors, theme)}>
-              Total to Winner: {displayMode === "currency"
-                ? `$${(result.totalToWinner / 100).toFixed(2)}`
-                : `${result.totalToWinner} pts`}
+              {result.meetsMinimum ? "Total to Winner" : "Total to Declarer"}: {formatPayment(result.totalToWinner)}
             </Text>
           </View>
 
+          {/* Save Hand Section */}
+          <ChineseOfficialSaveHand
+            result={result}
+            input={input}
+            inputMode={inputMode}
+            hand={hand}
+            isSelfDraw={isSelfDraw}
+            isConcealed={isConcealed}
+            displayMode={displayMode}
+            saveSuccess={saveSuccess}
+            theme={theme}
+            onSaveSuccess={onSaveSuccess}
+          />
+
           {/* Clear Button */}
           <ChineseOfficialClearButton
             theme={theme}
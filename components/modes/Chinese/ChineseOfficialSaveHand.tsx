@@ -0,0 +1,110 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, Alert } from 'react-native';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { getColors } from '@/constants/colors';
+import { styles } from '../../ScoreCalculatorCard.styles';
+import { saveHand } from '@/lib/storage/handStorage';
+import { SCORING_ENGINE_VERSION } from '@/lib/scoring/engine';
+import { CARD_YEARS } from '@/lib/utils/savedHandSort';
+import type { SavedHand } from '@/lib/types/game';
+import type { ChineseOfficialInput, ChineseOfficialResult } from '@/lib/scoring/chineseOfficial/chineseOfficialTypes';
+import type { Hand } from '@/lib/scoring/chineseOfficial/tiles';
+
+interface ChineseOfficialSaveHandProps {
+  result: ChineseOfficialResult;
+  /** Engine input for fan selection; null when the hand was scored from tiles. */
+  input: ChineseOfficialInput | null;
+  inputMode: 'fanSelection' | 'tileInput';
+  hand: Hand | null;
+  isSelfDraw: boolean;
+  isConcealed: boolean;
+  displayMode: 'currency' | 'points';
+  saveSuccess: boolean;
+  theme: 'light' | 'dark';
+  onSaveSuccess: (success: boolean) => void;
+}
+
+export default function ChineseOfficialSaveHand({
+  result,
+  input,
+  inputMode,
+  hand,
+  isSelfDraw,
+  isConcealed,
+  displayMode,
+  saveSuccess,
+  theme,
+  onSaveSuccess,
+}: ChineseOfficialSaveHandProps) {
+  const colors = getColors(theme);
+
+  const handleSave = async () => {
+    if (result.chosenFans.length === 0) {
+      Alert.alert("No Fans", "Select or detect the hand's fans before saving it.");
+      return;
+    }
+
+    // Name the hand after its most valuable fan
+    const topFan = [...result.chosenFans].sort((a, b) => b.points - a.points)[0];
+
+    try {
+      const handToSave: SavedHand = {
+        id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+        timestamp: Date.now(),
+        handName: result.meetsMinimum ? topFan.name : `False Mahjong (${topFan.name})`,
+        basePoints: result.totalPoints,
+        winType: isSelfDraw ? "self_pick" : "discard",
+        jokerless: false,
+        singlesAndPairs: false,
+        noExposures: isConcealed,
+        totalToWinner: result.totalToWinner,
+        displayMode,
+        mode: "chineseOfficial",
+        cardYear: CARD_YEARS[0],
+        isWinner: result.meetsMinimum, // A false Mahjong is not a win
+        chineseOfficial: {
+          fans: result.chosenFans.map(({ id, name, points }) => ({ id, name, points })),
+          fanPointsSum: result.fanPointsSum,
+          flowerCount: result.flowerPoints,
+          totalPoints: result.totalPoints,
+          isSelfDraw,
+          isConcealed,
+          inputMode,
+          tiles: inputMode === "tileInput" && hand ? hand.tiles.map((tile) => tile.description) : undefined,
+          payouts: result.payouts,
+          payerMap: result.payerMap,
+        },
+        scoreInput: input
+          ? { engine: "chineseOfficial", input: { ...input, selectedFanIDs: Array.from(input.selectedFanIDs) } }
+          : undefined,
+        engineVersion: SCORING_ENGINE_VERSION,
+      };
+      await saveHand(handToSave);
+      onSaveSuccess(true);
+      setTimeout(() => onSaveSuccess(false), 2000);
+      Alert.alert("Saved!", "Hand saved. View it in Statistics under Chinese Official.");
+    } catch (error) {
+      Alert.alert("Error", "Failed to save hand. Please try again.");
+      console.error("Save error:", error);
+    }
+  };
+
+  return (
+    <View style={[styles.resultsSection(colors), { marginTop: 20 }]}>
+      <TouchableOpacity
+        style={[styles.saveButton(colors), saveSuccess && styles.saveButtonSuccess(colors)]}
+        onPress={handleSave}
+      >
+        <FontAwesome5
+          name={saveSuccess ? "check" : "save"}
+          size={16}
+          color={colors.card}
+          style={{ marginRight: 8 }}
+        />
+        <Text style={styles.saveButtonText(colors, theme)}>
+          {saveSuccess ? "Saved!" : "Save Hand"}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
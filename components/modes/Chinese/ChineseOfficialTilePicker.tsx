@@ -1,14 +1,20 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { View, Text, ScrollView, TouchableOpacity } from 'react-native';
 import { TileInputEngine, getAllAvailableTiles, getTileDisplayName } from '@/lib/scoring/chineseOfficial/tileInputEngine';
+import type { DeclaredMeld } from '@/lib/scoring/chineseOfficial/melds';
 import type { Tile } from '@/lib/scoring/chineseOfficial/tiles';
 import { getColors } from '@/constants/colors';
+import { Row, Seg } from '../../shared/CalculatorHelpers';
+
+type PickMode = 'tile' | 'winning' | 'chow' | 'pung' | 'kong';
 
 interface ChineseOfficialTilePickerProps {
   visible: boolean;
   tileInputEngine: TileInputEngine;
   manualTiles: Tile[];
   onTilesChange: (tiles: Tile[]) => void;
+  onMeldsChange: (melds: DeclaredMeld[]) => void;
+  onWinningTileChange: (tile: Tile | null) => void;
   onErrorChange: (error: string | null) => void;
   onFlowerCountChange: (count: string) => void;
   theme: 'light' | 'dark';
@@ -19,15 +25,59 @@ export default function ChineseOfficialTilePicker({
   tileInputEngine,
   manualTiles,
   onTilesChange,
+  onMeldsChange,
+  onWinningTileChange,
   onErrorChange,
   onFlowerCountChange,
   theme,
 }: ChineseOfficialTilePickerProps) {
   const colors = getColors(theme);
   const availableTiles = getAllAvailableTiles();
+  // Sets are entered as groups so fan detection knows which were claimed
+  const [pickMode, setPickMode] = useState<PickMode>('tile');
+  const [exposed, setExposed] = useState(true);
 
   if (!visible) return null;
 
+  const nonFlowerCount = tileInputEngine.getNonFlowerTiles().length;
+  const maxTileCount = tileInputEngine.getMaxTileCount(); // 14, plus one per declared kong
+
+  // The meld a tile starts in the current mode, or null when it cannot start one
+  const meldFor = (tile: Tile): DeclaredMeld | null => {
+    if (pickMode === 'chow') {
+      if (tile.kind.type !== 'suited' || tile.kind.rank > 7) return null;
+      return { meld: { type: 'chow', suit: tile.kind.suit, base: tile.kind.rank }, exposed };
+    }
+    if (pickMode === 'pung' || pickMode === 'kong') {
+      if (tile.kind.type === 'flower') return null;
+      return { meld: { type: pickMode, tile }, exposed };
+    }
+    return null;
+  };
+
+  const handlePress = (tile: Tile) => {
+    if (pickMode === 'tile') {
+      const result = tileInputEngine.addTile(tile);
+      onErrorChange(result.error || null);
+    } else if (pickMode === 'winning') {
+      const result = tileInputEngine.setWinningTile(tile);
+      onErrorChange(result.error || null);
+    } else {
+      const meld = meldFor(tile);
+      if (!meld) return;
+      const result = tileInputEngine.addMeld(meld);
+      onErrorChange(result.error || null);
+    }
+    const state = tileInputEngine.getState();
+    onTilesChange(state.tiles);
+    onMeldsChange(state.melds);
+    onWinningTileChange(state.winningTile);
+
+    // Auto-update flower count
+    const flowerCount = tileInputEngine.getFlowerCount();
+    onFlowerCountChange(flowerCount.toString());
+  };
+
   return (
     <View style={{
       marginTop: 12,
@@ -38,30 +88,45 @@ export default function ChineseOfficialTilePicker({
       borderColor: colors.border,
       maxHeight: 300,
     }}>
+      <Row style={{ justifyContent: 'flex-start' }} colors={colors}>
+        <Seg selected={pickMode === 'tile'} onPress={() => setPickMode('tile')} colors={colors} theme={theme}>Tile</Seg>
+        <Seg selected={pickMode === 'winning'} onPress={() => setPickMode('winning')} colors={colors} theme={theme}>Winning</Seg>
+        <Seg selected={pickMode === 'chow'} onPress={() => setPickMode('chow')} colors={colors} theme={theme}>Chow</Seg>
+        <Seg selected={pickMode === 'pung'} onPress={() => setPickMode('pung')} colors={colors} theme={theme}>Pung</Seg>
+        <Seg selected={pickMode === 'kong'} onPress={() => setPickMode('kong')} colors={colors} theme={theme}>Kong</Seg>
+      </Row>
+      {pickMode !== 'tile' && pickMode !== 'winning' && (
+        <Row style={{ justifyContent: 'flex-start' }} colors={colors}>
+          <Seg selected={exposed} onPress={() => setExposed(true)} colors={colors} theme={theme}>Exposed</Seg>
+          <Seg selected={!exposed} onPress={() => setExposed(false)} colors={colors} theme={theme}>Concealed</Seg>
+        </Row>
+      )}
       <Text style={[styles.resultText(colors), { marginBottom: 8, fontWeight: '600' }]}>
-        Select Tiles:
+        {pickMode === 'tile'
+          ? 'Select Tiles (concealed):'
+          : pickMode === 'winning'
+          ? 'Select the tile that completed the hand:'
+          : pickMode === 'chow'
+          ? `Select the lowest tile of the ${exposed ? 'exposed' : 'concealed'} chow:`
+          : `Select the tile of the ${exposed ? 'exposed' : 'concealed'} ${pickMode}:`}
       </Text>
       <ScrollView style={{ maxHeight: 250 }}>
         <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 6 }}>
           {availableTiles.map((tile, index) => {
             const count = tileInputEngine.getTileCount(tile);
-            const canAdd = tile.kind.type === 'flower' || count < 4;
-            const nonFlowerCount = manualTiles.filter(t => t.kind.type !== 'flower').length;
-            const canAddNonFlower = tile.kind.type === 'flower' || nonFlowerCount < 14;
+            const canAdd = pickMode === 'tile'
+              ? tile.kind.type === 'flower' || count < 4
+              : pickMode === 'winning'
+              ? tile.kind.type !== 'flower'
+              : meldFor(tile) !== null;
+            const canAddNonFlower = tile.kind.type === 'flower' || pickMode === 'kong' || pickMode === 'winning' || nonFlowerCount < maxTileCount;
             
             return (
               <TouchableOpacity
                 key={index}
                 onPress={() => {
                   if (!canAdd || !canAddNonFlower) return;
-                  const result = tileInputEngine.addTile(tile);
-                  const state = tileInputEngine.getState();
-                  onTilesChange(state.tiles);
-                  onErrorChange(result.error || null);
-                  
-                  // Auto-update flower count
-                  const flowerCount = tileInputEngine.getFlowerCount();
-                  onFlowerCountChange(flowerCount.toString());
+                  handlePress(tile);
                 }}
                 disabled={!canAdd || !canAddNonFlower}
                 style={{
@@ -3,6 +3,7 @@ import { View, Text, TouchableOpacity, Alert } from 'react-native';
 import { FontAwesome5 } from '@expo/vector-icons';
 import { TileInputEngine } from '@/lib/scoring/chineseOfficial/tileInputEngine';
 import { isValidHand, detectFans } from '@/lib/scoring/chineseOfficial/handValidator';
+import { exposedMelds } from '@/lib/scoring/chineseOfficial/melds';
 import { chineseOfficialFans } from '@/lib/scoring/chineseOfficial/chineseOfficialFans';
 import { getColors } from '@/constants/colors';
 import type { Hand } from '@/lib/scoring/chineseOfficial/tiles';
@@ -16,6 +17,8 @@ interface ChineseOfficialTileValidationProps {
   chineseOfficialIsSelfDraw: boolean;
   chineseOfficialPrevalentWindPung: boolean;
   chineseOfficialSeatWindPung: boolean;
+  playerWind?: string;
+  prevalentWind?: string;
   onHandChange: (hand: Hand) => void;
   onUseOptimalSolverChange: (value: boolean) => void;
   onFlowerCountChange: (count: string) => void;
@@ -34,6 +37,8 @@ export default function ChineseOfficialTileValidation({
   chineseOfficialIsSelfDraw,
   chineseOfficialPrevalentWindPung,
   chineseOfficialSeatWindPung,
+  playerWind,
+  prevalentWind,
   onHandChange,
   onUseOptimalSolverChange,
   onFlowerCountChange,
@@ -77,6 +82,10 @@ export default function ChineseOfficialTileValidation({
         isSelfDraw: chineseOfficialIsSelfDraw,
         prevalentWindPungPresent: chineseOfficialPrevalentWindPung,
         seatWindPungPresent: chineseOfficialSeatWindPung,
+        playerWind,
+        prevalentWind,
+        meldedSets: exposedMelds(hand),
+        winningTile: hand.winningTile,
       });
       onDetectedFanIdsChange(detectedFans);
       
@@ -86,10 +95,15 @@ export default function ChineseOfficialTileValidation({
       const handType = validation.isSpecialHand 
         ? validation.specialHandType === 'sevenPairs' ? 'Seven Pairs' 
         : validation.specialHandType === 'thirteenOrphans' ? 'Thirteen Orphans'
+        : validation.specialHandType === 'honorsAndKnitted' ? 'Honors & Knitted'
         : 'Standard'
+        : validation.isKnittedStraight ? 'Knitted Straight'
         : 'Standard';
       
-      Alert.alert("Success", `Valid hand with ${hand.tiles.length} tiles (${hand.flowerCount} flowers)\nHand Type: ${handType}\nDetected ${detectedFans.length} fan(s)`);
+      const declared = hand.declaredMelds.length > 0
+        ? `\nDeclared Sets: ${hand.declaredMelds.length} (${exposedMelds(hand).length} exposed)`
+        : '';
+      Alert.alert("Success", `Valid hand with ${hand.tiles.length} tiles (${hand.flowerCount} flowers)\nHand Type: ${handType}${declared}\nDetected ${detectedFans.length} fan(s)`);
     } catch (error) {
       Alert.alert("Error", `Failed to process hand: ${error}`);
     }
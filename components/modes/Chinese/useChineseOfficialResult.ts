@@ -2,8 +2,9 @@ import { useMemo, useEffect } from 'react';
 import { computeChineseOfficial } from '@/lib/scoring/chineseOfficial/chineseOfficialEngine';
 import { OptimalScorer } from '@/lib/scoring/chineseOfficial/optimalSolver';
 import { isValidHand, detectFans } from '@/lib/scoring/chineseOfficial/handValidator';
+import { exposedMelds } from '@/lib/scoring/chineseOfficial/melds';
 import type { Hand } from '@/lib/scoring/chineseOfficial/tiles';
-import type { ChineseOfficialResult } from '@/lib/scoring/chineseOfficial/chineseOfficialTypes';
+import type { ChineseOfficialInput, ChineseOfficialResult } from '@/lib/scoring/chineseOfficial/chineseOfficialTypes';
 import type { ScoringOutcome } from '@/lib/scoring/chineseOfficial/optimalSolver';
 
 interface UseChineseOfficialResultParams {
@@ -11,10 +12,13 @@ interface UseChineseOfficialResultParams {
   inputMode: 'fanSelection' | 'tileInput';
   selectedFans: Set<string>;
   flowerCount: string;
+  falseMahjongPenalty: string; // Blank uses the engine default
   isSelfDraw: boolean;
-  isConcealed: boolean;
+  isConcealed: boolean; // In tile input, derived from the declared sets
   prevalentWindPung: boolean;
   seatWindPung: boolean;
+  playerWind?: string; // Winner's seat wind ("E", "S", "W", "N") when seats are tracked
+  prevalentWind?: string; // Round wind when seats are tracked
   hand: Hand | null;
   winnerId?: string;
   discarderId?: string;
@@ -29,10 +33,13 @@ export function useChineseOfficialResult({
   inputMode,
   selectedFans,
   flowerCount,
+  falseMahjongPenalty,
   isSelfDraw,
   isConcealed,
   prevalentWindPung,
   seatWindPung,
+  playerWind,
+  prevalentWind,
   hand,
   winnerId,
   discarderId,
@@ -51,6 +58,10 @@ export function useChineseOfficialResult({
           isSelfDraw,
           prevalentWindPungPresent: prevalentWindPung,
           seatWindPungPresent: seatWindPung,
+          playerWind,
+          prevalentWind,
+          meldedSets: exposedMelds(hand),
+          winningTile: hand.winningTile,
         });
         onDetectedFanIdsChange(detectedFans);
         // Update selected fans to include newly detected ones (but keep user selections)
@@ -66,20 +77,63 @@ export function useChineseOfficialResult({
     isSelfDraw,
     prevalentWindPung,
     seatWindPung,
+    playerWind,
+    prevalentWind,
     selectedFans,
     onDetectedFanIdsChange,
     onSelectedFansChange,
   ]);
 
+  const scoresFromTiles = inputMode === 'tileInput' && hand !== null;
+  // Blank or unreadable text uses the engine default; amounts are whole, non-negative points
+  const enteredPenalty = Number(falseMahjongPenalty);
+  const penalty = falseMahjongPenalty.trim() === '' || !isFinite(enteredPenalty)
+    ? undefined
+    : Math.max(0, Math.round(enteredPenalty));
+
+  // Engine input for manual fan selection (tile hands go through the optimal solver instead)
+  const input = useMemo<ChineseOfficialInput | null>(() => {
+    // No result, and so no false Mahjong, until a fan is chosen
+    if (mode !== "chineseOfficial" || scoresFromTiles || selectedFans.size === 0) return null;
+    return {
+      selectedFanIDs: selectedFans,
+      flowerCount: Number(flowerCount || 0),
+      isSelfDraw,
+      isConcealed,
+      winningMethodIsDiscard: !isSelfDraw,
+      prevalentWindPungPresent: prevalentWindPung,
+      seatWindPungPresent: seatWindPung,
+      discarderId: !isSelfDraw ? discarderId : undefined,
+      winnerId,
+      otherPlayerIds,
+      falseMahjongPenalty: penalty,
+    };
+  }, [
+    mode,
+    scoresFromTiles,
+    selectedFans,
+    flowerCount,
+    penalty,
+    isSelfDraw,
+    isConcealed,
+    prevalentWindPung,
+    seatWindPung,
+    discarderId,
+    winnerId,
+    otherPlayerIds,
+  ]);
+
   // Chinese Official result calculation
   const result = useMemo<ChineseOfficialResult | null>(() => {
     if (mode !== "chineseOfficial") return null;
     
     // Use optimal solver if in tile input mode and hand is provided
-    if (inputMode === 'tileInput' && hand) {
+    if (scoresFromTiles && hand) {
       const scorer = new OptimalScorer(otherPlayerIds ? otherPlayerIds.length + 1 : 4);
-      const winnerIdx = winnerId ? (otherPlayerIds?.indexOf(winnerId) ?? 0) : 0;
-      const discarderIdx = discarderId ? (otherPlayerIds?.indexOf(discarderId) ?? undefined) : undefined;
+      // Payout slots: winner at index 0, then otherPlayerIds in order
+      const winnerIdx = 0;
+      const otherDiscarderIdx = discarderId && otherPlayerIds ? otherPlayerIds.indexOf(discarderId) : -1;
+      const discarderIdx = otherDiscarderIdx >= 0 ? otherDiscarderIdx + 1 : undefined;
       
       const outcome = scorer.score(hand, {
         isSelfDraw,
@@ -88,9 +142,15 @@ export function useChineseOfficialResult({
         discarderIndex: discarderIdx,
         prevalentWindPungPresent: prevalentWindPung,
         seatWindPungPresent: seatWindPung,
+        playerWind,
+        prevalentWind,
+        falseMahjongPenalty: penalty,
+        meldedSets: exposedMelds(hand),
+        winningTile: hand.winningTile,
       });
       
       onOptimalResultChange?.(outcome);
+      if (outcome.chosenFans.length === 0) return null;
       
       // Convert to ChineseOfficialResult format
       const payerMap: Record<string, number> = {};
@@ -99,7 +159,8 @@ export function useChineseOfficialResult({
       if (otherPlayerIds) {
         otherPlayerIds.forEach((id, idx) => {
           const payoutIdx = idx + 1; // +1 because winner is at index 0
-          if (outcome.payouts[payoutIdx] > 0) {
+          // Negative amounts are a false Mahjong penalty paid to the opponent
+          if (outcome.payouts[payoutIdx] !== 0) {
             payerMap[id] = outcome.payouts[payoutIdx];
             totalToWinner += outcome.payouts[payoutIdx];
           }
@@ -114,37 +175,29 @@ export function useChineseOfficialResult({
         payouts: outcome.payouts,
         payerMap,
         totalToWinner,
+        meetsMinimum: outcome.meetsMinimum,
+        falseMahjongPenalty: outcome.falseMahjongPenalty,
       };
     }
     
     // Fall back to manual selection
-    return computeChineseOfficial({
-      selectedFanIDs: selectedFans,
-      flowerCount: Number(flowerCount || 0),
-      isSelfDraw,
-      isConcealed,
-      winningMethodIsDiscard: !isSelfDraw,
-      prevalentWindPungPresent: prevalentWindPung,
-      seatWindPungPresent: seatWindPung,
-      discarderId: !isSelfDraw ? discarderId : undefined,
-      winnerId,
-      otherPlayerIds,
-    });
+    return input ? computeChineseOfficial(input) : null;
   }, [
     mode,
-    inputMode,
-    selectedFans,
-    flowerCount,
+    scoresFromTiles,
+    input,
     isSelfDraw,
     isConcealed,
     prevalentWindPung,
     seatWindPung,
+    playerWind,
+    prevalentWind,
     hand,
     discarderId,
-    winnerId,
     otherPlayerIds,
+    penalty,
   ]);
 
-  return result;
+  return { result, input };
 }
 
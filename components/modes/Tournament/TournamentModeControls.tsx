@@ -3,7 +3,9 @@ import { View, Text, Switch } from 'react-native';
 import { getColors } from '@/constants/colors';
 import { styles } from '../../ScoreCalculatorCard.styles';
 import { Row, Label, Seg } from '../../shared/CalculatorHelpers';
-import type { WinType, TournamentGameResult } from '@/lib/scoring/types';
+import { TOURNAMENT_RULE_SETS } from '@/lib/scoring/tournamentRules';
+import type { WinType, TournamentGameResult, TournamentRuleSet } from '@/lib/scoring/types';
+import type { SeatedPlayer } from '@/lib/types/player';
 
 interface TournamentModeControlsProps {
   winType: WinType;
@@ -14,12 +16,11 @@ interface TournamentModeControlsProps {
   isWallGame: boolean;
   tournamentGameResult: TournamentGameResult;
   falseMahjongIntactPlayerId: string;
-  deadN: boolean;
-  deadE: boolean;
-  deadW: boolean;
-  deadS: boolean;
-  playerIds: string[];
+  deadPlayerIds: string[];
+  players: SeatedPlayer[];
+  ruleSet: TournamentRuleSet;
   theme: 'light' | 'dark';
+  onRuleSetChange: (ruleSet: TournamentRuleSet) => void;
   onWinTypeChange: (winType: WinType) => void;
   onJokerlessChange: (value: boolean) => void;
   onTournamentWinnerIdChange: (id: string) => void;
@@ -27,19 +28,18 @@ interface TournamentModeControlsProps {
   onWinnerExposureCountChange: (count: 0 | 1 | 2 | 3 | 4) => void;
   onTournamentGameResultChange: (result: TournamentGameResult) => void;
   onFalseMahjongIntactPlayerIdChange: (id: string) => void;
-  onDeadNChange: (value: boolean) => void;
-  onDeadEChange: (value: boolean) => void;
-  onDeadWChange: (value: boolean) => void;
-  onDeadSChange: (value: boolean) => void;
+  onDeadPlayerIdsChange: (ids: string[]) => void;
 }
 
 function FalseMahjongOutcomeSelector({
   tournamentGameResult,
+  intactAward,
   colors,
   theme,
   onTournamentGameResultChange,
 }: {
   tournamentGameResult: TournamentGameResult;
+  intactAward: number;
   colors: ReturnType<typeof getColors>;
   theme: 'light' | 'dark';
   onTournamentGameResultChange: (result: TournamentGameResult) => void;
@@ -64,7 +64,7 @@ function FalseMahjongOutcomeSelector({
           colors={colors}
           theme={theme}
         >
-          1 intact (+10)
+          1 intact (+{intactAward})
         </Seg>
         <Seg
           selected={tournamentGameResult === 'false_mj_game_continues'}
@@ -79,7 +79,14 @@ function FalseMahjongOutcomeSelector({
   );
 }
 
-function TournamentPenaltiesReference({ colors }: { colors: ReturnType<typeof getColors> }) {
+function TournamentPenaltiesReference({
+  ruleSet,
+  colors,
+}: {
+  ruleSet: TournamentRuleSet;
+  colors: ReturnType<typeof getColors>;
+}) {
+  const { discarderPenalty } = ruleSet;
   return (
     <View
       style={{
@@ -92,25 +99,32 @@ function TournamentPenaltiesReference({ colors }: { colors: ReturnType<typeof ge
       }}
     >
       <Text style={[styles.labelText(colors), { fontWeight: '700', marginBottom: 8 }]}>
-        Bonuses & Penalties Reference
+        Bonuses & Penalties Reference ({ruleSet.name})
+      </Text>
+      <Text style={[styles.labelSubtext(colors), { marginBottom: 6 }]}>
+        • Self-pick: winner +{ruleSet.selfPickBonus}
       </Text>
       <Text style={[styles.labelSubtext(colors), { marginBottom: 6 }]}>
-        • Self-pick: winner +10
+        • Jokerless hand: winner +{ruleSet.jokerlessBonus}
+        {ruleSet.jokerlessBonusOnSinglesAndPairs ? ' (Singles & Pairs included)' : ''}
       </Text>
       <Text style={[styles.labelSubtext(colors), { marginBottom: 6 }]}>
-        • Jokerless hand: winner +20
+        • Discarder −{discarderPenalty.fewExposures} when winner has fewer than{' '}
+        {discarderPenalty.manyExposuresFrom} exposures
       </Text>
       <Text style={[styles.labelSubtext(colors), { marginBottom: 6 }]}>
-        • Discarder −10 when winner has no exposures (0–1 exposure)
+        • Discarder −{discarderPenalty.manyExposures} when winner has{' '}
+        {discarderPenalty.manyExposuresFrom} or more exposures
       </Text>
       <Text style={[styles.labelSubtext(colors), { marginBottom: 6 }]}>
-        • Discarder −20 when winner has 2 or more exposures
+        • Wall game: each {ruleSet.wallGameAwardToDeadHands ? 'player' : 'live player'} +
+        {ruleSet.wallGameAward}
       </Text>
       <Text style={[styles.labelSubtext(colors), { marginBottom: 6 }]}>
         • False Mah Jongg — all 3 others expose: everyone gets 0
       </Text>
       <Text style={[styles.labelSubtext(colors), { marginBottom: 6 }]}>
-        • False Mah Jongg — only 1 hand intact: that player +10, others 0
+        • False Mah Jongg — only 1 hand intact: that player +{ruleSet.falseMahjongIntactAward}, others 0
       </Text>
       <Text style={[styles.labelSubtext(colors)]}>
         • False Mah Jongg — 2+ hands intact: game continues (no score change)
@@ -128,12 +142,11 @@ export default function TournamentModeControls({
   isWallGame,
   tournamentGameResult,
   falseMahjongIntactPlayerId,
-  deadN,
-  deadE,
-  deadW,
-  deadS,
-  playerIds,
+  deadPlayerIds,
+  players,
+  ruleSet,
   theme,
+  onRuleSetChange,
   onWinTypeChange,
   onJokerlessChange,
   onTournamentWinnerIdChange,
@@ -141,12 +154,15 @@ export default function TournamentModeControls({
   onWinnerExposureCountChange,
   onTournamentGameResultChange,
   onFalseMahjongIntactPlayerIdChange,
-  onDeadNChange,
-  onDeadEChange,
-  onDeadWChange,
-  onDeadSChange,
+  onDeadPlayerIdsChange,
 }: TournamentModeControlsProps) {
   const colors = getColors(theme);
+
+  const handleDeadChange = (id: string, dead: boolean) => {
+    onDeadPlayerIdsChange(
+      dead ? [...deadPlayerIds.filter((d) => d !== id), id] : deadPlayerIds.filter((d) => d !== id)
+    );
+  };
   const disabled = isWallGame;
   const isFalseMj =
     tournamentGameResult === 'false_mj_all_exposed' ||
@@ -156,7 +172,26 @@ export default function TournamentModeControls({
 
   return (
     <>
-      <View style={{ marginTop: 4, opacity: disabled ? 0.5 : 1 }}>
+      <View style={{ marginTop: 4 }}>
+        <Label colors={colors} sub="Bonus and penalty values this event plays by">
+          Rule Set
+        </Label>
+        <Row style={{ justifyContent: 'flex-start', flexWrap: 'wrap' }} colors={colors}>
+          {TOURNAMENT_RULE_SETS.map((preset) => (
+            <Seg
+              key={preset.id}
+              selected={ruleSet.id === preset.id}
+              onPress={() => onRuleSetChange(preset)}
+              colors={colors}
+              theme={theme}
+            >
+              {preset.name}
+            </Seg>
+          ))}
+        </Row>
+      </View>
+
+      <View style={{ marginTop: 8, opacity: disabled ? 0.5 : 1 }}>
         <Label colors={colors} sub="What happened this hand?">
           Game Result
         </Label>
@@ -195,6 +230,7 @@ export default function TournamentModeControls({
         <>
           <FalseMahjongOutcomeSelector
             tournamentGameResult={tournamentGameResult}
+            intactAward={ruleSet.falseMahjongIntactAward}
             colors={colors}
             theme={theme}
             onTournamentGameResultChange={onTournamentGameResultChange}
@@ -206,17 +242,17 @@ export default function TournamentModeControls({
           )}
           {tournamentGameResult === 'false_mj_one_intact' && (
             <View style={{ marginTop: 8 }}>
-              <Label colors={colors}>Player with intact hand (+10)</Label>
-              <Row style={{ justifyContent: 'flex-start' }} colors={colors}>
-                {playerIds.map((id) => (
+              <Label colors={colors}>Player with intact hand (+{ruleSet.falseMahjongIntactAward})</Label>
+              <Row style={{ justifyContent: 'flex-start', flexWrap: 'wrap' }} colors={colors}>
+                {players.map((player) => (
                   <Seg
-                    key={id}
-                    selected={falseMahjongIntactPlayerId === id}
-                    onPress={() => onFalseMahjongIntactPlayerIdChange(id)}
+                    key={player.id}
+                    selected={falseMahjongIntactPlayerId === player.id}
+                    onPress={() => onFalseMahjongIntactPlayerIdChange(player.id)}
                     colors={colors}
                     theme={theme}
                   >
-                    {id}
+                    {player.name}
                   </Seg>
                 ))}
               </Row>
@@ -239,7 +275,7 @@ export default function TournamentModeControls({
       {showValidWin && (
         <>
           <View style={{ marginTop: 8 }}>
-            <Label colors={colors} sub="Self-pick adds +10 automatically">
+            <Label colors={colors} sub={`Self-pick adds +${ruleSet.selfPickBonus} automatically`}>
               Win Type
             </Label>
             <Row style={{ justifyContent: 'flex-start' }} colors={colors}>
@@ -249,7 +285,7 @@ export default function TournamentModeControls({
                 colors={colors}
                 theme={theme}
               >
-                Self-Pick (+10)
+                Self-Pick (+{ruleSet.selfPickBonus})
               </Seg>
               <Seg
                 selected={winType === 'discard'}
@@ -264,7 +300,7 @@ export default function TournamentModeControls({
 
           <Row colors={colors}>
             <Label colors={colors} sub="No jokers in the winning hand">
-              Jokerless (+20)
+              Jokerless (+{ruleSet.jokerlessBonus})
             </Label>
             <Switch
               value={jokerless}
@@ -276,16 +312,16 @@ export default function TournamentModeControls({
 
           <View style={{ marginTop: 8 }}>
             <Label colors={colors}>Winner</Label>
-            <Row style={{ justifyContent: 'flex-start' }} colors={colors}>
-              {playerIds.map((id) => (
+            <Row style={{ justifyContent: 'flex-start', flexWrap: 'wrap' }} colors={colors}>
+              {players.map((player) => (
                 <Seg
-                  key={id}
-                  selected={tournamentWinnerId === id}
-                  onPress={() => onTournamentWinnerIdChange(id)}
+                  key={player.id}
+                  selected={tournamentWinnerId === player.id}
+                  onPress={() => onTournamentWinnerIdChange(player.id)}
                   colors={colors}
                   theme={theme}
                 >
-                  {id}
+                  {player.name}
                 </Seg>
               ))}
             </Row>
@@ -297,18 +333,18 @@ export default function TournamentModeControls({
                 <Label colors={colors} sub="Player who threw the winning tile">
                   Discarder
                 </Label>
-                <Row style={{ justifyContent: 'flex-start' }} colors={colors}>
-                  {playerIds
-                    .filter((id) => id !== tournamentWinnerId)
-                    .map((id) => (
+                <Row style={{ justifyContent: 'flex-start', flexWrap: 'wrap' }} colors={colors}>
+                  {players
+                    .filter((player) => player.id !== tournamentWinnerId)
+                    .map((player) => (
                       <Seg
-                        key={id}
-                        selected={tournamentDiscarderId === id}
-                        onPress={() => onTournamentDiscarderIdChange(id)}
+                        key={player.id}
+                        selected={tournamentDiscarderId === player.id}
+                        onPress={() => onTournamentDiscarderIdChange(player.id)}
                         colors={colors}
                         theme={theme}
                       >
-                        {id}
+                        {player.name}
                       </Seg>
                     ))}
                 </Row>
@@ -317,7 +353,7 @@ export default function TournamentModeControls({
               <View style={{ marginTop: 8 }}>
                 <Label
                   colors={colors}
-                  sub="0–1 exposure → discarder −10; 2+ exposures → discarder −20"
+                  sub={`Under ${ruleSet.discarderPenalty.manyExposuresFrom} → discarder −${ruleSet.discarderPenalty.fewExposures}; ${ruleSet.discarderPenalty.manyExposuresFrom}+ exposures → discarder −${ruleSet.discarderPenalty.manyExposures}`}
                 >
                   Winner Exposure Count
                 </Label>
@@ -340,48 +376,30 @@ export default function TournamentModeControls({
         </>
       )}
 
-      <TournamentPenaltiesReference colors={colors} />
+      <TournamentPenaltiesReference ruleSet={ruleSet} colors={colors} />
 
       <View style={{ marginTop: 12 }}>
-        <Label colors={colors} sub="Dead players do not receive +10 on a wall game">
+        <Label colors={colors} sub={
+            ruleSet.wallGameAwardToDeadHands
+              ? 'Dead players still receive the wall-game award under this rule set'
+              : `Dead players do not receive +${ruleSet.wallGameAward} on a wall game`
+          }>
           Mark Dead Hands
         </Label>
-        <Row colors={colors}>
-          <Text style={styles.labelText(colors)}>N dead</Text>
-          <Switch
-            value={deadN}
-            onValueChange={onDeadNChange}
-            trackColor={{ false: colors.border, true: colors.gobutton }}
-            thumbColor={deadN ? colors.card : colors.textSecondary}
-          />
-        </Row>
-        <Row colors={colors}>
-          <Text style={styles.labelText(colors)}>E dead</Text>
-          <Switch
-            value={deadE}
-            onValueChange={onDeadEChange}
-            trackColor={{ false: colors.border, true: colors.gobutton }}
-            thumbColor={deadE ? colors.card : colors.textSecondary}
-          />
-        </Row>
-        <Row colors={colors}>
-          <Text style={styles.labelText(colors)}>W dead</Text>
-          <Switch
-            value={deadW}
-            onValueChange={onDeadWChange}
-            trackColor={{ false: colors.border, true: colors.gobutton }}
-            thumbColor={deadW ? colors.card : colors.textSecondary}
-          />
-        </Row>
-        <Row colors={colors}>
-          <Text style={styles.labelText(colors)}>S dead</Text>
-          <Switch
-            value={deadS}
-            onValueChange={onDeadSChange}
-            trackColor={{ false: colors.border, true: colors.gobutton }}
-            thumbColor={deadS ? colors.card : colors.textSecondary}
-          />
-        </Row>
+        {players.map((player) => {
+          const dead = deadPlayerIds.includes(player.id);
+          return (
+            <Row key={player.id} colors={colors}>
+              <Text style={styles.labelText(colors)}>{player.name} dead</Text>
+              <Switch
+                value={dead}
+                onValueChange={(value) => handleDeadChange(player.id, value)}
+                trackColor={{ false: colors.border, true: colors.gobutton }}
+                thumbColor={dead ? colors.card : colors.textSecondary}
+              />
+            </Row>
+          );
+        })}
       </View>
     </>
   );
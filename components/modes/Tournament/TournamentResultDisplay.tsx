@@ -2,18 +2,38 @@ import React from 'react';
 import { View, Text } from 'react-native';
 import { getColors } from '@/constants/colors';
 import { styles } from '../../ScoreCalculatorCard.styles';
-import type { TournamentResult } from '@/lib/scoring/types';
+import type { TournamentGameResult, TournamentInput, TournamentResult } from '@/lib/scoring/types';
+import type { HandCardYear } from '@/lib/data/handData';
 import TournamentClearButton from './TournamentClearButton';
+import TournamentSaveHand from './TournamentSaveHand';
 
 interface TournamentResultDisplayProps {
   result: TournamentResult | null;
   theme: 'light' | 'dark';
+  playerNames?: Record<string, string>;
+  input: TournamentInput | null;
+  gameResult: TournamentGameResult;
+  handName: string;
+  cardYear: HandCardYear;
+  categoryId: string;
+  selectedHand: string;
+  saveSuccess: boolean;
+  onSaveSuccess: (success: boolean) => void;
   onClear: () => void;
 }
 
 export default function TournamentResultDisplay({
   result,
   theme,
+  playerNames,
+  input,
+  gameResult,
+  handName,
+  cardYear,
+  categoryId,
+  selectedHand,
+  saveSuccess,
+  onSaveSuccess,
   onClear,
 }: TournamentResultDisplayProps) {
   const colors = getColors(theme);
@@ -25,7 +45,7 @@ export default function TournamentResultDisplay({
         <>
           {Object.entries(result.pointsByPlayer).map(([pid, pts]) => (
             <Text key={pid} style={styles.resultText(colors)}>
-              {pid}: {pts >= 0 ? `+${pts}` : pts}
+              {playerNames?.[pid] ?? pid}: {pts >= 0 ? `+${pts}` : pts}
             </Text>
           ))}
           <View style={{ marginTop: 8 }}>
@@ -36,6 +56,22 @@ export default function TournamentResultDisplay({
         </>
       )}
 
+      {result && input && (
+        <TournamentSaveHand
+          result={result}
+          input={input}
+          gameResult={gameResult}
+          handName={handName}
+          cardYear={cardYear}
+          categoryId={categoryId}
+          selectedHand={selectedHand}
+          playerNames={playerNames}
+          saveSuccess={saveSuccess}
+          theme={theme}
+          onSaveSuccess={onSaveSuccess}
+        />
+      )}
+
       {/* Clear Button for Tournament Mode */}
       <TournamentClearButton
         theme={theme}
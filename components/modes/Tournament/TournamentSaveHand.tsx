@@ -0,0 +1,127 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, Alert } from 'react-native';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { getColors } from '@/constants/colors';
+import { styles } from '../../ScoreCalculatorCard.styles';
+import { saveHand } from '@/lib/storage/handStorage';
+import { SCORING_ENGINE_VERSION } from '@/lib/scoring/engine';
+import type { SavedHand } from '@/lib/types/game';
+import type { TournamentGameResult, TournamentInput, TournamentResult } from '@/lib/scoring/types';
+import type { HandCardYear } from '@/lib/data/handData';
+
+interface TournamentSaveHandProps {
+  result: TournamentResult;
+  input: TournamentInput;
+  gameResult: TournamentGameResult;
+  handName: string;
+  cardYear: HandCardYear;
+  categoryId: string;
+  selectedHand: string;
+  playerNames?: Record<string, string>;
+  saveSuccess: boolean;
+  theme: 'light' | 'dark';
+  onSaveSuccess: (success: boolean) => void;
+}
+
+const OUTCOME_NAMES: Record<TournamentGameResult, string> = {
+  valid_win: 'Mah Jongg',
+  false_mj_all_exposed: 'False Mah Jongg',
+  false_mj_one_intact: 'False Mah Jongg',
+  false_mj_game_continues: 'False Mah Jongg (Play On)',
+  time_expired: 'Time Expired',
+};
+
+export default function TournamentSaveHand({
+  result,
+  input,
+  gameResult,
+  handName,
+  cardYear,
+  categoryId,
+  selectedHand,
+  playerNames,
+  saveSuccess,
+  theme,
+  onSaveSuccess,
+}: TournamentSaveHandProps) {
+  const colors = getColors(theme);
+
+  const handleSave = async () => {
+    const wallGame = input.isWallGame ?? false;
+    const isWin = gameResult === 'valid_win' && !wallGame && input.winnerId !== undefined;
+    if (isWin && (input.basePoints ?? 0) <= 0) {
+      Alert.alert(
+        "Missing Base Points",
+        "Select a hand category and line number so base points fill in, or enter them manually."
+      );
+      return;
+    }
+
+    try {
+      const handToSave: SavedHand = {
+        id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+        timestamp: Date.now(),
+        handName: isWin
+          ? handName.trim() || "Custom Hand"
+          : wallGame ? "Wall Game" : OUTCOME_NAMES[gameResult],
+        basePoints: isWin ? input.basePoints ?? 0 : 0,
+        winType: input.winType ?? "self_pick",
+        jokerless: input.jokerless ?? false,
+        singlesAndPairs: input.singlesAndPairs ?? false,
+        noExposures: false,
+        totalToWinner: isWin ? result.pointsByPlayer[input.winnerId!] ?? 0 : 0,
+        displayMode: "points",
+        mode: "tournament",
+        cardYear,
+        categoryId: isWin && categoryId ? categoryId : undefined,
+        lineNumber: isWin && selectedHand ? Number(selectedHand) : undefined,
+        winnerExposureCount: input.winnerExposureCount,
+        isWinner: isWin,
+        wallGame,
+        tournament: {
+          gameResult,
+          wallGame,
+          winnerId: input.winnerId,
+          discarderId: input.discarderId ?? undefined,
+          deadPlayerIds: input.deadPlayerIds ?? [],
+          pointsByPlayer: result.pointsByPlayer,
+          playerNames: Object.fromEntries(
+            input.playerIds.map((id) => [id, playerNames?.[id] ?? id])
+          ),
+          breakdown: result.breakdown,
+        },
+        scoreInput: { engine: "tournament", input },
+        engineVersion: SCORING_ENGINE_VERSION,
+      };
+      await saveHand(handToSave);
+      onSaveSuccess(true);
+      setTimeout(() => onSaveSuccess(false), 2000);
+      Alert.alert(
+        "Saved!",
+        `Hand saved. View it in Statistics under National Mahjong League → ${cardYear}.`
+      );
+    } catch (error) {
+      Alert.alert("Error", "Failed to save hand. Please try again.");
+      console.error("Save error:", error);
+    }
+  };
+
+  return (
+    <View style={[styles.resultsSection(colors), { marginTop: 20 }]}>
+      <TouchableOpacity
+        style={[styles.saveButton(colors), saveSuccess && styles.saveButtonSuccess(colors)]}
+        onPress={handleSave}
+      >
+        <FontAwesome5
+          name={saveSuccess ? "check" : "save"}
+          size={16}
+          color={colors.card}
+          style={{ marginRight: 8 }}
+        />
+        <Text style={styles.saveButtonText(colors, theme)}>
+          {saveSuccess ? "Saved!" : "Save Hand"}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
@@ -0,0 +1,51 @@
+import { useState, useEffect } from 'react';
+import { getActiveSession, addHandToSession } from '@/lib/storage/sessionStorage';
+import { createSessionHand } from '@/lib/utils/session';
+import type { GameSession, SessionHand } from '@/lib/types/session';
+
+export function useActiveSession() {
+  const [activeSession, setActiveSession] = useState<GameSession | null>(null);
+  const [sessionWinnerId, setSessionWinnerId] = useState<string>("");
+  const [sessionDiscarderId, setSessionDiscarderId] = useState<string>("");
+
+  // Load the active session on mount so play can resume after a restart
+  useEffect(() => {
+    const loadActiveSession = async () => {
+      const session = await getActiveSession();
+      setActiveSession(session);
+      if (session && session.players.length > 1) {
+        setSessionWinnerId(session.players[0].id);
+        setSessionDiscarderId(session.players[1].id);
+      }
+    };
+    loadActiveSession();
+  }, []);
+
+  const sessionPlayerIds = activeSession?.players.map((p) => p.id) ?? [];
+  const sessionOtherPlayerIds = sessionPlayerIds.filter((id) => id !== sessionWinnerId);
+
+  // Keep the discarder distinct from the winner
+  const handleSessionWinnerChange = (id: string) => {
+    setSessionWinnerId(id);
+    if (id === sessionDiscarderId) {
+      const next = sessionPlayerIds.find((pid) => pid !== id);
+      setSessionDiscarderId(next ?? "");
+    }
+  };
+
+  const recordSessionHand = async (hand: Omit<SessionHand, 'id' | 'timestamp'>) => {
+    if (!activeSession) return;
+    const updated = await addHandToSession(activeSession.id, createSessionHand(hand));
+    setActiveSession(updated);
+  };
+
+  return {
+    activeSession,
+    sessionWinnerId,
+    setSessionWinnerId: handleSessionWinnerChange,
+    sessionDiscarderId,
+    setSessionDiscarderId,
+    sessionOtherPlayerIds,
+    recordSessionHand,
+  };
+}
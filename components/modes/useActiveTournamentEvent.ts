@@ -0,0 +1,31 @@
+import { useState, useEffect, useMemo } from 'react';
+import { getActiveTournamentEvent, addHandToTournamentEvent } from '@/lib/storage/tournamentStorage';
+import { scoringTable } from '@/lib/utils/tournamentEvent';
+import type { TournamentEvent, TournamentEventHand } from '@/lib/types/tournament';
+
+/** The active tournament event and the table the calculator is scoring for it. */
+export function useActiveTournamentEvent() {
+  const [activeEvent, setActiveEvent] = useState<TournamentEvent | null>(null);
+
+  // Load the active event on mount so scoring can resume after a restart
+  useEffect(() => {
+    const loadActiveEvent = async () => {
+      setActiveEvent(await getActiveTournamentEvent());
+    };
+    loadActiveEvent();
+  }, []);
+
+  const eventTable = useMemo(() => scoringTable(activeEvent), [activeEvent]);
+
+  const recordEventHand = async (hand: TournamentEventHand) => {
+    if (!activeEvent) return;
+    const updated = await addHandToTournamentEvent(activeEvent.id, hand);
+    setActiveEvent(updated);
+  };
+
+  return {
+    activeEvent,
+    eventTable,
+    recordEventHand,
+  };
+}
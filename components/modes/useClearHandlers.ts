@@ -1,5 +1,7 @@
 import { useCallback } from 'react';
 import type { TileInputEngine } from '@/lib/scoring/chineseOfficial/tileInputEngine';
+import type { DeclaredMeld } from '@/lib/scoring/chineseOfficial/melds';
+import type { Tile } from '@/lib/scoring/chineseOfficial/tiles';
 
 interface UseClearHandlersParams {
   // Common state setters
@@ -41,10 +43,8 @@ interface UseClearHandlersParams {
   setIsWallGame?: (value: boolean) => void;
   setTournamentGameResult?: (value: import('@/lib/scoring/types').TournamentGameResult) => void;
   setFalseMahjongIntactPlayerId?: (value: string) => void;
-  setDeadN?: (value: boolean) => void;
-  setDeadE?: (value: boolean) => void;
-  setDeadW?: (value: boolean) => void;
-  setDeadS?: (value: boolean) => void;
+  setDeadPlayerIds?: (value: string[]) => void;
+  tournamentPlayerIds?: string[]; // Seated players, East first
   
   // Chinese Official mode setters
   setChineseOfficialSelectedFans?: (value: Set<string>) => void;
@@ -57,6 +57,8 @@ interface UseClearHandlersParams {
   setDetectedFanIds?: (value: string[]) => void;
   setChineseOfficialInputMode?: (value: 'fanSelection' | 'tileInput') => void;
   setManualTiles?: (value: any[]) => void;
+  setManualMelds?: (value: DeclaredMeld[]) => void;
+  setManualWinningTile?: (value: Tile | null) => void;
   setTileInputError?: (value: string | null) => void;
   tileInputEngine?: TileInputEngine;
 }
@@ -93,10 +95,8 @@ export function useClearHandlers(params: UseClearHandlersParams) {
     setIsWallGame,
     setTournamentGameResult,
     setFalseMahjongIntactPlayerId,
-    setDeadN,
-    setDeadE,
-    setDeadW,
-    setDeadS,
+    setDeadPlayerIds,
+    tournamentPlayerIds = [],
     setChineseOfficialSelectedFans,
     setChineseOfficialFlowerCount,
     setChineseOfficialIsSelfDraw,
@@ -107,6 +107,8 @@ export function useClearHandlers(params: UseClearHandlersParams) {
     setDetectedFanIds,
     setChineseOfficialInputMode,
     setManualTiles,
+    setManualMelds,
+    setManualWinningTile,
     setTileInputError,
     tileInputEngine,
   } = params;
@@ -165,16 +167,13 @@ export function useClearHandlers(params: UseClearHandlersParams) {
 
   const clearTournament = useCallback(() => {
     setBasePoints("");
-    setTournamentWinnerId?.("N");
-    setTournamentDiscarderId?.("W");
+    setTournamentWinnerId?.(tournamentPlayerIds[0] ?? "");
+    setTournamentDiscarderId?.(tournamentPlayerIds[1] ?? "");
     setWinnerExposureCount?.(0);
     setIsWallGame?.(false);
     setTournamentGameResult?.("valid_win");
-    setFalseMahjongIntactPlayerId?.("N");
-    setDeadN?.(false);
-    setDeadE?.(false);
-    setDeadW?.(false);
-    setDeadS?.(false);
+    setFalseMahjongIntactPlayerId?.(tournamentPlayerIds[0] ?? "");
+    setDeadPlayerIds?.([]);
     setWinType("self_pick");
     setJokerless(false);
     setNoExposures?.(false);
@@ -195,10 +194,8 @@ export function useClearHandlers(params: UseClearHandlersParams) {
     setIsWallGame,
     setTournamentGameResult,
     setFalseMahjongIntactPlayerId,
-    setDeadN,
-    setDeadE,
-    setDeadW,
-    setDeadS,
+    setDeadPlayerIds,
+    tournamentPlayerIds,
     setNoExposures,
     setExposurePenaltyEnabled,
     setExposurePenaltyPerExposure,
@@ -223,6 +220,8 @@ export function useClearHandlers(params: UseClearHandlersParams) {
       tileInputEngine.resetHand();
       const state = tileInputEngine.getState();
       setManualTiles?.(state.tiles);
+      setManualMelds?.(state.melds);
+      setManualWinningTile?.(state.winningTile);
     }
     setTileInputError?.(null);
   }, [
@@ -236,6 +235,8 @@ export function useClearHandlers(params: UseClearHandlersParams) {
     setDetectedFanIds,
     setChineseOfficialInputMode,
     setManualTiles,
+    setManualMelds,
+    setManualWinningTile,
     setTileInputError,
     tileInputEngine,
   ]);
@@ -2,8 +2,6 @@ import { useState, useEffect } from 'react';
 import { Alert } from 'react-native';
 import { getCustomRules, saveCustomRule, type CustomRule } from '@/lib/storage/customRulesStorage';
 
-type CustomRuleType = 'multiplier' | 'points' | 'opponentDeduction' | 'discarderDeduction';
-
 export function useCustomRules() {
   const [customRules, setCustomRules] = useState<CustomRule[]>([]);
   const [selectedCustomRuleIds, setSelectedCustomRuleIds] = useState<Set<string>>(new Set());
@@ -91,19 +89,14 @@ export function useCustomRules() {
   // Handle opening custom rule modal (for creating or editing)
   const handleOpenCustomRuleModal = (ruleToEdit?: CustomRule | null) => {
     if (ruleToEdit) {
-      // Editing mode - support both new and legacy formats
+      // Editing mode
       setEditingRule(ruleToEdit);
       setNewCustomRuleTitle(ruleToEdit.title || "");
       setNewCustomRuleDescription(ruleToEdit.description || "");
       
-      // Handle new format
       if (ruleToEdit.winnerBonus) {
         setWinnerBonusType(ruleToEdit.winnerBonus.type);
         setWinnerBonusValue(ruleToEdit.winnerBonus.value.toString());
-      } else if (ruleToEdit.type === 'multiplier' || ruleToEdit.type === 'points') {
-        // Legacy format
-        setWinnerBonusType(ruleToEdit.type);
-        setWinnerBonusValue(ruleToEdit.value?.toString() || "0");
       } else {
         setWinnerBonusType('none');
         setWinnerBonusValue("");
@@ -116,16 +109,6 @@ export function useCustomRules() {
       setAllPlayerPenaltyEnabled(ruleToEdit.allPlayerPenalty?.enabled || false);
       setAllPlayerPenaltyType(ruleToEdit.allPlayerPenalty?.type || 'points');
       setAllPlayerPenaltyValue(ruleToEdit.allPlayerPenalty?.value?.toString() || "");
-      
-      // Legacy support
-      if (ruleToEdit.type === 'discarderDeduction' && ruleToEdit.value) {
-        setDiscarderPenaltyEnabled(true);
-        setDiscarderPenaltyValue(ruleToEdit.value.toString());
-      }
-      if (ruleToEdit.type === 'opponentDeduction' && ruleToEdit.value) {
-        setAllPlayerPenaltyEnabled(true);
-        setAllPlayerPenaltyValue(ruleToEdit.value.toString());
-      }
     } else {
       // Creating mode
       setEditingRule(null);
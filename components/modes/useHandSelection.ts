@@ -1,4 +1,4 @@
-import { useState, useMemo, useEffect } from 'react';
+import { useState, useMemo, useEffect, useRef } from 'react';
 import {
   getHandsByCategory,
   formatHandName,
@@ -13,8 +13,12 @@ export function useHandSelection(handYear: HandCardYear, cardSet: CalculatorCard
   const [showHandModal, setShowHandModal] = useState(false);
   const [handName, setHandName] = useState<string>("");
 
+  // Selection being restored (editing a saved hand); the reset effects below leave it alone
+  const restoringRef = useRef<{ handName: string } | null>(null);
+
   // When the card year or card set changes, reset selections.
   useEffect(() => {
+    if (restoringRef.current) return;
     setSelectedCategoryId("");
     setSelectedHand("");
     setHandName("");
@@ -35,10 +39,27 @@ export function useHandSelection(handYear: HandCardYear, cardSet: CalculatorCard
   }, [selectedHand, selectedCategoryId, handYear, cardSet]);
 
   useEffect(() => {
+    if (restoringRef.current) return;
     setSelectedHand("");
     setHandName("");
   }, [selectedCategoryId]);
 
+  // Declared last so it runs after the effects above: put the saved name back and end the restore
+  useEffect(() => {
+    if (restoringRef.current) {
+      setHandName(restoringRef.current.handName);
+      restoringRef.current = null;
+    }
+  });
+
+  /** Set category, line and name together, even when the card year or set changes at the same time. */
+  const restoreSelection = (categoryId: string, hand: string, name: string) => {
+    restoringRef.current = { handName: name };
+    setSelectedCategoryId(categoryId);
+    setSelectedHand(hand);
+    setHandName(name);
+  };
+
   return {
     selectedCategoryId,
     setSelectedCategoryId,
@@ -51,6 +72,7 @@ export function useHandSelection(handYear: HandCardYear, cardSet: CalculatorCard
     handName,
     setHandName,
     availableHands,
+    restoreSelection,
   };
 }
 
\ No newline at end of file
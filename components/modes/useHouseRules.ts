@@ -0,0 +1,248 @@
+import { useState, useEffect, useRef } from 'react';
+import { Share } from 'react-native';
+import { getCustomRules, saveCustomRule, type CustomRule } from '@/lib/storage/customRulesStorage';
+import {
+  getHouseRuleProfiles,
+  saveHouseRuleProfile,
+  deleteHouseRuleProfile,
+  getActiveHouseRuleProfileId,
+  setActiveHouseRuleProfileId,
+} from '@/lib/storage/houseRulesStorage';
+import { DEFAULT_KITTY_PAYOUT } from '@/lib/scoring/kitty';
+import { DEFAULT_STACKING_PROFILE } from '@/lib/scoring/stacking';
+import type { NmjlStackingProfile } from '@/lib/scoring/types';
+import type { CustomRuleValues, HouseRuleProfile } from '@/lib/types/houseRules';
+import { createHouseRuleProfile, exportHouseRuleProfile, parseHouseRuleProfile } from '@/lib/utils/houseRules';
+
+type HouseRuleSettings = Omit<HouseRuleProfile, 'id' | 'name' | 'createdAt' | 'updatedAt'>;
+
+interface UseHouseRulesParams {
+  displayMode: 'currency' | 'points';
+  setDisplayMode: (mode: 'currency' | 'points') => void;
+  kittyEnabled: boolean;
+  setKittyEnabled: (enabled: boolean) => void;
+  kittyPayout: string;
+  setKittyPayout: (payout: string) => void;
+  numPlayers: number;
+  setNumPlayers: (n: number) => void;
+  customRules: CustomRule[];
+  setCustomRules: (rules: CustomRule[]) => void;
+  selectedCustomRuleIds: Set<string>;
+  setSelectedCustomRuleIds: (ids: Set<string>) => void;
+  customRuleValues: CustomRuleValues;
+  setCustomRuleValues: (values: CustomRuleValues) => void;
+  /** True while a saved hand is being edited: its controls must not be saved over the active profile. */
+  suspended: boolean;
+}
+
+/** Calculator settings as held before an edit, put back when the edit ends. */
+interface CalculatorSettingsSnapshot {
+  displayMode: 'currency' | 'points';
+  kittyEnabled: boolean;
+  kittyPayout: string;
+  numPlayers: number;
+  selectedCustomRuleIds: Set<string>;
+  customRuleValues: CustomRuleValues;
+  stackingProfile: NmjlStackingProfile;
+}
+
+const settingsOf = ({ id, name, createdAt, updatedAt, ...settings }: HouseRuleProfile): HouseRuleSettings =>
+  settings;
+
+export function useHouseRules({
+  displayMode,
+  setDisplayMode,
+  kittyEnabled,
+  setKittyEnabled,
+  kittyPayout,
+  setKittyPayout,
+  numPlayers,
+  setNumPlayers,
+  customRules,
+  setCustomRules,
+  selectedCustomRuleIds,
+  setSelectedCustomRuleIds,
+  customRuleValues,
+  setCustomRuleValues,
+  suspended,
+}: UseHouseRulesParams) {
+  const [profiles, setProfiles] = useState<HouseRuleProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [stackingProfile, setStackingProfile] = useState<NmjlStackingProfile>(DEFAULT_STACKING_PROFILE);
+  // Don't write the calculator's defaults over the active profile before it has been applied
+  const loadedRef = useRef(false);
+  // Read by the async load, which may finish after an edit has started
+  const suspendedRef = useRef(suspended);
+  suspendedRef.current = suspended;
+  // Set while suspended and until the pre-edit settings are back in place
+  const snapshotRef = useRef<CalculatorSettingsSnapshot | null>(null);
+  const [restoreCount, setRestoreCount] = useState(0);
+
+  const activeProfile = profiles.find((p) => p.id === activeProfileId) ?? null;
+
+  const currentSettings = (): HouseRuleSettings => ({
+    displayMode,
+    kittyEnabled,
+    kittyPayout: Number(kittyPayout) || DEFAULT_KITTY_PAYOUT,
+    numPlayers,
+    customRules: customRules.filter((rule) => selectedCustomRuleIds.has(rule.id)),
+    customRuleValues,
+    stackingProfile,
+  });
+
+  // Switches to the profile only once its settings are in place, so they are never saved over it
+  const applyProfile = async (profile: HouseRuleProfile) => {
+    // Add the profile's rules to the local library so they can be seen and edited
+    for (const rule of profile.customRules) {
+      await saveCustomRule(rule);
+    }
+    setCustomRules(await getCustomRules());
+    setSelectedCustomRuleIds(new Set(profile.customRules.map((rule) => rule.id)));
+    setCustomRuleValues(profile.customRuleValues);
+    setDisplayMode(profile.displayMode);
+    setKittyEnabled(profile.kittyEnabled);
+    setKittyPayout(String(profile.kittyPayout));
+    setNumPlayers(profile.numPlayers);
+    setStackingProfile(profile.stackingProfile);
+    setActiveProfileId(profile.id);
+  };
+
+  // Load profiles on mount and re-apply the active one so settings survive a restart
+  useEffect(() => {
+    const loadHouseRules = async () => {
+      const [storedProfiles, storedActiveId] = await Promise.all([
+        getHouseRuleProfiles(),
+        getActiveHouseRuleProfileId(),
+      ]);
+      setProfiles(storedProfiles);
+      const active = storedProfiles.find((p) => p.id === storedActiveId);
+      if (active && suspendedRef.current) {
+        // Leave the edited hand's controls alone; the profile is applied when the edit ends
+        setActiveProfileId(active.id);
+      } else if (active) {
+        await applyProfile(active);
+      }
+      loadedRef.current = true;
+    };
+    loadHouseRules();
+  }, []);
+
+  // Editing a saved hand loads its controls; put the previous settings back when the edit ends
+  useEffect(() => {
+    if (suspended) {
+      if (!snapshotRef.current) {
+        snapshotRef.current = {
+          displayMode,
+          kittyEnabled,
+          kittyPayout,
+          numPlayers,
+          selectedCustomRuleIds,
+          customRuleValues,
+          stackingProfile,
+        };
+      }
+      return;
+    }
+    const snapshot = snapshotRef.current;
+    if (!snapshot) return;
+    const restoreSettings = async () => {
+      if (activeProfile) {
+        await applyProfile(activeProfile);
+      } else {
+        setDisplayMode(snapshot.displayMode);
+        setKittyEnabled(snapshot.kittyEnabled);
+        setKittyPayout(snapshot.kittyPayout);
+        setNumPlayers(snapshot.numPlayers);
+        setSelectedCustomRuleIds(snapshot.selectedCustomRuleIds);
+        setCustomRuleValues(snapshot.customRuleValues);
+        setStackingProfile(snapshot.stackingProfile);
+      }
+      setRestoreCount((count) => count + 1);
+    };
+    restoreSettings();
+  }, [suspended]);
+
+  // Keep the active profile in step with changes made in the calculator
+  useEffect(() => {
+    if (!loadedRef.current || !activeProfile || suspended || snapshotRef.current) return;
+    const settings = currentSettings();
+    if (JSON.stringify(settings) === JSON.stringify(settingsOf(activeProfile))) return;
+    const updated: HouseRuleProfile = { ...activeProfile, ...settings, updatedAt: Date.now() };
+    setProfiles((prev) => prev.map((p) => (p.id === updated.id ? updated : p)));
+    saveHouseRuleProfile(updated).catch(() => {});
+  }, [
+    activeProfile,
+    displayMode,
+    kittyEnabled,
+    kittyPayout,
+    numPlayers,
+    customRules,
+    selectedCustomRuleIds,
+    customRuleValues,
+    stackingProfile,
+    suspended,
+  ]);
+
+  // Runs after the sync above in the render that restored the settings
+  useEffect(() => {
+    if (restoreCount > 0) snapshotRef.current = null;
+  }, [restoreCount]);
+
+  const switchProfile = async (profileId: string | null) => {
+    await setActiveHouseRuleProfileId(profileId);
+    const profile = profiles.find((p) => p.id === profileId);
+    if (profile) {
+      await applyProfile(profile);
+    } else {
+      setActiveProfileId(null);
+    }
+  };
+
+  const saveCurrentAsProfile = async (name: string) => {
+    const profile = createHouseRuleProfile(name, currentSettings());
+    await saveHouseRuleProfile(profile);
+    await setActiveHouseRuleProfileId(profile.id);
+    setProfiles(await getHouseRuleProfiles());
+    setActiveProfileId(profile.id);
+    return profile;
+  };
+
+  const deleteProfile = async (profileId: string) => {
+    await deleteHouseRuleProfile(profileId);
+    setProfiles(await getHouseRuleProfiles());
+    if (activeProfileId === profileId) {
+      setActiveProfileId(null);
+    }
+  };
+
+  /** Import a shared profile and switch to it. Re-importing the same profile updates it. */
+  const importProfile = async (json: string) => {
+    const imported = parseHouseRuleProfile(json);
+    const existing = profiles.find((p) => p.id === imported.id);
+    const profile = existing ? { ...imported, createdAt: existing.createdAt } : imported;
+    await saveHouseRuleProfile(profile);
+    await setActiveHouseRuleProfileId(profile.id);
+    setProfiles(await getHouseRuleProfiles());
+    await applyProfile(profile);
+    return profile;
+  };
+
+  const exportProfile = async (profile: HouseRuleProfile) => {
+    await Share.share({
+      title: `${profile.name} house rules`,
+      message: exportHouseRuleProfile(profile),
+    });
+  };
+
+  return {
+    profiles,
+    activeProfile,
+    stackingProfile,
+    setStackingProfile,
+    switchProfile,
+    saveCurrentAsProfile,
+    deleteProfile,
+    importProfile,
+    exportProfile,
+  };
+}
@@ -0,0 +1,125 @@
+import { useState, useEffect, useRef } from 'react';
+import { Alert, AppState } from 'react-native';
+import { getRoundTimer, saveRoundTimer } from '@/lib/storage/roundTimerStorage';
+import {
+  createRoundTimer,
+  pauseRoundTimer,
+  reachedWarning,
+  resetRoundTimer,
+  roundTimerStatus,
+  startRoundTimer,
+  timerRemainingMs,
+} from '@/lib/utils/roundTimer';
+import type { RoundTimer } from '@/lib/types/tournament';
+
+/**
+ * The shared tournament round timer. It is stored as timestamps, so it keeps
+ * counting while the app is backgrounded; `onExpire` runs once when a running
+ * timer reaches zero, including when that happened while the app was closed.
+ * Without `onExpire` the timer still stops at zero, but the expiry stays
+ * pending until a screen that handles it loads the timer.
+ */
+export function useRoundTimer(onExpire?: () => void) {
+  const [timer, setTimer] = useState<RoundTimer | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+  const handlesExpiry = onExpire !== undefined;
+  // Smallest warning already announced, so each threshold alerts once
+  const announcedWarningRef = useRef<number | null>(null);
+
+  const loadTimer = async () => {
+    const stored = (await getRoundTimer()) ?? createRoundTimer();
+    const current = Date.now();
+    announcedWarningRef.current = reachedWarning(stored, current);
+    setTimer(stored);
+    setNow(current);
+  };
+
+  useEffect(() => {
+    loadTimer();
+  }, []);
+
+  // Re-read on return to the foreground; another screen may have changed the timer
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        loadTimer();
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  const running = timer?.startedAt !== undefined;
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  const updateTimer = async (next: RoundTimer) => {
+    setTimer(next);
+    setNow(Date.now());
+    try {
+      await saveRoundTimer(next);
+    } catch (error) {
+      Alert.alert("Error", "Failed to save the round timer.");
+    }
+  };
+
+  const status = timer ? roundTimerStatus(timer, now) : 'idle';
+  const remainingMs = timer ? timerRemainingMs(timer, now) : 0;
+
+  useEffect(() => {
+    if (!timer) return;
+    if (status === 'expired') {
+      if (!running && !timer.expiryPending) return;
+      // Stop at zero so expiry is handled once, by the first screen that handles it
+      const stopped = pauseRoundTimer(timer, now);
+      announcedWarningRef.current = null;
+      if (onExpireRef.current) {
+        updateTimer({ ...stopped, expiryPending: undefined });
+        onExpireRef.current();
+      } else if (running) {
+        updateTimer({ ...stopped, expiryPending: true });
+      }
+      return;
+    }
+    if (!running) return;
+    const warning = reachedWarning(timer, now);
+    if (warning !== null && warning !== announcedWarningRef.current) {
+      announcedWarningRef.current = warning;
+      Alert.alert("Time Warning", `${warning} minute${warning === 1 ? '' : 's'} left in the round.`);
+    }
+  }, [timer, running, status, now, handlesExpiry]);
+
+  const start = () => {
+    if (timer && status !== 'expired') updateTimer(startRoundTimer(timer, Date.now()));
+  };
+
+  const pause = () => {
+    if (timer) updateTimer(pauseRoundTimer(timer, Date.now()));
+  };
+
+  const reset = () => {
+    if (!timer) return;
+    announcedWarningRef.current = null;
+    updateTimer(resetRoundTimer(timer));
+  };
+
+  /** Change the round length and warnings; the timer starts over. */
+  const configure = (durationMinutes: number, warningMinutes: number[]) => {
+    announcedWarningRef.current = null;
+    updateTimer(createRoundTimer(durationMinutes, warningMinutes));
+  };
+
+  return {
+    timer,
+    status,
+    remainingMs,
+    start,
+    pause,
+    reset,
+    configure,
+  };
+}
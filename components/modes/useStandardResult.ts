@@ -1,8 +1,10 @@
 import { useMemo } from 'react';
 import { computeNmjlStandard } from '@/lib/scoring/engine';
 import { getEffectiveKittyPayout, getWallGameAwardPerPlayer } from '@/lib/scoring/kitty';
-import type { WinType, NoExposureBonusConfig } from '@/lib/scoring/types';
+import { customRuleInputs, ruleValueInputs } from '@/lib/scoring/ruleValues';
+import type { WinType, NmjlStackingProfile, ScoreInput } from '@/lib/scoring/types';
 import type { CustomRule } from '@/lib/storage/customRulesStorage';
+import type { SeatWind } from '@/lib/types/player';
 
 interface UseStandardResultParams {
   basePoints: string;
@@ -27,10 +29,12 @@ interface UseStandardResultParams {
   lastTileClaim: boolean;
   robbingTheJoker: boolean;
   eastDouble: boolean;
-  isWinnerEast: boolean;
+  isWinnerEast?: boolean;
+  seatByPlayerId?: Record<string, SeatWind>;
   selectedCustomRuleIds: Set<string>;
   customRules: CustomRule[];
   customRuleValues: Record<string, { type: 'multiplier' | 'points', value: number }>;
+  stackingProfile?: NmjlStackingProfile;
 }
 
 export function useStandardResult({
@@ -57,19 +61,12 @@ export function useStandardResult({
   robbingTheJoker,
   eastDouble,
   isWinnerEast,
+  seatByPlayerId,
   selectedCustomRuleIds,
   customRules,
   customRuleValues,
+  stackingProfile,
 }: UseStandardResultParams) {
-  // Build config object for bonus (or omit it entirely if not enabled)
-  const noExposureBonus: NoExposureBonusConfig | undefined =
-    noExposures
-      ? ({
-          mode: customRuleValues.noExposures?.type === 'points' ? 'flat' : 'multiplier',
-          value: customRuleValues.noExposures?.value ?? 2, // Default ×2
-        } as NoExposureBonusConfig)
-      : undefined;
-
   const effectiveKittyPayout = getEffectiveKittyPayout(kittyPayout, customRuleValues);
   const wallGameAwardPerPlayer = getWallGameAwardPerPlayer(
     displayMode,
@@ -78,7 +75,8 @@ export function useStandardResult({
     kittyEnabled
   );
 
-  const result = useMemo(() => {
+  // The input is kept alongside the result so saved hands can be re-scored later
+  const input = useMemo((): ScoreInput => {
     const resolvedKittyPayout =
       displayMode === 'points' && wallGame
         ? wallGameAwardPerPlayer
@@ -86,14 +84,13 @@ export function useStandardResult({
           ? effectiveKittyPayout
           : 0;
 
-    return computeNmjlStandard({
+    return {
       basePoints: Number(basePoints || 0),
       winType,
       jokerless,
       singlesAndPairs,
       numPlayers,
       noExposures,
-      noExposureBonus,
       misnamedJoker,
       heavenlyHand,
       wallGame,
@@ -110,41 +107,11 @@ export function useStandardResult({
       robbingTheJoker,
       eastDouble,
       isWinnerEast,
-      customMultipliers: {
-        jokerless: customRuleValues.jokerless?.type === 'multiplier' ? customRuleValues.jokerless.value : undefined,
-        misnamedJoker: customRuleValues.misnamedJoker?.type === 'multiplier' ? customRuleValues.misnamedJoker.value : undefined,
-        heavenlyHand: customRuleValues.heavenlyHand?.type === 'multiplier' ? customRuleValues.heavenlyHand.value : undefined,
-        lastTileFromWall: customRuleValues.lastTileFromWall?.type === 'multiplier' ? customRuleValues.lastTileFromWall.value : undefined,
-        lastTileClaim: customRuleValues.lastTileClaim?.type === 'multiplier' ? customRuleValues.lastTileClaim.value : undefined,
-        robbingTheJoker: customRuleValues.robbingTheJoker?.type === 'multiplier' ? customRuleValues.robbingTheJoker.value : undefined,
-      },
-      customPoints: {
-        jokerless: customRuleValues.jokerless?.type === 'points' ? customRuleValues.jokerless.value : undefined,
-      },
-      customRules: Array.from(selectedCustomRuleIds).map(id => {
-        const rule = customRules.find(r => r.id === id);
-        if (!rule) return null;
-        
-        // Return rule in new format (winnerBonus, discarderPenalty, allPlayerPenalty)
-        // The scoring engine handles both new and legacy formats
-        return {
-          id: rule.id,
-          winnerBonus: rule.winnerBonus,
-          discarderPenalty: rule.discarderPenalty,
-          allPlayerPenalty: rule.allPlayerPenalty,
-          // Legacy format support
-          type: rule.type,
-          value: rule.value,
-        };
-      }).filter(Boolean) as Array<{
-        id: string;
-        winnerBonus?: { type: 'points' | 'multiplier'; value: number };
-        discarderPenalty?: { enabled: boolean; type: 'points' | 'multiplier'; value: number };
-        allPlayerPenalty?: { enabled: boolean; type: 'points' | 'multiplier'; value: number };
-        type?: 'multiplier' | 'points' | 'opponentDeduction' | 'discarderDeduction';
-        value?: number;
-      }>
-    });
+      seatByPlayerId,
+      stackingProfile,
+      ...ruleValueInputs(customRuleValues, noExposures),
+      customRules: customRuleInputs(customRules.filter((rule) => selectedCustomRuleIds.has(rule.id))),
+    };
   }, [
     basePoints,
     winType,
@@ -171,12 +138,15 @@ export function useStandardResult({
     robbingTheJoker,
     eastDouble,
     isWinnerEast,
+    seatByPlayerId,
     selectedCustomRuleIds,
     customRules,
     customRuleValues,
-    noExposureBonus,
+    stackingProfile,
   ]);
 
-  return result;
+  const result = useMemo(() => computeNmjlStandard(input), [input]);
+
+  return { result, input };
 }
 
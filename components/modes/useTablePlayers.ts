@@ -0,0 +1,47 @@
+import { useState, useEffect, useMemo } from 'react';
+import { getRoster } from '@/lib/storage/rosterStorage';
+import { seatPlayersFromRoster, seatAssignments } from '@/lib/utils/seating';
+import { calculateCurrentRotation, seatPlayersForRotation } from '@/lib/utils/rotation';
+import type { RosterPlayer } from '@/lib/types/player';
+import type { GameSession } from '@/lib/types/session';
+import type { TournamentTable } from '@/lib/types/tournament';
+
+/**
+ * Players seated at the table: the entrants at the tournament event table being
+ * scored, else the active session's players (in the seats the rotation has
+ * moved them to) when there is one, otherwise the saved roster seated by
+ * preferred seat.
+ */
+export function useTablePlayers(activeSession: GameSession | null, eventTable: TournamentTable | null = null) {
+  const [roster, setRoster] = useState<RosterPlayer[]>([]);
+
+  useEffect(() => {
+    const loadRoster = async () => {
+      setRoster(await getRoster());
+    };
+    loadRoster();
+  }, []);
+
+  const rotation = useMemo(
+    () => (activeSession ? calculateCurrentRotation(activeSession) : null),
+    [activeSession]
+  );
+  const tablePlayers = useMemo(
+    () =>
+      eventTable
+        ? eventTable.players
+        : activeSession && rotation
+          ? seatPlayersForRotation(activeSession.players, rotation)
+          : seatPlayersFromRoster(roster),
+    [eventTable, activeSession, rotation, roster]
+  );
+  const tablePlayerIds = useMemo(() => tablePlayers.map((p) => p.id), [tablePlayers]);
+  const seatByPlayerId = useMemo(() => seatAssignments(tablePlayers), [tablePlayers]);
+
+  return {
+    rotation,
+    tablePlayers,
+    tablePlayerIds,
+    seatByPlayerId,
+  };
+}
@@ -1,6 +1,6 @@
 import { useMemo } from 'react';
 import { computeTournament } from '@/lib/scoring/engine';
-import type { TournamentGameResult } from '@/lib/scoring/types';
+import type { TournamentGameResult, TournamentInput, TournamentRuleSet } from '@/lib/scoring/types';
 
 interface UseTournamentResultParams {
   mode: 'standard' | 'international' | 'tournament' | 'chineseOfficial';
@@ -9,16 +9,15 @@ interface UseTournamentResultParams {
   tournamentWinnerId: string;
   tournamentDiscarderId: string;
   playerIds: string[];
+  playerNames?: Record<string, string>;
   jokerless: boolean;
   singlesAndPairs: boolean;
   winnerExposureCount: 0 | 1 | 2 | 3 | 4;
   isWallGame: boolean;
   tournamentGameResult: TournamentGameResult;
   falseMahjongIntactPlayerId: string;
-  deadN: boolean;
-  deadE: boolean;
-  deadW: boolean;
-  deadS: boolean;
+  deadPlayerIds: string[];
+  ruleSet: TournamentRuleSet;
 }
 
 export function useTournamentResult({
@@ -28,51 +27,46 @@ export function useTournamentResult({
   tournamentWinnerId,
   tournamentDiscarderId,
   playerIds,
+  playerNames,
   jokerless,
   singlesAndPairs,
   winnerExposureCount,
   isWallGame,
   tournamentGameResult,
   falseMahjongIntactPlayerId,
-  deadN,
-  deadE,
-  deadW,
-  deadS,
+  deadPlayerIds,
+  ruleSet,
 }: UseTournamentResultParams) {
-  const tournamentResult = useMemo(() => {
+  // The input is kept alongside the result so saved hands can be re-scored later
+  const input = useMemo((): TournamentInput | null => {
     if (mode !== 'tournament') return null;
 
-    const dead = [
-      deadN ? 'N' : null,
-      deadE ? 'E' : null,
-      deadW ? 'W' : null,
-      deadS ? 'S' : null,
-    ].filter(Boolean) as string[];
-
     const isSpecialOutcome =
       isWallGame ||
       tournamentGameResult !== 'valid_win';
 
-    return computeTournament({
+    return {
       basePoints: Number(basePoints || 0),
       winType: isSpecialOutcome ? undefined : winType,
       winnerId: isSpecialOutcome ? undefined : tournamentWinnerId,
       discarderId: winType === 'discard' && !isSpecialOutcome ? tournamentDiscarderId : null,
       playerIds,
+      playerNames,
       selfPick: winType === 'self_pick',
       jokerless,
       singlesAndPairs,
       winnerExposureCount,
       isWallGame,
       timeExpiredNoScore: tournamentGameResult === 'time_expired',
-      deadPlayerIds: dead,
+      deadPlayerIds,
       falseMahjongAllExposed: tournamentGameResult === 'false_mj_all_exposed',
       falseMahjongOneIntactId:
         tournamentGameResult === 'false_mj_one_intact'
           ? falseMahjongIntactPlayerId
           : null,
       falseMahjongGameContinues: tournamentGameResult === 'false_mj_game_continues',
-    });
+      ruleSet,
+    };
   }, [
     mode,
     basePoints,
@@ -80,17 +74,18 @@ export function useTournamentResult({
     tournamentWinnerId,
     tournamentDiscarderId,
     playerIds,
+    playerNames,
     jokerless,
     singlesAndPairs,
     winnerExposureCount,
     isWallGame,
     tournamentGameResult,
     falseMahjongIntactPlayerId,
-    deadN,
-    deadE,
-    deadW,
-    deadS,
+    deadPlayerIds,
+    ruleSet,
   ]);
 
-  return tournamentResult;
+  const result = useMemo(() => (input ? computeTournament(input) : null), [input]);
+
+  return { result, input };
 }
@@ -0,0 +1,28 @@
+import { useState, useEffect } from 'react';
+import { Alert } from 'react-native';
+import { getSelectedTournamentRuleSet, saveSelectedTournamentRuleSet } from '@/lib/storage/tournamentStorage';
+import { NMJL_TOURNAMENT_RULES } from '@/lib/scoring/tournamentRules';
+import type { TournamentRuleSet } from '@/lib/scoring/types';
+
+/** The tournament rule set, kept in storage so it survives tab switches and restores. */
+export function useTournamentRuleSet() {
+  const [ruleSet, setRuleSet] = useState<TournamentRuleSet>(NMJL_TOURNAMENT_RULES);
+
+  useEffect(() => {
+    const loadRuleSet = async () => {
+      setRuleSet(await getSelectedTournamentRuleSet());
+    };
+    loadRuleSet();
+  }, []);
+
+  const changeRuleSet = async (next: TournamentRuleSet) => {
+    setRuleSet(next);
+    try {
+      await saveSelectedTournamentRuleSet(next);
+    } catch (error) {
+      Alert.alert("Error", "Failed to save the tournament rule set.");
+    }
+  };
+
+  return [ruleSet, changeRuleSet] as const;
+}
@@ -0,0 +1,113 @@
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { getColors } from '@/constants/colors';
+import { styles } from '../ScoreCalculatorCard.styles';
+import { Row, Label, Seg } from '../shared/CalculatorHelpers';
+import type { GameSession } from '@/lib/types/session';
+import type { SeatedPlayer } from '@/lib/types/player';
+import type { RotationState } from '@/lib/utils/rotation';
+
+interface SessionHandControlsProps {
+  session: GameSession;
+  /** Session players in their seats for this hand. */
+  players: SeatedPlayer[];
+  rotation: RotationState | null;
+  /** Tournament hands use the seat pickers in the tournament controls instead. */
+  showPlayerPickers: boolean;
+  isDiscardWin: boolean;
+  wallGame: boolean;
+  winnerId: string;
+  discarderId: string;
+  theme: 'light' | 'dark';
+  onWinnerIdChange: (id: string) => void;
+  onDiscarderIdChange: (id: string) => void;
+  onRecordHand: () => void;
+}
+
+export default function SessionHandControls({
+  session,
+  players,
+  rotation,
+  showPlayerPickers,
+  isDiscardWin,
+  wallGame,
+  winnerId,
+  discarderId,
+  theme,
+  onWinnerIdChange,
+  onDiscarderIdChange,
+  onRecordHand,
+}: SessionHandControlsProps) {
+  const colors = getColors(theme);
+
+  return (
+    <View style={[styles.section, { borderWidth: 1, borderColor: colors.border, borderRadius: 8, padding: 12 }]}>
+      <Label colors={colors} sub={`${session.hands.length} hand${session.hands.length === 1 ? '' : 's'} recorded`}>
+        Session: {session.name}
+      </Label>
+      {rotation && (
+        <Text style={styles.labelSubtext(colors)}>
+          Hand {rotation.handsPlayed + 1} · {rotation.prevalentWind} round · East: {players.find((p) => p.seatWind === 'East')?.name}
+          {rotation.dealerRepeats > 0 ? ` (dealer repeat ${rotation.dealerRepeats})` : ''}
+        </Text>
+      )}
+
+      {showPlayerPickers && !wallGame && (
+        <>
+          <View style={{ marginTop: 8 }}>
+            <Label colors={colors}>Winner</Label>
+            <Row style={{ justifyContent: 'flex-start', flexWrap: 'wrap' }} colors={colors}>
+              {players.map((player) => (
+                <Seg
+                  key={player.id}
+                  selected={winnerId === player.id}
+                  onPress={() => onWinnerIdChange(player.id)}
+                  colors={colors}
+                  theme={theme}
+                >
+                  {player.name}
+                </Seg>
+              ))}
+            </Row>
+          </View>
+
+          {isDiscardWin && (
+            <View style={{ marginTop: 8 }}>
+              <Label colors={colors} sub="Player who threw the winning tile">Discarder</Label>
+              <Row style={{ justifyContent: 'flex-start', flexWrap: 'wrap' }} colors={colors}>
+                {players
+                  .filter((player) => player.id !== winnerId)
+                  .map((player) => (
+                    <Seg
+                      key={player.id}
+                      selected={discarderId === player.id}
+                      onPress={() => onDiscarderIdChange(player.id)}
+                      colors={colors}
+                      theme={theme}
+                    >
+                      {player.name}
+                    </Seg>
+                  ))}
+              </Row>
+            </View>
+          )}
+        </>
+      )}
+
+      {!showPlayerPickers && (
+        <Text style={[styles.labelSubtext(colors), { marginTop: 4 }]}>
+          Seats: {players.map((p) => `${p.seatWind[0]} = ${p.name}`).join(', ')}
+        </Text>
+      )}
+
+      <TouchableOpacity
+        style={[styles.addButton(colors), { marginTop: 12 }]}
+        onPress={onRecordHand}
+      >
+        <FontAwesome5 name="plus" size={14} color={colors.card} style={{ marginRight: 8 }} />
+        <Text style={styles.addButtonText(colors, theme)}>Add Hand to Session</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
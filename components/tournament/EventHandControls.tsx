@@ -0,0 +1,44 @@
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { getColors } from '@/constants/colors';
+import { styles } from '../ScoreCalculatorCard.styles';
+import { Label } from '../shared/CalculatorHelpers';
+import type { TournamentEvent, TournamentTable } from '@/lib/types/tournament';
+
+interface EventHandControlsProps {
+  event: TournamentEvent;
+  table: TournamentTable;
+  theme: 'light' | 'dark';
+  onRecordHand: () => void;
+}
+
+export default function EventHandControls({
+  event,
+  table,
+  theme,
+  onRecordHand,
+}: EventHandControlsProps) {
+  const colors = getColors(theme);
+  const round = event.rounds[event.rounds.length - 1];
+  const handsAtTable = round?.hands.filter((h) => h.tableNumber === table.tableNumber).length ?? 0;
+
+  return (
+    <View style={[styles.section, { borderWidth: 1, borderColor: colors.border, borderRadius: 8, padding: 12 }]}>
+      <Label colors={colors} sub={`${handsAtTable} hand${handsAtTable === 1 ? '' : 's'} recorded at this table`}>
+        {event.name}: Round {round?.roundNumber}, Table {table.tableNumber}
+      </Label>
+      <Text style={[styles.labelSubtext(colors), { marginTop: 4 }]}>
+        Seats: {table.players.map((p) => `${p.seatWind[0]} = ${p.name}`).join(', ')}
+      </Text>
+
+      <TouchableOpacity
+        style={[styles.addButton(colors), { marginTop: 12 }]}
+        onPress={onRecordHand}
+      >
+        <FontAwesome5 name="trophy" size={14} color={colors.card} style={{ marginRight: 8 }} />
+        <Text style={styles.addButtonText(colors, theme)}>Record Hand for Table {table.tableNumber}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
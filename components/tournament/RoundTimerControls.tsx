@@ -0,0 +1,118 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Alert } from 'react-native';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { getColors } from '@/constants/colors';
+import { styles } from '../ScoreCalculatorCard.styles';
+import { Row, Label, Seg } from '../shared/CalculatorHelpers';
+import { formatTimerRemaining, type RoundTimerStatus } from '@/lib/utils/roundTimer';
+import type { RoundTimer } from '@/lib/types/tournament';
+
+interface RoundTimerControlsProps {
+  timer: RoundTimer | null;
+  status: RoundTimerStatus;
+  remainingMs: number;
+  theme: 'light' | 'dark';
+  onStart: () => void;
+  onPause: () => void;
+  onReset: () => void;
+  onConfigure: (durationMinutes: number, warningMinutes: number[]) => void;
+}
+
+const STATUS_LABELS: Record<RoundTimerStatus, string> = {
+  idle: 'Not started',
+  running: 'Running',
+  paused: 'Paused',
+  warning: 'Running · nearly time',
+  expired: "Time! Hands in progress score as time expired",
+};
+
+export default function RoundTimerControls({
+  timer,
+  status,
+  remainingMs,
+  theme,
+  onStart,
+  onPause,
+  onReset,
+  onConfigure,
+}: RoundTimerControlsProps) {
+  const colors = getColors(theme);
+  const [showSettings, setShowSettings] = useState(false);
+  const [durationText, setDurationText] = useState<string>("");
+  const [warningText, setWarningText] = useState<string>("");
+
+  // Fill the settings form from the stored timer
+  useEffect(() => {
+    if (!timer) return;
+    setDurationText(String(Math.round(timer.durationMs / 60000)));
+    setWarningText(timer.warningMinutes.join(', '));
+  }, [timer?.durationMs, timer?.warningMinutes.join(',')]);
+
+  const isRunning = status === 'running' || status === 'warning';
+  const timeColor =
+    status === 'expired' || status === 'warning' ? colors.clearButton : colors.text;
+
+  const handleApply = () => {
+    const duration = Number(durationText);
+    if (!Number.isFinite(duration) || duration <= 0) {
+      Alert.alert("Invalid Length", "Enter the round length in minutes.");
+      return;
+    }
+    const warnings = warningText
+      .split(/[,\s]+/)
+      .filter(Boolean)
+      .map(Number);
+    if (warnings.some((m) => !Number.isFinite(m) || m <= 0)) {
+      Alert.alert("Invalid Warnings", "List warning times as minutes remaining, e.g. 10, 5, 1.");
+      return;
+    }
+    onConfigure(duration, warnings);
+    setShowSettings(false);
+  };
+
+  return (
+    <View style={[styles.section, { borderWidth: 1, borderColor: colors.border, borderRadius: 8, padding: 12 }]}>
+      <Label colors={colors} sub={STATUS_LABELS[status]}>Round Timer</Label>
+      <Text style={{ fontSize: 40, fontWeight: '700', color: timeColor, textAlign: 'center', marginVertical: 8 }}>
+        {formatTimerRemaining(remainingMs)}
+      </Text>
+      <Row style={{ justifyContent: 'center' }} colors={colors}>
+        {isRunning ? (
+          <Seg selected={false} onPress={onPause} colors={colors} theme={theme}>Pause</Seg>
+        ) : (
+          <Seg selected={status !== 'expired'} onPress={onStart} colors={colors} theme={theme}>
+            {status === 'paused' ? 'Resume' : 'Start'}
+          </Seg>
+        )}
+        <Seg selected={false} onPress={onReset} colors={colors} theme={theme}>Reset</Seg>
+        {!isRunning && (
+          <TouchableOpacity onPress={() => setShowSettings(!showSettings)} style={{ padding: 8 }}>
+            <FontAwesome5 name="cog" size={16} color={colors.textSecondary} />
+          </TouchableOpacity>
+        )}
+      </Row>
+
+      {showSettings && !isRunning && (
+        <View style={{ marginTop: 8 }}>
+          <Label colors={colors}>Round length (minutes)</Label>
+          <TextInput
+            value={durationText}
+            onChangeText={setDurationText}
+            keyboardType="numeric"
+            style={styles.textInput(colors)}
+          />
+          <Label colors={colors} sub="Minutes remaining, e.g. 10, 5, 1">Warnings</Label>
+          <TextInput
+            value={warningText}
+            onChangeText={setWarningText}
+            keyboardType="numbers-and-punctuation"
+            style={styles.textInput(colors)}
+          />
+          <TouchableOpacity style={[styles.addButton(colors), { marginTop: 12 }]} onPress={handleApply}>
+            <Text style={styles.addButtonText(colors, theme)}>Apply and Reset Timer</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
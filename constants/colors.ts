@@ -32,4 +32,7 @@ export const getColors = (theme: Theme) => {
   return theme === 'dark' ? darkColors : lightColors;
 };
 
+/** Colours players can pick for their roster avatar. */
+export const AVATAR_COLORS = ['#00C2A8', '#2D5566', '#f26d66', '#F2A65A', '#8E6CCF', '#4A90D9', '#7BBF6A', '#D96AA7'];
+
 export default lightColors;
@@ -6,6 +6,7 @@ interface ThemeContextType {
   theme: Theme;
   toggleTheme: () => void;
   setTheme: (theme: Theme) => void;
+  reloadTheme: () => Promise<void>; // Re-read the saved theme (e.g. after a restore)
 }
 
 const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
@@ -15,19 +16,20 @@ const THEME_STORAGE_KEY = '@mahjong_calculator_theme';
 export const ThemeProvider = ({ children }: { children: ReactNode }) => {
   const [theme, setThemeState] = useState<Theme>('dark'); // Default to dark mode with premium colors
 
+  const loadTheme = async () => {
+    try {
+      const savedTheme = await AsyncStorage.getItem(THEME_STORAGE_KEY);
+      if (savedTheme === 'light' || savedTheme === 'dark') {
+        setThemeState(savedTheme);
+      }
+    } catch (error) {
+      console.error('Error loading theme:', error);
+     
+    }
+  };
+
   // Load theme from storage on mount
   useEffect(() => {
-    const loadTheme = async () => {
-      try {
-        const savedTheme = await AsyncStorage.getItem(THEME_STORAGE_KEY);
-        if (savedTheme === 'light' || savedTheme === 'dark') {
-          setThemeState(savedTheme);
-        }
-      } catch (error) {
-        console.error('Error loading theme:', error);
-       
-      }
-    };
     loadTheme();
   }, []);
 
@@ -50,7 +52,7 @@ export const ThemeProvider = ({ children }: { children: ReactNode }) => {
   };
 
   return (
-    <ThemeContext.Provider value={{ theme, toggleTheme, setTheme }}>
+    <ThemeContext.Provider value={{ theme, toggleTheme, setTheme, reloadTheme: loadTheme }}>
       {children}
     </ThemeContext.Provider>
   );
@@ -75,6 +75,14 @@ export const getHandScore = (
   return SCORES_BY_CARD_SET[cardSet][year][`${categoryId}:${lineNumber}`];
 };
 
+/** Every distinct base point value printed on a card, lowest first. Empty when the card has no scores yet. */
+export const getCardBasePointValues = (
+  year: HandCardYear,
+  cardSet: CalculatorCardSet = 'american'
+): number[] => {
+  return Array.from(new Set(Object.values(SCORES_BY_CARD_SET[cardSet][year]))).sort((a, b) => a - b);
+};
+
 export const getCategoriesForSavedHand = (
   year: HandCardYear,
   mode: 'standard' | 'tournament' | 'international'
@@ -0,0 +1,69 @@
+import { computeNmjlStandard } from '@/lib/scoring/engine';
+import {
+  BONUSES_AFTER_MULTIPLIERS_PROFILE,
+  BONUSES_BEFORE_MULTIPLIERS_PROFILE,
+  CUSTOM_RULES_FIRST_PROFILE,
+  DEFAULT_STACKING_PROFILE,
+  getStackingProfile,
+  normalizeStackingProfile,
+} from '@/lib/scoring/stacking';
+import type { NmjlStackingProfile, ScoreInput } from '@/lib/scoring/types';
+
+// 25-point self-picked hand with one double, a 10-point no-exposures bonus and a 3× custom rule
+const input: ScoreInput = {
+  basePoints: 25,
+  winType: 'self_pick',
+  jokerless: false,
+  singlesAndPairs: false,
+  displayMode: 'points',
+  noExposures: true,
+  noExposureBonus: { mode: 'flat', value: 10 },
+  lastTileFromWall: true,
+  customRules: [{ id: 'house', winnerBonus: { type: 'multiplier', value: 3 } }],
+};
+
+const totalWith = (stackingProfile: NmjlStackingProfile) =>
+  computeNmjlStandard({ ...input, stackingProfile }).totalToWinner;
+
+describe('stacking profiles', () => {
+  it('scales the flat bonus by every multiplier by default', () => {
+    expect(totalWith(DEFAULT_STACKING_PROFILE)).toBe(900 + 10 * 2 * 3);
+    expect(totalWith(BONUSES_BEFORE_MULTIPLIERS_PROFILE)).toBe(900 + 10 * 2 * 3);
+  });
+
+  it('adds the flat bonus after every multiplier', () => {
+    expect(totalWith(BONUSES_AFTER_MULTIPLIERS_PROFILE)).toBe(900 + 10);
+  });
+
+  it('applies custom rules to the card value before the bonus joins', () => {
+    expect(totalWith(CUSTOM_RULES_FIRST_PROFILE)).toBe(900 + 10 * 2);
+  });
+
+  it('falls back to the default profile for an unknown ID', () => {
+    expect(getStackingProfile('missing')).toBe(DEFAULT_STACKING_PROFILE);
+    expect(getStackingProfile(CUSTOM_RULES_FIRST_PROFILE.id)).toBe(CUSTOM_RULES_FIRST_PROFILE);
+  });
+});
+
+describe('normalizeStackingProfile', () => {
+  it('drops unknown and repeated stages and appends missing ones in default order', () => {
+    const profile = normalizeStackingProfile({
+      ...DEFAULT_STACKING_PROFILE,
+      order: ['misnamedJoker', 'bogus', 'misnamedJoker', 'doubles'] as NmjlStackingProfile['order'],
+    });
+
+    expect(profile.order).toEqual(['misnamedJoker', 'doubles', 'customRules', 'heavenlyHand']);
+  });
+
+  it('drops unknown flat bonuses', () => {
+    const profile = normalizeStackingProfile({
+      ...DEFAULT_STACKING_PROFILE,
+      scales: {
+        ...DEFAULT_STACKING_PROFILE.scales,
+        doubles: ['jokerless', 'bogus'] as NmjlStackingProfile['scales']['doubles'],
+      },
+    });
+
+    expect(profile.scales.doubles).toEqual(['jokerless']);
+  });
+});
@@ -0,0 +1,67 @@
+import { computeTournament } from '@/lib/scoring/engine';
+import {
+  NMJL_TOURNAMENT_RULES,
+  SOCIAL_TOURNAMENT_RULES,
+  TOURNAMENT_RULE_SETS,
+  getTournamentRuleSet,
+  parseTournamentRuleSet,
+  validateTournamentRuleSet,
+} from '@/lib/scoring/tournamentRules';
+
+const PLAYERS = ['a', 'b', 'c', 'd'];
+
+describe('tournament rule sets', () => {
+  it('ships presets that pass validation', () => {
+    TOURNAMENT_RULE_SETS.forEach((ruleSet) => {
+      expect(validateTournamentRuleSet(ruleSet)).toEqual([]);
+    });
+  });
+
+  it('falls back to the NMJL rules for an unknown id', () => {
+    expect(getTournamentRuleSet('social')).toBe(SOCIAL_TOURNAMENT_RULES);
+    expect(getTournamentRuleSet('gone')).toBe(NMJL_TOURNAMENT_RULES);
+    expect(getTournamentRuleSet()).toBe(NMJL_TOURNAMENT_RULES);
+  });
+
+  it('lists every problem with an invalid rule set', () => {
+    const errors = validateTournamentRuleSet({
+      ...NMJL_TOURNAMENT_RULES,
+      name: ' ',
+      selfPickBonus: -5,
+      wallGameAwardToDeadHands: 'yes',
+      discarderPenalty: { fewExposures: 10, manyExposures: 20, manyExposuresFrom: 5 },
+    });
+
+    expect(errors).toEqual([
+      'The rule set has no name.',
+      'selfPickBonus must be zero or more points.',
+      'wallGameAwardToDeadHands must be true or false.',
+      'discarderPenalty.manyExposuresFrom must be a whole number from 1 to 4.',
+    ]);
+    expect(validateTournamentRuleSet([])).toEqual(['The rule set is not an object.']);
+    expect(validateTournamentRuleSet({ ...NMJL_TOURNAMENT_RULES, discarderPenalty: null })).toEqual([
+      'discarderPenalty is missing.',
+    ]);
+  });
+
+  it('parses a rule set, trimming the name and dropping unknown fields', () => {
+    const parsed = parseTournamentRuleSet({ ...NMJL_TOURNAMENT_RULES, name: ' Club ', extra: true });
+
+    expect(parsed).toEqual({ ...NMJL_TOURNAMENT_RULES, name: 'Club' });
+    expect(() => parseTournamentRuleSet({})).toThrow(/^Invalid tournament rule set: The rule set has no id\./);
+  });
+
+  it('scores a discard win with the chosen rule set', () => {
+    const input = {
+      basePoints: 25,
+      winType: 'discard' as const,
+      winnerId: 'a',
+      discarderId: 'b',
+      playerIds: PLAYERS,
+      winnerExposureCount: 2 as const,
+    };
+
+    expect(computeTournament(input).pointsByPlayer.b).toBe(-20);
+    expect(computeTournament({ ...input, ruleSet: SOCIAL_TOURNAMENT_RULES }).pointsByPlayer.b).toBe(0);
+  });
+});
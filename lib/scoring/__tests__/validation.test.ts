@@ -0,0 +1,67 @@
+import { hasScoreInputErrors, validateScoreInput } from '@/lib/scoring/validation';
+import type { ScoreInput } from '@/lib/scoring/types';
+
+const input: ScoreInput = {
+  basePoints: 25,
+  winType: 'discard',
+  jokerless: false,
+  singlesAndPairs: false,
+  displayMode: 'points',
+  winnerExposureCount: 1,
+};
+
+const codes = (overrides: Partial<ScoreInput>, card?: Parameters<typeof validateScoreInput>[1]) =>
+  validateScoreInput({ ...input, ...overrides }, card).map((issue) => issue.code);
+
+describe('validateScoreInput', () => {
+  it('accepts an ordinary hand', () => {
+    expect(validateScoreInput(input)).toEqual([]);
+  });
+
+  it('rejects a Heavenly Hand with exposures or from a discard', () => {
+    const issues = validateScoreInput({ ...input, heavenlyHand: true });
+
+    expect(issues.map((issue) => issue.code)).toEqual(['heavenlyHandWithExposures', 'heavenlyHandFromDiscard']);
+    expect(hasScoreInputErrors(issues)).toBe(true);
+  });
+
+  it('only warns when a Heavenly Hand winner is not East', () => {
+    const issues = validateScoreInput({
+      ...input,
+      heavenlyHand: true,
+      winType: 'self_pick',
+      winnerExposureCount: 0,
+      winnerId: 'p2',
+      seatByPlayerId: { p2: 'South' },
+    });
+
+    expect(issues.map((issue) => [issue.code, issue.severity])).toEqual([['heavenlyHandNotEast', 'warning']]);
+    expect(hasScoreInputErrors(issues)).toBe(false);
+  });
+
+  it('catches contradictory options', () => {
+    expect(codes({ misnamedJoker: true, jokerless: true })).toEqual(['jokerlessWithMisnamedJoker']);
+    expect(codes({ noExposures: true, robbingTheJoker: true })).toEqual(['robbingJokerConcealed', 'concealedWithExposures']);
+    expect(codes({ singlesAndPairs: true })).toEqual(['singlesAndPairsWithExposures']);
+    expect(codes({ winnerExposureCount: 5 as ScoreInput['winnerExposureCount'] })).toEqual(['exposureCountOutOfRange']);
+  });
+
+  it('reports only the first last-tile conflict', () => {
+    expect(codes({ lastTileFromWall: true, lastTileClaim: true })).toEqual(['lastTileFromWallAndClaim']);
+    expect(codes({ lastTileFromWall: true })).toEqual(['lastTileFromWallOnDiscard']);
+    expect(codes({ lastTileClaim: true, winType: 'self_pick' })).toEqual(['lastTileClaimOnSelfPick']);
+  });
+
+  it('checks base points against the card', () => {
+    expect(codes({ basePoints: 30 }, { cardYear: '2026', categoryId: '2468', lineNumber: '1' })).toEqual([
+      'basePointsDifferFromLine',
+    ]);
+    expect(codes({ basePoints: 27 }, { cardYear: '2026' })).toEqual(['basePointsNotOnCard']);
+    // The 2025 international card has no scores to check against
+    expect(codes({ basePoints: 27 }, { cardYear: '2025', cardSet: 'international' })).toEqual([]);
+  });
+
+  it('skips wall games', () => {
+    expect(codes({ wallGame: true, heavenlyHand: true })).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+import { computeChineseOfficial, MINIMUM_FAN_POINTS } from '@/lib/scoring/chineseOfficial/chineseOfficialEngine';
+import type { ChineseOfficialInput } from '@/lib/scoring/chineseOfficial/chineseOfficialTypes';
+
+// All Pungs is worth 6, so on its own the hand is short of the minimum
+const input: ChineseOfficialInput = {
+  selectedFanIDs: new Set(['allPungs']),
+  flowerCount: 3,
+  isSelfDraw: false,
+  isConcealed: false,
+  winningMethodIsDiscard: true,
+  prevalentWindPungPresent: false,
+  seatWindPungPresent: false,
+  winnerId: 'a',
+  discarderId: 'b',
+  otherPlayerIds: ['b', 'c', 'd'],
+};
+
+describe('MCR minimum', () => {
+  it('treats a hand short of the minimum as a false Mahjong, however many flowers', () => {
+    const result = computeChineseOfficial(input);
+
+    expect(MINIMUM_FAN_POINTS).toBe(8);
+    expect(result.fanPointsSum + result.flowerPoints).toBeGreaterThanOrEqual(MINIMUM_FAN_POINTS);
+    expect(result.meetsMinimum).toBe(false);
+    expect(result.falseMahjongPenalty).toBe(10);
+    expect(result.payerMap).toEqual({ a: 0, b: -10, c: -10, d: -10 });
+    expect(result.totalToWinner).toBe(-30);
+  });
+
+  it('uses the configured false Mahjong penalty', () => {
+    const result = computeChineseOfficial({ ...input, falseMahjongPenalty: 5 });
+
+    expect(result.payerMap).toEqual({ a: 0, b: -5, c: -5, d: -5 });
+  });
+
+  it('pays out normally once fans reach the minimum', () => {
+    const result = computeChineseOfficial({ ...input, selectedFanIDs: new Set(['allPungs', 'halfFlush']) });
+
+    expect(result.meetsMinimum).toBe(true);
+    expect(result.falseMahjongPenalty).toBeUndefined();
+    expect(result.payerMap).toMatchObject({ b: 23, c: 8, d: 8 });
+  });
+});
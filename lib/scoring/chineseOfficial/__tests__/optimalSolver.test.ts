@@ -0,0 +1,81 @@
+import { exposedMelds, type DeclaredMeld } from '@/lib/scoring/chineseOfficial/melds';
+import { isValidHand } from '@/lib/scoring/chineseOfficial/handValidator';
+import { OptimalScorer } from '@/lib/scoring/chineseOfficial/optimalSolver';
+import { TileInputEngine } from '@/lib/scoring/chineseOfficial/tileInputEngine';
+import { parseTile, type Hand } from '@/lib/scoring/chineseOfficial/tiles';
+
+const kong = (tile: string, exposed: boolean): DeclaredMeld => ({ meld: { type: 'kong', tile: parseTile(tile) }, exposed });
+
+const handOf = (melds: DeclaredMeld[], tiles: string[]): Hand => {
+  const engine = new TileInputEngine();
+  melds.forEach((meld) => expect(engine.addMeld(meld).success).toBe(true));
+  tiles.forEach((tile) => expect(engine.addTile(parseTile(tile)).success).toBe(true));
+  return engine.createHand();
+};
+
+const scoreOf = (hand: Hand, isSelfDraw: boolean) => {
+  const meldedSets = exposedMelds(hand);
+  return new OptimalScorer(4).score(hand, {
+    isSelfDraw,
+    isConcealed: meldedSets.length === 0,
+    winnerIndex: 0,
+    discarderIndex: isSelfDraw ? undefined : 1,
+    prevalentWindPungPresent: false,
+    seatWindPungPresent: false,
+    meldedSets,
+  });
+};
+
+const fansOf = (outcome: ReturnType<typeof scoreOf>) => outcome.chosenFans.map((fan) => `${fan.id}:${fan.points}`);
+
+describe('declared kongs', () => {
+  it('expects each kong\'s fourth tile', () => {
+    expect(isValidHand(handOf([kong('1m', false)], ['2s', '3s', '4s', '5s', '6s', '7s', 'E', 'E'])).isValid).toBe(false);
+  });
+
+  it('scores two concealed kongs without also counting them as concealed pungs', () => {
+    const outcome = scoreOf(
+      handOf([kong('1m', false), kong('9p', false)], ['2s', '3s', '4s', '5s', '6s', '7s', 'E', 'E']),
+      true
+    );
+
+    expect(fansOf(outcome)).toEqual(['fullyConcealedHand_selfDraw:4', 'twoConcealedKongs:8', 'selfDrawn:1']);
+    expect(outcome.fanPoints).toBe(13);
+  });
+
+  it('scores a melded and a concealed kong together', () => {
+    const outcome = scoreOf(
+      handOf([kong('1m', true), kong('9p', false)], ['2s', '3s', '4s', '5s', '6s', '7s', 'E', 'E']),
+      false
+    );
+
+    expect(fansOf(outcome)).toEqual(['twoKongs:4', 'concealedKong:2']);
+  });
+});
+
+describe('knitted hands', () => {
+  const KNITTED = ['1m', '4m', '7m', '2p', '5p', '8p', '3s', '6s', '9s'];
+
+  it('scores a knitted straight with a set and a pair', () => {
+    const hand = handOf([], [...KNITTED, 'RD', 'RD', 'RD', 'E', 'E']);
+
+    expect(isValidHand(hand).isValid).toBe(true);
+    expect(fansOf(scoreOf(hand, false))).toEqual(['knittedStraight:12', 'concealedHandWonByDiscard:2', 'dragonPung:2']);
+  });
+
+  it('scores honors and knitted tiles, with the knitted straight when all nine are held', () => {
+    expect(fansOf(scoreOf(handOf([], [...KNITTED, 'E', 'S', 'W', 'N', 'RD']), false))).toEqual([
+      'lesserHonorsKnitted:12',
+      'knittedStraight:12',
+    ]);
+    expect(fansOf(scoreOf(handOf([], [...KNITTED.slice(0, 7), 'E', 'S', 'W', 'N', 'RD', 'GD', 'WD']), false))).toEqual([
+      'greaterHonorsKnitted:24',
+    ]);
+  });
+
+  it('rejects tiles that only look knitted', () => {
+    const hand = handOf([], ['1m', '4m', '7m', '2p', '5p', '8p', '3s', '6s', '9m', 'RD', 'RD', 'RD', 'E', 'E']);
+
+    expect(isValidHand(hand).isValid).toBe(false);
+  });
+});
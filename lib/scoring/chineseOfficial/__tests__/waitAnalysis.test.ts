@@ -0,0 +1,75 @@
+import { exposedMelds } from '@/lib/scoring/chineseOfficial/melds';
+import { OptimalScorer } from '@/lib/scoring/chineseOfficial/optimalSolver';
+import { TileInputEngine } from '@/lib/scoring/chineseOfficial/tileInputEngine';
+import { parseTile, type Hand } from '@/lib/scoring/chineseOfficial/tiles';
+import { analyzeWait } from '@/lib/scoring/chineseOfficial/waitAnalysis';
+
+const PUNGS = ['7s', '7s', '7s', 'RD', 'RD', 'RD'];
+
+const handOf = (tiles: string[], winningTile: string): Hand => {
+  const engine = new TileInputEngine();
+  tiles.forEach((tile) => expect(engine.addTile(parseTile(tile)).success).toBe(true));
+  expect(engine.setWinningTile(parseTile(winningTile)).success).toBe(true);
+  return engine.createHand();
+};
+
+const waitOf = (tiles: string[], winningTile: string) => {
+  const hand = handOf(tiles, winningTile);
+  const analysis = analyzeWait(hand, hand.winningTile!);
+  return analysis && {
+    waits: analysis.waits.map((tile) => tile.description),
+    shapes: analysis.shapes,
+    waitFanId: analysis.waitFanId,
+  };
+};
+
+describe('analyzeWait', () => {
+  it('finds edge, closed and single waits', () => {
+    expect(waitOf(['1m', '2m', '4p', '5p', '6p', ...PUNGS, 'E', 'E'], '3m')).toEqual({
+      waits: ['3m'],
+      shapes: ['edge'],
+      waitFanId: 'edgeWait',
+    });
+    expect(waitOf(['1m', '3m', '4p', '5p', '6p', ...PUNGS, 'E', 'E'], '2m')?.waitFanId).toBe('closedWait');
+    expect(waitOf(['1m', '2m', '3m', '4p', '5p', '6p', ...PUNGS, 'E'], 'E')?.waitFanId).toBe('singleWait');
+  });
+
+  it('gives no wait fan when another tile would also have won', () => {
+    expect(waitOf(['2m', '3m', '4p', '5p', '6p', ...PUNGS, 'E', 'E'], '4m')).toEqual({
+      waits: ['1m', '4m'],
+      shapes: ['open'],
+      waitFanId: undefined,
+    });
+  });
+
+  it('lets the scorer add the wait fan from the winning tile', () => {
+    const hand = handOf(['1m', '2m', '4p', '5p', '6p', ...PUNGS, 'E', 'E'], '3m');
+    const outcome = new OptimalScorer(4).score(hand, {
+      isSelfDraw: false,
+      isConcealed: true,
+      winnerIndex: 0,
+      discarderIndex: 1,
+      prevalentWindPungPresent: false,
+      seatWindPungPresent: false,
+      meldedSets: exposedMelds(hand),
+      winningTile: hand.winningTile!,
+    });
+
+    expect(outcome.chosenFans.map((fan) => fan.id)).toContain('edgeWait');
+  });
+});
+
+describe('knitted straight waits', () => {
+  const KNITTED = ['1m', '4m', '7m', '2p', '5p', '8p', '3s', '6s', '9s'];
+
+  it('finds a single wait on the pair', () => {
+    expect(waitOf([...KNITTED, 'RD', 'RD', 'RD', 'E'], 'E')?.waitFanId).toBe('singleWait');
+  });
+
+  it('gives no wait fan for a tile inside the knitted straight', () => {
+    const wait = waitOf([...KNITTED.slice(0, 8), 'RD', 'RD', 'RD', 'E', 'E'], '9s');
+
+    expect(wait?.waits).toEqual(['9s']);
+    expect(wait?.waitFanId).toBeUndefined();
+  });
+});
@@ -2,6 +2,8 @@ import { ChineseOfficialInput, ChineseOfficialResult, Fan, WinType, Player, Hand
 import { chineseOfficialFans } from '../chineseOfficial/chineseOfficialFans';
 import { calculateHandScore, playerIdToPlayer } from './scoringEngine';
 
+export { MINIMUM_FAN_POINTS, DEFAULT_FALSE_MAHJONG_PENALTY } from './scoringEngine';
+
 /**
  * Chinese Official Mahjong Scoring Engine
  * 
@@ -9,6 +11,8 @@ import { calculateHandScore, playerIdToPlayer } from './scoringEngine';
  * - Non-Repeat: Fans implied by chosen fans are skipped
  * - Non-Identical: Mutually exclusive fans are enforced
  * - Concealment requirements are checked
+ * - A hand short of MINIMUM_FAN_POINTS on fans alone is a false Mahjong:
+ *   the declarer pays input.falseMahjongPenalty to each opponent instead
  */
 export function computeChineseOfficial(
   input: ChineseOfficialInput
@@ -79,17 +83,28 @@ export function computeChineseOfficial(
 
   // Use the new scoring engine for payment calculation
   const winType: WinType = input.isSelfDraw ? 'selfDraw' : 'discardWin';
-  const discarderPlayer: Player | undefined = input.discarderId 
-    ? playerIdToPlayer(input.discarderId) 
+  const playerOrder: Player[] = ['East', 'South', 'West', 'North'];
+  const hasPlayerIds = Boolean(input.otherPlayerIds && input.otherPlayerIds.length >= 3);
+  const allPlayerIds = hasPlayerIds ? [input.winnerId || 'East', ...(input.otherPlayerIds ?? [])] : [];
+  // With explicit player IDs the discarder's position comes from the table order,
+  // not from the ID text (which only works for seat-named IDs like "E" or "West")
+  const discarderIndex = input.discarderId ? allPlayerIds.indexOf(input.discarderId) : -1;
+  const discarderPlayer: Player | undefined = input.discarderId
+    ? (discarderIndex >= 0 && discarderIndex < playerOrder.length
+        ? playerOrder[discarderIndex]
+        : playerIdToPlayer(input.discarderId))
     : undefined;
   
   const handFans = chosen.map(fan => fan.points);
+  // The winner takes the first seat when player IDs are given
+  const winnerPlayer: Player = hasPlayerIds ? playerOrder[0] : playerIdToPlayer(input.winnerId || 'East');
   const handResult = calculateHandScore(
     handFans,
     winType,
     discarderPlayer,
     flowerPts,
-    chosen
+    chosen,
+    { winner: winnerPlayer, penalty: input.falseMahjongPenalty }
   );
 
   // Convert HandResult paymentPerPlayer to payerMap (string IDs)
@@ -97,11 +112,8 @@ export function computeChineseOfficial(
   let totalToWinner = 0;
 
   // If we have specific player IDs, use them; otherwise use Player names
-  if (input.otherPlayerIds && input.otherPlayerIds.length >= 3) {
+  if (hasPlayerIds) {
     // Use provided player IDs - map them to Player positions
-    const allPlayerIds = [input.winnerId || 'East', ...input.otherPlayerIds];
-    const playerOrder: Player[] = ['East', 'South', 'West', 'North'];
-    
     playerOrder.forEach((player, index) => {
       if (index < allPlayerIds.length) {
         const playerId = allPlayerIds[index];
@@ -141,6 +153,8 @@ export function computeChineseOfficial(
     payerMap: payerMap,
     totalToWinner: totalToWinner,
     handResult: handResult, // Include HandResult for cleaner Player-based access
+    meetsMinimum: handResult.meetsMinimum,
+    falseMahjongPenalty: handResult.falseMahjongPenalty,
   };
 }
 
@@ -163,7 +177,8 @@ export function getHandResult(input: ChineseOfficialInput): HandResult {
     winType,
     discarderPlayer,
     result.flowerPoints,
-    result.chosenFans
+    result.chosenFans,
+    { winner: input.winnerId ? playerIdToPlayer(input.winnerId) : 'East', penalty: input.falseMahjongPenalty }
   );
 }
 
@@ -29,6 +29,8 @@ export interface HandResult {
   chosenFans: Fan[];
   fanPointsSum: number;
   flowerPoints: number;
+  meetsMinimum: boolean; // Fan points alone reach MINIMUM_FAN_POINTS
+  falseMahjongPenalty?: number; // Set when the hand is short: what the declarer pays each opponent
 }
 
 export interface ChineseOfficialInput {
@@ -44,6 +46,7 @@ export interface ChineseOfficialInput {
   winnerId?: string;
   discarderId?: string;
   otherPlayerIds?: string[];
+  falseMahjongPenalty?: number; // Declarer pays each opponent this when short of the minimum (default 10)
 }
 
 export interface ChineseOfficialResult {
@@ -55,5 +58,7 @@ export interface ChineseOfficialResult {
   payerMap?: Record<string, number>; // player ID -> amount they pay
   totalToWinner: number;
   handResult?: HandResult; // Optional: cleaner HandResult format with Player types
+  meetsMinimum: boolean; // Fan points alone reach MINIMUM_FAN_POINTS; flowers never count
+  falseMahjongPenalty?: number; // Set when the hand is short: what the declarer pays each opponent
 }
 
@@ -5,7 +5,7 @@
  */
 
 import { Hand, Tile } from './tiles';
-import { MeldKind } from './melds';
+import { MeldKind, getConcealedSets, getDiscardCompletedSet } from './melds';
 import { chineseOfficialFans } from './chineseOfficialFans';
 import { Fan } from './chineseOfficialTypes';
 import * as fanDetectors from './fanDetectors';
@@ -40,7 +40,8 @@ export interface FanDetectionOptions {
   seatWindPungPresent: boolean;
   playerWind?: string;  // E, S, W, N
   prevalentWind?: string;  // E, S, W, N
-  meldedSets?: MeldKind[][];  // For tracking which sets are melded
+  /** Sets claimed from discards. When given, every other set is concealed and `isConcealed` is ignored. */
+  meldedSets?: MeldKind[];
   /** Wait type: "Edge", "Closed", "Single" */
   waitType?: string;
   /** Whether this is the last tile of its kind */
@@ -49,7 +50,7 @@ export interface FanDetectionOptions {
   isRobbingKong?: boolean;
   /** Whether this is out with replacement tile */
   isReplacementTile?: boolean;
-  /** The winning tile (for last tile detection) */
+  /** The winning tile (for the wait fans and last tile detection) */
   winningTile?: Tile;
 }
 
@@ -76,9 +77,9 @@ export class FanDetectionEngine {
     const dec = melds.length > 0 && melds[0].length > 0 ? melds[0] : [];
 
     // 1. Special Hands (must check first - they are scored separately)
-    const specialFan = this.detectSpecialHands(hand);
-    if (specialFan) {
-      this.detectedFanIds.push(specialFan);
+    const specialFans = this.detectSpecialHands(hand);
+    if (specialFans.length > 0) {
+      this.detectedFanIds.push(...specialFans);
       return this.detectedFanIds; // Special hands are scored separately, no further fans
     }
 
@@ -170,28 +171,43 @@ export class FanDetectionEngine {
    * 1. Detect Special Hands
    * Special hands are scored separately and exclude other fans
    */
-  private detectSpecialHands(hand: Hand): string | null {
+  private detectSpecialHands(hand: Hand): string[] {
+    // Special hands have no sets, so a hand with declared sets is not one
+    if (hand.declaredMelds.length > 0) {
+      return [];
+    }
+
     // Seven Pairs
     if (detectSevenPairs(hand)) {
-      return 'sevenPairs';
+      return ['sevenPairs'];
     }
 
     // Thirteen Orphans
     if (detectThirteenOrphans(hand)) {
-      return 'thirteenOrphans';
+      return ['thirteenOrphans'];
+    }
+
+    // Greater Honors & Knitted
+    if (fanDetectors.detectGreaterHonorsKnitted(hand)) {
+      return ['greaterHonorsKnitted'];
+    }
+
+    // Lesser Honors & Knitted, which may hold a whole knitted straight too
+    if (fanDetectors.detectLesserHonorsKnitted(hand)) {
+      return isKnittedStraight(hand) ? ['lesserHonorsKnitted', 'knittedStraight'] : ['lesserHonorsKnitted'];
     }
 
     // Nine Gates (concealed, one suit only)
     if (fanDetectors.detectNineGates(hand, true)) {
-      return 'nineGates';
+      return ['nineGates'];
     }
 
     // Seven Shifted Pairs
     if (fanDetectors.detectSevenShiftedPairs(hand)) {
-      return 'sevenShiftedPairs';
+      return ['sevenShiftedPairs'];
     }
 
-    return null;
+    return [];
   }
 
   /**
@@ -247,11 +263,18 @@ export class FanDetectionEngine {
       }
     }
 
+    // When the winds are known, only a pung of that wind counts; otherwise
+    // fall back to the manual "present" flags and take the first wind pung
+    const windPungs = this.resolveWindPungs(dec, options);
+
     // Prevalent Wind Pung
-    if (options.prevalentWindPungPresent) {
+    if (windPungs.prevalentWindPungPresent) {
       for (const m of dec) {
         if (m.type === 'pung' || m.type === 'kong') {
-          if (m.tile.kind.type === 'wind' && !this.fanTracker.isUsed(m)) {
+          const matches = options.prevalentWind
+            ? m.tile.kind.type === 'wind' && m.tile.kind.value === options.prevalentWind
+            : m.tile.kind.type === 'wind' && !this.fanTracker.isUsed(m);
+          if (matches) {
             fans.push('prevalentWindPung');
             this.fanTracker.markUsed(m);
             break;
@@ -260,11 +283,14 @@ export class FanDetectionEngine {
       }
     }
 
-    // Seat Wind Pung
-    if (options.seatWindPungPresent) {
+    // Seat Wind Pung (the same pung may also score as prevalent wind)
+    if (windPungs.seatWindPungPresent) {
       for (const m of dec) {
         if (m.type === 'pung' || m.type === 'kong') {
-          if (m.tile.kind.type === 'wind' && !this.fanTracker.isUsed(m)) {
+          const matches = options.playerWind
+            ? m.tile.kind.type === 'wind' && m.tile.kind.value === options.playerWind
+            : m.tile.kind.type === 'wind' && !this.fanTracker.isUsed(m);
+          if (matches) {
             fans.push('seatWindPung');
             this.fanTracker.markUsed(m);
             break;
@@ -274,10 +300,7 @@ export class FanDetectionEngine {
     }
 
     // Pung of Terminals/Honors (not seat/prevalent)
-    if (fanDetectors.detectPungTermOrHonor(dec, {
-      prevalentWindPungPresent: options.prevalentWindPungPresent,
-      seatWindPungPresent: options.seatWindPungPresent,
-    })) {
+    if (fanDetectors.detectPungTermOrHonor(dec, windPungs)) {
       fans.push('pungTermOrHonor_nonSeatPrev');
     }
 
@@ -505,6 +528,31 @@ export class FanDetectionEngine {
     return fansWithMelds.map(f => f.fanId);
   }
 
+  /**
+   * Whether the hand holds a prevalent / seat wind pung. Known winds are
+   * matched against the pungs; otherwise the manual flags are used as-is.
+   */
+  private resolveWindPungs(
+    dec: MeldKind[],
+    options: FanDetectionOptions
+  ): { prevalentWindPungPresent: boolean; seatWindPungPresent: boolean } {
+    const hasWindPung = (wind: string) =>
+      dec.some(
+        (m) =>
+          (m.type === 'pung' || m.type === 'kong') &&
+          m.tile.kind.type === 'wind' &&
+          m.tile.kind.value === wind
+      );
+    return {
+      prevalentWindPungPresent: options.prevalentWind
+        ? hasWindPung(options.prevalentWind)
+        : options.prevalentWindPungPresent,
+      seatWindPungPresent: options.playerWind
+        ? hasWindPung(options.playerWind)
+        : options.seatWindPungPresent,
+    };
+  }
+
   /**
    * 4. Detect Pung/Kong-Based Fans with Melds
    * Returns fans with their used melds for proper Non-Separation tracking
@@ -523,38 +571,18 @@ export class FanDetectionEngine {
     
     const kongCount = unusedKongs.length;
     const pungCount = unusedPungsKongs.length;
-
-    // Melded Kong - only if unused
-    if (kongCount >= 1 && unusedKongs.length > 0) {
-      results.push({ fanId: 'meldedKong', usedMelds: [unusedKongs[0]] });
-    }
-
-    // Two Kongs
-    if (kongCount >= 2 && unusedKongs.length >= 2) {
-      results.push({ fanId: 'twoKongs', usedMelds: unusedKongs.slice(0, 2) });
-    }
-
-    // Three Kongs
-    if (kongCount >= 3 && unusedKongs.length >= 3) {
-      results.push({ fanId: 'threeKongs', usedMelds: unusedKongs.slice(0, 3) });
-    }
-
-    // Four Kongs
-    if (kongCount >= 4 && unusedKongs.length >= 4) {
-      results.push({ fanId: 'fourKongs', usedMelds: unusedKongs });
-    }
-
-    // Concealed Kong - check unused kongs (after marking previous kongs)
-    const remainingKongs = unusedKongs.filter(k => !results.some(r => r.usedMelds.includes(k)));
-    if (remainingKongs.length > 0 && fanDetectors.detectConcealedKong(remainingKongs, options.isConcealed)) {
-      results.push({ fanId: 'concealedKong', usedMelds: [remainingKongs[0]] });
-    }
-
-    // Two Concealed Kongs
-    const remainingKongs2 = unusedKongs.filter(k => !results.some(r => r.usedMelds.includes(k)));
-    if (remainingKongs2.length >= 2 && options.isConcealed) {
-      results.push({ fanId: 'twoConcealedKongs', usedMelds: remainingKongs2.slice(0, 2) });
-    }
+    const discardSet = !options.isSelfDraw && options.winningTile
+      ? getDiscardCompletedSet(dec, hand, options.winningTile)
+      : undefined;
+    const concealedSets = getConcealedSets(dec, options.meldedSets, options.isConcealed).filter(m => m !== discardSet);
+    const isConcealedSet = (m: MeldKind) => concealedSets.includes(m);
+
+    // Kong fans. The count fan claims the kongs; Concealed Kong and Two Concealed
+    // Kongs score on top of it, so they are not marked against the same sets.
+    const kongFans = fanDetectors.detectKongFans(unusedKongs, concealedSets);
+    kongFans.forEach(({ fanId, kongs }, index) => {
+      results.push({ fanId, usedMelds: index === 0 ? kongs : [] });
+    });
 
     // Double Pung - check unused pungs
     const remainingPungs = unusedPungsKongs.filter(p => !results.some(r => r.usedMelds.includes(p)));
@@ -575,31 +603,22 @@ export class FanDetectionEngine {
       }
     }
 
-    // Two Concealed Pungs - check unused pungs
-    const remainingPungs3 = unusedPungsKongs.filter(p => !results.some(r => r.usedMelds.includes(p)));
-    if (fanDetectors.detectTwoConcealedPungs(remainingPungs3, options.isConcealed) && remainingPungs3.length >= 2) {
-      const concealedPungs = remainingPungs3.filter(p => options.isConcealed);
-      if (concealedPungs.length >= 2) {
-        results.push({ fanId: 'twoConcealedPungs', usedMelds: concealedPungs.slice(0, 2) });
-      }
+    // Four Concealed Pungs - largest first, so the sets are not split across smaller fans
+    const concealedForFour = unusedPungsKongs.filter(p => !results.some(r => r.usedMelds.includes(p)) && isConcealedSet(p));
+    if (fanDetectors.detectFourConcealedPungs(concealedForFour, true)) {
+      results.push({ fanId: 'fourConcealedPungs', usedMelds: concealedForFour });
     }
 
     // Three Concealed Pungs
-    const remainingPungs4 = unusedPungsKongs.filter(p => !results.some(r => r.usedMelds.includes(p)));
-    if (fanDetectors.detectThreeConcealedPungs(remainingPungs4, options.isConcealed) && remainingPungs4.length >= 3) {
-      const concealedPungs = remainingPungs4.filter(p => options.isConcealed);
-      if (concealedPungs.length >= 3) {
-        results.push({ fanId: 'threeConcealedPungs', usedMelds: concealedPungs.slice(0, 3) });
-      }
+    const concealedForThree = unusedPungsKongs.filter(p => !results.some(r => r.usedMelds.includes(p)) && isConcealedSet(p));
+    if (fanDetectors.detectThreeConcealedPungs(concealedForThree, true)) {
+      results.push({ fanId: 'threeConcealedPungs', usedMelds: concealedForThree.slice(0, 3) });
     }
 
-    // Four Concealed Pungs
-    const remainingPungs5 = unusedPungsKongs.filter(p => !results.some(r => r.usedMelds.includes(p)));
-    if (fanDetectors.detectFourConcealedPungs(remainingPungs5, options.isConcealed) && remainingPungs5.length >= 4) {
-      const concealedPungs = remainingPungs5.filter(p => options.isConcealed);
-      if (concealedPungs.length >= 4) {
-        results.push({ fanId: 'fourConcealedPungs', usedMelds: concealedPungs });
-      }
+    // Two Concealed Pungs
+    const concealedForTwo = unusedPungsKongs.filter(p => !results.some(r => r.usedMelds.includes(p)) && isConcealedSet(p));
+    if (fanDetectors.detectTwoConcealedPungs(concealedForTwo, true)) {
+      results.push({ fanId: 'twoConcealedPungs', usedMelds: concealedForTwo.slice(0, 2) });
     }
 
     // All Pungs - only if all pungs are unused
@@ -960,6 +979,7 @@ export class FanDetectionEngine {
     options: FanDetectionOptions
   ): string[] {
     const fans: string[] = [];
+    const isConcealed = options.meldedSets ? options.meldedSets.length === 0 : options.isConcealed;
 
     // Self-Drawn
     if (options.isSelfDraw) {
@@ -967,37 +987,40 @@ export class FanDetectionEngine {
     }
 
     // Fully Concealed Hand (self-draw)
-    if (options.isConcealed && options.isSelfDraw) {
+    if (isConcealed && options.isSelfDraw) {
       fans.push('fullyConcealedHand_selfDraw');
     }
 
     // Concealed Hand (won by discard)
-    if (options.isConcealed && !options.isSelfDraw) {
+    if (isConcealed && !options.isSelfDraw) {
       fans.push('concealedHandWonByDiscard');
     }
 
-    // Melded Hand
-    if (fanDetectors.detectMeldedHand(options.isSelfDraw)) {
+    // Melded Hand: every set claimed, so the discard completes the pair
+    const meldedHand = options.meldedSets
+      ? !options.isSelfDraw && options.meldedSets.length === 4
+      : fanDetectors.detectMeldedHand(options.isSelfDraw);
+    if (meldedHand) {
       fans.push('meldedHand');
     }
 
-    // Edge Wait
-    if (fanDetectors.detectEdgeWait(dec)) {
+    // Edge Wait (the wait fans need the winning tile, and only count for a sole wait)
+    if (fanDetectors.detectEdgeWait(hand, options.winningTile)) {
       fans.push('edgeWait');
     }
 
     // Closed Wait
-    if (fanDetectors.detectClosedWait(dec)) {
+    if (fanDetectors.detectClosedWait(hand, options.winningTile)) {
       fans.push('closedWait');
     }
 
-    // Single Wait
-    if (fanDetectors.detectSingleWait(dec)) {
+    // Single Wait (already part of Melded Hand)
+    if (!meldedHand && fanDetectors.detectSingleWait(hand, options.winningTile)) {
       fans.push('singleWait');
     }
 
     // Last Tile (tile is last of its kind)
-    if (fanDetectors.detectLastTile()) {
+    if (options.isLastTile || fanDetectors.detectLastTile(options.winningTile, options.meldedSets)) {
       fans.push('lastTile');
     }
 
@@ -1016,10 +1039,9 @@ export class FanDetectionEngine {
       fans.push('outWithReplacementTile');
     }
 
-    // Robbing the Kong (check if there's a kong in the hand)
-    const hasKong = dec.some(m => m.type === 'kong');
-    if (hasKong) {
-      // This is a simplified check - actual robbing kong requires game state
+    // Robbing the Kong: the robbed kong belongs to another player, so a kong
+    // in this hand says nothing about it; only the caller knows
+    if (options.isRobbingKong) {
       fans.push('robbingTheKong');
     }
 
@@ -1028,21 +1050,11 @@ export class FanDetectionEngine {
       fans.push('tileHog');
     }
 
-    // Knitted Straight
+    // Knitted Straight (Honors & Knitted hands are handled as special hands)
     if (isKnittedStraight(hand)) {
       fans.push('knittedStraight');
     }
 
-    // Lesser Honors & Knitted
-    if (fanDetectors.detectLesserHonorsKnitted(hand)) {
-      fans.push('lesserHonorsKnitted');
-    }
-
-    // Greater Honors & Knitted
-    if (fanDetectors.detectGreaterHonorsKnitted(hand)) {
-      fans.push('greaterHonorsKnitted');
-    }
-
     // Big Three Winds
     const windPungCount = dec.filter(m => 
       (m.type === 'pung' || m.type === 'kong') && m.tile.kind.type === 'wind'
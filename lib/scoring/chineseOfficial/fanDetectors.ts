@@ -6,7 +6,8 @@
 
 import { Hand, Tile } from './tiles';
 import { Suit } from './tiles';
-import { MeldKind } from './melds';
+import { MeldKind, meldTiles, detectHonorsAndKnitted } from './melds';
+import { analyzeWait } from './waitAnalysis';
 
 /**
  * Helper: Check if a meld is a chow
@@ -374,6 +375,43 @@ export function detectConcealedKong(dec: MeldKind[], isConcealed: boolean): bool
   return kongs.length >= 1;
 }
 
+/**
+ * Kong fans: one fan for the number of kongs, plus Concealed Kong or Two
+ * Concealed Kongs for the concealed ones. `concealedSets` must hold the same
+ * meld objects as `dec`. Two kongs that are both concealed score only Two
+ * Concealed Kongs.
+ */
+export function detectKongFans(
+  dec: MeldKind[],
+  concealedSets: MeldKind[]
+): Array<{ fanId: string; kongs: MeldKind[] }> {
+  const kongs = getKongs(dec);
+  const concealed = kongs.filter(k => concealedSets.includes(k));
+  const fans: Array<{ fanId: string; kongs: MeldKind[] }> = [];
+
+  if (kongs.length === 2 && concealed.length === 2) {
+    return [{ fanId: 'twoConcealedKongs', kongs: concealed }];
+  }
+
+  if (kongs.length === 1 && concealed.length === 0) {
+    fans.push({ fanId: 'meldedKong', kongs });
+  } else if (kongs.length === 2) {
+    fans.push({ fanId: 'twoKongs', kongs });
+  } else if (kongs.length === 3) {
+    fans.push({ fanId: 'threeKongs', kongs });
+  } else if (kongs.length === 4) {
+    fans.push({ fanId: 'fourKongs', kongs });
+  }
+
+  if (concealed.length >= 2) {
+    fans.push({ fanId: 'twoConcealedKongs', kongs: concealed.slice(0, 2) });
+  } else if (concealed.length === 1) {
+    fans.push({ fanId: 'concealedKong', kongs: concealed });
+  }
+
+  return fans;
+}
+
 /**
  * Outside Hand: All sets contain terminals or honors
  */
@@ -807,20 +845,17 @@ export function detectSevenShiftedPairs(hand: Hand): boolean {
 }
 
 /**
- * Lesser Honors & Knitted: Honors forming knitted sequences
+ * Lesser Honors & Knitted: 14 single honors and knitted tiles, missing at least one honor
  */
 export function detectLesserHonorsKnitted(hand: Hand): boolean {
-  // This requires specific honor tile patterns
-  // Simplified: check if hand has honors in knitted pattern
-  return false; // Placeholder
+  return detectHonorsAndKnitted(hand) && getHonorCount(hand) < 7;
 }
 
 /**
- * Greater Honors & Knitted: Honors forming knitted sequences (higher value)
+ * Greater Honors & Knitted: all seven honors plus seven knitted tiles
  */
 export function detectGreaterHonorsKnitted(hand: Hand): boolean {
-  // Similar to lesser but higher value
-  return false; // Placeholder
+  return detectHonorsAndKnitted(hand) && getHonorCount(hand) === 7;
 }
 
 /**
@@ -828,41 +863,37 @@ export function detectGreaterHonorsKnitted(hand: Hand): boolean {
  */
 
 /**
- * Edge Wait: Waiting on 3 or 7 to complete a chow
+ * Edge Wait: Sole wait on the 3 of 1-2 or the 7 of 8-9
  */
-export function detectEdgeWait(dec: MeldKind[], winningTile?: Tile): boolean {
-  // This requires knowing the winning tile
-  // Simplified check: if there's a chow that could be completed with edge wait
+export function detectEdgeWait(hand: Hand, winningTile?: Tile): boolean {
   if (!winningTile) return false;
-  if (winningTile.kind.type !== 'suited') return false;
-  const rank = winningTile.kind.rank;
-  return rank === 3 || rank === 7;
+  return analyzeWait(hand, winningTile)?.waitFanId === 'edgeWait';
 }
 
 /**
- * Closed Wait: Waiting on middle tile to complete a chow
+ * Closed Wait: Sole wait on the middle tile of a chow
  */
-export function detectClosedWait(dec: MeldKind[], winningTile?: Tile): boolean {
+export function detectClosedWait(hand: Hand, winningTile?: Tile): boolean {
   if (!winningTile) return false;
-  if (winningTile.kind.type !== 'suited') return false;
-  const rank = winningTile.kind.rank;
-  return rank >= 2 && rank <= 8;
+  return analyzeWait(hand, winningTile)?.waitFanId === 'closedWait';
 }
 
 /**
- * Single Wait: Waiting on a single tile (pair wait)
+ * Single Wait: Sole wait on the tile that completes the pair
  */
-export function detectSingleWait(dec: MeldKind[], winningTile?: Tile): boolean {
-  // This is typically when waiting on a pair
-  return true; // Simplified - most hands have some form of single wait
+export function detectSingleWait(hand: Hand, winningTile?: Tile): boolean {
+  if (!winningTile) return false;
+  return analyzeWait(hand, winningTile)?.waitFanId === 'singleWait';
 }
 
 /**
- * Last Tile: Winning on the last tile of its kind
+ * Last Tile: Winning on the last tile of its kind. Only the hand's own
+ * exposed sets are known here, so discards must be reported by the caller.
  */
-export function detectLastTile(winningTile?: Tile): boolean {
-  // This requires game state knowledge
-  return false; // Placeholder
+export function detectLastTile(winningTile?: Tile, meldedSets: MeldKind[] = []): boolean {
+  if (!winningTile) return false;
+  const exposedCopies = meldedSets.flatMap(meldTiles).filter(t => t.equals(winningTile)).length;
+  return exposedCopies === 3;
 }
 
 /**
@@ -7,8 +7,10 @@
 import { Hand, Tile } from './tiles';
 import { 
   enumerateStandardDecompositions, 
+  enumerateKnittedStraightDecompositions,
   detectSevenPairs, 
   detectThirteenOrphans,
+  detectHonorsAndKnitted,
   isFullFlush,
   isHalfFlush,
   isAllPungs,
@@ -38,25 +40,31 @@ export interface ValidationResult {
   error?: string;
   melds?: MeldKind[][];
   isSpecialHand?: boolean;
-  specialHandType?: 'sevenPairs' | 'thirteenOrphans';
+  specialHandType?: 'sevenPairs' | 'thirteenOrphans' | 'honorsAndKnitted';
+  isKnittedStraight?: boolean; // melds hold the set and pair beside the knitted straight
 }
 
 /**
- * Validate a hand - must have 14 tiles and form valid sets
+ * Validate a hand - must have 14 tiles (one more per declared kong) and form valid sets
  */
 export function isValidHand(hand: Hand): ValidationResult {
   const nonFlowerTiles = hand.nonFlowerTiles;
+  const kongCount = hand.declaredMelds.filter(d => d.meld.type === 'kong').length;
+  const expectedTileCount = 14 + kongCount;
   
-  // Must have 14 tiles (excluding flowers)
-  if (nonFlowerTiles.length !== 14) {
+  // Must have 14 tiles (excluding flowers), plus each kong's fourth tile
+  if (nonFlowerTiles.length !== expectedTileCount) {
     return {
       isValid: false,
-      error: `Hand must have exactly 14 tiles (excluding flowers). Found: ${nonFlowerTiles.length}`,
+      error: kongCount > 0
+        ? `Hand with ${kongCount} kong${kongCount === 1 ? '' : 's'} must have exactly ${expectedTileCount} tiles (excluding flowers). Found: ${nonFlowerTiles.length}`
+        : `Hand must have exactly 14 tiles (excluding flowers). Found: ${nonFlowerTiles.length}`,
     };
   }
 
-  // Check for special hands first
-  if (detectSevenPairs(hand)) {
+  // Check for special hands first (they have no sets, so none can be declared)
+  const hasDeclaredMelds = hand.declaredMelds.length > 0;
+  if (!hasDeclaredMelds && detectSevenPairs(hand)) {
     return {
       isValid: true,
       isSpecialHand: true,
@@ -64,7 +72,7 @@ export function isValidHand(hand: Hand): ValidationResult {
     };
   }
 
-  if (detectThirteenOrphans(hand)) {
+  if (!hasDeclaredMelds && detectThirteenOrphans(hand)) {
     return {
       isValid: true,
       isSpecialHand: true,
@@ -72,20 +80,40 @@ export function isValidHand(hand: Hand): ValidationResult {
     };
   }
 
+  if (!hasDeclaredMelds && detectHonorsAndKnitted(hand)) {
+    return {
+      isValid: true,
+      isSpecialHand: true,
+      specialHandType: 'honorsAndKnitted',
+    };
+  }
+
   // Check standard hand (4 sets + 1 pair)
   const decompositions = enumerateStandardDecompositions(hand);
-  
-  if (decompositions.length === 0) {
+  if (decompositions.length > 0) {
     return {
-      isValid: false,
-      error: 'Hand does not form valid sets. Must have 4 sets (chows/pungs/kongs) + 1 pair.',
+      isValid: true,
+      melds: decompositions,
+      isSpecialHand: false,
+    };
+  }
+
+  // Then a knitted straight + 1 set + 1 pair
+  const knittedDecompositions = enumerateKnittedStraightDecompositions(hand);
+  if (knittedDecompositions.length > 0) {
+    return {
+      isValid: true,
+      melds: knittedDecompositions,
+      isSpecialHand: false,
+      isKnittedStraight: true,
     };
   }
 
   return {
-    isValid: true,
-    melds: decompositions,
-    isSpecialHand: false,
+    isValid: false,
+    error: hasDeclaredMelds
+      ? 'The tiles outside the declared sets do not complete the hand. Must have 4 sets (chows/pungs/kongs) + 1 pair, or a knitted straight + 1 set + 1 pair.'
+      : 'Hand does not form valid sets. Must have 4 sets (chows/pungs/kongs) + 1 pair, or a knitted straight + 1 set + 1 pair.',
   };
 }
 
@@ -103,6 +131,10 @@ export function detectFans(
     isSelfDraw: boolean;
     prevalentWindPungPresent: boolean;
     seatWindPungPresent: boolean;
+    playerWind?: string;
+    prevalentWind?: string;
+    meldedSets?: MeldKind[];
+    winningTile?: Tile;
   }
 ): string[] {
   // Use the structured fan detection engine
@@ -112,6 +144,10 @@ export function detectFans(
     isSelfDraw: options.isSelfDraw,
     prevalentWindPungPresent: options.prevalentWindPungPresent,
     seatWindPungPresent: options.seatWindPungPresent,
+    playerWind: options.playerWind,
+    prevalentWind: options.prevalentWind,
+    meldedSets: options.meldedSets,
+    winningTile: options.winningTile,
   });
   
   /* Legacy implementation - now using FanDetectionEngine above
@@ -547,7 +583,9 @@ export function detectFans(
 }
 
 /**
- * Score a hand - validates, detects fans, and calculates payment
+ * Score a hand - validates, detects fans, and calculates payment.
+ * `meetsMinimum` is false when fan points alone fall short of the minimum;
+ * the payment is then the false Mahjong penalty.
  */
 export function scoreHand(
   hand: Hand,
@@ -559,6 +597,7 @@ export function scoreHand(
     discarder?: string;
     winnerId?: string;
     otherPlayerIds?: string[];
+    falseMahjongPenalty?: number;
   }
 ) {
   // Validate hand
@@ -600,7 +639,11 @@ export function scoreHand(
     winType,
     discarderPlayer,
     flowerPoints,
-    detectedFans // Pass Fan objects
+    detectedFans, // Pass Fan objects
+    {
+      winner: options.winnerId ? playerIdToPlayer(options.winnerId) : undefined,
+      penalty: options.falseMahjongPenalty,
+    }
   );
 
   return {
@@ -609,6 +652,7 @@ export function scoreHand(
     fanPointsSum,
     flowerPoints,
     totalPoints,
+    meetsMinimum: handResult.meetsMinimum,
     handResult,
   };
 }
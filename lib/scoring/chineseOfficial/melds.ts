@@ -11,11 +11,88 @@ export type MeldKind =
   | { type: 'kong'; tile: Tile }
   | { type: 'pair'; tile: Tile };
 
+/**
+ * A set entered as a group rather than tile by tile. Exposed sets were
+ * claimed from a discard; concealed ones were drawn (or are concealed kongs).
+ */
+export interface DeclaredMeld {
+  meld: Exclude<MeldKind, { type: 'pair' }>;
+  exposed: boolean;
+}
+
+/**
+ * The tiles that make up a meld
+ */
+export function meldTiles(meld: MeldKind): Tile[] {
+  switch (meld.type) {
+    case 'chow':
+      return [0, 1, 2].map(i => new Tile({ type: 'suited', rank: meld.base + i, suit: meld.suit }));
+    case 'pung':
+      return [meld.tile, meld.tile, meld.tile];
+    case 'kong':
+      return [meld.tile, meld.tile, meld.tile, meld.tile];
+    case 'pair':
+      return [meld.tile, meld.tile];
+  }
+}
+
+/**
+ * Comparable key for a meld, e.g. "chow:1m" or "pung:RD"
+ */
+export function meldKey(meld: MeldKind): string {
+  return meld.type === 'chow' ? `chow:${meld.base}${meld.suit}` : `${meld.type}:${meld.tile.description}`;
+}
+
+/**
+ * The exposed sets of a hand, for FanDetectionOptions.meldedSets
+ */
+export function exposedMelds(hand: Hand): MeldKind[] {
+  return hand.declaredMelds.filter(d => d.exposed).map(d => d.meld);
+}
+
+/**
+ * Sets of a decomposition that are concealed. `meldedSets` lists the exposed
+ * sets; without it, every set follows the hand-wide `isConcealed` flag.
+ */
+export function getConcealedSets(dec: MeldKind[], meldedSets: MeldKind[] | undefined, isConcealed: boolean): MeldKind[] {
+  const sets = dec.filter(m => m.type !== 'pair');
+  if (!meldedSets) return isConcealed ? sets : [];
+  const melded = meldedSets.map(meldKey);
+  return sets.filter(m => {
+    const index = melded.indexOf(meldKey(m));
+    if (index < 0) return true;
+    melded.splice(index, 1); // Identical sets: only as many are exposed as were declared
+    return false;
+  });
+}
+
+/**
+ * The pung a discarded winning tile completed, which counts as melded rather
+ * than concealed. None when the tile can complete the pair or a chow instead,
+ * since the hand is read in the winner's favour.
+ */
+export function getDiscardCompletedSet(dec: MeldKind[], hand: Hand, winningTile: Tile): MeldKind | undefined {
+  // The winning tile never joins a declared set
+  const declared = new Set<MeldKind>(hand.declaredMelds.map(d => d.meld));
+  const holders = dec.filter(m => !declared.has(m) && meldTiles(m).some(t => t.equals(winningTile)));
+  if (holders.some(m => m.type !== 'pung')) return undefined;
+  return holders[0];
+}
+
 /**
  * Enumerate all standard decompositions (4 sets + 1 pair)
- * Uses DFS backtracking to find all valid partitions
+ * Uses DFS backtracking to find all valid partitions. Declared melds are
+ * fixed; only the remaining tiles are partitioned.
  */
 export function enumerateStandardDecompositions(hand: Hand): MeldKind[][] {
+  return enumerateSetDecompositions(hand, [], 4);
+}
+
+/**
+ * Partition the hand into `setCount` sets + 1 pair after setting aside the
+ * `reserved` tiles (which must all be present) and the declared melds
+ */
+function enumerateSetDecompositions(hand: Hand, reserved: Tile[], setCount: number): MeldKind[][] {
   const tiles = [...hand.nonFlowerTiles];
   tiles.sort((a, b) => a.description.localeCompare(b.description));
 
@@ -25,8 +102,27 @@ export function enumerateStandardDecompositions(hand: Hand): MeldKind[][] {
     counts.set(t.description, (counts.get(t.description) || 0) + 1);
   }
 
+  // Take out the declared sets
+  const declared: MeldKind[] = hand.declaredMelds.map(d => d.meld);
+  for (const meld of declared) {
+    for (const t of meldTiles(meld)) {
+      const count = counts.get(t.description) || 0;
+      if (count === 0) return []; // Declared tiles missing from the hand
+      counts.set(t.description, count - 1);
+    }
+  }
+  for (const t of reserved) {
+    const count = counts.get(t.description) || 0;
+    if (count === 0) return [];
+    counts.set(t.description, count - 1);
+  }
+  for (const [key, count] of counts) {
+    if (count === 0) counts.delete(key);
+  }
+  if (declared.length > setCount) return [];
+
   const results: MeldKind[][] = [];
-  const uniqueKeys = Array.from(new Set(tiles.map(t => t.description))).sort();
+  const uniqueKeys = Array.from(counts.keys()).sort();
 
   for (const pairKey of uniqueKeys) {
     const pairCount = counts.get(pairKey) || 0;
@@ -42,8 +138,8 @@ export function enumerateStandardDecompositions(hand: Hand): MeldKind[][] {
       function backtrackPartition(countsLocal: Map<string, number>) {
         // Check if all counts are zero
         if (Array.from(countsLocal.values()).every(v => v === 0)) {
-          if (current.length === 5) {
-            results.push([...current]);
+          if (current.length + declared.length === setCount + 1) {
+            results.push([...current, ...declared]);
           }
           return;
         }
@@ -374,25 +470,72 @@ export function isReversibleTiles(hand: Hand): boolean {
   return true;
 }
 
+// MARK: - Knitted hands
+
+/**
+ * Suit orders for the knitted sequences: 1-4-7 in the first suit, 2-5-8 in
+ * the second and 3-6-9 in the third
+ */
+const KNITTED_SUIT_ORDERS: Suit[][] = [
+  [Suit.man, Suit.pin, Suit.sou],
+  [Suit.man, Suit.sou, Suit.pin],
+  [Suit.pin, Suit.man, Suit.sou],
+  [Suit.pin, Suit.sou, Suit.man],
+  [Suit.sou, Suit.man, Suit.pin],
+  [Suit.sou, Suit.pin, Suit.man],
+];
+
+const HONOR_KEYS = ["E", "S", "W", "N", "RD", "GD", "WD"];
+
+/**
+ * The nine tiles of the knitted straight for a suit order
+ */
+export function knittedStraightTiles(suits: Suit[]): Tile[] {
+  return suits.flatMap((suit, i) =>
+    [1, 4, 7].map(rank => new Tile({ type: 'suited', rank: rank + i, suit }))
+  );
+}
+
+/**
+ * Enumerate knitted straight decompositions (knitted straight + 1 set + 1 pair).
+ * The knitted straight is not a set, so each result holds only the set and
+ * pair beside it. It must be concealed; the set may be declared.
+ */
+export function enumerateKnittedStraightDecompositions(hand: Hand): MeldKind[][] {
+  return KNITTED_SUIT_ORDERS.flatMap(suits => enumerateSetDecompositions(hand, knittedStraightTiles(suits), 1));
+}
+
 /**
- * Knitted Straight detection (nine tile straight formed with 3 knitted sequences)
+ * Detect Honors and Knitted Tiles: 14 different tiles, each an honor or a
+ * tile of one knitted straight. Greater when all seven honors are present,
+ * Lesser otherwise.
+ */
+export function detectHonorsAndKnitted(hand: Hand): boolean {
+  const nonFlowers = hand.nonFlowerTiles;
+  if (hand.declaredMelds.length > 0 || nonFlowers.length !== 14) return false;
+
+  const keys = new Set(nonFlowers.map(t => t.description));
+  if (keys.size !== 14) return false;
+
+  return KNITTED_SUIT_ORDERS.some(suits => {
+    const allowed = new Set([...HONOR_KEYS, ...knittedStraightTiles(suits).map(t => t.description)]);
+    return Array.from(keys).every(k => allowed.has(k));
+  });
+}
+
+/**
+ * Knitted Straight detection (nine tile straight formed with 3 knitted sequences).
+ * Counts when it completes the hand with a set and pair, or when all nine
+ * tiles sit inside an Honors and Knitted Tiles hand.
  */
 export function isKnittedStraight(hand: Hand): boolean {
-  // Knitted sequences are triples of ranks separated by 3 (like 1,4,7).
-  // A knitted straight needs 9 tiles that form 3 knitted sequences each of same offset across suits.
-  const rankSet = new Set<number>();
-  
-  for (const t of hand.nonFlowerTiles) {
-    if (t.kind.type === 'suited') {
-      rankSet.add(t.kind.rank);
-    } else {
-      return false;
-    }
-  }
-  
-  // All nine must be present (1-9)
-  const allRanks = new Set([1, 2, 3, 4, 5, 6, 7, 8, 9]);
-  return Array.from(allRanks).every(r => rankSet.has(r));
+  if (enumerateKnittedStraightDecompositions(hand).length > 0) return true;
+  if (!detectHonorsAndKnitted(hand)) return false;
+
+  const keys = new Set(hand.nonFlowerTiles.map(t => t.description));
+  return KNITTED_SUIT_ORDERS.some(suits =>
+    knittedStraightTiles(suits).every(t => keys.has(t.description))
+  );
 }
 
 /**
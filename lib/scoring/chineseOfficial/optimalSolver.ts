@@ -5,9 +5,10 @@
  * honoring Non-Repeat, Non-Identical, and Exclusionary constraints
  */
 
-import { Hand } from './tiles';
+import { Hand, Tile } from './tiles';
 import { 
   enumerateStandardDecompositions, 
+  enumerateKnittedStraightDecompositions,
   detectSevenPairs, 
   detectThirteenOrphans,
   isFullFlush,
@@ -26,10 +27,15 @@ import {
   isAllLower,
   isPureShiftedChows,
   isThreeSuitedTerminalChows,
+  getConcealedSets,
+  getDiscardCompletedSet,
   MeldKind
 } from './melds';
 import { Fan } from './chineseOfficialTypes';
 import { chineseOfficialFans } from './chineseOfficialFans';
+import { detectKongFans, detectLastTile, detectGreaterHonorsKnitted, detectLesserHonorsKnitted } from './fanDetectors';
+import { analyzeWait } from './waitAnalysis';
+import { DEFAULT_FALSE_MAHJONG_PENALTY, MINIMUM_FAN_POINTS } from './scoringEngine';
 
 export interface ScoringOptions {
   isSelfDraw: boolean;
@@ -38,6 +44,11 @@ export interface ScoringOptions {
   discarderIndex?: number; // nil if self-draw
   prevalentWindPungPresent: boolean;
   seatWindPungPresent: boolean;
+  playerWind?: string;     // E, S, W, N - when known, replaces seatWindPungPresent
+  prevalentWind?: string;  // E, S, W, N - when known, replaces prevalentWindPungPresent
+  falseMahjongPenalty?: number; // Paid to each opponent when short of the minimum (default 10)
+  meldedSets?: MeldKind[]; // Sets claimed from discards; when given, every other set is concealed
+  winningTile?: Tile; // Enables the wait fans, which need the hand before the win
 }
 
 export interface ScoringOutcome {
@@ -46,8 +57,19 @@ export interface ScoringOutcome {
   flowerPoints: number;
   totalPoints: number;
   payouts: number[]; // positive = pay; winner receives sum as negative
+  meetsMinimum: boolean; // Fan points alone reach MINIMUM_FAN_POINTS
+  falseMahjongPenalty?: number; // Set when the hand is short: what the declarer pays each opponent
 }
 
+// Fans about individual concealed sets; the rest of the hand may be exposed
+const CONCEALED_SET_FAN_IDS = new Set([
+  "twoConcealedPungs",
+  "threeConcealedPungs",
+  "fourConcealedPungs",
+  "concealedKong",
+  "twoConcealedKongs",
+]);
+
 export class OptimalScorer {
   private players: number;
 
@@ -59,27 +81,48 @@ export class OptimalScorer {
    * Main scoring entry point
    */
   public score(hand: Hand, options: ScoringOptions): ScoringOutcome {
-    // Gather decompositions
-    const decomps = enumerateStandardDecompositions(hand);
+    // Gather decompositions: 4 sets + pair, or the set and pair beside a knitted straight
+    const decomps = [
+      ...enumerateStandardDecompositions(hand).map(dec => ({ dec, isKnitted: false })),
+      ...enumerateKnittedStraightDecompositions(hand).map(dec => ({ dec, isKnitted: true })),
+    ];
     const candidateFanSets: Fan[][] = [];
 
-    // Detect special-hand patterns
-    if (detectThirteenOrphans(hand)) {
+    // Detect special-hand patterns (they have no sets, so none can be declared)
+    const hasDeclaredMelds = hand.declaredMelds.length > 0;
+    if (!hasDeclaredMelds && detectThirteenOrphans(hand)) {
       const fan = chineseOfficialFans.find(f => f.id === "thirteenOrphans");
       if (fan) {
         candidateFanSets.push([fan]);
       }
     }
 
-    if (detectSevenPairs(hand)) {
+    if (!hasDeclaredMelds && detectSevenPairs(hand)) {
       const fan = chineseOfficialFans.find(f => f.id === "sevenPairs");
       if (fan) {
         candidateFanSets.push([fan]);
       }
     }
 
+    if (detectGreaterHonorsKnitted(hand)) {
+      const fan = chineseOfficialFans.find(f => f.id === "greaterHonorsKnitted");
+      if (fan) {
+        candidateFanSets.push([fan]);
+      }
+    } else if (detectLesserHonorsKnitted(hand)) {
+      // Lesser Honors & Knitted scores a whole knitted straight on top
+      const fanIds = isKnittedStraight(hand) ? ["lesserHonorsKnitted", "knittedStraight"] : ["lesserHonorsKnitted"];
+      candidateFanSets.push(chineseOfficialFans.filter(f => fanIds.includes(f.id)));
+    }
+
+    // The wait is the same in every decomposition: a wait fan needs a sole wait
+    const wait = options.winningTile ? analyzeWait(hand, options.winningTile) : null;
+    const isMeldedHand = options.meldedSets !== undefined && !options.isSelfDraw && options.meldedSets.length === 4;
+    const waitFanId = wait?.waitFanId === 'singleWait' && isMeldedHand ? undefined : wait?.waitFanId;
+    const isLastTile = detectLastTile(options.winningTile, options.meldedSets);
+
     // For each decomposition, detect all applicable fans
-    for (const dec of decomps) {
+    for (const { dec, isKnitted } of decomps) {
       const applicable: Fan[] = [];
 
       // Tile-level patterns
@@ -123,7 +166,7 @@ export class OptimalScorer {
         if (f) applicable.push(f);
       }
       
-      if (isKnittedStraight(hand)) {
+      if (isKnitted) {
         const f = chineseOfficialFans.find(f => f.id === "knittedStraight");
         if (f) applicable.push(f);
       }
@@ -174,39 +217,68 @@ export class OptimalScorer {
         if (f) applicable.push(f);
       }
 
-      // Detect kongs
-      const kongCount = dec.filter(m => m.type === 'kong').length;
-      if (kongCount >= 1) {
-        const f = chineseOfficialFans.find(f => f.id === "meldedKong");
-        if (f) applicable.push(f);
+      // Concealed pungs and the melded hand need to know which sets were claimed,
+      // including the pung a discarded winning tile completed
+      const discardSet = !options.isSelfDraw && options.winningTile
+        ? getDiscardCompletedSet(dec, hand, options.winningTile)
+        : undefined;
+      const concealedSets = getConcealedSets(dec, options.meldedSets, options.isConcealed).filter(m => m !== discardSet);
+      // The first kong fan claims its kongs, so they do not count again as concealed pungs
+      const kongFans = detectKongFans(dec, concealedSets);
+      const claimedKongs = kongFans.length > 0 ? kongFans[0].kongs : [];
+      if (options.meldedSets) {
+        const concealedPungCount = concealedSets
+          .filter(m => (m.type === 'pung' || m.type === 'kong') && !claimedKongs.includes(m))
+          .length;
+        const concealedPungFanId = concealedPungCount >= 4 ? "fourConcealedPungs"
+          : concealedPungCount === 3 ? "threeConcealedPungs"
+          : concealedPungCount === 2 ? "twoConcealedPungs"
+          : undefined;
+        const concealedPungFan = chineseOfficialFans.find(f => f.id === concealedPungFanId);
+        if (concealedPungFan) applicable.push(concealedPungFan);
+
+        if (isMeldedHand) {
+          const f = chineseOfficialFans.find(f => f.id === "meldedHand");
+          if (f) applicable.push(f);
+        }
       }
-      if (kongCount >= 2) {
-        const f = chineseOfficialFans.find(f => f.id === "twoKongs");
+
+      // Wait and last-tile fans from the winning tile
+      if (waitFanId) {
+        const f = chineseOfficialFans.find(f => f.id === waitFanId);
         if (f) applicable.push(f);
       }
-      if (kongCount >= 3) {
-        const f = chineseOfficialFans.find(f => f.id === "threeKongs");
+      if (isLastTile) {
+        const f = chineseOfficialFans.find(f => f.id === "lastTile");
         if (f) applicable.push(f);
       }
-      if (kongCount >= 4) {
-        const f = chineseOfficialFans.find(f => f.id === "fourKongs");
+
+      // Kongs: declared kongs are concealed unless listed in meldedSets
+      for (const { fanId } of kongFans) {
+        const f = chineseOfficialFans.find(f => f.id === fanId);
         if (f) applicable.push(f);
       }
 
       // Detect pungs of dragons/winds
       for (const m of dec) {
-        if (m.type === 'pung') {
+        if (m.type === 'pung' || m.type === 'kong') {
           const tile = m.tile;
           if (tile.kind.type === 'dragon') {
             const f = chineseOfficialFans.find(f => f.id === "dragonPung");
             if (f && !applicable.find(a => a.id === f.id)) applicable.push(f);
           } else if (tile.kind.type === 'wind') {
             // Seat/prevalent wind logic
-            if (options.prevalentWindPungPresent) {
+            const isPrevalentWind = options.prevalentWind
+              ? tile.kind.value === options.prevalentWind
+              : options.prevalentWindPungPresent;
+            const isSeatWind = options.playerWind
+              ? tile.kind.value === options.playerWind
+              : options.seatWindPungPresent;
+            if (isPrevalentWind) {
               const f = chineseOfficialFans.find(f => f.id === "prevalentWindPung");
               if (f && !applicable.find(a => a.id === f.id)) applicable.push(f);
             }
-            if (options.seatWindPungPresent) {
+            if (isSeatWind) {
               const f = chineseOfficialFans.find(f => f.id === "seatWindPung");
               if (f && !applicable.find(a => a.id === f.id)) applicable.push(f);
             }
@@ -246,8 +318,20 @@ export class OptimalScorer {
     const total = fanSum + flowerPts;
 
     const payouts = new Array(this.players).fill(0);
-
-    if (options.isSelfDraw) {
+    const meetsMinimum = fanSum >= MINIMUM_FAN_POINTS;
+    // A hand with no fans at all is not declared, so it is not a false Mahjong
+    const falseMahjongPenalty = meetsMinimum || bestFans.length === 0
+      ? undefined
+      : options.falseMahjongPenalty ?? DEFAULT_FALSE_MAHJONG_PENALTY;
+
+    if (falseMahjongPenalty !== undefined) {
+      // False Mahjong: the declarer pays each opponent
+      for (let p = 0; p < this.players; p++) {
+        if (p === options.winnerIndex) continue;
+        payouts[p] = -falseMahjongPenalty;
+      }
+      payouts[options.winnerIndex] = falseMahjongPenalty * (this.players - 1);
+    } else if (options.isSelfDraw) {
       const perOpp = total + 8;
       for (let p = 0; p < this.players; p++) {
         if (p === options.winnerIndex) continue;
@@ -275,6 +359,8 @@ export class OptimalScorer {
       flowerPoints: flowerPts,
       totalPoints: total,
       payouts: payouts,
+      meetsMinimum,
+      falseMahjongPenalty,
     };
   }
 
@@ -313,7 +399,7 @@ export class OptimalScorer {
       const cand = fans[idx];
 
       // Reject if requiresConcealed but not provided
-      if (cand.requiresConcealed && !options.isConcealed) {
+      if (cand.requiresConcealed && !options.isConcealed && !CONCEALED_SET_FAN_IDS.has(cand.id)) {
         return;
       }
 
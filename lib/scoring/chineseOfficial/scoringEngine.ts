@@ -12,6 +12,12 @@ import { fanPoints, getFanPointsByName } from './chineseOfficialFans';
 
 const BASE_POINTS = 8; // Basic points everyone pays
 
+/** Fan points (flowers excluded) a hand needs before Mahjong can be declared. */
+export const MINIMUM_FAN_POINTS = 8;
+
+/** What the declarer of a hand short of the minimum pays each opponent, unless configured. */
+export const DEFAULT_FALSE_MAHJONG_PENALTY = 10;
+
 /**
  * Calculate hand score and payment distribution
  * 
@@ -20,6 +26,7 @@ const BASE_POINTS = 8; // Basic points everyone pays
  * @param discarder Player who discarded the winning tile (only for discardWin)
  * @param flowerCount Number of flowers in the hand
  * @param chosenFans Array of Fan objects that were selected/detected
+ * @param falseMahjong Declarer's seat and penalty, used when fan points fall short of the minimum
  * @returns HandResult with total points and payment per player
  */
 export function calculateHandScore(
@@ -27,7 +34,8 @@ export function calculateHandScore(
   winType: WinType,
   discarder?: Player,
   flowerCount: number = 0,
-  chosenFans: Fan[] = []
+  chosenFans: Fan[] = [],
+  falseMahjong: { winner?: Player; penalty?: number } = {}
 ): HandResult {
   // Convert fan names to points if needed
   const fanPointsArray: number[] = handFans.map(f => {
@@ -40,6 +48,7 @@ export function calculateHandScore(
   // Sum all fan points
   const fanPointsSum = fanPointsArray.reduce((sum, f) => sum + f, 0);
   const totalPoints = fanPointsSum + flowerCount;
+  const meetsMinimum = fanPointsSum >= MINIMUM_FAN_POINTS;
 
   // Initialize payment map for all players
   const paymentPerPlayer: Record<Player, number> = {
@@ -49,6 +58,26 @@ export function calculateHandScore(
     North: 0,
   };
 
+  // With no fans chosen yet there is nothing declared, so no false Mahjong either
+  if (!meetsMinimum && fanPointsArray.length > 0) {
+    // False Mahjong: nobody pays the declarer; the declarer pays each opponent instead.
+    // Amounts are what each player pays the declarer, so the opponents' are negative.
+    const winner = falseMahjong.winner ?? 'East';
+    const penalty = falseMahjong.penalty ?? DEFAULT_FALSE_MAHJONG_PENALTY;
+    Object.keys(paymentPerPlayer).forEach((p) => {
+      paymentPerPlayer[p as Player] = p === winner ? 0 : -penalty;
+    });
+    return {
+      totalPoints,
+      paymentPerPlayer,
+      chosenFans,
+      fanPointsSum,
+      flowerPoints: flowerCount,
+      meetsMinimum,
+      falseMahjongPenalty: penalty,
+    };
+  }
+
   if (winType === 'selfDraw') {
     // Self-Draw: Everyone pays the full hand value + base points
     Object.keys(paymentPerPlayer).forEach((p) => {
@@ -74,6 +103,7 @@ export function calculateHandScore(
     chosenFans,
     fanPointsSum,
     flowerPoints: flowerCount,
+    meetsMinimum,
   };
 }
 
@@ -5,17 +5,23 @@
  */
 
 import { Tile, Hand, parseTile, TileParseError } from './tiles';
+import { DeclaredMeld, MeldKind, meldTiles } from './melds';
 
 export interface TileInputState {
-  tiles: Tile[];
+  tiles: Tile[]; // Loose tiles (the concealed remainder) and flowers
+  melds: DeclaredMeld[];
+  winningTile: Tile | null; // Held apart from `tiles` until the hand is created
   errorMessage: string | null;
   isValid: boolean;
 }
 
 export class TileInputEngine {
   private tiles: Tile[] = [];
+  private melds: DeclaredMeld[] = [];
+  private winningTile: Tile | null = null;
   private errorMessage: string | null = null;
-  private readonly maxTileCount = 14; // Excluding flowers
+  private readonly baseTileCount = 14; // Excluding flowers
+  private readonly maxMeldCount = 4;
   private readonly maxTileCopies = 4;
 
   /**
@@ -24,6 +30,8 @@ export class TileInputEngine {
   getState(): TileInputState {
     return {
       tiles: [...this.tiles],
+      melds: [...this.melds],
+      winningTile: this.winningTile,
       errorMessage: this.errorMessage,
       isValid: this.validateHand(),
     };
@@ -37,10 +45,36 @@ export class TileInputEngine {
   }
 
   /**
-   * Get non-flower tiles (for validation)
+   * Tiles in a complete hand (excluding flowers): 14, plus one for each
+   * declared kong, so up to 18
+   */
+  getMaxTileCount(): number {
+    return this.baseTileCount + this.melds.filter(d => d.meld.type === 'kong').length;
+  }
+
+  /**
+   * Get declared melds
+   */
+  getMelds(): DeclaredMeld[] {
+    return [...this.melds];
+  }
+
+  /**
+   * Get non-flower tiles, including those in declared melds (for validation)
    */
   getNonFlowerTiles(): Tile[] {
-    return this.tiles.filter(t => t.kind.type !== 'flower');
+    return this.getHandTiles().filter(t => t.kind.type !== 'flower');
+  }
+
+  /**
+   * Every tile in the hand: declared melds, loose tiles and the winning tile
+   */
+  private getHandTiles(): Tile[] {
+    return [...this.getMeldTiles(), ...this.tiles, ...(this.winningTile ? [this.winningTile] : [])];
+  }
+
+  private getMeldTiles(): Tile[] {
+    return this.melds.flatMap(d => meldTiles(d.meld));
   }
 
   /**
@@ -56,7 +90,7 @@ export class TileInputEngine {
   addTile(tile: Tile): { success: boolean; error?: string } {
     // Check if adding exceeds max tile copies (for non-flowers)
     if (tile.kind.type !== 'flower') {
-      const count = this.tiles.filter(t => t.equals(tile)).length;
+      const count = this.getTileCount(tile);
       if (count >= this.maxTileCopies) {
         this.errorMessage = `Cannot have more than ${this.maxTileCopies} of the same tile.`;
         return { success: false, error: this.errorMessage };
@@ -65,8 +99,8 @@ export class TileInputEngine {
 
     // Check if hand exceeds max tile count (excluding flowers)
     const nonFlowerTiles = this.getNonFlowerTiles();
-    if (tile.kind.type !== 'flower' && nonFlowerTiles.length >= this.maxTileCount) {
-      this.errorMessage = `Hand cannot exceed ${this.maxTileCount} tiles (excluding flowers).`;
+    if (tile.kind.type !== 'flower' && nonFlowerTiles.length >= this.getMaxTileCount()) {
+      this.errorMessage = `Hand cannot exceed ${this.getMaxTileCount()} tiles (excluding flowers).`;
       return { success: false, error: this.errorMessage };
     }
 
@@ -75,6 +109,52 @@ export class TileInputEngine {
     return { success: true };
   }
 
+  /**
+   * Add a chow, pung or kong as a group
+   */
+  addMeld(meld: DeclaredMeld): { success: boolean; error?: string } {
+    const tiles = meldTiles(meld.meld);
+    if (meld.meld.type === 'chow' && (meld.meld.base < 1 || meld.meld.base > 7)) {
+      this.errorMessage = 'A chow must start from a tile numbered 1 to 7.';
+      return { success: false, error: this.errorMessage };
+    }
+    if (this.melds.length >= this.maxMeldCount) {
+      this.errorMessage = `A hand has at most ${this.maxMeldCount} sets.`;
+      return { success: false, error: this.errorMessage };
+    }
+
+    for (const tile of tiles) {
+      const count = this.getTileCount(tile) + tiles.filter(t => t.equals(tile)).length;
+      if (count > this.maxTileCopies) {
+        this.errorMessage = `Cannot have more than ${this.maxTileCopies} of the same tile.`;
+        return { success: false, error: this.errorMessage };
+      }
+    }
+
+    // A kong's fourth tile is its replacement, so it raises the limit by one
+    const maxTileCount = this.getMaxTileCount() + (meld.meld.type === 'kong' ? 1 : 0);
+    if (this.getNonFlowerTiles().length + tiles.length > maxTileCount) {
+      this.errorMessage = `Hand cannot exceed ${maxTileCount} tiles (excluding flowers).`;
+      return { success: false, error: this.errorMessage };
+    }
+
+    this.melds.push(meld);
+    this.errorMessage = null;
+    return { success: true };
+  }
+
+  /**
+   * Remove a declared meld by index
+   */
+  removeMeldByIndex(index: number): boolean {
+    if (index >= 0 && index < this.melds.length) {
+      this.melds.splice(index, 1);
+      this.errorMessage = null;
+      return true;
+    }
+    return false;
+  }
+
   /**
    * Remove a tile by index
    */
@@ -104,7 +184,38 @@ export class TileInputEngine {
    * Get count of a specific tile
    */
   getTileCount(tile: Tile): number {
-    return this.tiles.filter(t => t.equals(tile)).length;
+    return this.getHandTiles().filter(t => t.equals(tile)).length;
+  }
+
+  /**
+   * Mark the tile that completed the hand. It replaces any earlier winning
+   * tile and counts as one of the concealed tiles.
+   */
+  setWinningTile(tile: Tile): { success: boolean; error?: string } {
+    if (tile.kind.type === 'flower') {
+      this.errorMessage = 'A flower cannot be the winning tile.';
+      return { success: false, error: this.errorMessage };
+    }
+
+    const previous = this.winningTile;
+    this.winningTile = null;
+    const result = this.addTile(tile);
+    if (!result.success) {
+      this.winningTile = previous;
+      return result;
+    }
+    // addTile put it with the loose tiles; hold it apart instead
+    this.tiles.pop();
+    this.winningTile = tile;
+    return result;
+  }
+
+  /**
+   * Remove the winning tile
+   */
+  clearWinningTile(): void {
+    this.winningTile = null;
+    this.errorMessage = null;
   }
 
   /**
@@ -113,9 +224,10 @@ export class TileInputEngine {
   validateHand(): boolean {
     const nonFlowerTiles = this.getNonFlowerTiles();
     
-    // Must have exactly 14 non-flower tiles
-    if (nonFlowerTiles.length !== this.maxTileCount) {
-      this.errorMessage = `Hand must contain exactly ${this.maxTileCount} tiles (excluding flowers). Currently: ${nonFlowerTiles.length}`;
+    // Must have exactly 14 non-flower tiles, plus one per kong
+    const maxTileCount = this.getMaxTileCount();
+    if (nonFlowerTiles.length !== maxTileCount) {
+      this.errorMessage = `Hand must contain exactly ${maxTileCount} tiles (excluding flowers). Currently: ${nonFlowerTiles.length}`;
       return false;
     }
 
@@ -141,14 +253,16 @@ export class TileInputEngine {
    */
   resetHand(): void {
     this.tiles = [];
+    this.melds = [];
+    this.winningTile = null;
     this.errorMessage = null;
   }
 
   /**
-   * Create a Hand object from current tiles
+   * Create a Hand object from current tiles, declared melds and winning tile
    */
   createHand(): Hand {
-    return new Hand([...this.tiles]);
+    return new Hand(this.getHandTiles(), [...this.melds], this.winningTile ?? undefined);
   }
 
   /**
@@ -225,3 +339,20 @@ export function getTileDisplayName(tile: Tile): string {
   }
 }
 
+
+/**
+ * Get meld display name for UI, e.g. "Chow 3-4-5Pin" or "Pung Red Dragon"
+ */
+export function getMeldDisplayName(meld: MeldKind): string {
+  switch (meld.type) {
+    case 'chow':
+      const last = getTileDisplayName(new Tile({ type: 'suited', rank: meld.base + 2, suit: meld.suit }));
+      return `Chow ${meld.base}-${meld.base + 1}-${last}`;
+    case 'pung':
+      return `Pung ${getTileDisplayName(meld.tile)}`;
+    case 'kong':
+      return `Kong ${getTileDisplayName(meld.tile)}`;
+    case 'pair':
+      return `Pair ${getTileDisplayName(meld.tile)}`;
+  }
+}
@@ -2,6 +2,8 @@
  * Chinese Official Mahjong - Tile Models and Parsing
  */
 
+import type { DeclaredMeld } from './melds';
+
 export enum Suit {
   man = "m",  // characters
   pin = "p",  // dots
@@ -113,9 +115,15 @@ export function parseTiles(input: string): Tile[] {
 
 export class Hand {
   public tiles: Tile[];
+  /** Sets entered as groups; their tiles are also in `tiles`. */
+  public declaredMelds: DeclaredMeld[];
+  /** The tile that completed the hand, when known; it is also in `tiles`. */
+  public winningTile?: Tile;
 
-  constructor(tiles: Tile[]) {
+  constructor(tiles: Tile[], declaredMelds: DeclaredMeld[] = [], winningTile?: Tile) {
     this.tiles = tiles;
+    this.declaredMelds = declaredMelds;
+    this.winningTile = winningTile;
   }
 
   public get nonFlowerTiles(): Tile[] {
@@ -0,0 +1,133 @@
+/**
+ * Chinese Official Mahjong - Wait Analysis
+ *
+ * Works out which tiles a hand was waiting on before its winning tile, and
+ * whether Edge, Closed or Single Wait applies. MCR awards a wait fan only
+ * when the winning tile was the hand's sole wait.
+ */
+
+import { Tile, Hand, parseTile } from './tiles';
+import {
+  MeldKind,
+  meldTiles,
+  enumerateStandardDecompositions,
+  enumerateKnittedStraightDecompositions,
+  detectSevenPairs,
+  detectThirteenOrphans,
+  detectHonorsAndKnitted,
+} from './melds';
+
+/** How the winning tile completed a set or the pair */
+export type WaitShape = 'edge' | 'closed' | 'open' | 'single' | 'pung';
+
+export type WaitFanId = 'edgeWait' | 'closedWait' | 'singleWait';
+
+export interface WaitAnalysis {
+  winningTile: Tile;
+  waits: Tile[]; // Every tile that would have completed the hand before the win
+  shapes: WaitShape[]; // Ways the winning tile completes the hand
+  waitFanId?: WaitFanId; // Only when the winning tile was the sole wait
+}
+
+const TILE_KEYS = [
+  ...['m', 'p', 's'].flatMap(suit => [1, 2, 3, 4, 5, 6, 7, 8, 9].map(rank => `${rank}${suit}`)),
+  'E', 'S', 'W', 'N', 'RD', 'GD', 'WD',
+];
+
+const WAIT_FANS: Array<[WaitShape, WaitFanId]> = [
+  ['edge', 'edgeWait'],
+  ['closed', 'closedWait'],
+  ['single', 'singleWait'],
+];
+
+/**
+ * Whether the tiles form a complete hand, keeping the declared sets fixed
+ */
+function isComplete(tiles: Tile[], hand: Hand): boolean {
+  const candidate = new Hand(tiles, hand.declaredMelds);
+  if (hand.declaredMelds.length === 0 && (
+    detectSevenPairs(candidate) || detectThirteenOrphans(candidate) || detectHonorsAndKnitted(candidate)
+  )) {
+    return true;
+  }
+  return enumerateStandardDecompositions(candidate).length > 0
+    || enumerateKnittedStraightDecompositions(candidate).length > 0;
+}
+
+/**
+ * The shape of the set (or pair) holding the winning tile
+ */
+function shapeOf(meld: MeldKind, winningTile: Tile): WaitShape | null {
+  switch (meld.type) {
+    case 'pair':
+      return meld.tile.equals(winningTile) ? 'single' : null;
+    case 'pung':
+      return meld.tile.equals(winningTile) ? 'pung' : null;
+    case 'kong':
+      return null; // Kongs are declared, so they never hold the winning tile
+    case 'chow':
+      if (winningTile.kind.type !== 'suited' || winningTile.kind.suit !== meld.suit) return null;
+      const offset = winningTile.kind.rank - meld.base;
+      if (offset === 1) return 'closed';
+      if ((offset === 2 && meld.base === 1) || (offset === 0 && meld.base === 7)) return 'edge';
+      return offset === 0 || offset === 2 ? 'open' : null;
+  }
+}
+
+/**
+ * Analyze the wait of a complete hand. Returns null when the winning tile is
+ * not among the hand's concealed tiles or the hand is not complete.
+ */
+export function analyzeWait(hand: Hand, winningTile: Tile): WaitAnalysis | null {
+  if (winningTile.kind.type === 'flower') return null;
+
+  // The winning tile joins the concealed part, never a declared set
+  const heldCount = hand.nonFlowerTiles.filter(t => t.equals(winningTile)).length;
+  const declaredCount = hand.declaredMelds
+    .flatMap(d => meldTiles(d.meld))
+    .filter(t => t.equals(winningTile)).length;
+  if (heldCount - declaredCount < 1) return null;
+  if (!isComplete(hand.tiles, hand)) return null;
+
+  // The hand before the win: one copy of the winning tile fewer
+  const index = hand.tiles.findIndex(t => t.equals(winningTile));
+  const beforeWin = hand.tiles.filter((_, i) => i !== index);
+
+  const waits = TILE_KEYS
+    .map(key => parseTile(key))
+    .filter(tile => {
+      // A tile the hand already holds all four of cannot be waited on
+      if (beforeWin.filter(t => t.equals(tile)).length >= 4) return false;
+      return isComplete([...beforeWin, tile], hand);
+    });
+
+  // Shapes from every reading of the complete hand; the knitted tiles of a
+  // knitted straight or Honors & Knitted hand give no shape
+  const shapes = new Set<WaitShape>();
+  if (hand.declaredMelds.length === 0 && (detectSevenPairs(hand) || detectThirteenOrphans(hand))) {
+    shapes.add('single');
+  }
+  const declared = new Set<MeldKind>(hand.declaredMelds.map(d => d.meld));
+  const decompositions = [
+    ...enumerateStandardDecompositions(hand),
+    ...enumerateKnittedStraightDecompositions(hand),
+  ];
+  for (const dec of decompositions) {
+    for (const meld of dec) {
+      if (declared.has(meld)) continue;
+      const shape = shapeOf(meld, winningTile);
+      if (shape) shapes.add(shape);
+    }
+  }
+
+  const soleWait = waits.length === 1 && waits[0].equals(winningTile);
+  const waitFan = soleWait ? WAIT_FANS.find(([shape]) => shapes.has(shape)) : undefined;
+
+  return {
+    winningTile,
+    waits,
+    shapes: Array.from(shapes),
+    waitFanId: waitFan?.[1],
+  };
+}
+
@@ -1,8 +1,17 @@
 import type {
-  ScoreInput, ScoreResult,
+  NmjlFlatBonus, NmjlStackingStage,
+  ScoreInput, ScoreResult, ScoreTraceAmounts, ScoreTraceStep,
   TournamentInput, TournamentResult
 } from "./types";
 import { DEFAULT_WALL_GAME_POINTS } from "./kitty";
+import { DEFAULT_STACKING_PROFILE, NMJL_FLAT_BONUSES } from "./stacking";
+import { NMJL_TOURNAMENT_RULES } from "./tournamentRules";
+
+/**
+ * Stored with saved hands. Bump whenever a change alters the result of an
+ * existing input, so re-scoring can tell which hands predate it.
+ */
+export const SCORING_ENGINE_VERSION = 2;
 
 /* ---------- STANDARD SCORER (your existing function) ---------- */
 function sanitizeBase(n: number): number {
@@ -10,6 +19,20 @@ function sanitizeBase(n: number): number {
   return Math.max(0, Math.round(n));
 }
 
+/** Copy of the running amounts for one side of a trace step. */
+function snapshotAmounts(
+  perLoserAmounts: ScoreResult["perLoserAmounts"],
+  totalToWinner: number,
+  payers?: Record<string, number>
+): ScoreTraceAmounts {
+  return {
+    discarder: perLoserAmounts.discarder,
+    others: perLoserAmounts.others,
+    totalToWinner,
+    ...(payers ? { payers: { ...payers } } : {}),
+  };
+}
+
 /** 
  * NMJL Standard (money/settlement) scoring
  * 
@@ -19,6 +42,10 @@ function sanitizeBase(n: number): number {
  * - Jokerless + Discard win: Discarder pays 4× base, all other players pay 2× base
  * - Jokerless + Self-pick win: All players pay 4× base
  * - Exception: Singles and Pairs Group - jokerless bonus is built into the hand value, so no additional multipliers
+ *
+ * Doubles, custom rule multipliers, Heavenly Hand and misnamed joker run in the
+ * order given by input.stackingProfile (see stacking.ts), which also decides
+ * which flat bonuses each of them scales.
  */
 export function computeNmjlStandard(input: ScoreInput): ScoreResult {
   // If wall game is enabled, no wins are possible - return zero result
@@ -54,9 +81,18 @@ export function computeNmjlStandard(input: ScoreInput): ScoreResult {
       }
     }
     
+    const perLoserAmounts = { others: 0, discarder: 0 };
+    const trace: ScoreTraceStep[] = [{
+      rule: "wallGame",
+      label: isPointsMode ? "Wall game: every player is awarded points" : "Wall game: every player pays the kitty",
+      points: kittyPerPlayer,
+      before: { totalToWinner: 0 },
+      after: snapshotAmounts(perLoserAmounts, totalToWinner),
+    }];
+
     return {
       rule,
-      perLoserAmounts: { others: 0, discarder: 0 },
+      perLoserAmounts,
       totalToWinner: totalToWinner,
       payerMap: {},
       kittyPayout: kittyTotalPayout,
@@ -64,6 +100,7 @@ export function computeNmjlStandard(input: ScoreInput): ScoreResult {
       appliedNoExposureBonus: { applied: false },
       jokerlessPointsBonus: 0,
       exposurePenalty: 0,
+      trace,
     };
   }
   
@@ -167,6 +204,33 @@ export function computeNmjlStandard(input: ScoreInput): ScoreResult {
       (perLoserAmounts.discarder ?? 0) + (perLoserAmounts.others ?? 0) * otherCount;
   }
 
+  // Audit trail: each applied rule records the amounts before and after it
+  const trace: ScoreTraceStep[] = [];
+  let traceBefore: ScoreTraceAmounts = { totalToWinner: 0 };
+  const record = (
+    step: Omit<ScoreTraceStep, "before" | "after">,
+    payers?: Record<string, number>
+  ) => {
+    const after = snapshotAmounts(perLoserAmounts, totalToWinner, payers);
+    trace.push({ ...step, before: traceBefore, after });
+    traceBefore = after;
+  };
+
+  const jokerlessNote = jokerlessApplied && !jokerlessUsesPoints ? " (jokerless)" : "";
+  if (rule.allMultiplier) {
+    record({
+      rule: "base",
+      label: `Self-pick${jokerlessNote}: each player pays ${rule.allMultiplier}× base`,
+      multiplier: rule.allMultiplier,
+    });
+  } else {
+    record({
+      rule: "base",
+      label: `Discard${jokerlessNote}: discarder pays ${rule.discarderMultiplier}×, others ${rule.otherMultiplier}× base`,
+      multiplier: rule.discarderMultiplier,
+    });
+  }
+
   // No-Exposures bonus handling
   const neb = input.noExposureBonus;
   const appliedNoExposureBonus: ScoreResult["appliedNoExposureBonus"] = { applied: false };
@@ -187,41 +251,11 @@ export function computeNmjlStandard(input: ScoreInput): ScoreResult {
         totalToWinner =
           (perLoserAmounts.discarder ?? 0) + (perLoserAmounts.others ?? 0) * otherCount;
       }
-    } else {
-      totalToWinner += Math.round(neb.value);
+      record({ rule: "noExposures", label: "No exposures bonus", multiplier: neb.value });
     }
   }
 
-  // Jokerless bonus as points (if enabled)
-  let jokerlessPointsBonus = 0;
-  if (jokerlessUsesPoints && jokerlessApplied) {
-    jokerlessPointsBonus = input.customPoints?.jokerless ?? 0;
-    totalToWinner += jokerlessPointsBonus;
-  }
-
-  // Exposure penalty (optional house rule)
-  let exposurePenalty = 0;
-  if (input.exposurePenaltyPerExposure && input.exposurePenaltyPerExposure > 0) {
-    const winnerExposures = input.winnerExposureCount ?? 0;
-    exposurePenalty = winnerExposures * input.exposurePenaltyPerExposure;
-    totalToWinner -= exposurePenalty; // Penalty reduces winner's total
-  }
-
-  // Apply doubles multiplier to all amounts
-  if (doublesMultiplier > 1) {
-    if (perLoserAmounts.others !== undefined) {
-      perLoserAmounts.others = Math.round(perLoserAmounts.others * doublesMultiplier);
-    }
-    if (perLoserAmounts.discarder !== undefined) {
-      perLoserAmounts.discarder = Math.round(perLoserAmounts.discarder * doublesMultiplier);
-    }
-    totalToWinner = Math.round(totalToWinner * doublesMultiplier);
-    // Apply doubles to flat bonuses as well
-    jokerlessPointsBonus = Math.round(jokerlessPointsBonus * doublesMultiplier);
-    exposurePenalty = Math.round(exposurePenalty * doublesMultiplier);
-  }
-
-  // Apply custom rules
+  // Custom rules: collect the winner multiplier/points and the payer deductions
   let customRulesMultiplier = 1;
   let customRulesPoints = 0;
   let opponentDeductionPoints = 0;
@@ -231,7 +265,7 @@ export function computeNmjlStandard(input: ScoreInput): ScoreResult {
   
   if (input.customRules && input.customRules.length > 0) {
     input.customRules.forEach(rule => {
-      // New format: winnerBonus, discarderPenalty, allPlayerPenalty
+      // Winner bonus and penalties
       if (rule.winnerBonus) {
         if (rule.winnerBonus.type === 'multiplier') {
           customRulesMultiplier *= rule.winnerBonus.value;
@@ -253,85 +287,135 @@ export function computeNmjlStandard(input: ScoreInput): ScoreResult {
           opponentDeductionMultiplier *= rule.allPlayerPenalty.value;
         }
       }
-      
-      // Legacy format support (all legacy penalties are points)
-      if (rule.type === 'multiplier' && rule.value) {
-        customRulesMultiplier *= rule.value;
-      } else if (rule.type === 'points' && rule.value) {
-        customRulesPoints += rule.value;
-      } else if (rule.type === 'opponentDeduction' && rule.value) {
-        opponentDeductionPoints += rule.value;
-      } else if (rule.type === 'discarderDeduction' && rule.value) {
-        discarderDeductionPoints += rule.value;
-      }
     });
-    
-    if (customRulesMultiplier > 1) {
-      if (perLoserAmounts.others !== undefined) {
-        perLoserAmounts.others = Math.round(perLoserAmounts.others * customRulesMultiplier);
-      }
-      if (perLoserAmounts.discarder !== undefined) {
-        perLoserAmounts.discarder = Math.round(perLoserAmounts.discarder * customRulesMultiplier);
-      }
-      totalToWinner = Math.round(totalToWinner * customRulesMultiplier);
-      // Apply custom rules multiplier to flat bonuses as well
-      jokerlessPointsBonus = Math.round(jokerlessPointsBonus * customRulesMultiplier);
-      exposurePenalty = Math.round(exposurePenalty * customRulesMultiplier);
-    }
-    
-    if (customRulesPoints > 0) {
-      totalToWinner += customRulesPoints;
-    }
   }
-  
-  // Apply Heavenly Hand: custom multiplier (default 2×) payout from all players
-  const heavenlyHandMultiplier = input.heavenlyHand ? (input.customMultipliers?.heavenlyHand ?? 2) : 1;
-  if (input.heavenlyHand) {
+
+  // Flat bonuses (signed). Each joins totalToWinner just before the first
+  // stage that scales it, and is then scaled only by the stages that list it.
+  const flatBonuses: Record<NmjlFlatBonus, number> = {
+    noExposures: input.noExposures && neb && neb.mode === "flat" ? Math.round(neb.value) : 0,
+    jokerless: jokerlessUsesPoints && jokerlessApplied ? input.customPoints?.jokerless ?? 0 : 0,
+    exposurePenalty: 0,
+    customRules: customRulesPoints > 0 ? customRulesPoints : 0,
+  };
+  if (input.exposurePenaltyPerExposure && input.exposurePenaltyPerExposure > 0) {
+    flatBonuses.exposurePenalty = -(input.winnerExposureCount ?? 0) * input.exposurePenaltyPerExposure;
+  }
+  const flatLabels: Record<NmjlFlatBonus, { rule: ScoreTraceStep["rule"]; label: string }> = {
+    noExposures: { rule: "noExposures", label: "No exposures bonus" },
+    jokerless: { rule: "jokerlessPoints", label: "Jokerless bonus" },
+    exposurePenalty: {
+      rule: "exposurePenalty",
+      label: `Exposure penalty (${input.winnerExposureCount ?? 0} exposures)`,
+    },
+    customRules: { rule: "customRules", label: "Custom rules bonus" },
+  };
+  // Flats added to totalToWinner and not yet folded into a misnamed joker payment
+  const flatsInTotal = new Set<NmjlFlatBonus>();
+  const addFlat = (flat: NmjlFlatBonus) => {
+    if (flatsInTotal.has(flat) || flatBonuses[flat] === 0) return;
+    totalToWinner += flatBonuses[flat];
+    flatsInTotal.add(flat);
+    record({ ...flatLabels[flat], points: flatBonuses[flat] });
+  };
+
+  const profile = input.stackingProfile ?? DEFAULT_STACKING_PROFILE;
+  const addedFlats = new Set<NmjlFlatBonus>();
+  const scaleStage = (stage: NmjlStackingStage, multiplier: number) => {
+    const scaled = profile.scales[stage];
+    const unscaledFlats = Array.from(flatsInTotal)
+      .filter((flat) => !scaled.includes(flat))
+      .reduce((sum, flat) => sum + flatBonuses[flat], 0);
     if (perLoserAmounts.others !== undefined) {
-      perLoserAmounts.others = Math.round(perLoserAmounts.others * heavenlyHandMultiplier);
+      perLoserAmounts.others = Math.round(perLoserAmounts.others * multiplier);
     }
     if (perLoserAmounts.discarder !== undefined) {
-      perLoserAmounts.discarder = Math.round(perLoserAmounts.discarder * heavenlyHandMultiplier);
+      perLoserAmounts.discarder = Math.round(perLoserAmounts.discarder * multiplier);
     }
-    totalToWinner = Math.round(totalToWinner * heavenlyHandMultiplier);
-    // Apply to flat bonuses as well
-    jokerlessPointsBonus = Math.round(jokerlessPointsBonus * heavenlyHandMultiplier);
-    exposurePenalty = Math.round(exposurePenalty * heavenlyHandMultiplier);
-  }
+    totalToWinner = Math.round((totalToWinner - unscaledFlats) * multiplier) + unscaledFlats;
+    // Scale the tracked flats as well so they can be added back after East's double
+    scaled.forEach((flat) => {
+      flatBonuses[flat] = Math.round(flatBonuses[flat] * multiplier);
+    });
+  };
 
-  // Apply Misnamed Joker: discarder pays custom multiplier (default 4×) of the final winner's score
-  // This must be applied AFTER all other multipliers (doubles, custom rules, heavenly hand, etc.)
-  // Others still pay their normal amount
-  // The discarder's payment REPLACES the normal discarder payment, it doesn't add to it
-  // Note: Misnamed joker only applies to discard wins (not self-pick, and not heavenly hand which is treated as self-pick)
-  if (input.misnamedJoker && effectiveWinType === "discard") {
-    const misnamedJokerMultiplier = customMults.misnamedJoker ?? 4;
-    // totalToWinner currently includes: normalDiscarderAmount + (others × otherCount)
-    // We want discarder to pay 4× totalToWinner, replacing the normal discarder amount
-    // So: new_totalToWinner = 4×totalToWinner + (others × otherCount) - normalDiscarderAmount
-    // But that's circular. Instead, we calculate:
-    // winnerScore = what winner gets with normal payments = totalToWinner (current value)
-    // discarder pays 4× winnerScore (replacing normal payment)
-    // new totalToWinner = 4×winnerScore + othersTotal
-    const otherCount = Math.max(0, numPlayers - 2);
-    const othersTotal = (perLoserAmounts.others ?? 0) * otherCount;
-    // The winner's score (what they would receive with normal discarder payment)
-    const winnerScore = totalToWinner;
-    // Discarder pays multiplier × the winner's total score (replacing normal payment)
-    perLoserAmounts.discarder = Math.round(winnerScore * misnamedJokerMultiplier);
-    // Others keep their normal amount (already calculated in perLoserAmounts.others)
-    // Recalculate totalToWinner: new discarder amount + (others amount × otherCount)
-    totalToWinner = perLoserAmounts.discarder + othersTotal;
-  }
+  const heavenlyHandMultiplier = input.heavenlyHand ? (input.customMultipliers?.heavenlyHand ?? 2) : 1;
+
+  profile.order.forEach((stage) => {
+    profile.scales[stage].forEach((flat) => {
+      if (!addedFlats.has(flat)) {
+        addedFlats.add(flat);
+        addFlat(flat);
+      }
+    });
+
+    if (stage === "doubles") {
+      // Apply doubles multiplier to all amounts
+      if (doublesMultiplier > 1) {
+        scaleStage(stage, doublesMultiplier);
+        record({
+          rule: "doubles",
+          label: `Doubles (${doublesCount})`,
+          multiplier: doublesMultiplier,
+        });
+      }
+    } else if (stage === "customRules") {
+      if (customRulesMultiplier > 1) {
+        scaleStage(stage, customRulesMultiplier);
+        record({ rule: "customRules", label: "Custom rules", multiplier: customRulesMultiplier });
+      }
+    } else if (stage === "heavenlyHand") {
+      // Apply Heavenly Hand: custom multiplier (default 2×) payout from all players
+      if (input.heavenlyHand) {
+        scaleStage(stage, heavenlyHandMultiplier);
+        record({ rule: "heavenlyHand", label: "Heavenly hand", multiplier: heavenlyHandMultiplier });
+      }
+    } else if (stage === "misnamedJoker") {
+      // Apply Misnamed Joker: discarder pays custom multiplier (default 4×) of the winner's score so far
+      // Others still pay their normal amount
+      // The discarder's payment REPLACES the normal discarder payment, it doesn't add to it
+      // Note: Misnamed joker only applies to discard wins (not self-pick, and not heavenly hand which is treated as self-pick)
+      if (input.misnamedJoker && effectiveWinType === "discard") {
+        const misnamedJokerMultiplier = customMults.misnamedJoker ?? 4;
+        const otherCount = Math.max(0, numPlayers - 2);
+        const othersTotal = (perLoserAmounts.others ?? 0) * otherCount;
+        // The winner's score (what they would receive with normal discarder payment),
+        // leaving out flats this profile adds after the misnamed joker
+        const unscaledFlats = Array.from(flatsInTotal)
+          .filter((flat) => !profile.scales[stage].includes(flat))
+          .reduce((sum, flat) => sum + flatBonuses[flat], 0);
+        const winnerScore = totalToWinner - unscaledFlats;
+        // Discarder pays multiplier × the winner's total score (replacing normal payment)
+        perLoserAmounts.discarder = Math.round(winnerScore * misnamedJokerMultiplier);
+        // Recalculate totalToWinner: new discarder amount + (others amount × otherCount)
+        totalToWinner = perLoserAmounts.discarder + othersTotal + unscaledFlats;
+        // Flats now inside the discarder's payment are scaled along with it by later stages
+        profile.scales[stage].forEach((flat) => flatsInTotal.delete(flat));
+        record({
+          rule: "misnamedJoker",
+          label: `Misnamed joker: discarder pays ${misnamedJokerMultiplier}× the winner's total`,
+          multiplier: misnamedJokerMultiplier,
+        });
+      }
+    }
+  });
+  // Flats no stage scales are added after every multiplier
+  NMJL_FLAT_BONUSES.forEach((flat) => {
+    if (!addedFlats.has(flat)) addFlat(flat);
+  });
+
+  const jokerlessPointsBonus = flatBonuses.jokerless;
+  const exposurePenalty = -flatBonuses.exposurePenalty;
 
   // Track flat bonuses that need to be preserved (after multipliers are applied)
-  const flatBonusAmount = jokerlessPointsBonus + customRulesPoints - exposurePenalty;
+  const flatBonusAmount = flatBonuses.jokerless + customRulesPoints + flatBonuses.exposurePenalty;
   // Also track no-exposure flat bonus if it was added
-  const noExposureFlatBonus = (input.noExposures && neb && neb.mode === "flat") ? Math.round(neb.value * doublesMultiplier * customRulesMultiplier * heavenlyHandMultiplier) : 0;
+  const noExposureFlatBonus = flatBonuses.noExposures;
 
-  // Determine if winner is East (for East's double rule)
-  // Use explicit flag if provided, otherwise check winnerId
-  const isEastWinner = input.isWinnerEast ?? (input.winnerId === "E" || input.winnerId === "East");
+  // Determine who sits East (for East's double rule)
+  // Use explicit flag for the winner if provided, otherwise look up the seat assignments
+  const isEast = (id?: string) => !!id && input.seatByPlayerId?.[id] === "East";
+  const isEastWinner = input.isWinnerEast ?? isEast(input.winnerId);
   
   const payerMap: Record<string, number> = {};
   
@@ -346,7 +430,7 @@ export function computeNmjlStandard(input: ScoreInput): ScoreResult {
       let amount = payEach;
       // Apply East's double: if East is winner, everyone pays double; if payer is East, they pay double
       if (input.eastDouble) {
-        if (isEastWinner || id === "E" || id === "East") {
+        if (isEastWinner || isEast(id)) {
           amount = Math.round(amount * 2);
         }
       }
@@ -357,7 +441,7 @@ export function computeNmjlStandard(input: ScoreInput): ScoreResult {
       let discarderAmount = perLoserAmounts.discarder ?? 0;
       // Apply East's double: if East is winner, discarder pays double; if discarder is East, they pay double
       if (input.eastDouble) {
-        if (isEastWinner || input.discarderId === "E" || input.discarderId === "East") {
+        if (isEastWinner || isEast(input.discarderId)) {
           discarderAmount = Math.round(discarderAmount * 2);
         }
       }
@@ -369,13 +453,21 @@ export function computeNmjlStandard(input: ScoreInput): ScoreResult {
       let amount = payEachOther;
       // Apply East's double: if East is winner, others pay double; if payer is East, they pay double
       if (input.eastDouble) {
-        if (isEastWinner || id === "E" || id === "East") {
+        if (isEastWinner || isEast(id)) {
           amount = Math.round(amount * 2);
         }
       }
       payerMap[id] = (payerMap[id] || 0) + amount;
     });
   }
+  if (Object.keys(payerMap).length > 0) {
+    record({
+      rule: "payerSplit",
+      label: input.eastDouble
+        ? "Split between players (East pays and receives double)"
+        : "Split between players",
+    }, payerMap);
+  }
   
   // Apply custom rule deductions (points and multipliers)
   // Apply point deductions
@@ -415,6 +507,11 @@ export function computeNmjlStandard(input: ScoreInput): ScoreResult {
       }
     }
   }
+  const hasDeductions = opponentDeductionPoints > 0 || discarderDeductionPoints > 0 ||
+    opponentDeductionMultiplier !== 1 || discarderDeductionMultiplier !== 1;
+  if (hasDeductions && Object.keys(payerMap).length > 0) {
+    record({ rule: "deductions", label: "Custom rule penalties on payers" }, payerMap);
+  }
   
   // Only recalculate totalToWinner from payerMap if East's double is enabled and payerMap has valid non-zero entries
   // Otherwise, keep the original calculation (which already includes all bonuses)
@@ -428,6 +525,11 @@ export function computeNmjlStandard(input: ScoreInput): ScoreResult {
     if (baseTotalFromPayers > 0) {
       // payerMap has valid entries, use recalculated value
       totalToWinner = baseTotalFromPayers + flatBonusAmount + noExposureFlatBonus;
+      record({
+        rule: "eastDouble",
+        label: "East's double: winner total recounted from payers",
+        multiplier: 2,
+      }, payerMap);
     }
     // If payerMap has 0 values, totalToWinner already has the correct value from above (including flat bonuses)
   }
@@ -459,6 +561,11 @@ export function computeNmjlStandard(input: ScoreInput): ScoreResult {
       totalToWinner = Math.max(0, totalToWinner - kittyPerPlayer);
       kittyTotalPayout += kittyPerPlayer; // Winner also pays
     }
+    record({
+      rule: "kitty",
+      label: isPointsMode ? "Kitty: every player is awarded points" : "Kitty: every player pays the kitty",
+      points: isPointsMode ? kittyPerPlayer : -kittyPerPlayer,
+    }, Object.keys(payerMap).length > 0 ? payerMap : undefined);
   }
   
   if (input.winnerId) payerMap[input.winnerId] = -totalToWinner;
@@ -472,18 +579,19 @@ export function computeNmjlStandard(input: ScoreInput): ScoreResult {
     kittyPerPlayer: kittyPerPlayer, 
     appliedNoExposureBonus,
     jokerlessPointsBonus,
-    exposurePenalty
+    exposurePenalty,
+    trace
   };
 }
 
 /* ---------------------- TOURNAMENT SCORER ---------------------- */
 /**
- * Tournament rules you specified:
+ * Tournament rules, with the amounts taken from input.ruleSet (NMJL values shown):
  * - Winner gets basePoints (points = card value).
  * - +10 if self-pick.
- * - +20 if jokerless (except Singles & Pairs group).
+ * - +20 if jokerless (except Singles & Pairs group, unless the rule set allows it).
  * - Wall game: +10 to each player (except dead players). If timeExpiredNoScore => all 0.
- * - If a hand is dead, player does not get +10 wall bonus.
+ * - If a hand is dead, player does not get +10 wall bonus (unless the rule set awards dead hands).
  * - Penalty to discarder:
  *    - winner exposures 0 or 1 => discarder -10
  *    - winner exposures >= 2   => discarder -20
@@ -491,6 +599,7 @@ export function computeNmjlStandard(input: ScoreInput): ScoreResult {
  *    - If false MJ & 3 others exposed: all 0.
  *    - If false MJ & exactly 1 intact: that one gets +10, others 0.
  *    - If 2+ intact: game continues (no special scoring applied here).
+ * The rule set's name closes the breakdown.
  */
 export function computeTournament(input: TournamentInput): TournamentResult {
   const {
@@ -499,6 +608,7 @@ export function computeTournament(input: TournamentInput): TournamentResult {
     winnerId,
     discarderId = null,
     playerIds,
+    playerNames = {},
     selfPick = false,
     jokerless = false,
     singlesAndPairs = false,
@@ -508,83 +618,100 @@ export function computeTournament(input: TournamentInput): TournamentResult {
     deadPlayerIds = [],
     falseMahjongAllExposed = false,
     falseMahjongOneIntactId = null,
-    falseMahjongGameContinues = false
+    falseMahjongGameContinues = false,
+    ruleSet = NMJL_TOURNAMENT_RULES
   } = input;
 
   const breakdown: string[] = [];
   const points: Record<string, number> = Object.fromEntries(playerIds.map(id => [id, 0]));
+  const scored = (): TournamentResult => {
+    breakdown.push(`Scored with ${ruleSet.name} rules.`);
+    return { pointsByPlayer: points, breakdown };
+  };
 
   const isPlayerDead = (id: string) => deadPlayerIds.includes(id);
+  const nameOf = (id: string) => playerNames[id] ?? id;
 
   // Handle False Mah Jongg outcomes first (they override normal scoring)
   if (falseMahjongAllExposed) {
     breakdown.push("False MJ with all others exposed → everyone 0 points.");
-    return { pointsByPlayer: points, breakdown };
+    return scored();
   }
   if (falseMahjongOneIntactId) {
     for (const id of playerIds) points[id] = 0;
     if (playerIds.includes(falseMahjongOneIntactId)) {
-      points[falseMahjongOneIntactId] = 10;
-      breakdown.push(`False MJ; only ${falseMahjongOneIntactId} kept hand intact → +10 to that player; others 0.`);
+      points[falseMahjongOneIntactId] = ruleSet.falseMahjongIntactAward;
+      breakdown.push(
+        `False MJ; only ${nameOf(falseMahjongOneIntactId)} kept hand intact → +${ruleSet.falseMahjongIntactAward} to that player; others 0.`
+      );
     } else {
       breakdown.push("False MJ; one intact player not found in table → treated as all 0.");
     }
-    return { pointsByPlayer: points, breakdown };
+    return scored();
   }
   if (falseMahjongGameContinues) {
     breakdown.push("False MJ with 2+ hands intact → game continues, no score changes.");
-    return { pointsByPlayer: points, breakdown };
+    return scored();
   }
 
   // Time expired rule
   if (timeExpiredNoScore) {
     for (const id of playerIds) points[id] = 0;
     breakdown.push("Time expired → all players 0 points.");
-    return { pointsByPlayer: points, breakdown };
+    return scored();
   }
 
   // Wall game
   if (isWallGame) {
     for (const id of playerIds) {
-      if (!isPlayerDead(id)) points[id] += 10;
+      if (ruleSet.wallGameAwardToDeadHands || !isPlayerDead(id)) points[id] += ruleSet.wallGameAward;
     }
-    breakdown.push("Wall game → +10 to each non-dead player.");
-    return { pointsByPlayer: points, breakdown };
+    breakdown.push(
+      ruleSet.wallGameAwardToDeadHands
+        ? `Wall game → +${ruleSet.wallGameAward} to each player.`
+        : `Wall game → +${ruleSet.wallGameAward} to each non-dead player.`
+    );
+    return scored();
   }
 
   // Otherwise: a valid win occurred
   if (!winnerId || !winType) {
     breakdown.push("No winner and not a wall/time-expired/false-MJ case → no changes.");
-    return { pointsByPlayer: points, breakdown };
+    return scored();
   }
 
   // Winner base points
   points[winnerId] += Math.max(0, Math.round(basePoints));
-  breakdown.push(`Winner ${winnerId} gets base ${Math.round(basePoints)}.`);
+  breakdown.push(`Winner ${nameOf(winnerId)} gets base ${Math.round(basePoints)}.`);
 
-  // +10 self-pick (win on own draw)
-  if (winType === "self_pick" || selfPick) {
-    points[winnerId] += 10;
-    breakdown.push("Self-pick bonus: +10.");
+  // Self-pick bonus (win on own draw)
+  if ((winType === "self_pick" || selfPick) && ruleSet.selfPickBonus > 0) {
+    points[winnerId] += ruleSet.selfPickBonus;
+    breakdown.push(`Self-pick bonus: +${ruleSet.selfPickBonus}.`);
   }
 
-  // +20 jokerless except Singles & Pairs
-  const jokerlessBonusApplies = jokerless && !singlesAndPairs;
-  if (jokerlessBonusApplies) {
-    points[winnerId] += 20;
-    breakdown.push("Jokerless bonus (not Singles & Pairs): +20.");
-  } else if (jokerless && singlesAndPairs) {
+  // Jokerless bonus, except Singles & Pairs unless the rule set includes them
+  const jokerlessBonusApplies = jokerless && (!singlesAndPairs || ruleSet.jokerlessBonusOnSinglesAndPairs);
+  if (jokerlessBonusApplies && ruleSet.jokerlessBonus > 0) {
+    points[winnerId] += ruleSet.jokerlessBonus;
+    breakdown.push(
+      singlesAndPairs
+        ? `Jokerless bonus (Singles & Pairs included): +${ruleSet.jokerlessBonus}.`
+        : `Jokerless bonus (not Singles & Pairs): +${ruleSet.jokerlessBonus}.`
+    );
+  } else if (jokerless && singlesAndPairs && !ruleSet.jokerlessBonusOnSinglesAndPairs) {
     breakdown.push("Jokerless on Singles & Pairs → no bonus per rules.");
   }
 
   // Discarder penalties (only if win on discard)
   if (winType === "discard" && discarderId) {
-    if (winnerExposureCount <= 1) {
-      points[discarderId] -= 10;
-      breakdown.push(`Discarder penalty: winner had ${winnerExposureCount} exposure(s) → ${discarderId} -10.`);
-    } else {
-      points[discarderId] -= 20;
-      breakdown.push(`Discarder penalty: winner had ${winnerExposureCount} exposures → ${discarderId} -20.`);
+    const { fewExposures, manyExposures, manyExposuresFrom } = ruleSet.discarderPenalty;
+    const penalty = winnerExposureCount >= manyExposuresFrom ? manyExposures : fewExposures;
+    if (penalty > 0) {
+      points[discarderId] -= penalty;
+      breakdown.push(
+        `Discarder penalty: winner had ${winnerExposureCount} exposure${winnerExposureCount === 1 ? "" : "s"} → ${nameOf(discarderId)} -${penalty}.`
+      );
     }
   }
 
@@ -598,7 +725,7 @@ export function computeTournament(input: TournamentInput): TournamentResult {
   
   if (input.customRules && input.customRules.length > 0) {
     input.customRules.forEach(rule => {
-      // New format: winnerBonus, discarderPenalty, allPlayerPenalty
+      // Winner bonus and penalties
       if (rule.winnerBonus) {
         if (rule.winnerBonus.type === 'multiplier') {
           customRulesMultiplier *= rule.winnerBonus.value;
@@ -620,17 +747,6 @@ export function computeTournament(input: TournamentInput): TournamentResult {
           opponentDeductionMultiplier *= rule.allPlayerPenalty.value;
         }
       }
-      
-      // Legacy format support (all legacy penalties are points)
-      if (rule.type === 'multiplier' && rule.value) {
-        customRulesMultiplier *= rule.value;
-      } else if (rule.type === 'points' && rule.value) {
-        customRulesPoints += rule.value;
-      } else if (rule.type === 'opponentDeduction' && rule.value) {
-        opponentDeductionPoints += rule.value;
-      } else if (rule.type === 'discarderDeduction' && rule.value) {
-        discarderDeductionPoints += rule.value;
-      }
     });
     
     if (customRulesMultiplier > 1 && winnerId) {
@@ -678,6 +794,6 @@ export function computeTournament(input: TournamentInput): TournamentResult {
     }
   }
 
-  return { pointsByPlayer: points, breakdown };
+  return scored();
 }
 
@@ -0,0 +1,43 @@
+import type { CustomRule } from '../storage/customRulesStorage';
+import type { CustomRuleValues } from '../types/houseRules';
+import type { NoExposureBonusConfig, ScoreInput } from './types';
+
+/** Engine inputs that come from the per-rule values set in the rule edit modal. */
+export function ruleValueInputs(
+  customRuleValues: CustomRuleValues,
+  noExposures: boolean
+): Pick<ScoreInput, 'noExposureBonus' | 'customMultipliers' | 'customPoints'> {
+  const multiplier = (key: string) =>
+    customRuleValues[key]?.type === 'multiplier' ? customRuleValues[key].value : undefined;
+  // Build config object for bonus (or omit it entirely if not enabled)
+  const noExposureBonus: NoExposureBonusConfig | undefined = noExposures
+    ? {
+        mode: customRuleValues.noExposures?.type === 'points' ? 'flat' : 'multiplier',
+        value: customRuleValues.noExposures?.value ?? 2, // Default ×2
+      }
+    : undefined;
+  return {
+    noExposureBonus,
+    customMultipliers: {
+      jokerless: multiplier('jokerless'),
+      misnamedJoker: multiplier('misnamedJoker'),
+      heavenlyHand: multiplier('heavenlyHand'),
+      lastTileFromWall: multiplier('lastTileFromWall'),
+      lastTileClaim: multiplier('lastTileClaim'),
+      robbingTheJoker: multiplier('robbingTheJoker'),
+    },
+    customPoints: {
+      jokerless: customRuleValues.jokerless?.type === 'points' ? customRuleValues.jokerless.value : undefined,
+    },
+  };
+}
+
+/** Custom rules as the engine takes them: only the effects, not the titles. */
+export function customRuleInputs(rules: CustomRule[]): NonNullable<ScoreInput['customRules']> {
+  return rules.map((rule) => ({
+    id: rule.id,
+    winnerBonus: rule.winnerBonus,
+    discarderPenalty: rule.discarderPenalty,
+    allPlayerPenalty: rule.allPlayerPenalty,
+  }));
+}
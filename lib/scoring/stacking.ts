@@ -0,0 +1,103 @@
+import type { NmjlFlatBonus, NmjlStackingProfile, NmjlStackingStage } from './types';
+
+export const NMJL_STACKING_STAGES: NmjlStackingStage[] = [
+  "doubles",
+  "customRules",
+  "heavenlyHand",
+  "misnamedJoker",
+];
+
+export const NMJL_FLAT_BONUSES: NmjlFlatBonus[] = [
+  "noExposures",
+  "jokerless",
+  "exposurePenalty",
+  "customRules",
+];
+
+/** How the calculator has always stacked rules; existing results depend on it. */
+export const DEFAULT_STACKING_PROFILE: NmjlStackingProfile = {
+  id: "default",
+  name: "Standard",
+  order: ["doubles", "customRules", "heavenlyHand", "misnamedJoker"],
+  scales: {
+    doubles: ["noExposures", "jokerless", "exposurePenalty"],
+    customRules: ["noExposures", "jokerless", "exposurePenalty"],
+    heavenlyHand: ["noExposures", "jokerless", "exposurePenalty", "customRules"],
+    misnamedJoker: ["noExposures", "jokerless", "exposurePenalty", "customRules"],
+  },
+};
+
+/** Every flat bonus is added first and doubled along with the hand. */
+export const BONUSES_BEFORE_MULTIPLIERS_PROFILE: NmjlStackingProfile = {
+  id: "bonusesFirst",
+  name: "Bonuses Before Doubling",
+  order: ["doubles", "customRules", "heavenlyHand", "misnamedJoker"],
+  scales: {
+    doubles: [...NMJL_FLAT_BONUSES],
+    customRules: [...NMJL_FLAT_BONUSES],
+    heavenlyHand: [...NMJL_FLAT_BONUSES],
+    misnamedJoker: [...NMJL_FLAT_BONUSES],
+  },
+};
+
+/** Multipliers only touch the hand value; flat bonuses are added at the end. */
+export const BONUSES_AFTER_MULTIPLIERS_PROFILE: NmjlStackingProfile = {
+  id: "bonusesLast",
+  name: "Bonuses After Doubling",
+  order: ["doubles", "customRules", "heavenlyHand", "misnamedJoker"],
+  scales: {
+    doubles: [],
+    customRules: [],
+    heavenlyHand: [],
+    misnamedJoker: [],
+  },
+};
+
+/**
+ * Custom rule multipliers apply to the card value alone; flat bonuses join
+ * afterwards and are doubled along with the hand.
+ */
+export const CUSTOM_RULES_FIRST_PROFILE: NmjlStackingProfile = {
+  id: "customRulesFirst",
+  name: "Custom Rules First",
+  order: ["customRules", "doubles", "heavenlyHand", "misnamedJoker"],
+  scales: {
+    customRules: [],
+    doubles: [...NMJL_FLAT_BONUSES],
+    heavenlyHand: [...NMJL_FLAT_BONUSES],
+    misnamedJoker: [...NMJL_FLAT_BONUSES],
+  },
+};
+
+export const STACKING_PROFILES: NmjlStackingProfile[] = [
+  DEFAULT_STACKING_PROFILE,
+  BONUSES_BEFORE_MULTIPLIERS_PROFILE,
+  BONUSES_AFTER_MULTIPLIERS_PROFILE,
+  CUSTOM_RULES_FIRST_PROFILE,
+];
+
+export function getStackingProfile(id?: string): NmjlStackingProfile {
+  return STACKING_PROFILES.find((profile) => profile.id === id) ?? DEFAULT_STACKING_PROFILE;
+}
+
+/**
+ * Fill in anything a hand-written or imported profile leaves out: missing
+ * stages run in default order, a stage whose scales are not a list keeps the
+ * default ones, unknown names are dropped.
+ */
+export function normalizeStackingProfile(profile: NmjlStackingProfile): NmjlStackingProfile {
+  const order = profile.order.filter(
+    (stage, index) => NMJL_STACKING_STAGES.includes(stage) && profile.order.indexOf(stage) === index
+  );
+  NMJL_STACKING_STAGES.forEach((stage) => {
+    if (!order.includes(stage)) order.push(stage);
+  });
+  const scales = Object.fromEntries(
+    NMJL_STACKING_STAGES.map((stage) => [
+      stage,
+      (Array.isArray(profile.scales?.[stage]) ? profile.scales[stage] : DEFAULT_STACKING_PROFILE.scales[stage])
+        .filter((flat) => NMJL_FLAT_BONUSES.includes(flat)),
+    ])
+  ) as Record<NmjlStackingStage, NmjlFlatBonus[]>;
+  return { ...profile, order, scales };
+}
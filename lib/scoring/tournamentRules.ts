@@ -0,0 +1,128 @@
+import type { TournamentRuleSet } from './types';
+
+/** The NMJL tournament values the calculator has always used; existing results depend on it. */
+export const NMJL_TOURNAMENT_RULES: TournamentRuleSet = {
+  id: "nmjl",
+  name: "NMJL Official",
+  selfPickBonus: 10,
+  jokerlessBonus: 20,
+  jokerlessBonusOnSinglesAndPairs: false,
+  discarderPenalty: { fewExposures: 10, manyExposures: 20, manyExposuresFrom: 2 },
+  wallGameAward: 10,
+  wallGameAwardToDeadHands: false,
+  falseMahjongIntactAward: 10,
+};
+
+/** The discarder always loses the same amount, however exposed the winner was. */
+export const FLAT_PENALTY_TOURNAMENT_RULES: TournamentRuleSet = {
+  ...NMJL_TOURNAMENT_RULES,
+  id: "flatPenalty",
+  name: "Flat Discarder Penalty",
+  discarderPenalty: { fewExposures: 10, manyExposures: 10, manyExposuresFrom: 2 },
+};
+
+/** Friendly events: no discarder penalty, and every jokerless hand earns the bonus. */
+export const SOCIAL_TOURNAMENT_RULES: TournamentRuleSet = {
+  id: "social",
+  name: "Social / Charity",
+  selfPickBonus: 10,
+  jokerlessBonus: 20,
+  jokerlessBonusOnSinglesAndPairs: true,
+  discarderPenalty: { fewExposures: 0, manyExposures: 0, manyExposuresFrom: 2 },
+  wallGameAward: 10,
+  wallGameAwardToDeadHands: true,
+  falseMahjongIntactAward: 10,
+};
+
+/** Bigger swings: doubled bonuses and penalties. */
+export const HIGH_STAKES_TOURNAMENT_RULES: TournamentRuleSet = {
+  id: "highStakes",
+  name: "High Stakes",
+  selfPickBonus: 20,
+  jokerlessBonus: 40,
+  jokerlessBonusOnSinglesAndPairs: false,
+  discarderPenalty: { fewExposures: 20, manyExposures: 40, manyExposuresFrom: 2 },
+  wallGameAward: 10,
+  wallGameAwardToDeadHands: false,
+  falseMahjongIntactAward: 20,
+};
+
+export const TOURNAMENT_RULE_SETS: TournamentRuleSet[] = [
+  NMJL_TOURNAMENT_RULES,
+  FLAT_PENALTY_TOURNAMENT_RULES,
+  SOCIAL_TOURNAMENT_RULES,
+  HIGH_STAKES_TOURNAMENT_RULES,
+];
+
+export function getTournamentRuleSet(id?: string): TournamentRuleSet {
+  return TOURNAMENT_RULE_SETS.find((ruleSet) => ruleSet.id === id) ?? NMJL_TOURNAMENT_RULES;
+}
+
+const POINT_FIELDS = [
+  "selfPickBonus",
+  "jokerlessBonus",
+  "wallGameAward",
+  "falseMahjongIntactAward",
+] as const;
+
+const isPoints = (value: unknown): value is number =>
+  typeof value === "number" && isFinite(value) && value >= 0;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** Problems with a rule set, as messages fit for showing to the user. Empty when valid. */
+export function validateTournamentRuleSet(value: unknown): string[] {
+  if (!isObject(value)) {
+    return ["The rule set is not an object."];
+  }
+  const ruleSet = value;
+  const errors: string[] = [];
+  if (typeof ruleSet.id !== "string" || !ruleSet.id) errors.push("The rule set has no id.");
+  if (typeof ruleSet.name !== "string" || !ruleSet.name.trim()) errors.push("The rule set has no name.");
+  POINT_FIELDS.forEach((field) => {
+    if (!isPoints(ruleSet[field])) errors.push(`${field} must be zero or more points.`);
+  });
+  ["jokerlessBonusOnSinglesAndPairs", "wallGameAwardToDeadHands"].forEach((field) => {
+    if (typeof ruleSet[field] !== "boolean") errors.push(`${field} must be true or false.`);
+  });
+  const penalty = ruleSet.discarderPenalty;
+  if (!isObject(penalty)) {
+    errors.push("discarderPenalty is missing.");
+  } else {
+    if (!isPoints(penalty.fewExposures)) errors.push("discarderPenalty.fewExposures must be zero or more points.");
+    if (!isPoints(penalty.manyExposures)) errors.push("discarderPenalty.manyExposures must be zero or more points.");
+    const from = penalty.manyExposuresFrom;
+    if (typeof from !== "number" || !Number.isInteger(from) || from < 1 || from > 4) {
+      errors.push("discarderPenalty.manyExposuresFrom must be a whole number from 1 to 4.");
+    }
+  }
+  return errors;
+}
+
+/**
+ * Read a rule set from stored or imported data. Throws an Error listing what
+ * is wrong when it does not match the schema.
+ */
+export function parseTournamentRuleSet(value: unknown): TournamentRuleSet {
+  const errors = validateTournamentRuleSet(value);
+  if (errors.length > 0) {
+    throw new Error(`Invalid tournament rule set: ${errors.join(" ")}`);
+  }
+  const ruleSet = value as TournamentRuleSet;
+  return {
+    id: ruleSet.id,
+    name: ruleSet.name.trim(),
+    selfPickBonus: ruleSet.selfPickBonus,
+    jokerlessBonus: ruleSet.jokerlessBonus,
+    jokerlessBonusOnSinglesAndPairs: ruleSet.jokerlessBonusOnSinglesAndPairs,
+    discarderPenalty: {
+      fewExposures: ruleSet.discarderPenalty.fewExposures,
+      manyExposures: ruleSet.discarderPenalty.manyExposures,
+      manyExposuresFrom: ruleSet.discarderPenalty.manyExposuresFrom,
+    },
+    wallGameAward: ruleSet.wallGameAward,
+    wallGameAwardToDeadHands: ruleSet.wallGameAwardToDeadHands,
+    falseMahjongIntactAward: ruleSet.falseMahjongIntactAward,
+  };
+}
@@ -1,3 +1,5 @@
+import type { SeatWind } from '../types/player';
+
 export type WinType = "self_pick" | "discard";
 
 export interface NoExposureBonusConfig {
@@ -21,6 +23,7 @@ export interface ScoreInput {
   winnerId?: string;
   discarderId?: string;
   otherPlayerIds?: string[];
+  seatByPlayerId?: Record<string, SeatWind>; // Seat of each player ID (East's double looks up East here)
 
   jokerlessBonusPoints?: number; // Optional jokerless bonus in points (default 10)
   jokerlessAsPoints?: boolean; // If true, jokerless adds points instead of multiplier
@@ -33,7 +36,7 @@ export interface ScoreInput {
   robbingTheJoker?: boolean; // Robbing a tile from a player's exposure (doubles score)
   fourFlowers?: boolean; // Four Flowers in hand (doubles score, only if card year rules apply)
   eastDouble?: boolean; // East's double payout (East pays or receives double)
-  isWinnerEast?: boolean; // Explicitly mark if the winner is East (for East's double calculation)
+  isWinnerEast?: boolean; // Explicitly mark if the winner is East (overrides seatByPlayerId for the winner)
   numDoubles?: number; // Total number of doubles (each doubles the score)
   customMultipliers?: {
     jokerless?: number; // Custom multiplier for jokerless (default 2 for self-pick, 4 for discard)
@@ -63,10 +66,27 @@ export interface ScoreInput {
       type: 'points' | 'multiplier';
       value: number;
     };
-    // Legacy format support
-    type?: 'multiplier' | 'points' | 'opponentDeduction' | 'discarderDeduction';
-    value?: number;
   }>; // Custom rules applied
+  stackingProfile?: NmjlStackingProfile; // Order of multipliers (defaults to DEFAULT_STACKING_PROFILE)
+}
+
+/** Multiplier stages of the NMJL standard pipeline, applied after the base payout. */
+export type NmjlStackingStage = "doubles" | "customRules" | "heavenlyHand" | "misnamedJoker";
+
+/** Flat amounts added to (or taken from) the winner's total. */
+export type NmjlFlatBonus = "noExposures" | "jokerless" | "exposurePenalty" | "customRules";
+
+/**
+ * House-rule profile for how NMJL multipliers stack.
+ * A flat bonus joins the total just before the first stage that scales it
+ * (or after every stage when none does), so leaving it out of a stage's
+ * list is the same as adding it after that multiplier.
+ */
+export interface NmjlStackingProfile {
+  id: string;
+  name: string;
+  order: NmjlStackingStage[]; // Every stage exactly once
+  scales: Record<NmjlStackingStage, NmjlFlatBonus[]>; // For misnamedJoker: flats included in the winner's total the discarder multiplies
 }
 
 export interface ScoreResult {
@@ -94,10 +114,62 @@ export interface ScoreResult {
   exposurePenalty?: number;
   kittyPayout?: number; // Total kitty payout amount (amount per player × number of players)
   kittyPerPlayer?: number; // Amount each player pays to kitty
+  trace?: ScoreTraceStep[]; // Every rule applied, in order (audit trail)
+}
+
+export type ScoreTraceRule =
+  | "wallGame"
+  | "base"
+  | "noExposures"
+  | "jokerlessPoints"
+  | "exposurePenalty"
+  | "doubles"
+  | "customRules"
+  | "heavenlyHand"
+  | "misnamedJoker"
+  | "payerSplit"
+  | "deductions"
+  | "eastDouble"
+  | "kitty";
+
+export interface ScoreTraceAmounts {
+  discarder?: number;
+  others?: number;
+  totalToWinner: number;
+  payers?: Record<string, number>; // Set once the payout is split between player IDs
+}
+
+export interface ScoreTraceStep {
+  rule: ScoreTraceRule;
+  label: string;
+  multiplier?: number;
+  points?: number;
+  before: ScoreTraceAmounts;
+  after: ScoreTraceAmounts;
 }
 
 /* ---------------------- TOURNAMENT MODE ---------------------- */
 
+/**
+ * Point values a tournament plays by. Every amount is a non-negative number
+ * of points; penalties are subtracted from the discarder.
+ */
+export interface TournamentRuleSet {
+  id: string;
+  name: string;
+  selfPickBonus: number;
+  jokerlessBonus: number;
+  jokerlessBonusOnSinglesAndPairs: boolean;
+  discarderPenalty: {
+    fewExposures: number;   // winner had fewer than `manyExposuresFrom` exposures
+    manyExposures: number;
+    manyExposuresFrom: number; // 1-4
+  };
+  wallGameAward: number;        // to each player on a wall game
+  wallGameAwardToDeadHands: boolean;
+  falseMahjongIntactAward: number; // to the one player who kept their hand intact
+}
+
 export interface TournamentInput {
   // Core
   basePoints?: number;               // winner's hand value (points). Omit if wall/time-expired/false-MJ outcomes
@@ -105,6 +177,10 @@ export interface TournamentInput {
   winnerId?: string;                 // required if a win occurred
   discarderId?: string | null;       // required if winType === "discard"
   playerIds: string[];               // all players at table (length = numPlayers)
+  playerNames?: Record<string, string>; // display names for the breakdown (defaults to the IDs)
+
+  // Point values (defaults to NMJL_TOURNAMENT_RULES; amounts below are the NMJL ones)
+  ruleSet?: TournamentRuleSet;
 
   // Bonuses
   selfPick?: boolean;                // +10
@@ -148,9 +224,6 @@ export interface TournamentInput {
       type: 'points' | 'multiplier';
       value: number;
     };
-    // Legacy format support
-    type?: 'multiplier' | 'points' | 'opponentDeduction' | 'discarderDeduction';
-    value?: number;
   }>; // Custom rules applied
 }
 
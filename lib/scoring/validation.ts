@@ -0,0 +1,167 @@
+import { getCardBasePointValues, getHandScore, type CalculatorCardSet, type HandCardYear } from '../data/handData';
+import type { ScoreInput } from './types';
+
+export type ScoreInputIssueCode =
+  | 'exposureCountOutOfRange'
+  | 'heavenlyHandWithExposures'
+  | 'heavenlyHandFromDiscard'
+  | 'heavenlyHandNotEast'
+  | 'jokerlessWithMisnamedJoker'
+  | 'misnamedJokerSelfPick'
+  | 'robbingJokerConcealed'
+  | 'concealedWithExposures'
+  | 'singlesAndPairsWithExposures'
+  | 'lastTileFromWallAndClaim'
+  | 'lastTileFromWallOnDiscard'
+  | 'lastTileClaimOnSelfPick'
+  | 'basePointsNotOnCard'
+  | 'basePointsDifferFromLine';
+
+/**
+ * An error is a combination that cannot happen at a real table, so the
+ * result is wrong; a warning is unusual but possible (a house card, a typo).
+ */
+export interface ScoreInputIssue {
+  code: ScoreInputIssueCode;
+  severity: 'error' | 'warning';
+  message: string;
+  fields: (keyof ScoreInput)[]; // Inputs involved, for highlighting
+}
+
+/** The card the hand was scored from, for checking base points. */
+export interface ScoreInputCardContext {
+  cardYear: HandCardYear;
+  cardSet?: CalculatorCardSet;
+  categoryId?: string;
+  lineNumber?: string;
+}
+
+const MAX_EXPOSURES = 4; // Four exposed groups plus the pair is a complete hand
+
+const isWinnerEast = (input: ScoreInput): boolean | undefined => {
+  if (input.isWinnerEast !== undefined) return input.isWinnerEast;
+  const seat = input.winnerId ? input.seatByPlayerId?.[input.winnerId] : undefined;
+  return seat ? seat === 'East' : undefined;
+};
+
+/**
+ * Check an NMJL hand for combinations that cannot happen at a real table.
+ * Wall games are not checked, since none of the hand's options apply.
+ */
+export function validateScoreInput(input: ScoreInput, card?: ScoreInputCardContext): ScoreInputIssue[] {
+  if (input.wallGame) return [];
+  const issues: ScoreInputIssue[] = [];
+  const error = (code: ScoreInputIssueCode, message: string, fields: (keyof ScoreInput)[]) =>
+    issues.push({ code, severity: 'error', message, fields });
+  const warning = (code: ScoreInputIssueCode, message: string, fields: (keyof ScoreInput)[]) =>
+    issues.push({ code, severity: 'warning', message, fields });
+
+  const exposures = input.winnerExposureCount ?? 0;
+  if (!Number.isInteger(exposures) || exposures < 0 || exposures > MAX_EXPOSURES) {
+    error(
+      'exposureCountOutOfRange',
+      `The winner's exposure count must be a whole number from 0 to ${MAX_EXPOSURES}.`,
+      ['winnerExposureCount']
+    );
+  }
+
+  if (input.heavenlyHand) {
+    if (exposures > 0) {
+      error('heavenlyHandWithExposures', 'A Heavenly Hand is dealt complete, so it cannot have exposures.', [
+        'heavenlyHand',
+        'winnerExposureCount',
+      ]);
+    }
+    if (input.winType === 'discard') {
+      error('heavenlyHandFromDiscard', 'A Heavenly Hand wins before any discard, so it must be self-pick.', [
+        'heavenlyHand',
+        'winType',
+      ]);
+    }
+    if (isWinnerEast(input) === false) {
+      warning('heavenlyHandNotEast', 'Only East can win with a Heavenly Hand, but the winner is not East.', [
+        'heavenlyHand',
+        'isWinnerEast',
+      ]);
+    }
+  }
+
+  if (input.misnamedJoker) {
+    if (input.jokerless) {
+      error('jokerlessWithMisnamedJoker', 'A jokerless hand cannot win on a mis-named joker.', [
+        'jokerless',
+        'misnamedJoker',
+      ]);
+    }
+    if (input.winType === 'self_pick') {
+      error('misnamedJokerSelfPick', 'A mis-named joker is a discard, so the win cannot be self-pick.', [
+        'misnamedJoker',
+        'winType',
+      ]);
+    }
+  }
+
+  if (input.noExposures) {
+    if (input.robbingTheJoker) {
+      error('robbingJokerConcealed', 'Robbing the joker exposes the winning group, so the hand cannot be concealed.', [
+        'robbingTheJoker',
+        'noExposures',
+      ]);
+    }
+    if (exposures > 0) {
+      error('concealedWithExposures', 'The hand is marked concealed but the winner has exposures.', [
+        'noExposures',
+        'winnerExposureCount',
+      ]);
+    }
+  }
+
+  if (input.singlesAndPairs && exposures > 0) {
+    error('singlesAndPairsWithExposures', 'Singles and Pairs hands are always concealed, so they cannot have exposures.', [
+      'singlesAndPairs',
+      'winnerExposureCount',
+    ]);
+  }
+
+  if (input.lastTileFromWall && input.lastTileClaim) {
+    error('lastTileFromWallAndClaim', 'The last tile is either drawn from the wall or claimed from a discard, not both.', [
+      'lastTileFromWall',
+      'lastTileClaim',
+    ]);
+  } else if (input.lastTileFromWall && input.winType === 'discard') {
+    error('lastTileFromWallOnDiscard', 'Winning on the last tile from the wall is a self-pick.', [
+      'lastTileFromWall',
+      'winType',
+    ]);
+  } else if (input.lastTileClaim && input.winType === 'self_pick') {
+    error('lastTileClaimOnSelfPick', 'Claiming the last discard is a win from a discard, not a self-pick.', [
+      'lastTileClaim',
+      'winType',
+    ]);
+  }
+
+  if (card && input.basePoints > 0) {
+    const lineValue = card.categoryId && card.lineNumber
+      ? getHandScore(card.categoryId, card.lineNumber, card.cardYear, card.cardSet)
+      : undefined;
+    const cardValues = getCardBasePointValues(card.cardYear, card.cardSet);
+    if (lineValue !== undefined && lineValue !== input.basePoints) {
+      warning(
+        'basePointsDifferFromLine',
+        `The selected line is worth ${lineValue} on the ${card.cardYear} card, not ${input.basePoints}.`,
+        ['basePoints']
+      );
+    } else if (lineValue === undefined && cardValues.length > 0 && !cardValues.includes(input.basePoints)) {
+      warning(
+        'basePointsNotOnCard',
+        `No line on the ${card.cardYear} card is worth ${input.basePoints} (values are ${cardValues.join(', ')}).`,
+        ['basePoints']
+      );
+    }
+  }
+
+  return issues;
+}
+
+export const hasScoreInputErrors = (issues: ScoreInputIssue[]): boolean =>
+  issues.some((issue) => issue.severity === 'error');
@@ -0,0 +1,92 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createBackup, parseBackup, restoreBackup } from '@/lib/storage/backupStorage';
+import { CUSTOM_RULES_STORAGE_KEY } from '@/lib/storage/customRulesStorage';
+import { HANDS_STORAGE_KEY } from '@/lib/storage/handStorage';
+import { runStorageMigrations } from '@/lib/storage/migrations';
+
+const ROSTER_KEY = '@mahjong_calculator_roster';
+
+const storedItems = async (key: string) => JSON.parse((await AsyncStorage.getItem(key)) ?? 'null');
+
+describe('backups', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    await AsyncStorage.setItem(HANDS_STORAGE_KEY, JSON.stringify([{ id: 'h1', cardYear: '2025' }]));
+    await AsyncStorage.setItem(CUSTOM_RULES_STORAGE_KEY, JSON.stringify([{ id: 'r1', title: 'Rule', createdAt: 1 }]));
+    await runStorageMigrations();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('checks the archive before restoring', async () => {
+    const backup = await createBackup();
+    const damaged = backup.replace('h1', 'h2');
+
+    expect(parseBackup(backup).entries[HANDS_STORAGE_KEY]).toBeDefined();
+    expect(() => parseBackup(damaged)).toThrow(/checksum mismatch/);
+    expect(() => parseBackup('{}')).toThrow('This is not a Mahjong Calculator backup.');
+    expect(() => parseBackup('nope')).toThrow('The text is not a valid backup.');
+  });
+
+  it('rejects entries for keys outside the app', async () => {
+    const archive = JSON.parse(await createBackup());
+    archive.entries.other = { value: '[]', schemaVersion: 0 };
+
+    expect(() => parseBackup(JSON.stringify(archive))).toThrow(/damaged/);
+  });
+
+  it('replaces this device\'s data and drops keys the backup does not have', async () => {
+    const backup = await createBackup();
+    await AsyncStorage.setItem(HANDS_STORAGE_KEY, JSON.stringify([{ id: 'h2', cardYear: '2025' }]));
+    await AsyncStorage.setItem(ROSTER_KEY, '[]');
+
+    const report = await restoreBackup(backup, 'replace');
+
+    expect(report.restoredKeys).toEqual(expect.arrayContaining([HANDS_STORAGE_KEY, CUSTOM_RULES_STORAGE_KEY]));
+    expect(await storedItems(HANDS_STORAGE_KEY)).toEqual([{ id: 'h1', cardYear: '2025' }]);
+    expect(await AsyncStorage.getItem(ROSTER_KEY)).toBeNull();
+  });
+
+  it('keeps this device\'s data when a replace fails to write', async () => {
+    const backup = await createBackup();
+    await AsyncStorage.setItem(HANDS_STORAGE_KEY, JSON.stringify([{ id: 'h2', cardYear: '2025' }]));
+    await AsyncStorage.setItem(ROSTER_KEY, '[]');
+    jest.spyOn(AsyncStorage, 'multiSet').mockRejectedValueOnce(new Error('disk full'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(restoreBackup(backup, 'replace')).rejects.toThrow('disk full');
+
+    expect(await storedItems(HANDS_STORAGE_KEY)).toEqual([{ id: 'h2', cardYear: '2025' }]);
+    expect(await AsyncStorage.getItem(ROSTER_KEY)).toBe('[]');
+  });
+
+  it('merges lists by id and reports items that differ', async () => {
+    const backup = await createBackup();
+    await AsyncStorage.setItem(HANDS_STORAGE_KEY, JSON.stringify([{ id: 'h1', cardYear: '2026' }]));
+    await AsyncStorage.removeItem(CUSTOM_RULES_STORAGE_KEY);
+
+    const report = await restoreBackup(backup, 'merge');
+
+    expect(report.conflicts).toEqual([{ key: HANDS_STORAGE_KEY, id: 'h1' }]);
+    expect(report.restoredKeys).toEqual([CUSTOM_RULES_STORAGE_KEY]);
+    expect(await storedItems(HANDS_STORAGE_KEY)).toEqual([{ id: 'h1', cardYear: '2026' }]);
+  });
+
+  it('upgrades old entries when they are restored', async () => {
+    // A backup from before the custom rule migration
+    await AsyncStorage.clear();
+    await AsyncStorage.setItem(
+      CUSTOM_RULES_STORAGE_KEY,
+      JSON.stringify([{ id: 'r1', title: 'Old', type: 'points', value: 5, createdAt: 1 }])
+    );
+    const backup = await createBackup();
+    await AsyncStorage.clear();
+
+    await restoreBackup(backup, 'replace');
+
+    const [rule] = await storedItems(CUSTOM_RULES_STORAGE_KEY);
+    expect(rule.winnerBonus).toEqual({ type: 'points', value: 5 });
+  });
+});
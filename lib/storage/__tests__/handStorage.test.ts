@@ -0,0 +1,116 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getSavedHands, importHands, saveHand, updateHand } from '@/lib/storage/handStorage';
+import type { SavedHand, StandardHandControls } from '@/lib/types/game';
+
+const controls: StandardHandControls = {
+  basePoints: '25',
+  winType: 'self_pick',
+  jokerless: false,
+  misnamedJoker: false,
+  heavenlyHand: false,
+  noExposures: false,
+  exposurePenaltyEnabled: false,
+  exposurePenaltyPerExposure: '0',
+  winnerExposureCount: '0',
+  lastTileFromWall: false,
+  lastTileClaim: false,
+  robbingTheJoker: false,
+  eastDouble: false,
+  isWinnerEast: false,
+  wallGame: false,
+  kittyEnabled: false,
+  kittyPayout: '0.25',
+  displayMode: 'points',
+  numPlayers: 4,
+  categoryId: '2468',
+  lineNumber: '1',
+  handName: 'Line 1',
+  selectedCustomRuleIds: [],
+  customRuleValues: {},
+};
+
+const hand: SavedHand = {
+  id: 'h1',
+  timestamp: 1,
+  handName: 'Line 1',
+  basePoints: 25,
+  winType: 'self_pick',
+  jokerless: false,
+  singlesAndPairs: false,
+  noExposures: false,
+  totalToWinner: 150,
+  displayMode: 'points',
+  mode: 'standard',
+  cardYear: '2026',
+  isWinner: true,
+  controls,
+};
+
+describe('updateHand', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    await saveHand(hand);
+  });
+
+  it('records top-level changes in the edit history', async () => {
+    await updateHand({ ...hand, basePoints: 30, totalToWinner: 180 });
+
+    const [updated] = await getSavedHands();
+    expect(updated.basePoints).toBe(30);
+    expect(updated.edits).toHaveLength(1);
+    expect(updated.edits?.[0].changes).toEqual(
+      expect.arrayContaining([
+        { field: 'basePoints', from: 25, to: 30 },
+        { field: 'totalToWinner', from: 150, to: 180 },
+      ])
+    );
+  });
+
+  it('records changes inside the controls, with objects as JSON', async () => {
+    await updateHand({
+      ...hand,
+      controls: { ...controls, misnamedJoker: true, selectedCustomRuleIds: ['r1'] },
+    });
+
+    const [updated] = await getSavedHands();
+    expect(updated.edits?.[0].changes).toEqual([
+      { field: 'controls.misnamedJoker', from: false, to: true },
+      { field: 'controls.selectedCustomRuleIds', from: '[]', to: '["r1"]' },
+    ]);
+  });
+
+  it('does not add an edit when nothing changed', async () => {
+    await updateHand({ ...hand, controls: { ...controls } });
+
+    const [updated] = await getSavedHands();
+    expect(updated.edits).toEqual([]);
+  });
+
+  it('keeps the stored history when given an older copy', async () => {
+    await updateHand({ ...hand, basePoints: 30 });
+    await updateHand({ ...hand, basePoints: 35 });
+
+    const [updated] = await getSavedHands();
+    expect(updated.edits?.map((edit) => edit.changes[0].to)).toEqual([30, 35]);
+  });
+
+  it('rejects a hand that was never saved', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await expect(updateHand({ ...hand, id: 'missing' })).rejects.toThrow('Saved hand missing not found');
+    jest.restoreAllMocks();
+  });
+});
+
+describe('importHands', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    await saveHand(hand);
+  });
+
+  it('skips hands that are already saved or repeated', async () => {
+    const result = await importHands([hand, { ...hand, id: 'h2' }, { ...hand, id: 'h2' }]);
+
+    expect(result).toEqual({ added: 1, duplicates: 2 });
+    expect((await getSavedHands()).map((h) => h.id)).toEqual(['h1', 'h2']);
+  });
+});
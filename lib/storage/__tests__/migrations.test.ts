@@ -0,0 +1,132 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CUSTOM_RULES_STORAGE_KEY } from '@/lib/storage/customRulesStorage';
+import { HANDS_STORAGE_KEY } from '@/lib/storage/handStorage';
+import { HOUSE_RULES_STORAGE_KEY } from '@/lib/storage/houseRulesStorage';
+import {
+  getSchemaVersions,
+  latestSchemaVersion,
+  migrateItems,
+  runStorageMigrations,
+  upgradeLegacyCustomRule,
+  upgradeSelectedCustomRules,
+  type LegacyCustomRule,
+} from '@/lib/storage/migrations';
+
+const legacyRule = (overrides: Partial<LegacyCustomRule>): LegacyCustomRule => ({
+  id: 'r1',
+  title: 'Flower bonus',
+  createdAt: 1,
+  ...overrides,
+});
+
+describe('upgradeLegacyCustomRule', () => {
+  it('moves a legacy bonus into winnerBonus', () => {
+    expect(upgradeLegacyCustomRule(legacyRule({ type: 'points', value: 10 }))).toEqual([
+      legacyRule({ winnerBonus: { type: 'points', value: 10 } }),
+    ]);
+  });
+
+  it('moves legacy deductions into point penalties', () => {
+    const [rule] = upgradeLegacyCustomRule(legacyRule({ type: 'discarderDeduction', value: 5 }));
+
+    expect(rule.discarderPenalty).toEqual({ enabled: true, type: 'points', value: 5 });
+  });
+
+  it('combines a legacy value with a new one of the same type', () => {
+    const [rule] = upgradeLegacyCustomRule(legacyRule({
+      type: 'multiplier',
+      value: 2,
+      winnerBonus: { type: 'multiplier', value: 3 },
+    }));
+
+    expect(rule.winnerBonus).toEqual({ type: 'multiplier', value: 6 });
+  });
+
+  it('splits a legacy value that cannot be combined into a second rule', () => {
+    const rules = upgradeLegacyCustomRule(legacyRule({
+      type: 'points',
+      value: 10,
+      winnerBonus: { type: 'multiplier', value: 2 },
+    }));
+
+    expect(rules).toHaveLength(2);
+    expect(rules[0].winnerBonus).toEqual({ type: 'multiplier', value: 2 });
+    expect(rules[1]).toMatchObject({
+      id: 'r1_legacy',
+      splitFromId: 'r1',
+      winnerBonus: { type: 'points', value: 10 },
+    });
+  });
+
+  it('leaves a rule without a legacy value alone', () => {
+    const rule = legacyRule({ winnerBonus: { type: 'points', value: 10 } });
+
+    expect(upgradeLegacyCustomRule(rule)).toEqual([rule]);
+  });
+});
+
+describe('upgradeSelectedCustomRules', () => {
+  it('selects a split rule along with its original and copies its value', () => {
+    const { customRules, customRuleValues } = upgradeSelectedCustomRules(
+      [legacyRule({ type: 'points', value: 10, winnerBonus: { type: 'multiplier', value: 2 } })],
+      { r1: { type: 'multiplier', value: 3 } }
+    );
+
+    expect(customRules.map((rule) => rule.id)).toEqual(['r1', 'r1_legacy']);
+    expect(customRuleValues.r1_legacy).toEqual({ type: 'multiplier', value: 3 });
+  });
+});
+
+describe('migrateItems', () => {
+  it('gives hands saved before card years the 2025 card', () => {
+    const hands = migrateItems<{ cardYear?: string }>(HANDS_STORAGE_KEY, [{ id: 'a' }, { id: 'b', cardYear: '2024' }, 'junk'], 0);
+
+    expect(hands.map((hand) => hand.cardYear)).toEqual(['2025', '2024']);
+  });
+
+  it('skips migrations the data has already had', () => {
+    const items = [{ id: 'a' }];
+
+    expect(migrateItems(HANDS_STORAGE_KEY, items, latestSchemaVersion(HANDS_STORAGE_KEY))).toEqual(items);
+  });
+
+  it('passes keys without migrations through', () => {
+    expect(latestSchemaVersion('@mahjong_calculator_other')).toBe(0);
+    expect(migrateItems('@mahjong_calculator_other', [1, 2], 0)).toEqual([1, 2]);
+  });
+});
+
+describe('runStorageMigrations', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('upgrades stored rules and the profiles that use them', async () => {
+    const rule = legacyRule({ type: 'points', value: 10, winnerBonus: { type: 'multiplier', value: 2 } });
+    await AsyncStorage.setItem(CUSTOM_RULES_STORAGE_KEY, JSON.stringify([rule]));
+    await AsyncStorage.setItem(HOUSE_RULES_STORAGE_KEY, JSON.stringify([
+      { id: 'p1', name: 'Club', customRules: [rule], customRuleValues: {} },
+    ]));
+
+    await runStorageMigrations();
+
+    const rules = JSON.parse((await AsyncStorage.getItem(CUSTOM_RULES_STORAGE_KEY)) ?? '[]');
+    const [profile] = JSON.parse((await AsyncStorage.getItem(HOUSE_RULES_STORAGE_KEY)) ?? '[]');
+    expect(rules.map((r: LegacyCustomRule) => r.id)).toEqual(['r1', 'r1_legacy']);
+    expect(profile.customRules).toEqual(rules);
+    expect(await getSchemaVersions()).toMatchObject({
+      [CUSTOM_RULES_STORAGE_KEY]: latestSchemaVersion(CUSTOM_RULES_STORAGE_KEY),
+      [HOUSE_RULES_STORAGE_KEY]: latestSchemaVersion(HOUSE_RULES_STORAGE_KEY),
+    });
+  });
+
+  it('leaves keys already at their latest version alone', async () => {
+    await runStorageMigrations();
+    await AsyncStorage.setItem(CUSTOM_RULES_STORAGE_KEY, JSON.stringify([legacyRule({ type: 'points', value: 10 })]));
+
+    await runStorageMigrations();
+
+    const [rule] = JSON.parse((await AsyncStorage.getItem(CUSTOM_RULES_STORAGE_KEY)) ?? '[]');
+    expect(rule.type).toBe('points');
+  });
+});
@@ -0,0 +1,231 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  SCHEMA_VERSIONS_STORAGE_KEY,
+  getSchemaVersions,
+  migrateItems,
+  latestSchemaVersion,
+  runStorageMigrations,
+} from './migrations';
+
+/** Every key the app writes starts with this. */
+const APP_STORAGE_PREFIX = '@mahjong_calculator_';
+
+export const BACKUP_FORMAT = 'mahjong-calculator/backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupEntry {
+  value: string; // Raw stored value
+  schemaVersion: number; // Migration version of the value (0 for keys without migrations)
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  entries: Record<string, BackupEntry>;
+  checksum: string; // Over the entries, to catch truncated or edited archives
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+export interface RestoreConflict {
+  key: string;
+  id?: string; // Item id for list keys (hands, rules, sessions, ...)
+}
+
+export interface RestoreReport {
+  restoredKeys: string[];
+  addedItems: number;
+  /** Merge only: entries that differ on this device; the device's copy was kept. */
+  conflicts: RestoreConflict[];
+}
+
+/** FNV-1a over the entries in key order. Detects damage, not tampering. */
+const checksumEntries = (entries: Record<string, BackupEntry>): string => {
+  const canonical = JSON.stringify(
+    Object.keys(entries).sort().map((key) => [key, entries[key].value, entries[key].schemaVersion])
+  );
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < canonical.length; i++) {
+    hash ^= canonical.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isBackupEntry = (value: unknown): value is BackupEntry =>
+  isRecord(value) && typeof value.value === 'string' && typeof value.schemaVersion === 'number';
+
+const getAppKeys = async (): Promise<string[]> => {
+  const keys = await AsyncStorage.getAllKeys();
+  return keys.filter((key) => key.startsWith(APP_STORAGE_PREFIX));
+};
+
+export const createBackup = async (): Promise<string> => {
+  try {
+    const keys = (await getAppKeys()).filter((key) => key !== SCHEMA_VERSIONS_STORAGE_KEY);
+    const versions = await getSchemaVersions();
+    const pairs = await AsyncStorage.multiGet(keys);
+    const entries: Record<string, BackupEntry> = {};
+    pairs.forEach(([key, value]) => {
+      if (value !== null) {
+        entries[key] = { value, schemaVersion: versions[key] ?? 0 };
+      }
+    });
+    const archive: BackupArchive = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: Date.now(),
+      entries,
+      checksum: checksumEntries(entries),
+    };
+    return JSON.stringify(archive);
+  } catch (error) {
+    console.error('Error creating backup:', error);
+    throw error;
+  }
+};
+
+/**
+ * Check an archive before anything is written. Throws an Error with a
+ * message fit for showing to the user.
+ */
+export const parseBackup = (json: string): BackupArchive => {
+  let archive: unknown;
+  try {
+    archive = JSON.parse(json);
+  } catch {
+    throw new Error('The text is not a valid backup.');
+  }
+  if (!isRecord(archive) || archive.format !== BACKUP_FORMAT || !isRecord(archive.entries)) {
+    throw new Error('This is not a Mahjong Calculator backup.');
+  }
+  if (typeof archive.version !== 'number' || archive.version > BACKUP_VERSION) {
+    throw new Error('This backup was made with a newer version of the app. Update the app to restore it.');
+  }
+  const entries: Record<string, BackupEntry> = {};
+  let malformed = false;
+  Object.entries(archive.entries).forEach(([key, entry]) => {
+    if (key.startsWith(APP_STORAGE_PREFIX) && isBackupEntry(entry)) {
+      entries[key] = entry;
+    } else {
+      malformed = true;
+    }
+  });
+  if (malformed || typeof archive.checksum !== 'string' || checksumEntries(entries) !== archive.checksum) {
+    throw new Error('The backup is damaged or incomplete (checksum mismatch).');
+  }
+  const newer = Object.entries(entries).find(
+    ([key, entry]) => entry.schemaVersion > latestSchemaVersion(key)
+  );
+  if (newer) {
+    throw new Error('This backup was made with a newer version of the app. Update the app to restore it.');
+  }
+  return {
+    format: BACKUP_FORMAT,
+    version: archive.version,
+    createdAt: typeof archive.createdAt === 'number' ? archive.createdAt : 0,
+    entries,
+    checksum: archive.checksum,
+  };
+};
+
+/** Bring a backed-up value up to this app's schema before it meets current data. */
+const upgradeEntry = (key: string, entry: BackupEntry): string => {
+  if (entry.schemaVersion >= latestSchemaVersion(key)) return entry.value;
+  return JSON.stringify(migrateItems(key, JSON.parse(entry.value), entry.schemaVersion));
+};
+
+const isIdList = (value: unknown): value is { id: string }[] =>
+  Array.isArray(value) && value.every((item) => typeof item?.id === 'string');
+
+const parseJson = (value: string): unknown => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Replace: the archive's entries are written over this device's before any
+ * key is removed, so a failed write never leaves the app empty. If a write
+ * fails, the device's data is put back as it was.
+ */
+const restoreReplace = async (archive: BackupArchive): Promise<RestoreReport> => {
+  const snapshot = await AsyncStorage.multiGet(await getAppKeys());
+  const keys = Object.keys(archive.entries);
+  const versions = Object.fromEntries(keys.map((key) => [key, archive.entries[key].schemaVersion]));
+  try {
+    await AsyncStorage.multiSet([
+      ...keys.map((key): [string, string] => [key, archive.entries[key].value]),
+      [SCHEMA_VERSIONS_STORAGE_KEY, JSON.stringify(versions)],
+    ]);
+  } catch (error) {
+    const previousKeys = new Set(snapshot.map(([key]) => key));
+    await AsyncStorage.multiRemove(
+      [...keys, SCHEMA_VERSIONS_STORAGE_KEY].filter((key) => !previousKeys.has(key))
+    );
+    await AsyncStorage.multiSet(
+      snapshot.filter((pair): pair is [string, string] => pair[1] !== null)
+    );
+    throw error;
+  }
+  const restored = new Set([...keys, SCHEMA_VERSIONS_STORAGE_KEY]);
+  await AsyncStorage.multiRemove(snapshot.map(([key]) => key).filter((key) => !restored.has(key)));
+  await runStorageMigrations();
+  return { restoredKeys: keys, addedItems: 0, conflicts: [] };
+};
+
+/**
+ * Merge: lists of items with ids are combined, other values are only filled
+ * in where this device has none. Anything that differs keeps this device's
+ * copy and is reported as a conflict.
+ */
+const restoreMerge = async (archive: BackupArchive): Promise<RestoreReport> => {
+  const report: RestoreReport = { restoredKeys: [], addedItems: 0, conflicts: [] };
+  for (const [key, entry] of Object.entries(archive.entries)) {
+    const incomingValue = upgradeEntry(key, entry);
+    const current = await AsyncStorage.getItem(key);
+    if (current === null) {
+      await AsyncStorage.setItem(key, incomingValue);
+      report.restoredKeys.push(key);
+      continue;
+    }
+    if (current === incomingValue) continue;
+
+    const currentItems = parseJson(current);
+    const incomingItems = parseJson(incomingValue);
+    if (!isIdList(currentItems) || !isIdList(incomingItems)) {
+      report.conflicts.push({ key });
+      continue;
+    }
+    const byId = new Map(currentItems.map((item) => [item.id, item]));
+    const added = incomingItems.filter((item) => {
+      const existing = byId.get(item.id);
+      if (existing && JSON.stringify(existing) !== JSON.stringify(item)) {
+        report.conflicts.push({ key, id: item.id });
+      }
+      return !existing;
+    });
+    if (added.length > 0) {
+      await AsyncStorage.setItem(key, JSON.stringify([...currentItems, ...added]));
+      report.restoredKeys.push(key);
+      report.addedItems += added.length;
+    }
+  }
+  return report;
+};
+
+export const restoreBackup = async (json: string, mode: RestoreMode): Promise<RestoreReport> => {
+  const archive = parseBackup(json);
+  try {
+    return mode === 'replace' ? await restoreReplace(archive) : await restoreMerge(archive);
+  } catch (error) {
+    console.error('Error restoring backup:', error);
+    throw error;
+  }
+};
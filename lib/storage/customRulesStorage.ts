@@ -20,13 +20,11 @@ export interface CustomRule {
     type: 'points' | 'multiplier';
     value: number;
   };
+  splitFromId?: string; // Set on a rule split out of a legacy rule; the two may be selected together
   createdAt: number;
-  // Legacy support - for backward compatibility
-  type?: 'multiplier' | 'points' | 'opponentDeduction' | 'discarderDeduction';
-  value?: number;
 }
 
-const CUSTOM_RULES_STORAGE_KEY = '@mahjong_calculator_custom_rules';
+export const CUSTOM_RULES_STORAGE_KEY = '@mahjong_calculator_custom_rules';
 
 export const saveCustomRule = async (rule: CustomRule): Promise<void> => {
   try {
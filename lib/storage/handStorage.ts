@@ -1,7 +1,64 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { SavedHand } from '../types/game';
+import { SavedHand, SavedHandEdit } from '../types/game';
+import { filterHandsByCardSetAndYear, type StatsCardSet } from '../utils/savedHandSort';
+import type { HandCardYear } from '../data/handCategories';
 
-const HANDS_STORAGE_KEY = '@mahjong_calculator_hands';
+export const HANDS_STORAGE_KEY = '@mahjong_calculator_hands';
+
+/** Fields whose changes are recorded in a hand's edit history. */
+const EDIT_HISTORY_FIELDS = [
+  'handName',
+  'basePoints',
+  'winType',
+  'jokerless',
+  'singlesAndPairs',
+  'noExposures',
+  'totalToWinner',
+  'displayMode',
+  'mode',
+  'cardYear',
+  'categoryId',
+  'lineNumber',
+  'exposurePenalty',
+  'winnerExposureCount',
+  'isWinner',
+  'wallGame',
+  'kittyPayout',
+] as const;
+
+type EditChange = SavedHandEdit['changes'][number];
+
+/** Objects and arrays are recorded as JSON so the history stays flat. */
+const historyValue = (value: unknown): EditChange['from'] =>
+  value === undefined || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+    ? value
+    : JSON.stringify(value);
+
+/** Per-key changes inside a nested record such as the saved controls. */
+const diffNested = (
+  prefix: 'controls' | 'scoreInput.input',
+  previous: object | undefined,
+  next: object | undefined
+): EditChange[] => {
+  const before: Record<string, unknown> = { ...previous };
+  const after: Record<string, unknown> = { ...next };
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  return keys
+    .filter((key) => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map((key) => ({
+      field: `${prefix}.${key}` as const,
+      from: historyValue(before[key]),
+      to: historyValue(after[key]),
+    }));
+};
+
+const diffHands = (previous: SavedHand, next: SavedHand): SavedHandEdit['changes'] => [
+  ...EDIT_HISTORY_FIELDS
+    .filter((field) => previous[field] !== next[field])
+    .map((field) => ({ field, from: previous[field], to: next[field] })),
+  ...diffNested('controls', previous.controls, next.controls),
+  ...diffNested('scoreInput.input', previous.scoreInput?.input, next.scoreInput?.input),
+];
 
 export const saveHand = async (hand: SavedHand): Promise<void> => {
   try {
@@ -27,6 +84,59 @@ export const getSavedHands = async (): Promise<SavedHand[]> => {
   }
 };
 
+/**
+ * Replace a saved hand (matched by id) with a corrected version. What changed
+ * is appended to the hand's edit history; the stored history is kept even if
+ * the caller passes an older copy.
+ */
+export const updateHand = async (hand: SavedHand): Promise<void> => {
+  try {
+    const hands = await getSavedHands();
+    const index = hands.findIndex(h => h.id === hand.id);
+    if (index < 0) {
+      throw new Error(`Saved hand ${hand.id} not found`);
+    }
+    const previous = hands[index];
+    const changes = diffHands(previous, hand);
+    const edits = previous.edits ?? [];
+    hands[index] = {
+      ...hand,
+      edits: changes.length > 0 ? [...edits, { editedAt: Date.now(), changes }] : edits,
+    };
+    await AsyncStorage.setItem(HANDS_STORAGE_KEY, JSON.stringify(hands));
+  } catch (error) {
+    console.error('Error updating hand:', error);
+    throw error;
+  }
+};
+
+/**
+ * Merge hands from an import. Hands whose id is already saved (or repeated
+ * in the import) are skipped.
+ */
+export const importHands = async (
+  hands: SavedHand[]
+): Promise<{ added: number; duplicates: number }> => {
+  try {
+    const existingHands = await getSavedHands();
+    const seen = new Set(existingHands.map((h) => h.id));
+    const added: SavedHand[] = [];
+    hands.forEach((hand) => {
+      if (!seen.has(hand.id)) {
+        seen.add(hand.id);
+        added.push(hand);
+      }
+    });
+    if (added.length > 0) {
+      await AsyncStorage.setItem(HANDS_STORAGE_KEY, JSON.stringify([...existingHands, ...added]));
+    }
+    return { added: added.length, duplicates: hands.length - added.length };
+  } catch (error) {
+    console.error('Error importing hands:', error);
+    throw error;
+  }
+};
+
 export const deleteHand = async (handId: string): Promise<void> => {
   try {
     const hands = await getSavedHands();
@@ -47,18 +157,15 @@ export const clearAllHands = async (): Promise<void> => {
   }
 };
 
+/** Delete the hands shown for a card set and year in statistics (every year for Chinese Official). */
 export const clearHandsForCardSetAndYear = async (
-  cardSet: 'american' | 'international',
-  year: string
+  cardSet: StatsCardSet,
+  year: HandCardYear
 ): Promise<void> => {
   try {
     const hands = await getSavedHands();
-    const remaining = hands.filter((hand) => {
-      const handCardSet =
-        hand.mode === 'international' ? 'international' : 'american';
-      const handYear = hand.cardYear ?? '2025';
-      return !(handCardSet === cardSet && handYear === year);
-    });
+    const cleared = new Set(filterHandsByCardSetAndYear(hands, cardSet, year).map((hand) => hand.id));
+    const remaining = hands.filter((hand) => !cleared.has(hand.id));
     await AsyncStorage.setItem(HANDS_STORAGE_KEY, JSON.stringify(remaining));
   } catch (error) {
     console.error('Error clearing hands for card set and year:', error);
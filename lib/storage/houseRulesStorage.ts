@@ -0,0 +1,79 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { HouseRuleProfile } from '../types/houseRules';
+
+export const HOUSE_RULES_STORAGE_KEY = '@mahjong_calculator_house_rules';
+const ACTIVE_HOUSE_RULES_STORAGE_KEY = '@mahjong_calculator_active_house_rules';
+
+export const getHouseRuleProfiles = async (): Promise<HouseRuleProfile[]> => {
+  try {
+    const data = await AsyncStorage.getItem(HOUSE_RULES_STORAGE_KEY);
+    if (data) {
+      return JSON.parse(data);
+    }
+    return [];
+  } catch (error) {
+    console.error('Error loading house rule profiles:', error);
+    return [];
+  }
+};
+
+export const saveHouseRuleProfile = async (profile: HouseRuleProfile): Promise<void> => {
+  try {
+    const profiles = await getHouseRuleProfiles();
+    const existingIndex = profiles.findIndex((p) => p.id === profile.id);
+    const updated = [...profiles];
+    if (existingIndex >= 0) {
+      updated[existingIndex] = profile;
+    } else {
+      updated.push(profile);
+    }
+    await AsyncStorage.setItem(HOUSE_RULES_STORAGE_KEY, JSON.stringify(updated));
+  } catch (error) {
+    console.error('Error saving house rule profile:', error);
+    throw error;
+  }
+};
+
+export const deleteHouseRuleProfile = async (profileId: string): Promise<void> => {
+  try {
+    const profiles = await getHouseRuleProfiles();
+    const filtered = profiles.filter((p) => p.id !== profileId);
+    await AsyncStorage.setItem(HOUSE_RULES_STORAGE_KEY, JSON.stringify(filtered));
+    if ((await getActiveHouseRuleProfileId()) === profileId) {
+      await setActiveHouseRuleProfileId(null);
+    }
+  } catch (error) {
+    console.error('Error deleting house rule profile:', error);
+    throw error;
+  }
+};
+
+export const getActiveHouseRuleProfileId = async (): Promise<string | null> => {
+  try {
+    return await AsyncStorage.getItem(ACTIVE_HOUSE_RULES_STORAGE_KEY);
+  } catch (error) {
+    console.error('Error loading active house rule profile:', error);
+    return null;
+  }
+};
+
+export const setActiveHouseRuleProfileId = async (profileId: string | null): Promise<void> => {
+  try {
+    if (profileId) {
+      await AsyncStorage.setItem(ACTIVE_HOUSE_RULES_STORAGE_KEY, profileId);
+    } else {
+      await AsyncStorage.removeItem(ACTIVE_HOUSE_RULES_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error('Error setting active house rule profile:', error);
+    throw error;
+  }
+};
+
+/** The profile currently in force, or null when none is selected. */
+export const getActiveHouseRuleProfile = async (): Promise<HouseRuleProfile | null> => {
+  const activeId = await getActiveHouseRuleProfileId();
+  if (!activeId) return null;
+  const profiles = await getHouseRuleProfiles();
+  return profiles.find((p) => p.id === activeId) ?? null;
+};
@@ -0,0 +1,186 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { SavedHand } from '../types/game';
+import type { CustomRuleValues, HouseRuleProfile } from '../types/houseRules';
+import { HANDS_STORAGE_KEY } from './handStorage';
+import { CUSTOM_RULES_STORAGE_KEY, type CustomRule } from './customRulesStorage';
+import { HOUSE_RULES_STORAGE_KEY } from './houseRulesStorage';
+
+/** Schema version of each migrated key; a key that is missing has never been migrated (version 0). */
+export const SCHEMA_VERSIONS_STORAGE_KEY = '@mahjong_calculator_schema_versions';
+
+interface Migration<T> {
+  version: number; // Version the data is at once this migration has run
+  description: string;
+  migrate: (items: unknown[]) => T[];
+}
+
+/** Custom rules saved before winnerBonus/penalties existed carry a single type/value pair. */
+export type LegacyCustomRule = CustomRule & {
+  type?: 'multiplier' | 'points' | 'opponentDeduction' | 'discarderDeduction';
+  value?: number;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Stored rules always have an ID and a title; anything else is not a rule. */
+const isStoredCustomRule = (value: unknown): value is LegacyCustomRule =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.title === 'string';
+
+/** A rule holding only the legacy effect that could not be merged into the original. */
+const splitLegacyEffect = (rule: CustomRule, effect: Partial<CustomRule>): CustomRule => ({
+  id: `${rule.id}_legacy`,
+  title: `${rule.title} (earlier value)`,
+  description: `Split from "${rule.title}" when it was upgraded. Select both to score as before.`,
+  ...effect,
+  splitFromId: rule.id,
+  createdAt: rule.createdAt,
+});
+
+/**
+ * Move a legacy type/value pair into the matching new-format field. Legacy
+ * penalties were always points. When the rule already has that field with the
+ * same type the two are combined, as scoring used to apply both; with a
+ * different type the legacy effect is split into a second rule so neither is lost.
+ */
+export const upgradeLegacyCustomRule = (rule: LegacyCustomRule): CustomRule[] => {
+  const { type, value, ...upgraded } = rule;
+  if (!type || !value) return [upgraded];
+
+  if (type === 'multiplier' || type === 'points') {
+    const existing = upgraded.winnerBonus;
+    if (!existing) {
+      upgraded.winnerBonus = { type, value };
+    } else if (existing.type === type) {
+      upgraded.winnerBonus = {
+        type,
+        value: type === 'multiplier' ? existing.value * value : existing.value + value,
+      };
+    } else {
+      return [upgraded, splitLegacyEffect(upgraded, { winnerBonus: { type, value } })];
+    }
+    return [upgraded];
+  }
+
+  const field = type === 'discarderDeduction' ? 'discarderPenalty' : 'allPlayerPenalty';
+  const existing = upgraded[field];
+  if (!existing?.enabled) {
+    upgraded[field] = { enabled: true, type: 'points', value };
+  } else if (existing.type === 'points') {
+    upgraded[field] = { ...existing, value: existing.value + value };
+  } else {
+    return [upgraded, splitLegacyEffect(upgraded, { [field]: { enabled: true, type: 'points', value } })];
+  }
+  return [upgraded];
+};
+
+/**
+ * Upgrade rules that are in force together, such as a house profile's. A rule
+ * split out of a legacy rule is in force wherever the original is and takes
+ * the original's per-rule value, so the pair scores as the legacy rule did.
+ */
+export const upgradeSelectedCustomRules = (
+  rules: LegacyCustomRule[],
+  values: CustomRuleValues
+): { customRules: CustomRule[]; customRuleValues: CustomRuleValues } => {
+  const customRules = rules.flatMap(upgradeLegacyCustomRule);
+  const customRuleValues = { ...values };
+  customRules.forEach((rule) => {
+    if (rule.splitFromId && values[rule.splitFromId] && !customRuleValues[rule.id]) {
+      customRuleValues[rule.id] = values[rule.splitFromId];
+    }
+  });
+  return { customRules, customRuleValues };
+};
+
+const HAND_MIGRATIONS: Migration<SavedHand>[] = [
+  {
+    version: 1,
+    description: 'Hands saved before card years were tracked are from the 2025 card',
+    migrate: (hands) =>
+      hands.filter(isRecord).map((hand) => ({ ...hand, cardYear: hand.cardYear ?? '2025' }) as SavedHand),
+  },
+];
+
+const CUSTOM_RULE_MIGRATIONS: Migration<CustomRule>[] = [
+  {
+    version: 1,
+    description: 'Convert legacy type/value rules to winner bonus and penalties',
+    migrate: (rules) => rules.filter(isStoredCustomRule).flatMap(upgradeLegacyCustomRule),
+  },
+];
+
+const HOUSE_RULE_MIGRATIONS: Migration<HouseRuleProfile>[] = [
+  {
+    version: 1,
+    description: 'Convert legacy custom rules kept in profiles, selecting their split rules',
+    migrate: (profiles) =>
+      profiles.filter(isRecord).map((profile) => ({
+        ...profile,
+        ...upgradeSelectedCustomRules(
+          Array.isArray(profile.customRules) ? profile.customRules.filter(isStoredCustomRule) : [],
+          isRecord(profile.customRuleValues) ? (profile.customRuleValues as CustomRuleValues) : {}
+        ),
+      }) as HouseRuleProfile),
+  },
+];
+
+/** Every migrated key with its migrations, oldest first. */
+const MIGRATED_KEYS: { key: string; migrations: Migration<unknown>[] }[] = [
+  { key: HANDS_STORAGE_KEY, migrations: HAND_MIGRATIONS },
+  { key: CUSTOM_RULES_STORAGE_KEY, migrations: CUSTOM_RULE_MIGRATIONS },
+  { key: HOUSE_RULES_STORAGE_KEY, migrations: HOUSE_RULE_MIGRATIONS },
+];
+
+export const latestSchemaVersion = (key: string): number => {
+  const entry = MIGRATED_KEYS.find((k) => k.key === key);
+  return entry ? Math.max(0, ...entry.migrations.map((m) => m.version)) : 0;
+};
+
+export const getSchemaVersions = async (): Promise<Record<string, number>> => {
+  const data = await AsyncStorage.getItem(SCHEMA_VERSIONS_STORAGE_KEY);
+  return data ? JSON.parse(data) : {};
+};
+
+/** Run the pending migrations on an array of items stored at a version. */
+export const migrateItems = <T>(key: string, items: unknown[], fromVersion: number): T[] => {
+  const entry = MIGRATED_KEYS.find((k) => k.key === key);
+  if (!entry) return items as T[];
+  return entry.migrations
+    .filter((m) => m.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+    .reduce((current, migration) => migration.migrate(current), items) as T[];
+};
+
+/**
+ * Bring every migrated key up to its latest schema version. Run once at
+ * startup before anything reads storage. A key whose migration fails is left
+ * untouched at its old version so it is retried on the next launch.
+ */
+export const runStorageMigrations = async (): Promise<void> => {
+  let versions: Record<string, number>;
+  try {
+    versions = await getSchemaVersions();
+  } catch (error) {
+    console.error('Error loading schema versions:', error);
+    return;
+  }
+
+  for (const { key } of MIGRATED_KEYS) {
+    const fromVersion = versions[key] ?? 0;
+    const toVersion = latestSchemaVersion(key);
+    if (fromVersion >= toVersion) continue;
+    try {
+      const data = await AsyncStorage.getItem(key);
+      const items: unknown = data ? JSON.parse(data) : null;
+      if (Array.isArray(items)) {
+        const migrated = migrateItems(key, items, fromVersion);
+        await AsyncStorage.setItem(key, JSON.stringify(migrated));
+      }
+      versions = { ...versions, [key]: toVersion };
+      await AsyncStorage.setItem(SCHEMA_VERSIONS_STORAGE_KEY, JSON.stringify(versions));
+    } catch (error) {
+      console.error(`Error migrating ${key}:`, error);
+    }
+  }
+};
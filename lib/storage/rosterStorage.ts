@@ -0,0 +1,45 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { RosterPlayer } from '../types/player';
+
+const ROSTER_STORAGE_KEY = '@mahjong_calculator_roster';
+
+export const getRoster = async (): Promise<RosterPlayer[]> => {
+  try {
+    const data = await AsyncStorage.getItem(ROSTER_STORAGE_KEY);
+    if (data) {
+      return JSON.parse(data);
+    }
+    return [];
+  } catch (error) {
+    console.error('Error loading player roster:', error);
+    return [];
+  }
+};
+
+export const saveRosterPlayer = async (player: RosterPlayer): Promise<void> => {
+  try {
+    const roster = await getRoster();
+    const existingIndex = roster.findIndex((p) => p.id === player.id);
+    const updated = [...roster];
+    if (existingIndex >= 0) {
+      updated[existingIndex] = player;
+    } else {
+      updated.push(player);
+    }
+    await AsyncStorage.setItem(ROSTER_STORAGE_KEY, JSON.stringify(updated));
+  } catch (error) {
+    console.error('Error saving roster player:', error);
+    throw error;
+  }
+};
+
+export const deleteRosterPlayer = async (playerId: string): Promise<void> => {
+  try {
+    const roster = await getRoster();
+    const filtered = roster.filter((p) => p.id !== playerId);
+    await AsyncStorage.setItem(ROSTER_STORAGE_KEY, JSON.stringify(filtered));
+  } catch (error) {
+    console.error('Error deleting roster player:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,23 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { RoundTimer } from '../types/tournament';
+
+const ROUND_TIMER_STORAGE_KEY = '@mahjong_calculator_round_timer';
+
+export const getRoundTimer = async (): Promise<RoundTimer | null> => {
+  try {
+    const data = await AsyncStorage.getItem(ROUND_TIMER_STORAGE_KEY);
+    return data ? JSON.parse(data) : null;
+  } catch (error) {
+    console.error('Error loading round timer:', error);
+    return null;
+  }
+};
+
+export const saveRoundTimer = async (timer: RoundTimer): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(ROUND_TIMER_STORAGE_KEY, JSON.stringify(timer));
+  } catch (error) {
+    console.error('Error saving round timer:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,183 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { GameSession, SessionHand, SessionPlayer } from '../types/session';
+
+const SESSIONS_STORAGE_KEY = '@mahjong_calculator_sessions';
+const ACTIVE_SESSION_STORAGE_KEY = '@mahjong_calculator_active_session';
+
+const writeSessions = async (sessions: GameSession[]): Promise<void> => {
+  await AsyncStorage.setItem(SESSIONS_STORAGE_KEY, JSON.stringify(sessions));
+};
+
+export const getSessions = async (): Promise<GameSession[]> => {
+  try {
+    const data = await AsyncStorage.getItem(SESSIONS_STORAGE_KEY);
+    if (data) {
+      return JSON.parse(data);
+    }
+    return [];
+  } catch (error) {
+    console.error('Error loading sessions:', error);
+    return [];
+  }
+};
+
+/** Ended sessions, most recent first. */
+export const getArchivedSessions = async (): Promise<GameSession[]> => {
+  const sessions = await getSessions();
+  return sessions
+    .filter((s) => s.endedAt !== undefined)
+    .sort((a, b) => (b.endedAt ?? 0) - (a.endedAt ?? 0));
+};
+
+export const getActiveSession = async (): Promise<GameSession | null> => {
+  try {
+    const activeId = await AsyncStorage.getItem(ACTIVE_SESSION_STORAGE_KEY);
+    if (!activeId) return null;
+    const sessions = await getSessions();
+    const session = sessions.find((s) => s.id === activeId);
+    return session && session.endedAt === undefined ? session : null;
+  } catch (error) {
+    console.error('Error loading active session:', error);
+    return null;
+  }
+};
+
+export const saveSession = async (session: GameSession): Promise<void> => {
+  try {
+    const sessions = await getSessions();
+    const existingIndex = sessions.findIndex((s) => s.id === session.id);
+    const updated = [...sessions];
+    if (existingIndex >= 0) {
+      updated[existingIndex] = session;
+    } else {
+      updated.push(session);
+    }
+    await writeSessions(updated);
+  } catch (error) {
+    console.error('Error saving session:', error);
+    throw error;
+  }
+};
+
+/** Start a new session and make it the active one. Any active session is ended first. */
+export const startSession = async (
+  name: string,
+  players: SessionPlayer[],
+  displayMode: GameSession['displayMode'],
+  rotationRules?: GameSession['rotationRules']
+): Promise<GameSession> => {
+  try {
+    const current = await getActiveSession();
+    if (current) {
+      await endSession(current.id);
+    }
+    const session: GameSession = {
+      id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      name,
+      startedAt: Date.now(),
+      displayMode,
+      players,
+      hands: [],
+      rotationRules,
+    };
+    await saveSession(session);
+    await AsyncStorage.setItem(ACTIVE_SESSION_STORAGE_KEY, session.id);
+    return session;
+  } catch (error) {
+    console.error('Error starting session:', error);
+    throw error;
+  }
+};
+
+export const addHandToSession = async (
+  sessionId: string,
+  hand: SessionHand
+): Promise<GameSession> => {
+  try {
+    const sessions = await getSessions();
+    const session = sessions.find((s) => s.id === sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    const updated: GameSession = { ...session, hands: [...session.hands, hand] };
+    await saveSession(updated);
+    return updated;
+  } catch (error) {
+    console.error('Error adding hand to session:', error);
+    throw error;
+  }
+};
+
+export const removeHandFromSession = async (
+  sessionId: string,
+  handId: string
+): Promise<GameSession | null> => {
+  try {
+    const sessions = await getSessions();
+    const session = sessions.find((s) => s.id === sessionId);
+    if (!session) return null;
+    const updated: GameSession = {
+      ...session,
+      hands: session.hands.filter((h) => h.id !== handId),
+    };
+    await saveSession(updated);
+    return updated;
+  } catch (error) {
+    console.error('Error removing hand from session:', error);
+    throw error;
+  }
+};
+
+/** End a session and move it to the archive. */
+export const endSession = async (sessionId: string): Promise<void> => {
+  try {
+    const sessions = await getSessions();
+    const session = sessions.find((s) => s.id === sessionId);
+    if (session) {
+      await saveSession({ ...session, endedAt: Date.now() });
+    }
+    const activeId = await AsyncStorage.getItem(ACTIVE_SESSION_STORAGE_KEY);
+    if (activeId === sessionId) {
+      await AsyncStorage.removeItem(ACTIVE_SESSION_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error('Error ending session:', error);
+    throw error;
+  }
+};
+
+/** Reopen an archived session as the active one. Any other active session is ended first. */
+export const resumeSession = async (sessionId: string): Promise<GameSession> => {
+  try {
+    const current = await getActiveSession();
+    if (current && current.id !== sessionId) {
+      await endSession(current.id);
+    }
+    const sessions = await getSessions();
+    const session = sessions.find((s) => s.id === sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    const resumed: GameSession = { ...session, endedAt: undefined };
+    await saveSession(resumed);
+    await AsyncStorage.setItem(ACTIVE_SESSION_STORAGE_KEY, sessionId);
+    return resumed;
+  } catch (error) {
+    console.error('Error resuming session:', error);
+    throw error;
+  }
+};
+
+export const deleteSession = async (sessionId: string): Promise<void> => {
+  try {
+    const sessions = await getSessions();
+    await writeSessions(sessions.filter((s) => s.id !== sessionId));
+    const activeId = await AsyncStorage.getItem(ACTIVE_SESSION_STORAGE_KEY);
+    if (activeId === sessionId) {
+      await AsyncStorage.removeItem(ACTIVE_SESSION_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error('Error deleting session:', error);
+    throw error;
+  }
+};
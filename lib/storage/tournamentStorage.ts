@@ -0,0 +1,297 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { generateTableAssignments } from '../utils/tournamentEvent';
+import { getTournamentRuleSet, parseTournamentRuleSet } from '../scoring/tournamentRules';
+import type { TournamentRuleSet } from '../scoring/types';
+import type { ShortTablePolicy } from '../utils/pairing';
+import type {
+  StandingsTieBreaker,
+  TournamentEntrant,
+  TournamentEvent,
+  TournamentEventHand,
+} from '../types/tournament';
+
+const TOURNAMENT_EVENTS_STORAGE_KEY = '@mahjong_calculator_tournament_events';
+const ACTIVE_TOURNAMENT_EVENT_STORAGE_KEY = '@mahjong_calculator_active_tournament_event';
+const TOURNAMENT_RULE_SET_STORAGE_KEY = '@mahjong_calculator_tournament_rule_set';
+
+const writeEvents = async (events: TournamentEvent[]): Promise<void> => {
+  await AsyncStorage.setItem(TOURNAMENT_EVENTS_STORAGE_KEY, JSON.stringify(events));
+};
+
+export const getTournamentEvents = async (): Promise<TournamentEvent[]> => {
+  try {
+    const data = await AsyncStorage.getItem(TOURNAMENT_EVENTS_STORAGE_KEY);
+    if (data) {
+      return JSON.parse(data);
+    }
+    return [];
+  } catch (error) {
+    console.error('Error loading tournament events:', error);
+    return [];
+  }
+};
+
+/** Ended events, most recent first. */
+export const getArchivedTournamentEvents = async (): Promise<TournamentEvent[]> => {
+  const events = await getTournamentEvents();
+  return events
+    .filter((e) => e.endedAt !== undefined)
+    .sort((a, b) => (b.endedAt ?? 0) - (a.endedAt ?? 0));
+};
+
+export const getActiveTournamentEvent = async (): Promise<TournamentEvent | null> => {
+  try {
+    const activeId = await AsyncStorage.getItem(ACTIVE_TOURNAMENT_EVENT_STORAGE_KEY);
+    if (!activeId) return null;
+    const events = await getTournamentEvents();
+    const event = events.find((e) => e.id === activeId);
+    return event && event.endedAt === undefined ? event : null;
+  } catch (error) {
+    console.error('Error loading active tournament event:', error);
+    return null;
+  }
+};
+
+export const saveTournamentEvent = async (event: TournamentEvent): Promise<void> => {
+  try {
+    const events = await getTournamentEvents();
+    const existingIndex = events.findIndex((e) => e.id === event.id);
+    const updated = [...events];
+    if (existingIndex >= 0) {
+      updated[existingIndex] = event;
+    } else {
+      updated.push(event);
+    }
+    await writeEvents(updated);
+  } catch (error) {
+    console.error('Error saving tournament event:', error);
+    throw error;
+  }
+};
+
+/** Load an event, apply a change and save it. Throws when the event does not exist. */
+const updateTournamentEvent = async (
+  eventId: string,
+  change: (event: TournamentEvent) => TournamentEvent
+): Promise<TournamentEvent> => {
+  const events = await getTournamentEvents();
+  const event = events.find((e) => e.id === eventId);
+  if (!event) {
+    throw new Error(`Tournament event ${eventId} not found`);
+  }
+  const updated = change(event);
+  await saveTournamentEvent(updated);
+  return updated;
+};
+
+/** Register a new event and make it the active one. Any active event is ended first. */
+export const createTournamentEvent = async (
+  name: string,
+  entrants: TournamentEntrant[],
+  tieBreakers: StandingsTieBreaker[],
+  shortTables: ShortTablePolicy
+): Promise<TournamentEvent> => {
+  try {
+    const current = await getActiveTournamentEvent();
+    if (current) {
+      await endTournamentEvent(current.id);
+    }
+    const event: TournamentEvent = {
+      id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      name,
+      createdAt: Date.now(),
+      entrants,
+      rounds: [],
+      tieBreakers,
+      shortTables,
+    };
+    await saveTournamentEvent(event);
+    await AsyncStorage.setItem(ACTIVE_TOURNAMENT_EVENT_STORAGE_KEY, event.id);
+    return event;
+  } catch (error) {
+    console.error('Error creating tournament event:', error);
+    throw error;
+  }
+};
+
+/**
+ * Close the current round and seat the entrants still playing for the next
+ * one, keeping players who have met apart (grouped by standings when seeded).
+ */
+export const startNextRound = async (
+  eventId: string,
+  seedByStandings: boolean = false
+): Promise<TournamentEvent> => {
+  try {
+    return await updateTournamentEvent(eventId, (event) => {
+      const now = Date.now();
+      const { tables, byeIds, repeatPairings } = generateTableAssignments(event, { seedByStandings });
+      if (tables.length === 0) {
+        throw new Error('Not enough entrants still playing to seat a table');
+      }
+      const rounds = event.rounds.map((round, index) =>
+        index === event.rounds.length - 1 && round.completedAt === undefined
+          ? { ...round, completedAt: now }
+          : round
+      );
+      return {
+        ...event,
+        rounds: [
+          ...rounds,
+          {
+            roundNumber: rounds.length + 1,
+            startedAt: now,
+            tables,
+            byeIds,
+            seeded: seedByStandings,
+            repeatPairings,
+            hands: [],
+          },
+        ],
+        scoringTableNumber: undefined,
+      };
+    });
+  } catch (error) {
+    console.error('Error starting tournament round:', error);
+    throw error;
+  }
+};
+
+/** Choose the current round's table the calculator records hands for (undefined to stop). */
+export const setScoringTable = async (
+  eventId: string,
+  tableNumber: number | undefined
+): Promise<TournamentEvent> => {
+  try {
+    return await updateTournamentEvent(eventId, (event) => ({ ...event, scoringTableNumber: tableNumber }));
+  } catch (error) {
+    console.error('Error setting scoring table:', error);
+    throw error;
+  }
+};
+
+/** Record a hand in the event's current round. */
+export const addHandToTournamentEvent = async (
+  eventId: string,
+  hand: TournamentEventHand
+): Promise<TournamentEvent> => {
+  try {
+    return await updateTournamentEvent(eventId, (event) => {
+      const current = event.rounds[event.rounds.length - 1];
+      if (!current) {
+        throw new Error('Start a round before recording hands');
+      }
+      const rounds = [...event.rounds];
+      rounds[rounds.length - 1] = { ...current, hands: [...current.hands, hand] };
+      return { ...event, rounds };
+    });
+  } catch (error) {
+    console.error('Error adding hand to tournament event:', error);
+    throw error;
+  }
+};
+
+export const removeHandFromTournamentEvent = async (
+  eventId: string,
+  roundNumber: number,
+  handId: string
+): Promise<TournamentEvent> => {
+  try {
+    return await updateTournamentEvent(eventId, (event) => ({
+      ...event,
+      rounds: event.rounds.map((round) =>
+        round.roundNumber === roundNumber
+          ? { ...round, hands: round.hands.filter((h) => h.id !== handId) }
+          : round
+      ),
+    }));
+  } catch (error) {
+    console.error('Error removing hand from tournament event:', error);
+    throw error;
+  }
+};
+
+/** Withdraw an entrant from later rounds, or reinstate them. */
+export const setEntrantWithdrawn = async (
+  eventId: string,
+  entrantId: string,
+  withdrawn: boolean
+): Promise<TournamentEvent> => {
+  try {
+    return await updateTournamentEvent(eventId, (event) => ({
+      ...event,
+      entrants: event.entrants.map((e) => (e.id === entrantId ? { ...e, withdrawn } : e)),
+    }));
+  } catch (error) {
+    console.error('Error updating tournament entrant:', error);
+    throw error;
+  }
+};
+
+/** End an event and move it to the archive. */
+export const endTournamentEvent = async (eventId: string): Promise<void> => {
+  try {
+    const events = await getTournamentEvents();
+    const event = events.find((e) => e.id === eventId);
+    if (event) {
+      const now = Date.now();
+      await saveTournamentEvent({
+        ...event,
+        endedAt: now,
+        rounds: event.rounds.map((round) => ({ ...round, completedAt: round.completedAt ?? now })),
+        scoringTableNumber: undefined,
+      });
+    }
+    const activeId = await AsyncStorage.getItem(ACTIVE_TOURNAMENT_EVENT_STORAGE_KEY);
+    if (activeId === eventId) {
+      await AsyncStorage.removeItem(ACTIVE_TOURNAMENT_EVENT_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error('Error ending tournament event:', error);
+    throw error;
+  }
+};
+
+export const deleteTournamentEvent = async (eventId: string): Promise<void> => {
+  try {
+    const events = await getTournamentEvents();
+    await writeEvents(events.filter((e) => e.id !== eventId));
+    const activeId = await AsyncStorage.getItem(ACTIVE_TOURNAMENT_EVENT_STORAGE_KEY);
+    if (activeId === eventId) {
+      await AsyncStorage.removeItem(ACTIVE_TOURNAMENT_EVENT_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error('Error deleting tournament event:', error);
+    throw error;
+  }
+};
+
+/**
+ * The rule set tournament hands are scored with. A stored set that no longer
+ * parses falls back to the preset with its id, then to NMJL.
+ */
+export const getSelectedTournamentRuleSet = async (): Promise<TournamentRuleSet> => {
+  try {
+    const data = await AsyncStorage.getItem(TOURNAMENT_RULE_SET_STORAGE_KEY);
+    if (!data) return getTournamentRuleSet();
+    const stored = JSON.parse(data);
+    try {
+      return parseTournamentRuleSet(stored);
+    } catch (error) {
+      console.error('Error reading tournament rule set:', error);
+      return getTournamentRuleSet(stored?.id);
+    }
+  } catch (error) {
+    console.error('Error loading tournament rule set:', error);
+    return getTournamentRuleSet();
+  }
+};
+
+export const saveSelectedTournamentRuleSet = async (ruleSet: TournamentRuleSet): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(TOURNAMENT_RULE_SET_STORAGE_KEY, JSON.stringify(ruleSet));
+  } catch (error) {
+    console.error('Error saving tournament rule set:', error);
+    throw error;
+  }
+};
@@ -1,4 +1,86 @@
 import type { HandCardYear } from '@/lib/data/handCategories';
+import type { ScoreInput, TournamentGameResult, TournamentInput, WinType } from '@/lib/scoring/types';
+import type { ChineseOfficialInput } from '@/lib/scoring/chineseOfficial/chineseOfficialTypes';
+
+/** Chinese Official input as stored: the fan ID set becomes an array so it survives JSON. */
+export type StoredChineseOfficialInput = Omit<ChineseOfficialInput, 'selectedFanIDs'> & {
+  selectedFanIDs: string[];
+};
+
+/**
+ * Calculator controls behind a saved NMJL/International hand, kept as the
+ * calculator holds them so editing the hand can put every control back.
+ */
+export interface StandardHandControls {
+  basePoints: string;
+  winType: WinType;
+  jokerless: boolean;
+  misnamedJoker: boolean;
+  heavenlyHand: boolean;
+  noExposures: boolean;
+  exposurePenaltyEnabled: boolean;
+  exposurePenaltyPerExposure: string;
+  winnerExposureCount: string;
+  lastTileFromWall: boolean;
+  lastTileClaim: boolean;
+  robbingTheJoker: boolean;
+  eastDouble: boolean;
+  isWinnerEast: boolean;
+  wallGame: boolean;
+  kittyEnabled: boolean;
+  kittyPayout: string;
+  displayMode: 'currency' | 'points';
+  numPlayers: number;
+  categoryId: string;
+  lineNumber: string;
+  handName: string;
+  selectedCustomRuleIds: string[];
+  customRuleValues: Record<string, { type: 'multiplier' | 'points'; value: number }>;
+}
+
+/** One correction to a saved hand: the fields that changed and their old and new values. */
+export interface SavedHandEdit {
+  editedAt: number;
+  changes: {
+    /** A top-level field, or a dotted path into the hand's controls or score input. */
+    field: keyof SavedHand | `controls.${string}` | `scoreInput.input.${string}`;
+    from?: string | number | boolean;
+    to?: string | number | boolean;
+  }[];
+}
+
+/** What a Chinese Official hand was scored from and what it paid. */
+export interface SavedChineseOfficialDetails {
+  fans: { id: string; name: string; points: number }[]; // Fans that scored, after non-repeat rules
+  fanPointsSum: number; // Counts toward the 8-point minimum
+  flowerCount: number;
+  totalPoints: number; // Fans plus flowers
+  isSelfDraw: boolean;
+  isConcealed: boolean;
+  inputMode: 'fanSelection' | 'tileInput';
+  /** Tiles as entered with the tile picker ("1m", "E", "RD", "F1", ...). */
+  tiles?: string[];
+  payouts: number[];
+  payerMap?: Record<string, number>; // Player ID -> amount paid
+}
+
+/** Outcome and per-player points of a tournament hand. */
+export interface SavedTournamentDetails {
+  gameResult: TournamentGameResult;
+  wallGame: boolean;
+  winnerId?: string;
+  discarderId?: string;
+  deadPlayerIds: string[];
+  pointsByPlayer: Record<string, number>; // Signed; includes discarder penalties and wall awards
+  playerNames: Record<string, string>; // Names at the time, since player IDs are table-specific
+  breakdown: string[];
+}
+
+/** The exact engine input that produced a saved hand, tagged with the engine that takes it. */
+export type SavedScoreInput =
+  | { engine: 'standard'; input: ScoreInput }
+  | { engine: 'tournament'; input: TournamentInput }
+  | { engine: 'chineseOfficial'; input: StoredChineseOfficialInput };
 
 export interface SavedHand {
   id: string;
@@ -11,9 +93,12 @@ export interface SavedHand {
   noExposures: boolean;
   totalToWinner: number;
   displayMode: "currency" | "points";
-  mode: "standard" | "tournament" | "international";
-  /** NMJL card year used when the hand was saved. */
-  cardYear?: HandCardYear;
+  mode: "standard" | "tournament" | "international" | "chineseOfficial";
+  /**
+   * NMJL card year used when the hand was saved (2025 for hands saved before years were tracked).
+   * Chinese Official has no card; its hands carry the latest year and statistics ignore it.
+   */
+  cardYear: HandCardYear;
   /** Hand category id from the card (for statistics sorting). */
   categoryId?: string;
   /** Line number on the card (for statistics sorting). */
@@ -31,6 +116,18 @@ export interface SavedHand {
   isWinner: boolean; // Whether the current user was the winner
   wallGame?: boolean; // Whether this was a wall game (no wins)
   kittyPayout?: number; // Kitty payout amount if kitty was enabled
+  /** Full engine input, so the hand can be re-scored (absent on hands saved before it was stored). */
+  scoreInput?: SavedScoreInput;
+  /** SCORING_ENGINE_VERSION that computed totalToWinner. */
+  engineVersion?: number;
+  /** Calculator state when saved, for the edit flow. */
+  controls?: StandardHandControls;
+  /** Corrections and re-scores since the hand was first saved, oldest first. */
+  edits?: SavedHandEdit[];
+  /** Fans, tiles and payouts (Chinese Official hands only). */
+  chineseOfficial?: SavedChineseOfficialDetails;
+  /** Game outcome and every player's points (tournament hands only). */
+  tournament?: SavedTournamentDetails;
 }
 
 export interface PlayerStats {
@@ -45,3 +142,22 @@ export interface PlayerStats {
   wallGameCount: number;
 }
 
+export interface TournamentStats {
+  totalHands: number;
+  validWins: number;
+  wallGames: number;
+  falseMahjongs: number;
+  timeExpired: number;
+  averageWinnerPoints: number;
+  discarderPenaltyPoints: number; // Total deducted from discarders (negative)
+}
+
+export interface ChineseOfficialStats {
+  totalHands: number;
+  averageFanPoints: number; // Fan total before flowers
+  /** How often each fan scored, most frequent first. */
+  fanCounts: { id: string; name: string; count: number }[];
+  /** Wins grouped by how far the fan total cleared the 8-point minimum. */
+  marginDistribution: { label: string; count: number }[];
+}
+
@@ -0,0 +1,28 @@
+import type { NmjlStackingProfile } from '../scoring/types';
+import type { CustomRule } from '../storage/customRulesStorage';
+
+/** Per-rule overrides set from the rule edit modal (kitty, noExposures, jokerless, ...). */
+export type CustomRuleValues = Record<string, { type: 'multiplier' | 'points'; value: number }>;
+
+/** A named bundle of scoring settings a table agrees to play by. */
+export interface HouseRuleProfile {
+  id: string;
+  name: string;
+  displayMode: 'currency' | 'points';
+  kittyEnabled: boolean;
+  kittyPayout: number; // Default kitty amount (cents in currency mode, points otherwise)
+  numPlayers: number; // Table size
+  customRules: CustomRule[]; // Custom rules in force (selected when the profile is applied)
+  customRuleValues: CustomRuleValues;
+  stackingProfile: NmjlStackingProfile;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Versioned JSON document used to share a profile between devices. */
+export interface HouseRuleProfileDocument {
+  format: 'mahjong-calculator/house-rules';
+  version: number;
+  exportedAt: number;
+  profile: Omit<HouseRuleProfile, 'createdAt' | 'updatedAt'>;
+}
@@ -0,0 +1,20 @@
+export type SeatWind = 'East' | 'South' | 'West' | 'North';
+
+export const SEAT_WINDS: SeatWind[] = ['East', 'South', 'West', 'North'];
+
+/** A saved player that can be seated at the table. */
+export interface RosterPlayer {
+  id: string;
+  name: string;
+  avatarColor?: string;
+  preferredSeat?: SeatWind;
+  createdAt: number;
+}
+
+/** A player sitting in a specific seat for the current hand or session. */
+export interface SeatedPlayer {
+  id: string;
+  name: string;
+  seatWind: SeatWind;
+  avatarColor?: string;
+}
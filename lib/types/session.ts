@@ -0,0 +1,39 @@
+import type { SeatedPlayer } from './player';
+
+export type SessionPlayer = SeatedPlayer;
+
+/** When East keeps the deal instead of passing it to South. */
+export type DealerRetention = 'never' | 'dealerWin' | 'dealerWinOrWallGame';
+
+export interface RotationRules {
+  dealerRetention: DealerRetention;
+  /** Advance the prevalent (round) wind once the deal has gone all the way round. */
+  rotatePrevalentWind: boolean;
+}
+
+export type SessionHandMode = 'standard' | 'international' | 'tournament' | 'chineseOfficial';
+
+export interface SessionHand {
+  id: string;
+  timestamp: number;
+  mode: SessionHandMode;
+  handName?: string;
+  winnerId?: string;
+  discarderId?: string;
+  wallGame?: boolean;
+  /** Net change for each player this hand (positive = received, negative = paid). */
+  netByPlayer: Record<string, number>;
+  /** Amount each player paid into the kitty this hand (currency wall games). */
+  kittyContribution?: number;
+}
+
+export interface GameSession {
+  id: string;
+  name: string;
+  startedAt: number;
+  endedAt?: number; // Set when the session is ended and moved to the archive
+  displayMode: 'currency' | 'points';
+  players: SessionPlayer[]; // Seat winds are the seats for the first hand
+  hands: SessionHand[]; // In the order they were played
+  rotationRules?: RotationRules; // Defaults to passing the deal every hand
+}
@@ -0,0 +1,83 @@
+import type { SeatedPlayer } from './player';
+import type { ShortTablePolicy } from '@/lib/utils/pairing';
+import type { TournamentGameResult, TournamentInput } from '@/lib/scoring/types';
+
+/** A player registered for a tournament event. */
+export interface TournamentEntrant {
+  id: string;
+  name: string;
+  avatarColor?: string;
+  rosterPlayerId?: string; // Set when the entrant was registered from the saved roster
+  withdrawn?: boolean; // Withdrawn entrants keep their points but are not seated in later rounds
+}
+
+export interface TournamentTable {
+  tableNumber: number;
+  players: SeatedPlayer[]; // Entrants in their seats for the round
+}
+
+/** One scored hand at a table, recorded against the table's entrants. */
+export interface TournamentEventHand {
+  id: string;
+  timestamp: number;
+  tableNumber: number;
+  gameResult: TournamentGameResult;
+  wallGame: boolean;
+  handName?: string;
+  winnerId?: string;
+  discarderId?: string;
+  deadPlayerIds: string[];
+  pointsByPlayer: Record<string, number>; // Signed points per entrant, as computeTournament returns them
+  breakdown: string[];
+  input: TournamentInput; // Kept so the hand can be re-scored or audited
+}
+
+export interface TournamentRound {
+  roundNumber: number; // 1-based
+  startedAt: number;
+  completedAt?: number;
+  tables: TournamentTable[];
+  byeIds: string[]; // Entrants sitting out this round
+  seeded?: boolean; // Tables were grouped by standings
+  repeatPairings?: number; // Pairs seated together who had already met
+  hands: TournamentEventHand[]; // In the order they were recorded
+}
+
+/** Order applied to entrants level on total points, most significant first. */
+export type StandingsTieBreaker = 'wins' | 'bestRound' | 'fewestDiscarderPenalties' | 'averagePerHand';
+
+export interface TournamentEvent {
+  id: string;
+  name: string;
+  createdAt: number;
+  endedAt?: number; // Set when the event is ended and moved to the archive
+  entrants: TournamentEntrant[];
+  rounds: TournamentRound[]; // In play order; the last one is the current round
+  tieBreakers: StandingsTieBreaker[];
+  shortTables?: ShortTablePolicy; // Leftover entrants play three-handed (default) or sit out
+  scoringTableNumber?: number; // Table of the current round the calculator records hands for
+}
+
+export interface TournamentStanding {
+  entrantId: string;
+  name: string;
+  rank: number; // Entrants level on points and every tie-breaker share a rank
+  totalPoints: number;
+  handsPlayed: number;
+  wins: number;
+  discarderPenaltyPoints: number; // Points lost as the discarder (zero or negative)
+  bestRoundPoints: number;
+  roundPoints: number[]; // Points in each round, in round order
+}
+
+/**
+ * Countdown for a tournament round. Only timestamps are stored, so the clock
+ * keeps running while the app is in the background or closed.
+ */
+export interface RoundTimer {
+  durationMs: number;
+  warningMinutes: number[]; // Minutes remaining at which to warn, largest first
+  startedAt?: number; // Set while the timer is running
+  elapsedMs: number; // Time run before the current start, kept across pauses
+  expiryPending?: boolean; // Ran out where no screen handled it; the calculator handles it next
+}
@@ -0,0 +1,121 @@
+import type { SavedHand } from '@/lib/types/game';
+import {
+  exportHandsToCsv,
+  exportHandsToJson,
+  HAND_CSV_COLUMNS,
+  parseHandsCsv,
+  parseHandsImport,
+  parseHandsJson,
+} from '@/lib/utils/handExport';
+
+const hand: SavedHand = {
+  id: 'h1',
+  timestamp: 1700000000000,
+  handName: 'Quints, "big" hand',
+  basePoints: 40,
+  winType: 'discard',
+  jokerless: true,
+  singlesAndPairs: false,
+  noExposures: false,
+  totalToWinner: 160,
+  displayMode: 'points',
+  mode: 'standard',
+  cardYear: '2025',
+  categoryId: 'quints',
+  lineNumber: 2,
+  perLoserAmounts: { discarder: 80, others: 40 },
+  isWinner: true,
+  wallGame: false,
+};
+
+describe('hand export', () => {
+  it('reads back a JSON export', () => {
+    const { hands, errors } = parseHandsJson(exportHandsToJson([hand], 'american', '2025'));
+
+    expect(errors).toEqual([]);
+    expect(hands).toEqual([expect.objectContaining(hand)]);
+  });
+
+  it('reads back a CSV export', () => {
+    const { hands, errors } = parseHandsCsv(exportHandsToCsv([hand], 'american', '2025'));
+
+    expect(errors).toEqual([]);
+    expect(hands[0]).toMatchObject(hand);
+  });
+
+  it('tells the formats apart', () => {
+    expect(parseHandsImport(exportHandsToJson([hand], 'american', '2025')).hands).toHaveLength(1);
+    expect(parseHandsImport(exportHandsToCsv([hand], 'american', '2025')).hands).toHaveLength(1);
+  });
+
+  it('only exports hands from the chosen card', () => {
+    const { hands } = parseHandsJson(exportHandsToJson([hand, { ...hand, id: 'h2', cardYear: '2026' }], 'american', '2025'));
+
+    expect(hands.map((h) => h.id)).toEqual(['h1']);
+  });
+});
+
+describe('hand import', () => {
+  const csvWith = (overrides: Record<string, string>) => {
+    const row: Record<string, string> = {
+      id: 'h1',
+      timestamp: '1700000000000',
+      basePoints: '25',
+      winType: 'self_pick',
+      totalToWinner: '150',
+      displayMode: 'points',
+      mode: 'standard',
+      ...overrides,
+    };
+    const columns = Object.keys(row);
+    return [columns.join(','), columns.map((column) => row[column]).join(',')].join('\n');
+  };
+
+  it('rejects a file missing required columns', () => {
+    expect(parseHandsCsv('id,timestamp\nh1,1').errors).toEqual([
+      'Missing columns: basePoints, winType, totalToWinner, displayMode, mode',
+    ]);
+  });
+
+  it('reports each bad row and keeps the good ones', () => {
+    const text = [HAND_CSV_COLUMNS.join(','), exportHandsToCsv([hand], 'american', '2025').split('\r\n')[1], 'h2,soon']
+      .join('\n');
+    const { hands, errors } = parseHandsCsv(text);
+
+    expect(hands).toHaveLength(1);
+    expect(errors).toEqual(['Row 3: timestamp is not a number']);
+  });
+
+  it('reads blank boolean cells as not set', () => {
+    const { hands, errors } = parseHandsCsv(csvWith({ jokerless: '', wallGame: '' }));
+
+    expect(errors).toEqual([]);
+    expect(hands[0].jokerless).toBe(false);
+    expect(hands[0].wallGame).toBeUndefined();
+  });
+
+  it('reports boolean cells it does not recognise', () => {
+    const { hands, errors } = parseHandsCsv(csvWith({ jokerless: 'yes' }));
+
+    expect(hands).toEqual([]);
+    expect(errors).toEqual(['Row 2: jokerless is not true or false ("yes")']);
+  });
+
+  it('rejects JSON that is not an export', () => {
+    expect(parseHandsJson('{"format":"other","hands":[]}').errors).toEqual(['This is not a saved hands export.']);
+    expect(parseHandsJson('nope').errors).toEqual(['The text is not valid JSON.']);
+  });
+
+  it('rejects exports from a newer version', () => {
+    const json = JSON.stringify({ format: 'mahjong-calculator/hands', version: 999, hands: [] });
+
+    expect(parseHandsJson(json).errors[0]).toMatch(/newer version/);
+  });
+
+  it('upgrades hands from older exports', () => {
+    const { cardYear, ...oldHand } = hand;
+    const { hands } = parseHandsJson(JSON.stringify([oldHand]));
+
+    expect(hands[0].cardYear).toBe('2025');
+  });
+});
@@ -0,0 +1,95 @@
+import { DEFAULT_STACKING_PROFILE } from '@/lib/scoring/stacking';
+import type { HouseRuleProfile } from '@/lib/types/houseRules';
+import {
+  createHouseRuleProfile,
+  exportHouseRuleProfile,
+  HOUSE_RULES_FORMAT,
+  parseHouseRuleProfile,
+} from '@/lib/utils/houseRules';
+
+const profile: HouseRuleProfile = createHouseRuleProfile('Tuesday Club', {
+  displayMode: 'points',
+  kittyEnabled: true,
+  kittyPayout: 50,
+  numPlayers: 3,
+  customRules: [
+    { id: 'r1', title: 'Flower bonus', winnerBonus: { type: 'points', value: 10 }, createdAt: 1 },
+  ],
+  customRuleValues: { jokerless: { type: 'points', value: 20 } },
+  stackingProfile: DEFAULT_STACKING_PROFILE,
+});
+
+const documentWith = (overrides: Record<string, unknown>) => JSON.stringify({
+  format: HOUSE_RULES_FORMAT,
+  version: 1,
+  exportedAt: 0,
+  profile: { name: 'Imported', ...overrides },
+});
+
+describe('parseHouseRuleProfile', () => {
+  it('reads back an exported profile', () => {
+    const imported = parseHouseRuleProfile(exportHouseRuleProfile(profile));
+    const { createdAt, updatedAt, ...shared } = profile;
+
+    expect(imported).toMatchObject(shared);
+  });
+
+  it('rejects text that is not a profile', () => {
+    expect(() => parseHouseRuleProfile('not json')).toThrow('The text is not valid JSON.');
+    expect(() => parseHouseRuleProfile('{"format":"other"}')).toThrow('This is not a house rule profile.');
+    expect(() => parseHouseRuleProfile(documentWith({ name: ' ' }))).toThrow('The profile has no name.');
+  });
+
+  it('rejects documents from a newer version', () => {
+    const json = JSON.stringify({ format: HOUSE_RULES_FORMAT, version: 99, profile: { name: 'Future' } });
+
+    expect(() => parseHouseRuleProfile(json)).toThrow(/newer version/);
+  });
+
+  it('keeps default scales for stages whose scales are not a list', () => {
+    const imported = parseHouseRuleProfile(documentWith({
+      stackingProfile: { id: 'x', name: 'X', order: ['doubles'], scales: { doubles: 'x' } },
+    }));
+
+    expect(imported.stackingProfile.scales.doubles).toEqual(DEFAULT_STACKING_PROFILE.scales.doubles);
+  });
+
+  it('drops custom rule effects that are not well formed', () => {
+    const imported = parseHouseRuleProfile(documentWith({
+      customRules: [
+        {
+          id: 'r1',
+          title: 'Odd rule',
+          winnerBonus: 'lots',
+          discarderPenalty: { enabled: true, type: 'points', value: -5 },
+          allPlayerPenalty: { enabled: true, type: 'multiplier', value: 2 },
+        },
+        { id: 7, title: 'No ID' },
+      ],
+    }));
+
+    expect(imported.customRules).toHaveLength(1);
+    expect(imported.customRules[0].winnerBonus).toBeUndefined();
+    expect(imported.customRules[0].discarderPenalty).toBeUndefined();
+    expect(imported.customRules[0].allPlayerPenalty).toEqual({ enabled: true, type: 'multiplier', value: 2 });
+  });
+
+  it('upgrades legacy rules and keeps their split rules in force', () => {
+    const imported = parseHouseRuleProfile(documentWith({
+      customRules: [{ id: 'r1', title: 'Old rule', type: 'points', value: 10, winnerBonus: { type: 'multiplier', value: 2 } }],
+      customRuleValues: { r1: { type: 'multiplier', value: 3 } },
+    }));
+
+    expect(imported.customRules.map((rule) => rule.id)).toEqual(['r1', 'r1_legacy']);
+    expect(imported.customRules[1].winnerBonus).toEqual({ type: 'points', value: 10 });
+    expect(imported.customRuleValues.r1_legacy).toEqual({ type: 'multiplier', value: 3 });
+  });
+
+  it('falls back to defaults for settings it cannot read', () => {
+    const imported = parseHouseRuleProfile(documentWith({ numPlayers: 7, kittyPayout: 'free', displayMode: 'odd' }));
+
+    expect(imported.numPlayers).toBe(4);
+    expect(imported.displayMode).toBe('currency');
+    expect(imported.stackingProfile).toBe(DEFAULT_STACKING_PROFILE);
+  });
+});
@@ -0,0 +1,67 @@
+import { countPairings, pairRound, pairRounds, tableSizes } from '@/lib/utils/pairing';
+
+/** Repeatable stand-in for Math.random. */
+const seededRandom = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return (seed - 1) / 2147483646;
+};
+
+const ids = (count: number) => Array.from({ length: count }, (_, i) => `p${i + 1}`);
+
+describe('tableSizes', () => {
+  it('spreads leftovers over three-handed tables', () => {
+    expect(tableSizes(9)).toEqual({ sizes: [3, 3, 3], byes: 0 });
+    expect(tableSizes(10)).toEqual({ sizes: [4, 3, 3], byes: 0 });
+    expect(tableSizes(5)).toEqual({ sizes: [4], byes: 1 });
+  });
+
+  it('gives byes when short tables are not allowed', () => {
+    expect(tableSizes(10, 'byes')).toEqual({ sizes: [4, 4], byes: 2 });
+    expect(tableSizes(3, 'byes')).toEqual({ sizes: [], byes: 3 });
+  });
+});
+
+describe('pairRound', () => {
+  it('seats everyone once', () => {
+    const round = pairRound(ids(10), { random: seededRandom(1) });
+
+    expect(round.tables.flat().sort()).toEqual(ids(10).sort());
+    expect(round.byeIds).toEqual([]);
+  });
+
+  it('keeps repeat opponents to the fewest possible', () => {
+    const history = [[['p1', 'p2', 'p3', 'p4'], ['p5', 'p6', 'p7', 'p8']]];
+    const round = pairRound(ids(8), { history, random: seededRandom(2) });
+
+    // Two tables of four can't avoid seating two earlier pairs at each
+    expect(round.repeatPairings).toBe(4);
+    round.tables.forEach((table) => {
+      expect(table.filter((id) => ['p1', 'p2', 'p3', 'p4'].includes(id))).toHaveLength(2);
+    });
+  });
+
+  it('gives the bye to whoever has had the fewest', () => {
+    const round = pairRound(ids(5), { byeCounts: { p1: 1, p2: 1, p3: 1, p4: 1 }, random: seededRandom(3) });
+
+    expect(round.byeIds).toEqual(['p5']);
+  });
+
+  it('groups neighbouring seeds when seeded', () => {
+    const round = pairRound(ids(8), { seeding: ids(8) });
+
+    expect(round.tables.map((table) => [...table].sort())).toEqual([
+      ['p1', 'p2', 'p3', 'p4'],
+      ['p5', 'p6', 'p7', 'p8'],
+    ]);
+  });
+});
+
+describe('pairRounds', () => {
+  it('counts earlier rounds so sixteen players never meet twice in three rounds', () => {
+    const rounds = pairRounds(ids(16), 3, { random: seededRandom(4) });
+    const counts = countPairings(rounds.map((r) => r.tables));
+
+    expect(rounds).toHaveLength(3);
+    expect(Math.max(...counts.values())).toBe(1);
+  });
+});
@@ -0,0 +1,95 @@
+import { computeNmjlStandard, SCORING_ENGINE_VERSION } from '@/lib/scoring/engine';
+import { BONUSES_AFTER_MULTIPLIERS_PROFILE } from '@/lib/scoring/stacking';
+import type { ScoreInput } from '@/lib/scoring/types';
+import type { SavedHand } from '@/lib/types/game';
+import { isScoredByOlderEngine, rescoreHand } from '@/lib/utils/rescore';
+
+const input: ScoreInput = {
+  basePoints: 25,
+  winType: 'discard',
+  jokerless: true,
+  singlesAndPairs: false,
+  displayMode: 'points',
+  noExposures: true,
+};
+
+const savedHand = (overrides: Partial<SavedHand> = {}): SavedHand => {
+  const result = computeNmjlStandard(input);
+  return {
+    id: 'h1',
+    timestamp: 1,
+    handName: 'Test',
+    basePoints: 25,
+    winType: 'discard',
+    jokerless: true,
+    singlesAndPairs: false,
+    noExposures: true,
+    totalToWinner: result.totalToWinner,
+    perLoserAmounts: result.perLoserAmounts,
+    displayMode: 'points',
+    mode: 'standard',
+    cardYear: '2026',
+    isWinner: true,
+    scoreInput: { engine: 'standard', input },
+    engineVersion: SCORING_ENGINE_VERSION,
+    ...overrides,
+  };
+};
+
+describe('rescoreHand', () => {
+  it('cannot re-score a hand saved without its input', () => {
+    expect(rescoreHand(savedHand({ scoreInput: undefined }))).toBeNull();
+  });
+
+  it('reports no change when the current rules give the same result', () => {
+    const outcome = rescoreHand(savedHand());
+
+    expect(outcome?.changed).toBe(false);
+    expect(outcome?.hand.engineVersion).toBe(SCORING_ENGINE_VERSION);
+  });
+
+  it('corrects a result an older engine got wrong', () => {
+    const hand = savedHand({ totalToWinner: 1, engineVersion: 1 });
+    const outcome = rescoreHand(hand);
+
+    expect(outcome?.changed).toBe(true);
+    expect(outcome?.previousTotal).toBe(1);
+    expect(outcome?.total).toBe(computeNmjlStandard(input).totalToWinner);
+  });
+
+  it('applies house custom rules in place of the saved ones', () => {
+    const outcome = rescoreHand(savedHand(), {
+      customRules: [{ id: 'r1', title: 'Double it', winnerBonus: { type: 'multiplier', value: 2 }, createdAt: 1 }],
+    });
+
+    expect(outcome?.total).toBe(computeNmjlStandard(input).totalToWinner * 2);
+    expect(outcome?.hand.scoreInput).toMatchObject({ input: { customRules: [{ id: 'r1' }] } });
+  });
+
+  it('applies house rule values', () => {
+    const outcome = rescoreHand(savedHand(), {
+      customRuleValues: { noExposures: { type: 'points', value: 10 } },
+    });
+    const expected = computeNmjlStandard({ ...input, noExposureBonus: { mode: 'flat', value: 10 } });
+
+    expect(outcome?.changed).toBe(true);
+    expect(outcome?.total).toBe(expected.totalToWinner);
+  });
+
+  it('applies a house stacking profile', () => {
+    const outcome = rescoreHand(savedHand(), { stackingProfile: BONUSES_AFTER_MULTIPLIERS_PROFILE });
+
+    expect(outcome?.hand.scoreInput).toMatchObject({
+      input: { stackingProfile: BONUSES_AFTER_MULTIPLIERS_PROFILE },
+    });
+  });
+});
+
+describe('isScoredByOlderEngine', () => {
+  it('picks out hands an older engine scored', () => {
+    expect(isScoredByOlderEngine(savedHand())).toBe(false);
+    expect(isScoredByOlderEngine(savedHand({ engineVersion: SCORING_ENGINE_VERSION - 1 }))).toBe(true);
+    expect(isScoredByOlderEngine(savedHand({ engineVersion: undefined }))).toBe(true);
+    expect(isScoredByOlderEngine(savedHand({ engineVersion: undefined, scoreInput: undefined }))).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+import {
+  advanceRotation,
+  initialRotationState,
+  MCR_ROTATION_RULES,
+  NMJL_ROTATION_RULES,
+  seatWindFor,
+  type RotationState,
+} from '@/lib/utils/rotation';
+import type { RotationRules } from '@/lib/types/session';
+
+const playHands = (rules: RotationRules, outcomes: { dealerWon: boolean; wallGame: boolean }[]): RotationState =>
+  outcomes.reduce((state, outcome) => advanceRotation(state, rules, outcome), initialRotationState());
+
+const noWin = { dealerWon: false, wallGame: false };
+
+describe('advanceRotation', () => {
+  it('passes the deal after every hand under NMJL rules', () => {
+    const state = playHands(NMJL_ROTATION_RULES, [{ dealerWon: true, wallGame: false }]);
+
+    expect(state.dealerIndex).toBe(1);
+    expect(state.dealerRepeats).toBe(0);
+  });
+
+  it('keeps the prevalent wind under NMJL rules', () => {
+    const state = playHands(NMJL_ROTATION_RULES, [noWin, noWin, noWin, noWin]);
+
+    expect(state.dealerIndex).toBe(0);
+    expect(state.prevalentWind).toBe('East');
+  });
+
+  it('moves the prevalent wind once the deal gets back to the first dealer under MCR rules', () => {
+    const threeHands = playHands(MCR_ROTATION_RULES, [noWin, noWin, noWin]);
+    const fourHands = advanceRotation(threeHands, MCR_ROTATION_RULES, noWin);
+
+    expect(threeHands.prevalentWind).toBe('East');
+    expect(fourHands.prevalentWind).toBe('South');
+    expect(fourHands.handsPlayed).toBe(4);
+  });
+
+  it('lets the dealer keep the deal when the rules allow it', () => {
+    const rules: RotationRules = { dealerRetention: 'dealerWinOrWallGame', rotatePrevalentWind: true };
+    const state = playHands(rules, [
+      { dealerWon: true, wallGame: false },
+      { dealerWon: false, wallGame: true },
+    ]);
+
+    expect(state.dealerIndex).toBe(0);
+    expect(state.dealerRepeats).toBe(2);
+    expect(state.handsPlayed).toBe(2);
+  });
+});
+
+describe('seatWindFor', () => {
+  it('counts seat winds from the dealer', () => {
+    const state = { ...initialRotationState(), dealerIndex: 1 };
+
+    expect(seatWindFor(state, 1)).toBe('East');
+    expect(seatWindFor(state, 2)).toBe('South');
+    expect(seatWindFor(state, 0)).toBe('North');
+  });
+});
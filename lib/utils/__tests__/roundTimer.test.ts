@@ -0,0 +1,52 @@
+import {
+  createRoundTimer,
+  formatTimerRemaining,
+  pauseRoundTimer,
+  reachedWarning,
+  resetRoundTimer,
+  roundTimerStatus,
+  startRoundTimer,
+  timerRemainingMs,
+} from '@/lib/utils/roundTimer';
+
+const MINUTE = 60000;
+
+describe('round timer', () => {
+  it('keeps only warnings inside the round, largest first', () => {
+    expect(createRoundTimer(30, [1, 45, 10, 10, 0]).warningMinutes).toEqual([10, 1]);
+  });
+
+  it('runs from timestamps and keeps time across a pause', () => {
+    let timer = startRoundTimer(createRoundTimer(60), 0);
+    expect(roundTimerStatus(timer, 5 * MINUTE)).toBe('running');
+
+    timer = pauseRoundTimer(timer, 20 * MINUTE);
+    expect(roundTimerStatus(timer, 90 * MINUTE)).toBe('paused');
+    expect(timerRemainingMs(timer, 90 * MINUTE)).toBe(40 * MINUTE);
+
+    timer = startRoundTimer(timer, 100 * MINUTE);
+    expect(timerRemainingMs(timer, 130 * MINUTE)).toBe(10 * MINUTE);
+    expect(roundTimerStatus(timer, 130 * MINUTE)).toBe('warning');
+    expect(roundTimerStatus(timer, 140 * MINUTE)).toBe('expired');
+  });
+
+  it('reports the smallest warning reached', () => {
+    const timer = startRoundTimer(createRoundTimer(60), 0);
+
+    expect(reachedWarning(timer, 45 * MINUTE)).toBeNull();
+    expect(reachedWarning(timer, 56 * MINUTE)).toBe(5);
+  });
+
+  it('resets to idle and clears a pending expiry', () => {
+    const timer = resetRoundTimer({ ...startRoundTimer(createRoundTimer(60), 0), expiryPending: true });
+
+    expect(roundTimerStatus(timer, MINUTE)).toBe('idle');
+    expect(timer.expiryPending).toBeUndefined();
+  });
+
+  it('formats remaining time', () => {
+    expect(formatTimerRemaining(65 * MINUTE)).toBe('1:05:00');
+    expect(formatTimerRemaining(59500)).toBe('1:00');
+    expect(formatTimerRemaining(0)).toBe('0:00');
+  });
+});
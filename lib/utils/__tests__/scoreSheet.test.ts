@@ -0,0 +1,72 @@
+import { exportRoundScoreSheetCsv, exportRoundScoreSheetHtml } from '@/lib/utils/scoreSheet';
+import type { TournamentEvent, TournamentEventHand } from '@/lib/types/tournament';
+import { SEAT_WINDS } from '@/lib/types/player';
+
+const IDS = ['a', 'b', 'c', 'd'];
+
+const hand = (pointsByPlayer: Record<string, number>, extra: Partial<TournamentEventHand> = {}): TournamentEventHand => ({
+  id: Math.random().toString(36),
+  timestamp: Date.UTC(2026, 0, 1),
+  tableNumber: 1,
+  gameResult: 'valid_win',
+  wallGame: false,
+  deadPlayerIds: [],
+  pointsByPlayer,
+  breakdown: ['Base 25'],
+  input: { playerIds: IDS },
+  ...extra,
+});
+
+const event: TournamentEvent = {
+  id: 'e1',
+  name: 'Spring <Open>',
+  createdAt: 0,
+  entrants: [
+    { id: 'a', name: 'Ann' },
+    { id: 'b', name: 'Bo, Jr.' },
+    { id: 'c', name: 'Cy' },
+    { id: 'd', name: 'Di' },
+  ],
+  tieBreakers: ['wins'],
+  rounds: [1, 2].map((roundNumber) => ({
+    roundNumber,
+    startedAt: 0,
+    byeIds: [],
+    tables: [{
+      tableNumber: 1,
+      players: IDS.map((id, i) => ({ id, name: id, seatWind: SEAT_WINDS[i] })),
+    }],
+    hands: roundNumber === 1
+      ? [hand({ a: 75, b: -25, c: -25, d: -25 }, { winnerId: 'a', handName: 'Like "Numbers"' })]
+      : [hand({ a: -50, b: 150, c: -50, d: -50 }, { winnerId: 'b', discarderId: 'a' })],
+  })),
+};
+
+describe('round score sheets', () => {
+  it('escapes names in the HTML sheet', () => {
+    const html = exportRoundScoreSheetHtml(event, 1);
+
+    expect(html).toContain('<h1>Spring &lt;Open&gt; - Round 1</h1>');
+    expect(html).toContain('Like &quot;Numbers&quot;');
+    expect(html).toContain('Mah Jongg by Ann, self-pick');
+  });
+
+  it('counts standings only up to the chosen round', () => {
+    const csv = exportRoundScoreSheetCsv(event, 1).split('\r\n');
+
+    expect(csv).toContain('1,Ann,75,75,1,1,0');
+    expect(csv).not.toContain('round2');
+  });
+
+  it('quotes CSV cells with commas and quotes', () => {
+    const csv = exportRoundScoreSheetCsv(event, 2);
+
+    expect(csv).toContain(',"Mah Jongg by Bo, Jr., discard from Ann",');
+    expect(exportRoundScoreSheetCsv(event, 1)).toContain(',"Like ""Numbers""",');
+    expect(csv).toContain('2,1,total,,,,East a,-50,South b,150,West c,-50,North d,-50,');
+  });
+
+  it('rejects a round the event does not have', () => {
+    expect(() => exportRoundScoreSheetHtml(event, 3)).toThrow('Round 3 not found');
+  });
+});
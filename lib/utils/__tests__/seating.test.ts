@@ -0,0 +1,29 @@
+import { seatAssignments, seatPlayersFromRoster } from '@/lib/utils/seating';
+import type { RosterPlayer } from '@/lib/types/player';
+
+const player = (id: string, preferredSeat?: RosterPlayer['preferredSeat']): RosterPlayer => ({
+  id,
+  name: id.toUpperCase(),
+  preferredSeat,
+  createdAt: 0,
+});
+
+describe('seatPlayersFromRoster', () => {
+  it('honours preferred seats first, in roster order', () => {
+    const seats = seatPlayersFromRoster([player('a'), player('b', 'West'), player('c', 'West'), player('d', 'East')]);
+
+    expect(seats.map((p) => [p.seatWind, p.id])).toEqual([
+      ['East', 'd'],
+      ['South', 'a'],
+      ['West', 'b'],
+      ['North', 'c'],
+    ]);
+  });
+
+  it('fills empty seats with placeholders', () => {
+    const seats = seatPlayersFromRoster([player('a', 'North')]);
+
+    expect(seats.map((p) => p.id)).toEqual(['seat-east', 'seat-south', 'seat-west', 'a']);
+    expect(seatAssignments(seats)).toEqual({ 'seat-east': 'East', 'seat-south': 'South', 'seat-west': 'West', a: 'North' });
+  });
+});
@@ -0,0 +1,64 @@
+import { computeNmjlStandard } from '@/lib/scoring/engine';
+import {
+  calculateRunningBalances,
+  calculateSessionBalances,
+  calculateSessionKitty,
+  netFromChineseOfficialResult,
+  netFromScoreResult,
+} from '@/lib/utils/session';
+import type { ChineseOfficialResult } from '@/lib/scoring/chineseOfficial/chineseOfficialTypes';
+import type { GameSession } from '@/lib/types/session';
+
+const session: GameSession = {
+  id: 's1',
+  name: 'Tuesday',
+  startedAt: 0,
+  displayMode: 'currency',
+  players: [
+    { id: 'a', name: 'Ann', seatWind: 'East' },
+    { id: 'b', name: 'Bo', seatWind: 'South' },
+    { id: 'c', name: 'Cy', seatWind: 'West' },
+    { id: 'd', name: 'Di', seatWind: 'North' },
+  ],
+  hands: [
+    { id: 'h1', timestamp: 1, mode: 'standard', netByPlayer: { a: 1.5, b: -0.5, c: -0.5, d: -0.5 } },
+    { id: 'h2', timestamp: 2, mode: 'standard', wallGame: true, kittyContribution: 0.25, netByPlayer: { a: -0.25, b: -0.25, c: -0.25, d: -0.25 } },
+    { id: 'h3', timestamp: 3, mode: 'standard', netByPlayer: { b: 2, c: -2, gone: 5 } },
+  ],
+};
+
+describe('session totals', () => {
+  it('keeps a running and final balance for the session players only', () => {
+    expect(calculateRunningBalances(session)[1]).toEqual({ a: 1.25, b: -0.75, c: -0.75, d: -0.75 });
+    expect(calculateSessionBalances(session)).toEqual({ a: 1.25, b: 1.25, c: -2.75, d: -0.75 });
+  });
+
+  it('adds up what went into the kitty', () => {
+    expect(calculateSessionKitty(session)).toBe(1);
+  });
+});
+
+describe('net changes per hand', () => {
+  it('turns an NMJL payer map into what each player gained', () => {
+    const result = computeNmjlStandard({
+      basePoints: 25,
+      winType: 'discard',
+      jokerless: false,
+      singlesAndPairs: false,
+      displayMode: 'points',
+      winnerId: 'a',
+      discarderId: 'b',
+      otherPlayerIds: ['b', 'c', 'd'],
+    });
+    const net = netFromScoreResult(result, session.players, 'points');
+
+    expect(net.a).toBeGreaterThan(0);
+    expect(Object.values(net).reduce((sum, amount) => sum + amount, 0)).toBe(0);
+  });
+
+  it('pays the Chinese Official winner the result total, not their own payer entry', () => {
+    const result = { payerMap: { a: 8, b: 16, c: 8, d: 8 }, totalToWinner: 32 } as unknown as ChineseOfficialResult;
+
+    expect(netFromChineseOfficialResult(result, 'a')).toEqual({ a: 32, b: -16, c: -8, d: -8 });
+  });
+});
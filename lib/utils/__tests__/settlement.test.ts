@@ -0,0 +1,53 @@
+import { calculateSettlement, KITTY_PARTY_ID, type SettlementTransfer } from '@/lib/utils/settlement';
+
+/** Net change of each party once every transfer is paid. */
+const applyTransfers = (transfers: SettlementTransfer[]): Record<string, number> => {
+  const net: Record<string, number> = {};
+  transfers.forEach(({ from, to, amount }) => {
+    net[from] = (net[from] ?? 0) + amount;
+    net[to] = (net[to] ?? 0) - amount;
+  });
+  return net;
+};
+
+describe('calculateSettlement', () => {
+  it('settles every balance', () => {
+    const balances = { a: 1500, b: -500, c: -700, d: -300 };
+    const { transfers, imbalance } = calculateSettlement(balances);
+
+    expect(imbalance).toBe(0);
+    const net = applyTransfers(transfers);
+    Object.entries(balances).forEach(([id, amount]) => {
+      expect((net[id] ?? 0) + amount).toBe(0);
+    });
+  });
+
+  it('pays matching debts directly instead of chaining them', () => {
+    const { transfers } = calculateSettlement({ a: 300, b: -300, c: 200, d: -200 });
+
+    expect(transfers).toHaveLength(2);
+    expect(transfers).toEqual(expect.arrayContaining([
+      { from: 'b', to: 'a', amount: 300 },
+      { from: 'd', to: 'c', amount: 200 },
+    ]));
+  });
+
+  it('leaves players who are square out of the transfers', () => {
+    const { transfers } = calculateSettlement({ a: 100, b: 0, c: -100 });
+
+    expect(transfers).toEqual([{ from: 'c', to: 'a', amount: 100 }]);
+  });
+
+  it('adds the kitty as its own party', () => {
+    const { transfers, balances } = calculateSettlement({ a: -50, b: -50 }, 100);
+
+    expect(balances[KITTY_PARTY_ID]).toBe(100);
+    expect(applyTransfers(transfers)[KITTY_PARTY_ID]).toBe(-100);
+  });
+
+  it('reports balances that do not sum to zero', () => {
+    const { imbalance } = calculateSettlement({ a: 250, b: -200 });
+
+    expect(imbalance).toBe(50);
+  });
+});
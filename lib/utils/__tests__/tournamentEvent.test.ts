@@ -0,0 +1,77 @@
+import { calculateStandings, scoringTable, seatTable } from '@/lib/utils/tournamentEvent';
+import type { TournamentEvent, TournamentEventHand, TournamentRound } from '@/lib/types/tournament';
+
+const IDS = ['a', 'b', 'c', 'd'];
+
+const hand = (pointsByPlayer: Record<string, number>, extra: Partial<TournamentEventHand> = {}): TournamentEventHand => ({
+  id: Math.random().toString(36),
+  timestamp: 0,
+  tableNumber: 1,
+  gameResult: 'valid_win',
+  wallGame: false,
+  deadPlayerIds: [],
+  pointsByPlayer,
+  breakdown: [],
+  input: { playerIds: IDS },
+  ...extra,
+});
+
+const round = (roundNumber: number, hands: TournamentEventHand[]): TournamentRound => ({
+  roundNumber,
+  startedAt: 0,
+  byeIds: [],
+  tables: [seatTable(1, IDS.map((id) => ({ id, name: id.toUpperCase() })))],
+  hands,
+});
+
+const eventWith = (rounds: TournamentRound[], extra: Partial<TournamentEvent> = {}): TournamentEvent => ({
+  id: 'e1',
+  name: 'Event',
+  createdAt: 0,
+  entrants: IDS.map((id) => ({ id, name: id.toUpperCase() })),
+  rounds,
+  tieBreakers: ['wins', 'bestRound'],
+  ...extra,
+});
+
+describe('calculateStandings', () => {
+  it('totals points per round and counts wins and discarder penalties', () => {
+    const standings = calculateStandings(eventWith([
+      round(1, [hand({ a: 50, b: -30, c: -10, d: -10 }, { winnerId: 'a', discarderId: 'b' })]),
+      round(2, [hand({ a: -10, b: 40, c: -20, d: -10 }, { winnerId: 'b', discarderId: 'c' })]),
+    ]));
+
+    expect(standings.map((s) => s.entrantId)).toEqual(['a', 'b', 'd', 'c']);
+    expect(standings[0]).toMatchObject({ rank: 1, totalPoints: 40, wins: 1, handsPlayed: 2, roundPoints: [50, -10] });
+    expect(standings[1]).toMatchObject({ totalPoints: 10, discarderPenaltyPoints: -30, bestRoundPoints: 40 });
+  });
+
+  it('breaks ties in the event\'s order and shares ranks that stay level', () => {
+    const rounds = [
+      round(1, [hand({ a: 40, b: -20, c: 20, d: -40 }, { winnerId: 'a' })]),
+      round(2, [hand({ a: -20, b: 40, c: 0, d: -20 }, { winnerId: 'b' })]),
+    ];
+    const ranks = (event: TournamentEvent) => calculateStandings(event).map((s) => [s.entrantId, s.rank]);
+
+    expect(ranks(eventWith(rounds))).toEqual([['a', 1], ['b', 1], ['c', 3], ['d', 4]]);
+    expect(ranks(eventWith(rounds, { tieBreakers: [] }))).toEqual([['a', 1], ['b', 1], ['c', 1], ['d', 4]]);
+  });
+
+  it('leaves wall games out of the win count', () => {
+    const standings = calculateStandings(eventWith([
+      round(1, [hand({ a: 10, b: 10, c: 10, d: 10 }, { wallGame: true, winnerId: 'a' })]),
+    ]));
+
+    expect(standings.every((s) => s.wins === 0 && s.rank === 1)).toBe(true);
+  });
+});
+
+describe('scoringTable', () => {
+  it('finds the scoring table in the current round only', () => {
+    const event = eventWith([round(1, [])], { scoringTableNumber: 1 });
+
+    expect(scoringTable(event)?.players.map((p) => p.seatWind)).toEqual(['East', 'South', 'West', 'North']);
+    expect(scoringTable({ ...event, scoringTableNumber: 2 })).toBeNull();
+    expect(scoringTable(null)).toBeNull();
+  });
+});
@@ -0,0 +1,12 @@
+/** Currency amounts are stored in cents; points are whole numbers. */
+export const formatAmount = (amount: number, displayMode: "currency" | "points") => {
+  return displayMode === "currency"
+    ? `$${(amount / 100).toFixed(2)}`
+    : `${amount} pts`;
+};
+
+/** Like formatAmount, with an explicit +/- sign for balances. */
+export const formatSignedAmount = (amount: number, displayMode: "currency" | "points") => {
+  const sign = amount > 0 ? '+' : amount < 0 ? '-' : '';
+  return `${sign}${formatAmount(Math.abs(amount), displayMode)}`;
+};
@@ -0,0 +1,41 @@
+import { DEFAULT_KITTY_PAYOUT } from '@/lib/scoring/kitty';
+import type { SavedHand, StandardHandControls } from '@/lib/types/game';
+
+/**
+ * Calculator controls to restore when a saved hand is edited. Hands saved
+ * before the controls were stored are rebuilt from their saved fields (and the
+ * engine input when it was kept); anything not recorded falls back to the
+ * calculator's defaults.
+ */
+export const controlsFromSavedHand = (hand: SavedHand): StandardHandControls => {
+  if (hand.controls) return hand.controls;
+
+  const input = hand.scoreInput?.engine === 'standard' ? hand.scoreInput.input : undefined;
+  const exposurePenaltyPerExposure = input?.exposurePenaltyPerExposure ?? 0;
+  return {
+    basePoints: hand.basePoints > 0 ? String(hand.basePoints) : '',
+    winType: hand.winType,
+    jokerless: hand.jokerless,
+    misnamedJoker: input?.misnamedJoker ?? false,
+    heavenlyHand: input?.heavenlyHand ?? false,
+    noExposures: hand.noExposures,
+    exposurePenaltyEnabled: exposurePenaltyPerExposure > 0,
+    exposurePenaltyPerExposure: exposurePenaltyPerExposure > 0 ? String(exposurePenaltyPerExposure) : '5',
+    winnerExposureCount: String(hand.winnerExposureCount ?? 0),
+    lastTileFromWall: input?.lastTileFromWall ?? false,
+    lastTileClaim: input?.lastTileClaim ?? false,
+    robbingTheJoker: input?.robbingTheJoker ?? false,
+    eastDouble: input?.eastDouble ?? false,
+    isWinnerEast: input?.isWinnerEast ?? false,
+    wallGame: hand.wallGame ?? false,
+    kittyEnabled: hand.kittyPayout !== undefined,
+    kittyPayout: String(hand.kittyPayout ?? DEFAULT_KITTY_PAYOUT),
+    displayMode: hand.displayMode,
+    numPlayers: input?.numPlayers ?? 4,
+    categoryId: hand.categoryId ?? '',
+    lineNumber: hand.lineNumber !== undefined ? String(hand.lineNumber) : '',
+    handName: hand.handName,
+    selectedCustomRuleIds: input?.customRules?.map((rule) => rule.id) ?? [],
+    customRuleValues: {},
+  };
+};
@@ -0,0 +1,339 @@
+import type { HandCardYear } from '@/lib/data/handCategories';
+import type { SavedHand, SavedHandEdit, SavedScoreInput, StandardHandControls } from '@/lib/types/game';
+import { HANDS_STORAGE_KEY } from '@/lib/storage/handStorage';
+import { latestSchemaVersion, migrateItems } from '@/lib/storage/migrations';
+import { validateTournamentRuleSet } from '@/lib/scoring/tournamentRules';
+import { CARD_YEARS, filterHandsByCardSetAndYear, type StatsCardSet } from './savedHandSort';
+
+export const HANDS_EXPORT_FORMAT = 'mahjong-calculator/hands';
+
+/**
+ * CSV columns in export order. Names are part of the file format: add new
+ * columns at the end and never rename one, or older spreadsheets stop importing.
+ */
+export const HAND_CSV_COLUMNS = [
+  'id',
+  'timestamp',
+  'date',
+  'handName',
+  'basePoints',
+  'winType',
+  'jokerless',
+  'singlesAndPairs',
+  'noExposures',
+  'totalToWinner',
+  'displayMode',
+  'mode',
+  'cardYear',
+  'categoryId',
+  'lineNumber',
+  'jokerlessAsPoints',
+  'jokerlessBonusPoints',
+  'exposurePenalty',
+  'winnerExposureCount',
+  'discarderPays',
+  'othersPay',
+  'isWinner',
+  'wallGame',
+  'kittyPayout',
+  'fanPoints',
+  'flowerCount',
+  'fans',
+] as const;
+
+type HandCsvColumn = typeof HAND_CSV_COLUMNS[number];
+
+export interface HandsExportDocument {
+  format: typeof HANDS_EXPORT_FORMAT;
+  version: number; // Saved hand schema version (see migrations.ts)
+  exportedAt: number;
+  cardSet: StatsCardSet;
+  cardYear: HandCardYear;
+  hands: SavedHand[];
+}
+
+export interface HandsImportResult {
+  hands: SavedHand[];
+  errors: string[]; // One message per rejected row
+}
+
+const csvCell = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvRow = (hand: SavedHand): Record<HandCsvColumn, unknown> => ({
+  id: hand.id,
+  timestamp: hand.timestamp,
+  date: new Date(hand.timestamp).toISOString(),
+  handName: hand.handName,
+  basePoints: hand.basePoints,
+  winType: hand.winType,
+  jokerless: hand.jokerless,
+  singlesAndPairs: hand.singlesAndPairs,
+  noExposures: hand.noExposures,
+  totalToWinner: hand.totalToWinner,
+  displayMode: hand.displayMode,
+  mode: hand.mode,
+  cardYear: hand.cardYear,
+  categoryId: hand.categoryId,
+  lineNumber: hand.lineNumber,
+  jokerlessAsPoints: hand.jokerlessAsPoints,
+  jokerlessBonusPoints: hand.jokerlessBonusPoints,
+  exposurePenalty: hand.exposurePenalty,
+  winnerExposureCount: hand.winnerExposureCount,
+  discarderPays: hand.perLoserAmounts?.discarder,
+  othersPay: hand.perLoserAmounts?.others,
+  isWinner: hand.isWinner,
+  wallGame: hand.wallGame,
+  kittyPayout: hand.kittyPayout,
+  // Chinese Official only; fans are listed for reading and are not re-imported
+  fanPoints: hand.chineseOfficial?.fanPointsSum,
+  flowerCount: hand.chineseOfficial?.flowerCount,
+  fans: hand.chineseOfficial?.fans.map((fan) => fan.name).join('; '),
+});
+
+export const exportHandsToCsv = (
+  hands: SavedHand[],
+  cardSet: StatsCardSet,
+  year: HandCardYear
+): string => {
+  const rows = filterHandsByCardSetAndYear(hands, cardSet, year).map((hand) => {
+    const row = toCsvRow(hand);
+    return HAND_CSV_COLUMNS.map((column) => csvCell(row[column])).join(',');
+  });
+  return [HAND_CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+export const exportHandsToJson = (
+  hands: SavedHand[],
+  cardSet: StatsCardSet,
+  year: HandCardYear
+): string => {
+  const document: HandsExportDocument = {
+    format: HANDS_EXPORT_FORMAT,
+    version: latestSchemaVersion(HANDS_STORAGE_KEY),
+    exportedAt: Date.now(),
+    cardSet,
+    cardYear: year,
+    hands: filterHandsByCardSetAndYear(hands, cardSet, year),
+  };
+  return JSON.stringify(document, null, 2);
+};
+
+/** Split CSV text into rows of cells (RFC 4180 quoting). */
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ''));
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const HAND_MODES: SavedHand['mode'][] = ['standard', 'tournament', 'international', 'chineseOfficial'];
+
+const isHandMode = (value: unknown): value is SavedHand['mode'] => HAND_MODES.some((mode) => mode === value);
+
+/** Fields read with parseBoolean; a value that is present but not a boolean rejects the row. */
+const BOOLEAN_FIELDS = ['jokerless', 'singlesAndPairs', 'noExposures', 'jokerlessAsPoints', 'isWinner', 'wallGame'];
+
+const parseBoolean = (value: unknown): boolean | undefined => {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true' || value === 'TRUE' || value === '1') return true;
+  if (value === 'false' || value === 'FALSE' || value === '0') return false;
+  return undefined;
+};
+
+const parseNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return isFinite(value) ? value : undefined;
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+  const n = Number(value);
+  return isFinite(n) ? n : undefined;
+};
+
+const optionalNumber = (value: unknown): number | undefined =>
+  value === undefined || value === '' ? undefined : parseNumber(value);
+
+const SCORE_INPUT_ENGINES: SavedScoreInput['engine'][] = ['standard', 'tournament', 'chineseOfficial'];
+
+/** Stored engine inputs only travel in JSON exports; anything malformed is dropped. */
+const parseScoreInput = (value: unknown): SavedScoreInput | undefined => {
+  const candidate = value as SavedScoreInput | undefined;
+  if (
+    !candidate ||
+    typeof candidate !== 'object' ||
+    !SCORE_INPUT_ENGINES.includes(candidate.engine) ||
+    typeof candidate.input !== 'object' ||
+    candidate.input === null
+  ) {
+    return undefined;
+  }
+  // A tournament hand re-scored with a broken rule set would silently change its points
+  if (
+    candidate.engine === 'tournament' &&
+    candidate.input.ruleSet !== undefined &&
+    validateTournamentRuleSet(candidate.input.ruleSet).length > 0
+  ) {
+    return undefined;
+  }
+  return candidate;
+};
+
+/** Check one incoming row; returns the hand, or a message saying what is wrong. */
+const validateHand = (raw: Record<string, unknown>): SavedHand | string => {
+  const id = typeof raw.id === 'string' ? raw.id.trim() : raw.id !== undefined ? String(raw.id) : '';
+  if (!id) return 'missing id';
+  const timestamp = parseNumber(raw.timestamp);
+  if (timestamp === undefined) return 'timestamp is not a number';
+  const basePoints = parseNumber(raw.basePoints);
+  if (basePoints === undefined || basePoints < 0) return 'basePoints is not a number';
+  const totalToWinner = parseNumber(raw.totalToWinner);
+  if (totalToWinner === undefined) return 'totalToWinner is not a number';
+  const { winType, displayMode, mode } = raw;
+  if (winType !== 'self_pick' && winType !== 'discard') return `unknown winType "${winType}"`;
+  if (displayMode !== 'currency' && displayMode !== 'points') return `unknown displayMode "${displayMode}"`;
+  if (!isHandMode(mode)) return `unknown mode "${mode}"`;
+  const cardYear = CARD_YEARS.find((year) =>
+    year === (raw.cardYear === undefined || raw.cardYear === '' ? '2025' : String(raw.cardYear))
+  );
+  if (!cardYear) return `unknown cardYear "${raw.cardYear}"`;
+  const badBoolean = BOOLEAN_FIELDS.find((field) =>
+    raw[field] !== undefined && raw[field] !== null && raw[field] !== '' && parseBoolean(raw[field]) === undefined
+  );
+  if (badBoolean) return `${badBoolean} is not true or false ("${raw[badBoolean]}")`;
+
+  const perLoserAmounts = isRecord(raw.perLoserAmounts) ? raw.perLoserAmounts : {};
+  const discarderPays = optionalNumber(raw.discarderPays ?? perLoserAmounts.discarder);
+  const othersPay = optionalNumber(raw.othersPay ?? perLoserAmounts.others);
+
+  return {
+    id,
+    timestamp,
+    handName: typeof raw.handName === 'string' ? raw.handName : String(raw.handName ?? ''),
+    basePoints,
+    winType,
+    jokerless: parseBoolean(raw.jokerless) ?? false,
+    singlesAndPairs: parseBoolean(raw.singlesAndPairs) ?? false,
+    noExposures: parseBoolean(raw.noExposures) ?? false,
+    totalToWinner,
+    displayMode,
+    mode,
+    cardYear,
+    categoryId: raw.categoryId ? String(raw.categoryId) : undefined,
+    lineNumber: optionalNumber(raw.lineNumber),
+    jokerlessAsPoints: parseBoolean(raw.jokerlessAsPoints),
+    jokerlessBonusPoints: optionalNumber(raw.jokerlessBonusPoints),
+    exposurePenalty: optionalNumber(raw.exposurePenalty),
+    winnerExposureCount: optionalNumber(raw.winnerExposureCount),
+    perLoserAmounts:
+      discarderPays !== undefined || othersPay !== undefined
+        ? { discarder: discarderPays, others: othersPay }
+        : undefined,
+    isWinner: parseBoolean(raw.isWinner) ?? false,
+    wallGame: parseBoolean(raw.wallGame),
+    kittyPayout: optionalNumber(raw.kittyPayout),
+    scoreInput: parseScoreInput(raw.scoreInput),
+    engineVersion: optionalNumber(raw.engineVersion),
+    controls: isRecord(raw.controls) ? (raw.controls as unknown as StandardHandControls) : undefined,
+    edits: Array.isArray(raw.edits) ? (raw.edits as SavedHandEdit[]) : undefined,
+    tournament:
+      isRecord(raw.tournament) && isRecord(raw.tournament.pointsByPlayer)
+        ? (raw.tournament as unknown as SavedHand['tournament'])
+        : undefined,
+    chineseOfficial:
+      isRecord(raw.chineseOfficial) && Array.isArray(raw.chineseOfficial.fans)
+        ? (raw.chineseOfficial as unknown as SavedHand['chineseOfficial'])
+        : undefined,
+  };
+};
+
+const collectHands = (rows: Record<string, unknown>[], rowLabel: (index: number) => string): HandsImportResult => {
+  const hands: SavedHand[] = [];
+  const errors: string[] = [];
+  rows.forEach((raw, index) => {
+    const checked = validateHand(raw);
+    if (typeof checked === 'string') {
+      errors.push(`${rowLabel(index)}: ${checked}`);
+    } else {
+      hands.push(checked);
+    }
+  });
+  return { hands, errors };
+};
+
+export const parseHandsCsv = (text: string): HandsImportResult => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return { hands: [], errors: ['The file is empty.'] };
+  const columns = header.map((name) => name.trim());
+  const missing = ['id', 'timestamp', 'basePoints', 'winType', 'totalToWinner', 'displayMode', 'mode']
+    .filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    return { hands: [], errors: [`Missing columns: ${missing.join(', ')}`] };
+  }
+  const records = rows.map((cells) =>
+    Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? '']))
+  );
+  // Row 1 is the header
+  return collectHands(records, (index) => `Row ${index + 2}`);
+};
+
+export const parseHandsJson = (text: string): HandsImportResult => {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    return { hands: [], errors: ['The text is not valid JSON.'] };
+  }
+  // Accept a bare array of hands as well as an export document
+  const exportDocument = isRecord(document) && document.format === HANDS_EXPORT_FORMAT ? document : undefined;
+  const hands = Array.isArray(document) ? document : exportDocument?.hands;
+  if (!Array.isArray(hands)) {
+    return { hands: [], errors: ['This is not a saved hands export.'] };
+  }
+  const version = exportDocument ? Number(exportDocument.version) || 0 : 0;
+  if (version > latestSchemaVersion(HANDS_STORAGE_KEY)) {
+    return { hands: [], errors: ['This export was made with a newer version of the app. Update the app to import it.'] };
+  }
+  const upgraded = migrateItems<Record<string, unknown>>(HANDS_STORAGE_KEY, hands.filter(isRecord), version);
+  return collectHands(upgraded, (index) => `Hand ${index + 1}`);
+};
+
+/** Import either format, telling them apart by the first character. */
+export const parseHandsImport = (text: string): HandsImportResult => {
+  const trimmed = text.trim();
+  return trimmed.startsWith('{') || trimmed.startsWith('[') ? parseHandsJson(trimmed) : parseHandsCsv(trimmed);
+};
@@ -0,0 +1,144 @@
+import type { CustomRule } from '@/lib/storage/customRulesStorage';
+import { upgradeSelectedCustomRules, type LegacyCustomRule } from '@/lib/storage/migrations';
+import type { CustomRuleValues, HouseRuleProfile, HouseRuleProfileDocument } from '@/lib/types/houseRules';
+import { DEFAULT_KITTY_PAYOUT } from '@/lib/scoring/kitty';
+import { DEFAULT_STACKING_PROFILE, normalizeStackingProfile } from '@/lib/scoring/stacking';
+import type { NmjlStackingProfile } from '@/lib/scoring/types';
+
+export const HOUSE_RULES_FORMAT = 'mahjong-calculator/house-rules';
+/** Bump when the document shape changes; older versions must still import. */
+export const HOUSE_RULES_VERSION = 1;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value) && value > 0;
+
+const isBonusType = (value: unknown): value is 'points' | 'multiplier' =>
+  value === 'points' || value === 'multiplier';
+
+const LEGACY_RULE_TYPES = ['multiplier', 'points', 'opponentDeduction', 'discarderDeduction'] as const;
+
+const isLegacyRuleType = (value: unknown): value is NonNullable<LegacyCustomRule['type']> =>
+  LEGACY_RULE_TYPES.some((type) => type === value);
+
+export const createHouseRuleProfile = (
+  name: string,
+  settings: Omit<HouseRuleProfile, 'id' | 'name' | 'createdAt' | 'updatedAt'>
+): HouseRuleProfile => ({
+  id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+  name,
+  ...settings,
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+export const exportHouseRuleProfile = (profile: HouseRuleProfile): string => {
+  const { createdAt, updatedAt, ...shared } = profile;
+  const document: HouseRuleProfileDocument = {
+    format: HOUSE_RULES_FORMAT,
+    version: HOUSE_RULES_VERSION,
+    exportedAt: Date.now(),
+    profile: shared,
+  };
+  return JSON.stringify(document, null, 2);
+};
+
+const parseWinnerBonus = (value: unknown): CustomRule['winnerBonus'] =>
+  isObject(value) && isBonusType(value.type) && isPositiveNumber(value.value)
+    ? { type: value.type, value: value.value }
+    : undefined;
+
+const parsePenalty = (value: unknown): CustomRule['discarderPenalty'] =>
+  isObject(value) && value.enabled === true && isBonusType(value.type) && isPositiveNumber(value.value)
+    ? { enabled: true, type: value.type, value: value.value }
+    : undefined;
+
+/** A shared rule with every effect checked; effects that are not well formed are dropped. */
+const parseCustomRule = (value: unknown): LegacyCustomRule | undefined => {
+  if (!isObject(value) || typeof value.id !== 'string' || typeof value.title !== 'string') return undefined;
+  return {
+    id: value.id,
+    title: value.title,
+    description: typeof value.description === 'string' ? value.description : undefined,
+    winnerBonus: parseWinnerBonus(value.winnerBonus),
+    discarderPenalty: parsePenalty(value.discarderPenalty),
+    allPlayerPenalty: parsePenalty(value.allPlayerPenalty),
+    splitFromId: typeof value.splitFromId === 'string' ? value.splitFromId : undefined,
+    createdAt: typeof value.createdAt === 'number' ? value.createdAt : Date.now(),
+    type: isLegacyRuleType(value.type) ? value.type : undefined,
+    value: isPositiveNumber(value.value) ? value.value : undefined,
+  };
+};
+
+const parseCustomRules = (value: unknown): LegacyCustomRule[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map(parseCustomRule)
+    .filter((rule): rule is LegacyCustomRule => rule !== undefined);
+};
+
+const parseCustomRuleValues = (value: unknown): CustomRuleValues => {
+  if (!isObject(value)) return {};
+  const values: CustomRuleValues = {};
+  Object.entries(value).forEach(([key, entry]) => {
+    if (isObject(entry) && (entry.type === 'multiplier' || entry.type === 'points') && isPositiveNumber(entry.value)) {
+      values[key] = { type: entry.type, value: entry.value };
+    }
+  });
+  return values;
+};
+
+const parseStackingProfile = (value: unknown): NmjlStackingProfile => {
+  if (!isObject(value) || !Array.isArray(value.order)) return DEFAULT_STACKING_PROFILE;
+  return normalizeStackingProfile({
+    id: typeof value.id === 'string' ? value.id : 'custom',
+    name: typeof value.name === 'string' ? value.name : 'Custom',
+    order: value.order,
+    scales: isObject(value.scales) ? value.scales : {},
+  } as NmjlStackingProfile);
+};
+
+/**
+ * Read a shared profile document. Throws an Error with a message fit for
+ * showing to the user when the text is not a profile this app can read.
+ */
+export const parseHouseRuleProfile = (json: string): HouseRuleProfile => {
+  let document: unknown;
+  try {
+    document = JSON.parse(json);
+  } catch {
+    throw new Error('The text is not valid JSON.');
+  }
+  if (!isObject(document) || document.format !== HOUSE_RULES_FORMAT || !isObject(document.profile)) {
+    throw new Error('This is not a house rule profile.');
+  }
+  if (typeof document.version !== 'number' || document.version > HOUSE_RULES_VERSION) {
+    throw new Error('This profile was made with a newer version of the app. Update the app to import it.');
+  }
+
+  const profile = document.profile;
+  const name = typeof profile.name === 'string' ? profile.name.trim() : '';
+  if (!name) {
+    throw new Error('The profile has no name.');
+  }
+
+  return {
+    id: typeof profile.id === 'string' && profile.id
+      ? profile.id
+      : Date.now().toString() + Math.random().toString(36).substr(2, 9),
+    name,
+    displayMode: profile.displayMode === 'points' ? 'points' : 'currency',
+    kittyEnabled: profile.kittyEnabled === true,
+    kittyPayout: isPositiveNumber(profile.kittyPayout) ? profile.kittyPayout : DEFAULT_KITTY_PAYOUT,
+    numPlayers: profile.numPlayers === 2 || profile.numPlayers === 3 ? profile.numPlayers : 4,
+    ...upgradeSelectedCustomRules(
+      parseCustomRules(profile.customRules),
+      parseCustomRuleValues(profile.customRuleValues)
+    ),
+    stackingProfile: parseStackingProfile(profile.stackingProfile),
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  };
+};
@@ -0,0 +1,228 @@
+/**
+ * Table assignments that keep repeat opponents to a minimum. Pure functions
+ * over entrant ids, so tournament rounds and league nights can both use them.
+ */
+
+/** What to do with entrants left over once the tables of four are full. */
+export type ShortTablePolicy = 'threeHanded' | 'byes';
+
+export interface PairingOptions {
+  shortTables?: ShortTablePolicy; // Defaults to three-handed tables
+  /** Earlier rounds, each as its tables of entrant ids. */
+  history?: string[][][];
+  /** Byes each entrant has already had; the fewest sit out next. */
+  byeCounts?: Record<string, number>;
+  /**
+   * Entrant ids in standings order. Seeded rounds start from tables of
+   * neighbouring ranks and only move players apart to avoid repeats.
+   */
+  seeding?: string[];
+  random?: () => number; // Injectable for repeatable draws
+  attempts?: number; // Random starting draws to try when unseeded
+}
+
+export interface PairingRound {
+  tables: string[][];
+  byeIds: string[];
+  /** Pairs seated together this round who have already met. */
+  repeatPairings: number;
+}
+
+/** A repeat opponent always costs more than any spread in seeding. */
+const REPEAT_WEIGHT = 10000;
+const MAX_PASSES = 50;
+const DEFAULT_ATTEMPTS = 8;
+
+/**
+ * Table sizes for a number of entrants. With three-handed tables the
+ * remainder is spread over tables of three where there are enough players;
+ * otherwise (or with byes) the leftovers sit out.
+ */
+export const tableSizes = (
+  entrantCount: number,
+  shortTables: ShortTablePolicy = 'threeHanded'
+): { sizes: number[]; byes: number } => {
+  if (entrantCount < 3) return { sizes: [], byes: entrantCount };
+  if (entrantCount < 4) {
+    return shortTables === 'threeHanded' ? { sizes: [3], byes: 0 } : { sizes: [], byes: entrantCount };
+  }
+  const tables = Math.ceil(entrantCount / 4);
+  if (shortTables === 'threeHanded' && tables * 3 <= entrantCount) {
+    const fours = entrantCount - tables * 3;
+    return { sizes: Array.from({ length: tables }, (_, i) => (i < fours ? 4 : 3)), byes: 0 };
+  }
+  const fullTables = Math.floor(entrantCount / 4);
+  return { sizes: Array(fullTables).fill(4), byes: entrantCount - fullTables * 4 };
+};
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+/** How many times each pair of entrants has shared a table. */
+export const countPairings = (history: string[][][]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  history.forEach((round) =>
+    round.forEach((table) => {
+      for (let i = 0; i < table.length; i++) {
+        for (let j = i + 1; j < table.length; j++) {
+          const key = pairKey(table[i], table[j]);
+          counts.set(key, (counts.get(key) ?? 0) + 1);
+        }
+      }
+    })
+  );
+  return counts;
+};
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+const tableCost = (table: string[], counts: Map<string, number>, seedIndex?: Map<string, number>): number => {
+  let cost = 0;
+  for (let i = 0; i < table.length; i++) {
+    for (let j = i + 1; j < table.length; j++) {
+      cost += (counts.get(pairKey(table[i], table[j])) ?? 0) * REPEAT_WEIGHT;
+    }
+  }
+  if (seedIndex) {
+    const seeds = table.map((id) => seedIndex.get(id) ?? 0);
+    cost += Math.max(...seeds) - Math.min(...seeds);
+  }
+  return cost;
+};
+
+/** Swap players between tables while it lowers the total cost. */
+const improveBySwaps = (tables: string[][], counts: Map<string, number>, seedIndex?: Map<string, number>) => {
+  const costs = tables.map((table) => tableCost(table, counts, seedIndex));
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    let improved = false;
+    for (let t1 = 0; t1 < tables.length; t1++) {
+      for (let t2 = t1 + 1; t2 < tables.length; t2++) {
+        for (let i = 0; i < tables[t1].length; i++) {
+          for (let j = 0; j < tables[t2].length; j++) {
+            const a = [...tables[t1]];
+            const b = [...tables[t2]];
+            [a[i], b[j]] = [b[j], a[i]];
+            const costA = tableCost(a, counts, seedIndex);
+            const costB = tableCost(b, counts, seedIndex);
+            if (costA + costB < costs[t1] + costs[t2]) {
+              tables[t1] = a;
+              tables[t2] = b;
+              costs[t1] = costA;
+              costs[t2] = costB;
+              improved = true;
+            }
+          }
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return costs.reduce((sum, cost) => sum + cost, 0);
+};
+
+const countRepeats = (tables: string[][], counts: Map<string, number>): number =>
+  tables.reduce((sum, table) => {
+    let repeats = 0;
+    for (let i = 0; i < table.length; i++) {
+      for (let j = i + 1; j < table.length; j++) {
+        if ((counts.get(pairKey(table[i], table[j])) ?? 0) > 0) repeats += 1;
+      }
+    }
+    return sum + repeats;
+  }, 0);
+
+/**
+ * Entrants to sit out: those with the fewest byes so far, then the lowest
+ * seeds (or a random pick when unseeded).
+ */
+const chooseByes = (
+  entrantIds: string[],
+  byes: number,
+  byeCounts: Record<string, number>,
+  random: () => number,
+  seedIndex?: Map<string, number>
+): string[] => {
+  if (byes === 0) return [];
+  const order = seedIndex
+    ? [...entrantIds].sort((a, b) => (seedIndex.get(b) ?? 0) - (seedIndex.get(a) ?? 0))
+    : shuffle(entrantIds, random);
+  return order
+    .map((id, position) => ({ id, position }))
+    .sort((a, b) => (byeCounts[a.id] ?? 0) - (byeCounts[b.id] ?? 0) || a.position - b.position)
+    .slice(0, byes)
+    .map(({ id }) => id);
+};
+
+const splitIntoTables = (ids: string[], sizes: number[]): string[][] => {
+  let next = 0;
+  return sizes.map((size) => {
+    const table = ids.slice(next, next + size);
+    next += size;
+    return table;
+  });
+};
+
+/** Seat one round, keeping entrants who have already met apart where possible. */
+export const pairRound = (entrantIds: string[], options: PairingOptions = {}): PairingRound => {
+  const random = options.random ?? Math.random;
+  const counts = countPairings(options.history ?? []);
+  const seedIndex = options.seeding
+    ? new Map(
+        entrantIds.map((id) => {
+          const seed = options.seeding!.indexOf(id);
+          return [id, seed >= 0 ? seed : options.seeding!.length];
+        })
+      )
+    : undefined;
+
+  const { sizes, byes } = tableSizes(entrantIds.length, options.shortTables);
+  const byeIds = chooseByes(entrantIds, byes, options.byeCounts ?? {}, random, seedIndex);
+  const playing = entrantIds.filter((id) => !byeIds.includes(id));
+
+  let best: { tables: string[][]; cost: number } | null = null;
+  if (seedIndex) {
+    const seeded = [...playing].sort((a, b) => (seedIndex.get(a) ?? 0) - (seedIndex.get(b) ?? 0));
+    const tables = splitIntoTables(seeded, sizes);
+    best = { tables, cost: improveBySwaps(tables, counts, seedIndex) };
+  } else {
+    const attempts = Math.max(1, options.attempts ?? DEFAULT_ATTEMPTS);
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      const tables = splitIntoTables(shuffle(playing, random), sizes);
+      const cost = improveBySwaps(tables, counts);
+      if (!best || cost < best.cost) best = { tables, cost };
+      if (cost === 0) break;
+    }
+  }
+
+  const tables = best?.tables ?? [];
+  return { tables, byeIds, repeatPairings: countRepeats(tables, counts) };
+};
+
+/**
+ * Seat several rounds ahead. Each round counts the pairings and byes of the
+ * rounds before it, including any already played in `history`.
+ */
+export const pairRounds = (
+  entrantIds: string[],
+  roundCount: number,
+  options: PairingOptions = {}
+): PairingRound[] => {
+  const history = [...(options.history ?? [])];
+  const byeCounts = { ...(options.byeCounts ?? {}) };
+  const rounds: PairingRound[] = [];
+  for (let i = 0; i < roundCount; i++) {
+    const round = pairRound(entrantIds, { ...options, history, byeCounts });
+    rounds.push(round);
+    history.push(round.tables);
+    round.byeIds.forEach((id) => {
+      byeCounts[id] = (byeCounts[id] ?? 0) + 1;
+    });
+  }
+  return rounds;
+};
@@ -0,0 +1,112 @@
+import { computeNmjlStandard, computeTournament, SCORING_ENGINE_VERSION } from '@/lib/scoring/engine';
+import { computeChineseOfficial } from '@/lib/scoring/chineseOfficial/chineseOfficialEngine';
+import { customRuleInputs, ruleValueInputs } from '@/lib/scoring/ruleValues';
+import type { NmjlStackingProfile, ScoreInput } from '@/lib/scoring/types';
+import type { CustomRule } from '@/lib/storage/customRulesStorage';
+import type { SavedHand, SavedScoreInput } from '@/lib/types/game';
+import type { CustomRuleValues } from '@/lib/types/houseRules';
+
+/** House rules to score with instead of the ones the hand was saved with (NMJL standard only). */
+export interface RescoreOptions {
+  stackingProfile?: NmjlStackingProfile;
+  customRules?: CustomRule[]; // Replaces the custom rules selected when the hand was saved
+  customRuleValues?: CustomRuleValues;
+}
+
+export interface RescoreOutcome {
+  /** The hand with its result fields replaced by the current engine's. */
+  hand: SavedHand;
+  previousTotal: number;
+  total: number;
+  previousPerLoserAmounts?: SavedHand['perLoserAmounts'];
+  changed: boolean;
+}
+
+/** Result fields of a saved hand as the current engine computes them. */
+const scoreSavedInput = (
+  scoreInput: SavedScoreInput
+): Pick<SavedHand, 'totalToWinner' | 'perLoserAmounts' | 'exposurePenalty'> => {
+  switch (scoreInput.engine) {
+    case 'standard': {
+      const result = computeNmjlStandard(scoreInput.input);
+      return {
+        totalToWinner: result.totalToWinner,
+        perLoserAmounts: result.perLoserAmounts,
+        exposurePenalty: result.exposurePenalty,
+      };
+    }
+    case 'tournament': {
+      const result = computeTournament(scoreInput.input);
+      const winnerId = scoreInput.input.winnerId;
+      return {
+        totalToWinner: winnerId ? result.pointsByPlayer[winnerId] ?? 0 : 0,
+        perLoserAmounts: undefined,
+        exposurePenalty: undefined,
+      };
+    }
+    case 'chineseOfficial': {
+      const result = computeChineseOfficial({
+        ...scoreInput.input,
+        selectedFanIDs: new Set(scoreInput.input.selectedFanIDs),
+      });
+      return { totalToWinner: result.totalToWinner, perLoserAmounts: undefined, exposurePenalty: undefined };
+    }
+  }
+};
+
+const withOptions = (scoreInput: SavedScoreInput, options: RescoreOptions): SavedScoreInput => {
+  if (scoreInput.engine !== 'standard') return scoreInput;
+  const input: ScoreInput = { ...scoreInput.input };
+  if (options.stackingProfile) {
+    input.stackingProfile = options.stackingProfile;
+  }
+  if (options.customRules) {
+    input.customRules = customRuleInputs(options.customRules);
+  }
+  if (options.customRuleValues) {
+    Object.assign(input, ruleValueInputs(options.customRuleValues, !!input.noExposures));
+    // Points-mode wall games award a fixed amount rather than the kitty
+    const kitty = options.customRuleValues.kitty;
+    if (kitty && input.kittyPayout && !(input.displayMode === 'points' && input.wallGame)) {
+      input.kittyPayout = kitty.value;
+    }
+  }
+  return { engine: 'standard', input };
+};
+
+/** Whether the hand's stored result came from an older engine than this one. */
+export const isScoredByOlderEngine = (hand: SavedHand): boolean =>
+  hand.scoreInput !== undefined && (hand.engineVersion ?? 0) < SCORING_ENGINE_VERSION;
+
+/**
+ * Re-run the current engine on a saved hand's stored input. Returns null for
+ * hands saved before the input was kept, which cannot be re-scored.
+ */
+export const rescoreHand = (hand: SavedHand, options: RescoreOptions = {}): RescoreOutcome | null => {
+  if (!hand.scoreInput) return null;
+  const scoreInput = withOptions(hand.scoreInput, options);
+  const scored = scoreSavedInput(scoreInput);
+  // Tournament hands also keep every player's points; refresh them alongside the winner's total
+  let tournament = hand.tournament;
+  if (scoreInput.engine === 'tournament' && tournament) {
+    const { pointsByPlayer, breakdown } = computeTournament(scoreInput.input);
+    tournament = { ...tournament, pointsByPlayer, breakdown };
+  }
+  const changed =
+    scored.totalToWinner !== hand.totalToWinner ||
+    scored.perLoserAmounts?.discarder !== hand.perLoserAmounts?.discarder ||
+    scored.perLoserAmounts?.others !== hand.perLoserAmounts?.others;
+  return {
+    hand: {
+      ...hand,
+      ...scored,
+      tournament,
+      scoreInput,
+      engineVersion: SCORING_ENGINE_VERSION,
+    },
+    previousTotal: hand.totalToWinner,
+    total: scored.totalToWinner,
+    previousPerLoserAmounts: hand.perLoserAmounts,
+    changed,
+  };
+};
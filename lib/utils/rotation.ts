@@ -0,0 +1,115 @@
+import { SEAT_WINDS, type SeatedPlayer, type SeatWind } from '@/lib/types/player';
+import type { GameSession, RotationRules, SessionHand } from '@/lib/types/session';
+
+/** NMJL: East passes after every hand; the round wind is not scored. */
+export const NMJL_ROTATION_RULES: RotationRules = {
+  dealerRetention: 'never',
+  rotatePrevalentWind: false,
+};
+
+/** MCR: seats move every hand and the prevalent wind every four hands. */
+export const MCR_ROTATION_RULES: RotationRules = {
+  dealerRetention: 'never',
+  rotatePrevalentWind: true,
+};
+
+export interface RotationState {
+  /** Index (in starting seat order) of the player who is East this hand. */
+  dealerIndex: number;
+  prevalentWind: SeatWind;
+  /** Hands played so far (0 before the first hand). */
+  handsPlayed: number;
+  /** Consecutive hands the current dealer has kept the deal. */
+  dealerRepeats: number;
+}
+
+export const initialRotationState = (): RotationState => ({
+  dealerIndex: 0,
+  prevalentWind: 'East',
+  handsPlayed: 0,
+  dealerRepeats: 0,
+});
+
+/** Tile value the Chinese engines use for a wind ("E", "S", "W", "N"). */
+export const windTileValue = (wind: SeatWind): string => wind[0];
+
+/** Seat wind of the player at `playerIndex` (starting seat order). */
+export const seatWindFor = (state: RotationState, playerIndex: number, numPlayers: number = 4): SeatWind => {
+  return SEAT_WINDS[(playerIndex - state.dealerIndex + numPlayers) % numPlayers];
+};
+
+/**
+ * Move on to the next hand. The deal passes to the player on East's right
+ * (South) unless the rules let East keep it; the prevalent wind advances each
+ * time the deal gets back to the first dealer.
+ */
+export const advanceRotation = (
+  state: RotationState,
+  rules: RotationRules,
+  outcome: { dealerWon: boolean; wallGame: boolean },
+  numPlayers: number = 4
+): RotationState => {
+  const keepsDeal =
+    (rules.dealerRetention !== 'never' && outcome.dealerWon) ||
+    (rules.dealerRetention === 'dealerWinOrWallGame' && outcome.wallGame);
+
+  if (keepsDeal) {
+    return {
+      ...state,
+      handsPlayed: state.handsPlayed + 1,
+      dealerRepeats: state.dealerRepeats + 1,
+    };
+  }
+
+  const dealerIndex = (state.dealerIndex + 1) % numPlayers;
+  const roundComplete = dealerIndex === 0;
+  const prevalentWind =
+    roundComplete && rules.rotatePrevalentWind
+      ? SEAT_WINDS[(SEAT_WINDS.indexOf(state.prevalentWind) + 1) % SEAT_WINDS.length]
+      : state.prevalentWind;
+
+  return {
+    dealerIndex,
+    prevalentWind,
+    handsPlayed: state.handsPlayed + 1,
+    dealerRepeats: 0,
+  };
+};
+
+const handOutcome = (session: GameSession, state: RotationState, hand: SessionHand) => ({
+  dealerWon: !!hand.winnerId && hand.winnerId === session.players[state.dealerIndex]?.id,
+  wallGame: !!hand.wallGame,
+});
+
+/** Rotation state before each hand of the session, in play order. */
+export const calculateRotationHistory = (session: GameSession): RotationState[] => {
+  const rules = session.rotationRules ?? NMJL_ROTATION_RULES;
+  const history: RotationState[] = [];
+  let state = initialRotationState();
+  session.hands.forEach((hand) => {
+    history.push(state);
+    state = advanceRotation(state, rules, handOutcome(session, state, hand), session.players.length);
+  });
+  return history;
+};
+
+/** Rotation state for the next hand to be played. */
+export const calculateCurrentRotation = (session: GameSession): RotationState => {
+  const rules = session.rotationRules ?? NMJL_ROTATION_RULES;
+  return session.hands.reduce(
+    (state, hand) =>
+      advanceRotation(state, rules, handOutcome(session, state, hand), session.players.length),
+    initialRotationState()
+  );
+};
+
+/** Session players with the seat winds they hold for the given hand. */
+export const seatPlayersForRotation = (
+  players: SeatedPlayer[],
+  state: RotationState
+): SeatedPlayer[] => {
+  return players.map((player, index) => ({
+    ...player,
+    seatWind: seatWindFor(state, index, players.length),
+  }));
+};
@@ -0,0 +1,60 @@
+import type { RoundTimer } from '@/lib/types/tournament';
+
+export type RoundTimerStatus = 'idle' | 'running' | 'paused' | 'warning' | 'expired';
+
+export const DEFAULT_ROUND_MINUTES = 60;
+export const DEFAULT_WARNING_MINUTES = [10, 5, 1];
+
+export const createRoundTimer = (
+  durationMinutes: number = DEFAULT_ROUND_MINUTES,
+  warningMinutes: number[] = DEFAULT_WARNING_MINUTES
+): RoundTimer => ({
+  durationMs: durationMinutes * 60000,
+  warningMinutes: [...new Set(warningMinutes.filter((m) => m > 0 && m < durationMinutes))].sort((a, b) => b - a),
+  elapsedMs: 0,
+});
+
+export const timerElapsedMs = (timer: RoundTimer, now: number): number =>
+  timer.elapsedMs + (timer.startedAt !== undefined ? now - timer.startedAt : 0);
+
+export const timerRemainingMs = (timer: RoundTimer, now: number): number =>
+  Math.max(0, timer.durationMs - timerElapsedMs(timer, now));
+
+export const startRoundTimer = (timer: RoundTimer, now: number): RoundTimer =>
+  timer.startedAt !== undefined ? timer : { ...timer, startedAt: now };
+
+export const pauseRoundTimer = (timer: RoundTimer, now: number): RoundTimer =>
+  timer.startedAt === undefined
+    ? timer
+    : { ...timer, startedAt: undefined, elapsedMs: Math.min(timer.durationMs, timerElapsedMs(timer, now)) };
+
+export const resetRoundTimer = (timer: RoundTimer): RoundTimer => ({
+  ...timer,
+  startedAt: undefined,
+  elapsedMs: 0,
+  expiryPending: undefined,
+});
+
+export const roundTimerStatus = (timer: RoundTimer, now: number): RoundTimerStatus => {
+  const remaining = timerRemainingMs(timer, now);
+  if (remaining === 0) return 'expired';
+  if (timer.startedAt === undefined) return timer.elapsedMs > 0 ? 'paused' : 'idle';
+  const firstWarning = timer.warningMinutes[0];
+  return firstWarning !== undefined && remaining <= firstWarning * 60000 ? 'warning' : 'running';
+};
+
+/** The smallest warning threshold already reached, or null before the first one. */
+export const reachedWarning = (timer: RoundTimer, now: number): number | null => {
+  const remaining = timerRemainingMs(timer, now);
+  const reached = timer.warningMinutes.filter((m) => remaining <= m * 60000);
+  return reached.length > 0 ? Math.min(...reached) : null;
+};
+
+/** Remaining time as m:ss, or h:mm:ss for an hour or more. */
+export const formatTimerRemaining = (ms: number): string => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
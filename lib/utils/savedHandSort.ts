@@ -2,20 +2,25 @@ import type { HandCardYear } from '@/lib/data/handCategories';
 import { getCategoriesForSavedHand } from '@/lib/data/handData';
 import type { SavedHand } from '@/lib/types/game';
 
-export type StatsCardSet = 'american' | 'international';
+export type StatsCardSet = 'american' | 'international' | 'chineseOfficial';
 
 export const CARD_YEARS: HandCardYear[] = ['2026', '2025'];
 
 export const STATS_CARD_SETS: { id: StatsCardSet; label: string }[] = [
   { id: 'american', label: 'National Mahjong League' },
   { id: 'international', label: 'International Mahjong' },
+  { id: 'chineseOfficial', label: 'Chinese Official' },
 ];
 
+/** Chinese Official has no yearly card, so its statistics span every year. */
+export const cardSetHasYears = (cardSet: StatsCardSet): boolean => cardSet !== 'chineseOfficial';
+
 export const getHandCardYear = (hand: SavedHand): HandCardYear => {
-  return hand.cardYear ?? '2025';
+  return hand.cardYear;
 };
 
 export const getSavedHandCardSet = (hand: SavedHand): StatsCardSet => {
+  if (hand.mode === 'chineseOfficial') return 'chineseOfficial';
   return hand.mode === 'international' ? 'international' : 'american';
 };
 
@@ -26,7 +31,8 @@ export const filterHandsByCardSetAndYear = (
 ): SavedHand[] => {
   return hands.filter(
     (hand) =>
-      getSavedHandCardSet(hand) === cardSet && getHandCardYear(hand) === year
+      getSavedHandCardSet(hand) === cardSet &&
+      (!cardSetHasYears(cardSet) || getHandCardYear(hand) === year)
   );
 };
 
@@ -36,6 +42,9 @@ export const sortHandsByCardOrder = (
   cardSet: StatsCardSet,
   year: HandCardYear
 ): SavedHand[] => {
+  if (cardSet === 'chineseOfficial') {
+    return [...hands].sort((a, b) => a.timestamp - b.timestamp);
+  }
   const mode = cardSet === 'international' ? 'international' : 'standard';
   const categoryOrder = new Map(
     getCategoriesForSavedHand(year, mode).map((category, index) => [
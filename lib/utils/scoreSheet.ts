@@ -0,0 +1,197 @@
+import type { TournamentGameResult } from '@/lib/scoring/types';
+import type {
+  TournamentEvent,
+  TournamentEventHand,
+  TournamentRound,
+  TournamentStanding,
+  TournamentTable,
+} from '@/lib/types/tournament';
+import { calculateStandings } from './tournamentEvent';
+
+const RESULT_NAMES: Record<TournamentGameResult, string> = {
+  valid_win: 'Mah Jongg',
+  false_mj_all_exposed: 'False Mah Jongg',
+  false_mj_one_intact: 'False Mah Jongg',
+  false_mj_game_continues: 'False Mah Jongg (Play On)',
+  time_expired: 'Time Expired',
+};
+
+/** One table's hands for the sheet, with the running total per seat. */
+interface TableSheet {
+  table: TournamentTable;
+  hands: TournamentEventHand[];
+  totals: Record<string, number>;
+}
+
+const formatPoints = (points: number) => (points > 0 ? `+${points}` : `${points}`);
+
+const entrantName = (event: TournamentEvent, id?: string) =>
+  event.entrants.find((e) => e.id === id)?.name ?? id ?? '';
+
+const resultLabel = (event: TournamentEvent, hand: TournamentEventHand): string => {
+  if (hand.wallGame) return 'Wall Game';
+  if (hand.gameResult === 'valid_win' && hand.winnerId) {
+    const discarder = hand.discarderId ? `, discard from ${entrantName(event, hand.discarderId)}` : ', self-pick';
+    return `Mah Jongg by ${entrantName(event, hand.winnerId)}${discarder}`;
+  }
+  return RESULT_NAMES[hand.gameResult];
+};
+
+const findRound = (event: TournamentEvent, roundNumber: number): TournamentRound => {
+  const round = event.rounds.find((r) => r.roundNumber === roundNumber);
+  if (!round) {
+    throw new Error(`Round ${roundNumber} not found`);
+  }
+  return round;
+};
+
+const tableSheets = (round: TournamentRound): TableSheet[] =>
+  round.tables.map((table) => {
+    const hands = round.hands.filter((h) => h.tableNumber === table.tableNumber);
+    const totals: Record<string, number> = {};
+    table.players.forEach((p) => {
+      totals[p.id] = hands.reduce((sum, hand) => sum + (hand.pointsByPlayer[p.id] ?? 0), 0);
+    });
+    return { table, hands, totals };
+  });
+
+/** Standings counting only the rounds up to and including this one. */
+const standingsAfter = (event: TournamentEvent, round: TournamentRound): TournamentStanding[] =>
+  calculateStandings({ ...event, rounds: event.rounds.filter((r) => r.roundNumber <= round.roundNumber) });
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const csvCell = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRow = (cells: unknown[]) => cells.map(csvCell).join(',');
+
+/**
+ * A printable score sheet for one round: each table's hands with every
+ * seat's points and the hand's breakdown lines, then the cumulative
+ * standings after the round. Self-contained HTML, so it renders the same
+ * in a browser or a PDF.
+ */
+export const exportRoundScoreSheetHtml = (event: TournamentEvent, roundNumber: number): string => {
+  const round = findRound(event, roundNumber);
+  const standings = standingsAfter(event, round);
+
+  const tableSections = tableSheets(round).map(({ table, hands, totals }) => {
+    const seatHeaders = table.players
+      .map((p) => `<th>${escapeHtml(p.seatWind)}<br>${escapeHtml(p.name)}</th>`)
+      .join('');
+    const handRows = hands
+      .map((hand, index) => {
+        const points = table.players
+          .map((p) => `<td class="num">${formatPoints(hand.pointsByPlayer[p.id] ?? 0)}</td>`)
+          .join('');
+        const breakdown = hand.breakdown.map((line) => `<li>${escapeHtml(line)}</li>`).join('');
+        const name = hand.handName ? `<br><em>${escapeHtml(hand.handName)}</em>` : '';
+        return `<tr><td>${index + 1}</td><td>${escapeHtml(resultLabel(event, hand))}${name}</td>${points}<td><ul>${breakdown}</ul></td></tr>`;
+      })
+      .join('');
+    const totalCells = table.players
+      .map((p) => `<td class="num">${formatPoints(totals[p.id])}</td>`)
+      .join('');
+    const emptyRow = hands.length === 0
+      ? `<tr><td colspan="${table.players.length + 3}">No hands recorded.</td></tr>`
+      : '';
+    return `<h2>Table ${table.tableNumber}</h2>
+<table>
+<thead><tr><th>#</th><th>Result</th>${seatHeaders}<th>Breakdown</th></tr></thead>
+<tbody>${handRows}${emptyRow}</tbody>
+<tfoot><tr><th colspan="2">Table total</th>${totalCells}<th></th></tr></tfoot>
+</table>`;
+  });
+
+  const byes = round.byeIds.length > 0
+    ? `<p>Sitting out: ${round.byeIds.map((id) => escapeHtml(entrantName(event, id))).join(', ')}</p>`
+    : '';
+  const roundHeaders = standings[0]?.roundPoints.map((_, i) => `<th>R${i + 1}</th>`).join('') ?? '';
+  const standingRows = standings
+    .map((s) => {
+      const rounds = s.roundPoints.map((points) => `<td class="num">${formatPoints(points)}</td>`).join('');
+      return `<tr><td>${s.rank}</td><td>${escapeHtml(s.name)}</td>${rounds}<td class="num"><strong>${formatPoints(s.totalPoints)}</strong></td><td class="num">${s.wins}</td><td class="num">${s.handsPlayed}</td></tr>`;
+    })
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(event.name)} - Round ${round.roundNumber}</title>
+<style>
+body { font-family: -apple-system, Helvetica, Arial, sans-serif; margin: 24px; color: #222; }
+table { border-collapse: collapse; width: 100%; margin-bottom: 24px; }
+th, td { border: 1px solid #999; padding: 4px 6px; vertical-align: top; font-size: 12px; text-align: left; }
+td.num { text-align: right; white-space: nowrap; }
+ul { margin: 0; padding-left: 16px; }
+h2 { page-break-after: avoid; }
+table { page-break-inside: avoid; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(event.name)} - Round ${round.roundNumber}</h1>
+<p>Started ${escapeHtml(new Date(round.startedAt).toLocaleString())} · ${round.tables.length} table${round.tables.length === 1 ? '' : 's'} · ${round.hands.length} hand${round.hands.length === 1 ? '' : 's'}</p>
+${byes}
+${tableSections.join('\n')}
+<h2>Standings after Round ${round.roundNumber}</h2>
+<table>
+<thead><tr><th>Rank</th><th>Player</th>${roundHeaders}<th>Total</th><th>MJ</th><th>Hands</th></tr></thead>
+<tbody>${standingRows}</tbody>
+</table>
+</body>
+</html>`;
+};
+
+/**
+ * The same score sheet as CSV: one row per hand with the table's four seats
+ * and their points, a total row per table, then the standings after the
+ * round. Breakdown lines are joined with " | " in a single cell.
+ */
+export const exportRoundScoreSheetCsv = (event: TournamentEvent, roundNumber: number): string => {
+  const round = findRound(event, roundNumber);
+  const standings = standingsAfter(event, round);
+  const seatCount = Math.max(0, ...round.tables.map((t) => t.players.length));
+  const seatColumns = Array.from({ length: seatCount }, (_, i) => [`seat${i + 1}`, `seat${i + 1}Points`]).flat();
+
+  const lines: string[] = [
+    csvRow(['round', 'table', 'hand', 'date', 'result', 'handName', ...seatColumns, 'breakdown']),
+  ];
+  tableSheets(round).forEach(({ table, hands, totals }) => {
+    const seatCells = (points: (id: string) => number) =>
+      Array.from({ length: seatCount }, (_, i) => {
+        const player = table.players[i];
+        return player ? [`${player.seatWind} ${player.name}`, points(player.id)] : ['', ''];
+      }).flat();
+    hands.forEach((hand, index) => {
+      lines.push(csvRow([
+        round.roundNumber,
+        table.tableNumber,
+        index + 1,
+        new Date(hand.timestamp).toISOString(),
+        resultLabel(event, hand),
+        hand.handName,
+        ...seatCells((id) => hand.pointsByPlayer[id] ?? 0),
+        hand.breakdown.join(' | '),
+      ]));
+    });
+    lines.push(csvRow([round.roundNumber, table.tableNumber, 'total', '', '', '', ...seatCells((id) => totals[id]), '']));
+  });
+
+  const roundColumns = standings[0]?.roundPoints.map((_, i) => `round${i + 1}`) ?? [];
+  lines.push('');
+  lines.push(csvRow(['rank', 'player', ...roundColumns, 'totalPoints', 'wins', 'handsPlayed', 'discarderPenaltyPoints']));
+  standings.forEach((s) => {
+    lines.push(csvRow([s.rank, s.name, ...s.roundPoints, s.totalPoints, s.wins, s.handsPlayed, s.discarderPenaltyPoints]));
+  });
+  return lines.join('\r\n');
+};
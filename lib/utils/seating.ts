@@ -0,0 +1,40 @@
+import { SEAT_WINDS, type RosterPlayer, type SeatedPlayer, type SeatWind } from '@/lib/types/player';
+
+/** Stand-in for an empty seat, named after the seat wind. */
+export const seatPlaceholder = (seatWind: SeatWind): SeatedPlayer => ({
+  id: `seat-${seatWind.toLowerCase()}`,
+  name: seatWind,
+  seatWind,
+});
+
+/**
+ * Seat roster players at a four-player table. Preferred seats are honoured
+ * first (in roster order), remaining players fill the open seats, and any
+ * seat still empty gets a placeholder.
+ */
+export const seatPlayersFromRoster = (roster: RosterPlayer[]): SeatedPlayer[] => {
+  const bySeat: Partial<Record<SeatWind, RosterPlayer>> = {};
+  roster.forEach((player) => {
+    if (player.preferredSeat && !bySeat[player.preferredSeat]) {
+      bySeat[player.preferredSeat] = player;
+    }
+  });
+  const seatedIds = new Set(Object.values(bySeat).map((p) => p!.id));
+  const unseated = roster.filter((p) => !seatedIds.has(p.id));
+
+  return SEAT_WINDS.map((seatWind) => {
+    const player = bySeat[seatWind] ?? unseated.shift();
+    return player
+      ? { id: player.id, name: player.name, seatWind, avatarColor: player.avatarColor }
+      : seatPlaceholder(seatWind);
+  });
+};
+
+/** Seat of each player by ID, as the scoring engines expect it. */
+export const seatAssignments = (players: SeatedPlayer[]): Record<string, SeatWind> => {
+  return Object.fromEntries(players.map((p) => [p.id, p.seatWind]));
+};
+
+export const playerNameMap = (players: Pick<SeatedPlayer, 'id' | 'name'>[]): Record<string, string> => {
+  return Object.fromEntries(players.map((p) => [p.id, p.name]));
+};
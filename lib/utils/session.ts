@@ -0,0 +1,108 @@
+import type { ScoreResult, TournamentResult } from '@/lib/scoring/types';
+import type { ChineseOfficialResult } from '@/lib/scoring/chineseOfficial/chineseOfficialTypes';
+import type { GameSession, SessionHand, SessionPlayer } from '@/lib/types/session';
+
+/**
+ * NMJL standard payer maps hold what each player pays (positive) and the
+ * winner's receipt as a negative amount, so the net change is the negation.
+ */
+export const netFromPayerMap = (payerMap: Record<string, number>): Record<string, number> => {
+  const net: Record<string, number> = {};
+  Object.entries(payerMap).forEach(([id, amount]) => {
+    net[id] = -amount;
+  });
+  return net;
+};
+
+export const netFromScoreResult = (
+  result: ScoreResult,
+  players: Pick<SessionPlayer, 'id'>[],
+  displayMode: 'currency' | 'points'
+): Record<string, number> => {
+  if (result.rule.wallGameApplied) {
+    // Wall game: everyone pays the kitty (currency) or is awarded points
+    const perPlayer = result.kittyPerPlayer ?? 0;
+    const amount = displayMode === 'points' ? perPlayer : -perPlayer;
+    return Object.fromEntries(players.map((p) => [p.id, amount]));
+  }
+  return netFromPayerMap(result.payerMap);
+};
+
+/** Tournament points are already signed per player; keep the session players' entries. */
+export const netFromTournamentResult = (
+  result: TournamentResult,
+  players: Pick<SessionPlayer, 'id'>[]
+): Record<string, number> => {
+  const net: Record<string, number> = {};
+  players.forEach((player) => {
+    const points = result.pointsByPlayer[player.id];
+    if (points !== undefined) {
+      net[player.id] = points;
+    }
+  });
+  return net;
+};
+
+/**
+ * Chinese Official payer maps list what each loser pays; the winner's own
+ * entry is not a payment, so the winner receives the result's total instead.
+ */
+export const netFromChineseOfficialResult = (
+  result: ChineseOfficialResult,
+  winnerId: string
+): Record<string, number> => {
+  const net: Record<string, number> = {};
+  Object.entries(result.payerMap ?? {}).forEach(([id, amount]) => {
+    if (id !== winnerId) {
+      net[id] = -amount;
+    }
+  });
+  net[winnerId] = result.totalToWinner;
+  return net;
+};
+
+export const createSessionHand = (
+  hand: Omit<SessionHand, 'id' | 'timestamp'>
+): SessionHand => ({
+  id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+  timestamp: Date.now(),
+  ...hand,
+});
+
+/** Cumulative balance per player across every hand in the session. */
+export const calculateSessionBalances = (session: GameSession): Record<string, number> => {
+  const balances: Record<string, number> = Object.fromEntries(
+    session.players.map((p) => [p.id, 0])
+  );
+  session.hands.forEach((hand) => {
+    Object.entries(hand.netByPlayer).forEach(([id, amount]) => {
+      if (balances[id] !== undefined) {
+        balances[id] += amount;
+      }
+    });
+  });
+  return balances;
+};
+
+/** Running balance per player after each hand, in play order. */
+export const calculateRunningBalances = (session: GameSession): Record<string, number>[] => {
+  const running: Record<string, number> = Object.fromEntries(
+    session.players.map((p) => [p.id, 0])
+  );
+  return session.hands.map((hand) => {
+    Object.entries(hand.netByPlayer).forEach(([id, amount]) => {
+      if (running[id] !== undefined) {
+        running[id] += amount;
+      }
+    });
+    return { ...running };
+  });
+};
+
+/** Total paid into the kitty over the session (currency wall games). */
+export const calculateSessionKitty = (session: GameSession): number => {
+  return session.hands.reduce(
+    (sum, hand) => sum + (hand.kittyContribution ?? 0) * session.players.length,
+    0
+  );
+};
@@ -0,0 +1,151 @@
+import type { ScoreResult } from '@/lib/scoring/types';
+import type { GameSession } from '@/lib/types/session';
+import { calculateSessionBalances, calculateSessionKitty, netFromScoreResult } from './session';
+
+/** Party ID used for the kitty when it takes part in the settlement. */
+export const KITTY_PARTY_ID = 'kitty';
+
+/** Above this many parties the exact search is too slow; fall back to greedy matching. */
+const MAX_EXACT_PARTIES = 14;
+
+export interface SettlementTransfer {
+  from: string;
+  to: string;
+  amount: number; // Cents in currency mode, points otherwise
+}
+
+export interface Settlement {
+  transfers: SettlementTransfer[];
+  /** Net balances that were settled, including the kitty when it held money. */
+  balances: Record<string, number>;
+  /**
+   * Amount left unsettled because the balances do not sum to zero
+   * (e.g. flat bonuses the engine adds to the winner's total only).
+   */
+  imbalance: number;
+}
+
+/**
+ * Sum per-player net amounts over many NMJL results. Payer maps hold what each
+ * player paid (positive) and the winner's receipt (negative); wall-game kitty
+ * contributions are debited from every player and returned as the kitty balance.
+ */
+export const balancesFromScoreResults = (
+  results: ScoreResult[],
+  playerIds: string[],
+  displayMode: 'currency' | 'points'
+): { balances: Record<string, number>; kittyBalance: number } => {
+  const balances: Record<string, number> = Object.fromEntries(playerIds.map((id) => [id, 0]));
+  let kittyBalance = 0;
+  results.forEach((result) => {
+    const net = netFromScoreResult(result, playerIds.map((id) => ({ id })), displayMode);
+    Object.entries(net).forEach(([id, amount]) => {
+      balances[id] = (balances[id] ?? 0) + amount;
+    });
+    if (result.rule.wallGameApplied && displayMode === 'currency') {
+      kittyBalance += (result.kittyPerPlayer ?? 0) * playerIds.length;
+    }
+  });
+  return { balances, kittyBalance };
+};
+
+/** Greedy: largest debtor pays largest creditor until one side runs out. */
+const settleGroup = (ids: string[], amounts: Record<string, number>): SettlementTransfer[] => {
+  const remaining = ids.map((id) => ({ id, amount: amounts[id] }));
+  const transfers: SettlementTransfer[] = [];
+  for (;;) {
+    const debtors = remaining.filter((p) => p.amount < 0).sort((a, b) => a.amount - b.amount);
+    const creditors = remaining.filter((p) => p.amount > 0).sort((a, b) => b.amount - a.amount);
+    if (debtors.length === 0 || creditors.length === 0) break;
+    const debtor = debtors[0];
+    const creditor = creditors[0];
+    const amount = Math.min(-debtor.amount, creditor.amount);
+    transfers.push({ from: debtor.id, to: creditor.id, amount });
+    debtor.amount += amount;
+    creditor.amount -= amount;
+  }
+  return transfers;
+};
+
+/**
+ * Split the parties into as many zero-sum groups as possible. A group of k
+ * parties settles in k - 1 transfers, so maximising the number of groups
+ * minimises the total number of transfers.
+ */
+const findZeroSumGroups = (ids: string[], amounts: Record<string, number>): string[][] => {
+  const n = ids.length;
+  const size = 1 << n;
+  const sums = new Array<number>(size).fill(0);
+  const groups = new Array<number>(size).fill(0);
+  const lastAdded = new Array<number>(size).fill(-1);
+
+  for (let mask = 1; mask < size; mask++) {
+    const lowest = Math.log2(mask & -mask);
+    sums[mask] = sums[mask & (mask - 1)] + amounts[ids[lowest]];
+    let best = -1;
+    for (let i = 0; i < n; i++) {
+      if (!(mask & (1 << i))) continue;
+      const candidate = groups[mask ^ (1 << i)];
+      if (candidate > best) {
+        best = candidate;
+        lastAdded[mask] = i;
+      }
+    }
+    groups[mask] = best + (sums[mask] === 0 ? 1 : 0);
+  }
+
+  // Walk back through the build order; a zero prefix sum closes a group
+  const order: number[] = [];
+  let mask = size - 1;
+  while (mask) {
+    order.unshift(lastAdded[mask]);
+    mask ^= 1 << lastAdded[mask];
+  }
+  const result: string[][] = [];
+  let current: string[] = [];
+  let running = 0;
+  order.forEach((index) => {
+    current.push(ids[index]);
+    running += amounts[ids[index]];
+    if (running === 0) {
+      result.push(current);
+      current = [];
+    }
+  });
+  if (current.length > 0) result.push(current);
+  return result;
+};
+
+/**
+ * Minimum set of payments that settles the given net balances
+ * (positive = owed money, negative = owes money).
+ *
+ * A kitty balance is what the players owe the pot (their balances already
+ * include the contributions); it joins the settlement as its own party.
+ */
+export const calculateSettlement = (
+  netBalances: Record<string, number>,
+  kittyBalance: number = 0
+): Settlement => {
+  const balances: Record<string, number> = {};
+  Object.entries(netBalances).forEach(([id, amount]) => {
+    balances[id] = Math.round(amount);
+  });
+  if (kittyBalance > 0) {
+    balances[KITTY_PARTY_ID] = Math.round(kittyBalance);
+  }
+
+  const imbalance = Object.values(balances).reduce((sum, amount) => sum + amount, 0);
+  const parties = Object.keys(balances).filter((id) => balances[id] !== 0);
+
+  const groups = parties.length <= MAX_EXACT_PARTIES
+    ? findZeroSumGroups(parties, balances)
+    : [parties];
+  const transfers = groups.flatMap((group) => settleGroup(group, balances));
+
+  return { transfers, balances, imbalance };
+};
+
+export const calculateSessionSettlement = (session: GameSession): Settlement => {
+  return calculateSettlement(calculateSessionBalances(session), calculateSessionKitty(session));
+};
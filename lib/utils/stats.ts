@@ -1,4 +1,12 @@
-import { SavedHand, PlayerStats } from '../types/game';
+import {
+  SavedHand,
+  PlayerStats,
+  TournamentStats,
+  ChineseOfficialStats,
+  SavedChineseOfficialDetails,
+  SavedTournamentDetails,
+} from '../types/game';
+import { MINIMUM_FAN_POINTS } from '../scoring/chineseOfficial/chineseOfficialEngine';
 
 export const calculateStats = (hands: SavedHand[]): PlayerStats => {
   if (hands.length === 0) {
@@ -38,3 +46,66 @@ export const calculateStats = (hands: SavedHand[]): PlayerStats => {
   };
 };
 
+
+export const calculateTournamentStats = (hands: SavedHand[]): TournamentStats => {
+  const details = hands
+    .map(h => h.tournament)
+    .filter((d): d is SavedTournamentDetails => d !== undefined);
+  const wins = details.filter(d => d.gameResult === 'valid_win' && !d.wallGame && d.winnerId);
+  const winnerPoints = wins.reduce((sum, d) => sum + (d.pointsByPlayer[d.winnerId!] ?? 0), 0);
+
+  return {
+    totalHands: details.length,
+    validWins: wins.length,
+    wallGames: details.filter(d => d.wallGame).length,
+    falseMahjongs: details.filter(d => d.gameResult.startsWith('false_mj')).length,
+    timeExpired: details.filter(d => d.gameResult === 'time_expired').length,
+    averageWinnerPoints: wins.length > 0 ? winnerPoints / wins.length : 0,
+    discarderPenaltyPoints: wins.reduce(
+      (sum, d) => sum + (d.discarderId ? Math.min(0, d.pointsByPlayer[d.discarderId] ?? 0) : 0),
+      0
+    ),
+  };
+};
+
+/** Margin above the minimum for each distribution bucket; the last bucket is open-ended. */
+const FAN_MARGIN_BUCKETS: { label: string; min: number; max: number }[] = [
+  { label: 'Exactly 8', min: 0, max: 0 },
+  { label: '+1 to +4', min: 1, max: 4 },
+  { label: '+5 to +8', min: 5, max: 8 },
+  { label: '+9 to +16', min: 9, max: 16 },
+  { label: '+17 or more', min: 17, max: Infinity },
+];
+
+export const calculateChineseOfficialStats = (hands: SavedHand[]): ChineseOfficialStats => {
+  const details = hands
+    .map(h => h.chineseOfficial)
+    .filter((d): d is SavedChineseOfficialDetails => d !== undefined);
+
+  const fanCounts: Record<string, { id: string; name: string; count: number }> = {};
+  details.forEach(d => {
+    d.fans.forEach(fan => {
+      fanCounts[fan.id] = fanCounts[fan.id] ?? { id: fan.id, name: fan.name, count: 0 };
+      fanCounts[fan.id].count += 1;
+    });
+  });
+
+  const margins = details.map(d => d.fanPointsSum - MINIMUM_FAN_POINTS);
+  const belowMinimum = margins.filter(m => m < 0).length;
+  const marginDistribution = FAN_MARGIN_BUCKETS.map(bucket => ({
+    label: bucket.label,
+    count: margins.filter(m => m >= bucket.min && m <= bucket.max).length,
+  }));
+  if (belowMinimum > 0) {
+    // Hands saved short of the minimum get their own bucket rather than skewing the first
+    marginDistribution.unshift({ label: 'Below 8', count: belowMinimum });
+  }
+
+  return {
+    totalHands: details.length,
+    averageFanPoints:
+      details.length > 0 ? details.reduce((sum, d) => sum + d.fanPointsSum, 0) / details.length : 0,
+    fanCounts: Object.values(fanCounts).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name)),
+    marginDistribution,
+  };
+};
@@ -0,0 +1,195 @@
+import { SEAT_WINDS } from '@/lib/types/player';
+import { pairRound } from './pairing';
+import type { TournamentGameResult, TournamentInput, TournamentResult } from '@/lib/scoring/types';
+import type {
+  StandingsTieBreaker,
+  TournamentEntrant,
+  TournamentEvent,
+  TournamentEventHand,
+  TournamentStanding,
+  TournamentTable,
+} from '@/lib/types/tournament';
+
+export const TIE_BREAKER_LABELS: Record<StandingsTieBreaker, string> = {
+  wins: 'Most Mah Jonggs',
+  bestRound: 'Best single round',
+  fewestDiscarderPenalties: 'Fewest discarder penalties',
+  averagePerHand: 'Highest average per hand',
+};
+
+export const DEFAULT_TIE_BREAKERS: StandingsTieBreaker[] = ['wins', 'bestRound'];
+
+const createId = () => Date.now().toString() + Math.random().toString(36).substr(2, 9);
+
+export const createEntrant = (name: string, rosterPlayer?: { id: string; avatarColor?: string }): TournamentEntrant => ({
+  id: createId(),
+  name,
+  avatarColor: rosterPlayer?.avatarColor,
+  rosterPlayerId: rosterPlayer?.id,
+});
+
+/** Entrants still playing, in registration order. */
+export const activeEntrants = (event: TournamentEvent): TournamentEntrant[] =>
+  event.entrants.filter((e) => !e.withdrawn);
+
+/** Seat a table's entrants East, South, West, North in order. */
+export const seatTable = (tableNumber: number, entrants: TournamentEntrant[]): TournamentTable => ({
+  tableNumber,
+  players: entrants.map((entrant, index) => ({
+    id: entrant.id,
+    name: entrant.name,
+    seatWind: SEAT_WINDS[index],
+    avatarColor: entrant.avatarColor,
+  })),
+});
+
+/** Earlier rounds' tables as entrant ids, for the pairing engine. */
+export const pairingHistory = (event: TournamentEvent): string[][][] =>
+  event.rounds.map((round) => round.tables.map((table) => table.players.map((p) => p.id)));
+
+/** Byes each entrant has had so far. */
+export const byeCounts = (event: TournamentEvent): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  event.rounds.forEach((round) =>
+    round.byeIds.forEach((id) => {
+      counts[id] = (counts[id] ?? 0) + 1;
+    })
+  );
+  return counts;
+};
+
+/**
+ * Draw the next round's tables for the entrants still playing, avoiding
+ * opponents they have already met. Seeded rounds group entrants by standings.
+ */
+export const generateTableAssignments = (
+  event: TournamentEvent,
+  options: { seedByStandings?: boolean; random?: () => number } = {}
+): { tables: TournamentTable[]; byeIds: string[]; repeatPairings: number } => {
+  const entrants = activeEntrants(event);
+  const byId = new Map(entrants.map((e) => [e.id, e]));
+  const round = pairRound(
+    entrants.map((e) => e.id),
+    {
+      shortTables: event.shortTables,
+      history: pairingHistory(event),
+      byeCounts: byeCounts(event),
+      seeding: options.seedByStandings ? calculateStandings(event).map((s) => s.entrantId) : undefined,
+      random: options.random,
+    }
+  );
+  return {
+    tables: round.tables.map((ids, index) => seatTable(index + 1, ids.map((id) => byId.get(id)!))),
+    byeIds: round.byeIds,
+    repeatPairings: round.repeatPairings,
+  };
+};
+
+export const createEventHand = (
+  tableNumber: number,
+  gameResult: TournamentGameResult,
+  input: TournamentInput,
+  result: TournamentResult,
+  handName?: string
+): TournamentEventHand => ({
+  id: createId(),
+  timestamp: Date.now(),
+  tableNumber,
+  gameResult,
+  wallGame: input.isWallGame ?? false,
+  handName,
+  winnerId: input.winnerId,
+  discarderId: input.discarderId ?? undefined,
+  deadPlayerIds: input.deadPlayerIds ?? [],
+  pointsByPlayer: result.pointsByPlayer,
+  breakdown: result.breakdown,
+  input,
+});
+
+/** The table of the current round the calculator is scoring, if any. */
+export const scoringTable = (event: TournamentEvent | null): TournamentTable | null => {
+  if (!event || event.scoringTableNumber === undefined) return null;
+  const round = event.rounds[event.rounds.length - 1];
+  return round?.tables.find((t) => t.tableNumber === event.scoringTableNumber) ?? null;
+};
+
+const isWin = (hand: TournamentEventHand) =>
+  hand.gameResult === 'valid_win' && !hand.wallGame && hand.winnerId !== undefined;
+
+const tieBreakerValue = (standing: TournamentStanding, tieBreaker: StandingsTieBreaker): number => {
+  switch (tieBreaker) {
+    case 'wins':
+      return standing.wins;
+    case 'bestRound':
+      return standing.bestRoundPoints;
+    case 'fewestDiscarderPenalties':
+      // Penalties are negative, so the smallest penalty is the highest value
+      return standing.discarderPenaltyPoints;
+    case 'averagePerHand':
+      return standing.handsPlayed > 0 ? standing.totalPoints / standing.handsPlayed : 0;
+  }
+};
+
+const compareStandings = (
+  a: TournamentStanding,
+  b: TournamentStanding,
+  tieBreakers: StandingsTieBreaker[]
+): number => {
+  if (a.totalPoints !== b.totalPoints) return b.totalPoints - a.totalPoints;
+  for (const tieBreaker of tieBreakers) {
+    const diff = tieBreakerValue(b, tieBreaker) - tieBreakerValue(a, tieBreaker);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+/**
+ * Standings across every round, highest total first. Entrants level on points
+ * are ordered by the event's tie-breakers in turn; those still level share a
+ * rank (1, 2, 2, 4).
+ */
+export const calculateStandings = (event: TournamentEvent): TournamentStanding[] => {
+  const standings: TournamentStanding[] = event.entrants.map((entrant) => ({
+    entrantId: entrant.id,
+    name: entrant.name,
+    rank: 0,
+    totalPoints: 0,
+    handsPlayed: 0,
+    wins: 0,
+    discarderPenaltyPoints: 0,
+    bestRoundPoints: 0,
+    roundPoints: event.rounds.map(() => 0),
+  }));
+  const byId = new Map(standings.map((s) => [s.entrantId, s]));
+
+  event.rounds.forEach((round, roundIndex) => {
+    round.hands.forEach((hand) => {
+      Object.entries(hand.pointsByPlayer).forEach(([id, points]) => {
+        const standing = byId.get(id);
+        if (!standing) return;
+        standing.totalPoints += points;
+        standing.handsPlayed += 1;
+        standing.roundPoints[roundIndex] += points;
+      });
+      if (isWin(hand)) {
+        const winner = byId.get(hand.winnerId!);
+        if (winner) winner.wins += 1;
+        const discarder = hand.discarderId ? byId.get(hand.discarderId) : undefined;
+        if (discarder) {
+          discarder.discarderPenaltyPoints += Math.min(0, hand.pointsByPlayer[discarder.entrantId] ?? 0);
+        }
+      }
+    });
+  });
+  standings.forEach((s) => {
+    s.bestRoundPoints = s.roundPoints.length > 0 ? Math.max(...s.roundPoints) : 0;
+  });
+
+  const sorted = [...standings].sort((a, b) => compareStandings(a, b, event.tieBreakers));
+  sorted.forEach((standing, index) => {
+    const previous = sorted[index - 1];
+    standing.rank =
+      previous && compareStandings(previous, standing, event.tieBreakers) === 0 ? previous.rank : index + 1;
+  });
+  return sorted;
+};